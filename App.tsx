@@ -1,32 +1,72 @@
-import React, { useState, useEffect } from 'react';
-import type { BrokerProfile, DailyEntry } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { AgencySettings, AuditAction, AuditRecord, BalanceAdjustment, BrokerAbsence, BrokerProfile, DailyEntry, Lead, MetricGoal, MonthCloseEvent, UserAccount } from './types';
 import BrokerManagement from './components/BrokerManagement';
+import SettingsScreen from './components/SettingsScreen';
 import BrokerDashboard from './components/BrokerDashboard'; // Renamed from Step2InitialLeads
+import LoginScreen from './components/LoginScreen';
+import ChangePinModal from './components/ChangePinModal';
+import EntryReminderBanner from './components/EntryReminderBanner';
+import { generateId } from './utils/id';
+import { ensureBrokerIds, getDraftKey, getExpiredTrash, isActiveBroker, TRASH_RETENTION_DAYS } from './utils/brokers';
+import { createDefaultSettings } from './utils/settings';
+import { setSalesGoalFromMonth } from './utils/goals';
+import { formatDate, getTodayString } from './utils/date';
+import { applyEntryChanges, createAuditRecords, diffBrokerEntries, getAuditAuthor, isSameEntryData, planRevert, setAuditAuthor, type EntryChange } from './utils/audit';
+import { formatMonthLabel, getClosedMonths, getEntryStatus, isDateInClosedMonth, keepClosedMonthEntries, reviewEntry, withSaveStatus } from './utils/approval';
+import { createEmptyEntryData } from './utils/metrics';
+import { absenceTypeLabels, createWorkingDayCheck } from './utils/calendar';
+import { entryReminderMessages, getEntryReminderReason, type EntryReminderReason } from './utils/compliance';
+import { checkBrokerConsistency, describeIssues, findIntroducedIssues } from './utils/consistency';
+import { createTransferAdjustments, removeTransferAdjustments, type LeadTransferRequest } from './utils/transfers';
+import * as storage from './services/storage';
+import * as sync from './services/sync';
+import { getNotificationState, requestNotificationPermission, showNotification } from './services/notifications';
+import { applySyncedRecords, createDefaultSyncConfig, MONTH_CLOSE_LOG_SYNC_KEY, parseSyncKey, type SyncStatus } from './utils/sync';
+import { canAccessBroker, createPinCredentials, hasPermission, roleLabels, verifyPin, type Permission, type UserAccountInput } from './utils/users';
+import type { QuarantinedRecord } from './services/storage';
 
-// Function to safely load brokers from localStorage on initial load.
-const getInitialBrokers = (): BrokerProfile[] => {
-  try {
-    const savedBrokers = localStorage.getItem('lead-performance-brokers');
-    if (savedBrokers) {
-      const parsedBrokers = JSON.parse(savedBrokers);
-      // Ensure the loaded data is an array to prevent runtime errors
-      if (Array.isArray(parsedBrokers)) {
-        return parsedBrokers;
-      }
-    }
-  } catch (error) {
-    console.error("Failed to load or parse brokers from localStorage", error);
-    // If data is corrupted, start with a clean slate to prevent app crash.
-  }
-  return []; // Default to an empty array if nothing is saved or data is corrupt.
+// Logs and reports a failed write. The in-memory state is kept so the user can export a backup.
+const persist = (operation: Promise<void>) => {
+  operation.catch(error => {
+    console.error("Failed to save data to IndexedDB", error);
+    alert('Não foi possível salvar a alteração no armazenamento do navegador. Exporte um backup para não perder dados.');
+  });
 };
 
+// Sync runs shortly after local changes, every minute and when the connection comes back
+const SYNC_DELAY_MS = 3000;
+const SYNC_INTERVAL_MS = 60 * 1000;
+const REMINDER_CHECK_INTERVAL_MS = 60 * 1000;
+// "<brokerId>|<date>" of the last system notification, so each day is notified once even across reloads
+const REMINDER_NOTIFIED_KEY = 'entry_reminder_notified';
+
+// The signed-in user lasts until the tab is closed or they sign out
+const SESSION_USER_KEY = 'session_user_id';
 
 const App: React.FC = () => {
-  // Use the lazy initializer for useState to read from localStorage only on the initial render.
-  const [brokers, setBrokers] = useState<BrokerProfile[]>(getInitialBrokers);
-  const [selectedBroker, setSelectedBroker] = useState<BrokerProfile | null>(null);
+  const [brokers, setBrokers] = useState<BrokerProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditRecord[]>([]);
+  const [settings, setSettings] = useState<AgencySettings>(createDefaultSettings);
+  const [monthCloseLog, setMonthCloseLog] = useState<MonthCloseEvent[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [currentUser, setCurrentUser] = useState<UserAccount | null>(null);
+  const [showChangePin, setShowChangePin] = useState(false);
+  const [selectedBrokerId, setSelectedBrokerId] = useState<string | null>(null);
+  const [focusedEntryDate, setFocusedEntryDate] = useState<string | null>(null); // Entry to open when the dashboard shows up
+  const selectedBroker = brokers.find(b => b.id === selectedBrokerId) || null;
+  const closedMonths = getClosedMonths(monthCloseLog);
   const [deferredPrompt, setDeferredPrompt] = useState<any | null>(null);
+  const [entryReminder, setEntryReminder] = useState<EntryReminderReason | null>(null);
+  const [reminderDismissedOn, setReminderDismissedOn] = useState<string | null>(null);
+  const [notificationState, setNotificationState] = useState(getNotificationState);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ config: createDefaultSyncConfig(), pending: 0, conflicts: [], isSyncing: false, error: null });
+  // Sync runs from timers and events, so it reads the brokers on screen through a ref
+  const brokersRef = useRef(brokers);
+  brokersRef.current = brokers;
 
   useEffect(() => {
     window.addEventListener('beforeinstallprompt', (e) => {
@@ -50,126 +90,651 @@ const App: React.FC = () => {
   };
 
 
-  // Save brokers to localStorage whenever the list changes.
+  // Load brokers from IndexedDB once. Unreadable records end up in quarantine instead of being lost.
   useEffect(() => {
+    storage.loadBrokers()
+      .then(loadedBrokers => {
+        // Brokers kept in the trash longer than the retention window are purged
+        const expired = getExpiredTrash(loadedBrokers);
+        expired.forEach(broker => persist(storage.deleteBroker(broker.id)));
+        setBrokers(loadedBrokers.filter(broker => !expired.includes(broker)));
+        return storage.loadSettings();
+      })
+      .then(loadedSettings => {
+        setSettings(loadedSettings);
+        return storage.loadMonthCloseLog();
+      })
+      .then(log => {
+        setMonthCloseLog(log);
+        return storage.getQuarantinedRecords();
+      })
+      .then(records => {
+        setQuarantinedRecords(records);
+        return storage.loadAuditLog();
+      })
+      .then(log => {
+        setAuditLog(log);
+        return storage.loadUsers();
+      })
+      .then(loadedUsers => {
+        setUsers(loadedUsers);
+        const sessionUser = loadedUsers.find(user => user.id === sessionStorage.getItem(SESSION_USER_KEY));
+        if (sessionUser) startSession(sessionUser);
+      })
+      .catch(error => {
+        console.error("Failed to load brokers from IndexedDB", error);
+        setLoadError('Não foi possível abrir o banco de dados do navegador. Nenhum dado foi apagado; tente recarregar a página.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startSession = (user: UserAccount) => {
+    setCurrentUser(user);
+    setAuditAuthor(user.name);
+    sessionStorage.setItem(SESSION_USER_KEY, user.id);
+    // Brokers go straight to their own dashboard; the others start on the management screen
+    setSelectedBrokerId(user.role === 'broker' ? user.brokerId || null : null);
+    setFocusedEntryDate(null);
+    setShowSettings(false);
+  };
+
+  // PIN hashing may be unavailable (see hashPin); the reason is shown instead of failing silently
+  const alertPinError = (error: unknown) => {
+    console.error("Failed to hash a PIN", error);
+    alert(error instanceof Error ? error.message : String(error));
+  };
+
+  const handleSignIn = async (userId: string, pin: string): Promise<boolean> => {
+    const user = users.find(u => u.id === userId);
     try {
-      localStorage.setItem('lead-performance-brokers', JSON.stringify(brokers));
+      if (!user || !(await verifyPin(user, pin))) return false;
     } catch (error) {
-      console.error("Failed to save brokers to localStorage", error);
+      alertPinError(error);
+      return false;
     }
-  }, [brokers]);
+    startSession(user);
+    return true;
+  };
+
+  const handleSignOut = () => {
+    setCurrentUser(null);
+    setAuditAuthor('');
+    sessionStorage.removeItem(SESSION_USER_KEY);
+    setSelectedBrokerId(null);
+    setShowSettings(false);
+  };
+
+  const saveUsers = (updatedUsers: UserAccount[]) => {
+    setUsers(updatedUsers);
+    persist(storage.saveUsers(updatedUsers));
+  };
+
+  const handleCreateFirstAdmin = (name: string, pin: string) => {
+    createPinCredentials(pin)
+      .then(credentials => {
+        const admin: UserAccount = { id: generateId(), name, role: 'admin', createdAt: new Date().toISOString(), ...credentials };
+        saveUsers([admin]);
+        startSession(admin);
+      })
+      .catch(alertPinError);
+  };
+
+  // Screens hide what a role may not do; handlers check again, so nothing is saved through another path
+  const requirePermission = (permission: Permission): boolean => {
+    if (currentUser && hasPermission(currentUser, permission)) return true;
+    alert('Seu perfil de acesso não permite esta ação.');
+    return false;
+  };
 
-  const handleAddBroker = (brokerName: string, initialLeads: number, monthlySalesGoal: number) => {
-    if (brokers.some(b => b.brokerName.toLowerCase() === brokerName.toLowerCase())) {
-      alert('Já existe um corretor com este nome.');
+  const handleSaveUser = async (input: UserAccountInput, pin: string | null) => {
+    if (!requirePermission('manageUsers')) return;
+    let credentials: Partial<Pick<UserAccount, 'pinHash' | 'pinSalt'>> = {};
+    try {
+      if (pin) credentials = await createPinCredentials(pin);
+    } catch (error) {
+      alertPinError(error);
+      return;
+    }
+    const existing = users.find(user => user.id === input.id);
+    const saved: UserAccount = existing
+      ? { ...existing, ...input, ...credentials }
+      : { ...input, id: generateId(), createdAt: new Date().toISOString(), pinHash: credentials.pinHash!, pinSalt: credentials.pinSalt! };
+    saveUsers(existing ? users.map(user => (user.id === saved.id ? saved : user)) : [...users, saved]);
+    if (saved.id === currentUser?.id) {
+      setCurrentUser(saved);
+      setAuditAuthor(saved.name);
+    }
+  };
+
+  const handleDeleteUser = (userId: string) => {
+    if (!requirePermission('manageUsers') || userId === currentUser?.id) return;
+    saveUsers(users.filter(user => user.id !== userId));
+  };
+
+  // null when hashing failed: the error was shown already, it says nothing about the current PIN
+  const handleChangeOwnPin = async (currentPin: string, newPin: string): Promise<boolean | null> => {
+    if (!currentUser) return false;
+    let credentials: Pick<UserAccount, 'pinHash' | 'pinSalt'>;
+    try {
+      if (!(await verifyPin(currentUser, currentPin))) return false;
+      credentials = await createPinCredentials(newPin);
+    } catch (error) {
+      alertPinError(error);
+      return null;
+    }
+    const updatedUser = { ...currentUser, ...credentials };
+    saveUsers(users.map(user => (user.id === updatedUser.id ? updatedUser : user)));
+    setCurrentUser(updatedUser);
+    return true;
+  };
+
+  const refreshSyncStatus = async () => {
+    const [config, { pending, conflicts }] = await Promise.all([storage.loadSyncConfig(), storage.getSyncStatus()]);
+    setSyncStatus(prev => ({ ...prev, config, pending, conflicts }));
+  };
+
+  // Shows the records sync wrote to storage, leaving the rest of the screen alone. Every day that changed
+  // is logged as one batch, like a restore.
+  const reloadSyncedBrokers = async (keys: string[], author: string) => {
+    const loadedBrokers = await storage.loadBrokers();
+    const previousBrokers = brokersRef.current;
+    const syncedBrokers = applySyncedRecords(previousBrokers, loadedBrokers, keys);
+    const brokersBefore = [
+      ...previousBrokers,
+      ...syncedBrokers.filter(b => !previousBrokers.some(p => p.id === b.id)).map(b => ({ ...b, dailyEntries: [] })),
+    ];
+    const records = createAuditRecords(brokersBefore, diffBrokerEntries(previousBrokers, syncedBrokers), author, 'sync');
+    setAuditLog(prevLog => [...prevLog, ...records]);
+    persist(storage.appendAuditRecords(records));
+    setBrokers(prevBrokers => applySyncedRecords(prevBrokers, loadedBrokers, keys));
+  };
+
+  const runSync = async () => {
+    const config = await storage.loadSyncConfig();
+    if (!config.serverUrl) return;
+    setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+    let error: string | null = null;
+    try {
+      const result = await sync.syncNow(getAuditAuthor());
+      if (result.pulled > 0) await reloadSyncedBrokers(result.keys, result.authors.join(', ') || 'Outro aparelho');
+      if (result.keys.includes(MONTH_CLOSE_LOG_SYNC_KEY)) setMonthCloseLog(await storage.loadMonthCloseLog());
+    } catch (syncError) {
+      console.error("Sync failed", syncError);
+      error = !navigator.onLine
+        ? 'Sem conexão. As alterações ficam na fila e serão enviadas quando a conexão voltar.'
+        : syncError instanceof TypeError
+          ? 'Não foi possível falar com o servidor de sincronização. As alterações ficam na fila.'
+          : syncError instanceof Error ? syncError.message : String(syncError);
+    }
+    await refreshSyncStatus();
+    setSyncStatus(prev => ({ ...prev, isSyncing: false, error }));
+  };
+
+  useEffect(() => {
+    if (isLoading || loadError) return;
+    const timer = setTimeout(runSync, SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [brokers, isLoading, loadError]);
+
+  useEffect(() => {
+    if (isLoading || loadError) return;
+    refreshSyncStatus().catch(error => console.error("Failed to read the sync status", error));
+    const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', runSync);
+    };
+  }, [isLoading, loadError]);
+
+  // Daily reminder for brokers: checked every minute, as the reminder time can pass with the app open
+  useEffect(() => {
+    const broker = currentUser?.role === 'broker' ? brokers.find(b => b.id === currentUser.brokerId) : undefined;
+    if (!broker || !isActiveBroker(broker)) {
+      setEntryReminder(null);
+      return;
+    }
+    const checkReminder = () => {
+      const today = getTodayString();
+      const reason = getEntryReminderReason(
+        settings.entryReminder,
+        new Date(),
+        createWorkingDayCheck(settings.calendar, broker.absences)(today),
+        broker.dailyEntries.some(entry => entry.date === today),
+        localStorage.getItem(getDraftKey(broker.id, today)) !== null
+      );
+      setEntryReminder(reason);
+      const notifiedKey = `${broker.id}|${today}`;
+      if (reason && localStorage.getItem(REMINDER_NOTIFIED_KEY) !== notifiedKey) {
+        // Marked only once shown, so permission granted later in the day still gets today's notification
+        showNotification('Lançamento do dia', entryReminderMessages[reason], 'entry-reminder')
+          .then(shown => { if (shown) localStorage.setItem(REMINDER_NOTIFIED_KEY, notifiedKey); })
+          .catch(error => console.error("Failed to show the reminder notification", error));
+      }
+    };
+    checkReminder();
+    const interval = setInterval(checkReminder, REMINDER_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [currentUser, brokers, settings.entryReminder, settings.calendar]);
+
+  const handleEnableNotifications = async () => {
+    setNotificationState(await requestNotificationPermission());
+  };
+
+  const handleSaveSyncConfig = (serverUrl: string, token: string) => {
+    if (!requirePermission('manageSettings')) return;
+    (serverUrl ? sync.connect(serverUrl, token) : sync.disconnect())
+      .then(refreshSyncStatus)
+      .then(runSync)
+      .catch(error => {
+        console.error("Failed to save the sync configuration", error);
+        alert('Não foi possível salvar a configuração de sincronização.');
+      });
+  };
+
+  // Keeping this device's version writes it back here and sends it over the other one on the next sync.
+  // The other device's version of a day in a closed month is only taken once the month is reopened.
+  const handleResolveSyncConflict = (key: string, keep: 'local' | 'remote') => {
+    if (!requirePermission('manageSettings')) return;
+    const conflict = syncStatus.conflicts.find(c => c.key === key);
+    if (keep === 'remote' && conflict?.closedMonth && !passesMonthLock([parseSyncKey(key).date!])) return;
+    storage.resolveSyncConflict(key, keep)
+      .then(() => reloadSyncedBrokers([key], getAuditAuthor()))
+      .then(refreshSyncStatus)
+      .then(runSync)
+      .catch(error => {
+        console.error("Failed to resolve a sync conflict", error);
+        alert('Não foi possível resolver o conflito. Tente novamente.');
+      });
+  };
+
+  const handleAddBroker = (brokerName: string, initialLeads: number, salesGoal: number) => {
+    if (!requirePermission('manageBrokers')) return;
+    // Names are no longer unique keys, but a duplicate is still most likely a typo.
+    if (brokers.some(b => b.brokerName.toLowerCase() === brokerName.toLowerCase()) &&
+        !confirm(`Já existe um corretor chamado "${brokerName}". Deseja cadastrar outro corretor com o mesmo nome?`)) {
       return;
     }
     const newBroker: BrokerProfile = {
+      id: generateId(),
       brokerName,
       initialLeads,
-      monthlySalesGoal,
+      // The goal applies from the current month on; earlier months had no goal for this broker
+      goalHistory: salesGoal > 0 ? { [getTodayString().slice(0, 7)]: salesGoal } : {},
       dailyEntries: [],
+      leads: [],
     };
     setBrokers(prev => [...prev, newBroker]);
+    persist(storage.saveBroker(newBroker));
   };
   
-  const handleUpdateBroker = (originalName: string, updatedData: { brokerName: string; initialLeads: number; monthlySalesGoal: number }): boolean => {
-    // Check for name duplication only if the name has changed.
-    if (originalName.toLowerCase() !== updatedData.brokerName.toLowerCase()) {
-      if (brokers.some(b => b.brokerName.toLowerCase() === updatedData.brokerName.toLowerCase())) {
-        alert('Já existe um corretor com este nome.');
-        return false; // Indicate failure
-      }
+  // Updates profile fields (not entries) of a broker and saves only that broker record.
+  const updateBrokerProfile = (brokerId: string, update: (broker: BrokerProfile) => BrokerProfile) => {
+    const broker = brokers.find(b => b.id === brokerId);
+    if (!broker) return;
+    const updatedBroker = update(broker);
+    // Entries may have changed in the meantime, so they are taken from the latest state
+    setBrokers(prevBrokers => prevBrokers.map(b => (b.id === brokerId ? { ...updatedBroker, dailyEntries: b.dailyEntries } : b)));
+    persist(storage.saveBroker(updatedBroker));
+  };
+
+  const handleUpdateBroker = (brokerId: string, updatedData: { brokerName: string; initialLeads: number; salesGoal: number; goalMonth: string; metricGoals: MetricGoal[] }): boolean => {
+    if (!requirePermission('manageBrokers')) return false;
+    if (brokers.some(b => b.id !== brokerId && b.brokerName.toLowerCase() === updatedData.brokerName.toLowerCase()) &&
+        !confirm(`Já existe outro corretor chamado "${updatedData.brokerName}". Deseja manter o nome mesmo assim?`)) {
+      return false; // Indicate failure
     }
 
-    setBrokers(prevBrokers => {
-      const newBrokers = prevBrokers.map(broker => {
-        if (broker.brokerName === originalName) {
-          // Preserve daily entries, only update name and initial leads
-          return { ...broker, ...updatedData };
-        }
-        return broker;
-      });
-      // Also update the selectedBroker state if it's the one being edited
-      if (selectedBroker && selectedBroker.brokerName === originalName) {
-          const updatedSelected = newBrokers.find(b => b.brokerName === updatedData.brokerName);
-          if (updatedSelected) {
-              setSelectedBroker(updatedSelected);
-          }
-      }
-      return newBrokers;
-    });
+    // Preserve id and daily entries, only update name, initial leads, other goals and the sales goal from the chosen month on
+    const { salesGoal, goalMonth, ...profileData } = updatedData;
+    updateBrokerProfile(brokerId, broker => setSalesGoalFromMonth({ ...broker, ...profileData }, goalMonth, salesGoal));
     return true; // Indicate success
   };
 
-  const handleDeleteBroker = (brokerNameToDelete: string) => {
-    if (!confirm(`Tem certeza que deseja excluir o corretor "${brokerNameToDelete}"? Todos os seus lançamentos serão perdidos permanentemente.`)) {
+  // Sets the sales goal of several brokers at once, starting at the given month (YYYY-MM).
+  const handleSetTeamSalesGoals = (month: string, goals: Record<string, number>) => {
+    if (!requirePermission('manageBrokers')) return;
+    const updatedBrokers = brokers
+      .filter(broker => goals[broker.id] !== undefined)
+      .map(broker => setSalesGoalFromMonth(broker, month, goals[broker.id]));
+    setBrokers(prevBrokers => prevBrokers.map(broker => {
+      const updated = updatedBrokers.find(b => b.id === broker.id);
+      return updated ? { ...updated, dailyEntries: broker.dailyEntries } : broker;
+    }));
+    updatedBrokers.forEach(broker => persist(storage.saveBroker(broker)));
+  };
+
+  // Archived brokers leave the entry flow; their history stays available to rankings and reports.
+  const handleArchiveBroker = (brokerId: string, archived: boolean) => {
+    if (!requirePermission('manageBrokers')) return;
+    updateBrokerProfile(brokerId, broker => {
+      const { archivedAt, ...profile } = broker;
+      return archived ? { ...profile, archivedAt: new Date().toISOString() } : profile;
+    });
+    if (archived && selectedBrokerId === brokerId) {
+      setSelectedBrokerId(null);
+    }
+  };
+
+  // Deleting moves the broker to the trash, from where it can be restored until the retention window ends.
+  const handleDeleteBroker = (brokerId: string) => {
+    if (!requirePermission('deleteBrokers')) return;
+    const brokerToDelete = brokers.find(b => b.id === brokerId);
+    if (!brokerToDelete) return;
+    if (!confirm(`Mover o corretor "${brokerToDelete.brokerName}" para a lixeira? Ele e seus lançamentos poderão ser restaurados por ${TRASH_RETENTION_DAYS} dias; depois disso serão apagados permanentemente.`)) {
       return;
     }
-    setBrokers(prevBrokers => prevBrokers.filter(broker => broker.brokerName !== brokerNameToDelete));
+    updateBrokerProfile(brokerId, broker => ({ ...broker, deletedAt: new Date().toISOString() }));
     // If the deleted broker was selected, go back to the management screen
-    if (selectedBroker && selectedBroker.brokerName === brokerNameToDelete) {
-      setSelectedBroker(null);
+    if (selectedBrokerId === brokerId) {
+      setSelectedBrokerId(null);
     }
   };
 
-  const handleSelectBroker = (brokerName: string) => {
-    const broker = brokers.find(b => b.brokerName === brokerName);
-    if (broker) {
-      setSelectedBroker(broker);
+  const handleRestoreDeletedBroker = (brokerId: string) => {
+    if (!requirePermission('deleteBrokers')) return;
+    updateBrokerProfile(brokerId, broker => {
+      const { deletedAt, ...profile } = broker;
+      return profile;
+    });
+  };
+
+  const handlePurgeBroker = (brokerId: string) => {
+    if (!requirePermission('deleteBrokers')) return;
+    const brokerToPurge = brokers.find(b => b.id === brokerId);
+    if (!brokerToPurge) return;
+    if (!confirm(`Excluir definitivamente o corretor "${brokerToPurge.brokerName}"? Todos os seus lançamentos serão perdidos permanentemente.`)) {
+      return;
+    }
+    setBrokers(prevBrokers => prevBrokers.filter(broker => broker.id !== brokerId));
+    persist(storage.deleteBroker(brokerId));
+  };
+
+  const handleSelectBroker = (brokerId: string) => {
+    if (currentUser && canAccessBroker(currentUser, brokerId) && brokers.some(b => b.id === brokerId && isActiveBroker(b))) {
+      setSelectedBrokerId(brokerId);
+      setFocusedEntryDate(null);
+    }
+  };
+
+  // Opens the dashboard of a broker with the form on the given day, e.g. to fix a consistency issue.
+  const handleOpenEntry = (brokerId: string, date: string) => {
+    if (currentUser && canAccessBroker(currentUser, brokerId) && brokers.some(b => b.id === brokerId && isActiveBroker(b))) {
+      setSelectedBrokerId(brokerId);
+      setFocusedEntryDate(date);
     }
   };
 
   const handleSwitchBroker = () => {
-    setSelectedBroker(null);
-  };
-
-  const handleSaveEntry = (entry: DailyEntry) => {
-    if (!selectedBroker) return;
-
-    setBrokers(prevBrokers => {
-      return prevBrokers.map(broker => {
-        if (broker.brokerName === selectedBroker.brokerName) {
-          const existingIndex = broker.dailyEntries.findIndex(e => e.date === entry.date);
-          let updatedEntries;
-
-          if (existingIndex > -1) {
-            updatedEntries = [...broker.dailyEntries];
-            updatedEntries[existingIndex] = entry;
-          } else {
-            updatedEntries = [...broker.dailyEntries, entry];
-          }
-          const updatedBroker = { ...broker, dailyEntries: updatedEntries };
-          // Also update the selectedBroker state to reflect changes immediately
-          setSelectedBroker(updatedBroker);
-          return updatedBroker;
-        }
-        return broker;
-      });
+    if (!requirePermission('viewTeam')) return;
+    setSelectedBrokerId(null);
+  };
+
+  // Every entry write goes through here so that it is logged. Changes that alter nothing are not
+  // written at all. The selected profile is derived from `brokers`, so the dashboard updates immediately.
+  const commitEntryChanges = (changes: EntryChange[], action?: AuditAction, revertsRecordIds?: Record<string, string>): number => {
+    const records = createAuditRecords(brokers, changes, getAuditAuthor(), action, revertsRecordIds);
+    if (records.length === 0) return 0;
+    const effectiveChanges = changes.filter(change => records.some(r => r.brokerId === change.brokerId && r.date === change.date));
+    setBrokers(prevBrokers => applyEntryChanges(prevBrokers, effectiveChanges));
+    setAuditLog(prevLog => [...prevLog, ...records]);
+    persist(storage.commitEntryChanges(effectiveChanges, records));
+    return records.length;
+  };
+
+  // Runs the consistency rules on what the changes (to the given days) would leave behind. Blocking
+  // issues stop the save; warnings let the user decide. Returns whether the changes may be saved.
+  const passesConsistencyCheck = (changes: Pick<EntryChange, 'brokerId' | 'date'>[], brokersAfter: BrokerProfile[]): boolean => {
+    const issues = findIntroducedIssues(brokers, brokersAfter, changes, settings.metrics, settings.consistencyRules, getTodayString());
+    const errors = issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      alert(`Não foi possível salvar. Corrija as inconsistências abaixo:\n\n${describeIssues(errors)}`);
+      return false;
+    }
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+    return warnings.length === 0 || confirm(`Atenção:\n\n${describeIssues(warnings)}\n\nDeseja salvar mesmo assim?`);
+  };
+
+  // Entries of closed months cannot change until the month is reopened
+  const passesMonthLock = (dates: string[]): boolean => {
+    const locked = [...new Set(dates.filter(date => isDateInClosedMonth(closedMonths, date)).map(date => date.slice(0, 7)))];
+    if (locked.length === 0) return true;
+    alert(`Não é possível alterar lançamentos de mês fechado (${locked.map(formatMonthLabel).join(', ')}). Peça a um gerente para reabrir o mês.`);
+    return false;
+  };
+
+  // Saved entries are submitted for approval, or approved right away when the user approves entries.
+  // A day saved again without changes keeps its status, so nothing is written for it.
+  const withEntryStatus = (changes: EntryChange[]): EntryChange[] => {
+    const approvedBy = currentUser && hasPermission(currentUser, 'approveEntries') ? currentUser.name : null;
+    return changes.map(change => {
+      if (!change.entry) return change;
+      const previous = brokers.find(b => b.id === change.brokerId)?.dailyEntries.find(e => e.date === change.date);
+      const entry = withSaveStatus(change.entry, approvedBy);
+      const isUnchanged = previous && getEntryStatus(previous) === entry.status && isSameEntryData(previous, entry);
+      return { ...change, entry: isUnchanged ? previous : entry };
     });
   };
+
+  // The save handlers return false when the month lock or the consistency check stopped the save
+  const handleSaveEntry = (entry: DailyEntry): boolean => {
+    if (!selectedBrokerId || !passesMonthLock([entry.date])) return false;
+    const changes = withEntryStatus([{ brokerId: selectedBrokerId, date: entry.date, entry }]);
+    if (!passesConsistencyCheck(changes, applyEntryChanges(brokers, changes))) return false;
+    commitEntryChanges(changes);
+    return true;
+  };
+
+  // Several days saved as one unit (bulk edit, CSV import), so they can be reviewed and reverted together
+  const handleSaveEntries = (entries: DailyEntry[], action: 'bulkEdit' | 'import'): boolean => {
+    if (!selectedBrokerId || !passesMonthLock(entries.map(entry => entry.date))) return false;
+    const changes = withEntryStatus(entries.map(entry => ({ brokerId: selectedBrokerId, date: entry.date, entry })));
+    if (!passesConsistencyCheck(changes, applyEntryChanges(brokers, changes))) return false;
+    commitEntryChanges(changes, action);
+    return true;
+  };
   
-  const handleDeleteEntry = (date: string) => {
-    if (!selectedBroker) return;
-
-    setBrokers(prevBrokers => {
-      return prevBrokers.map(broker => {
-        if (broker.brokerName === selectedBroker.brokerName) {
-          const updatedEntries = broker.dailyEntries.filter(e => e.date !== date);
-          const updatedBroker = { ...broker, dailyEntries: updatedEntries };
-          setSelectedBroker(updatedBroker); // Update live view
-          return updatedBroker;
-        }
-        return broker;
+  // An approved day counts in the ranking, so only someone who may approve days can take it out
+  const handleDeleteEntry = (date: string): boolean => {
+    if (!selectedBrokerId || !passesMonthLock([date])) return false;
+    const existing = brokers.find(b => b.id === selectedBrokerId)?.dailyEntries.find(e => e.date === date);
+    if (existing && getEntryStatus(existing) === 'approved' && !(currentUser && hasPermission(currentUser, 'approveEntries'))) {
+      alert('Este lançamento já foi aprovado. Só quem aprova lançamentos pode excluí-lo.');
+      return false;
+    }
+    const changes = [{ brokerId: selectedBrokerId, date, entry: null }];
+    if (!passesConsistencyCheck(changes, applyEntryChanges(brokers, changes))) return false;
+    commitEntryChanges(changes);
+    return true;
+  };
+
+  // Approves or rejects submitted days. Only the status changes, so the consistency rules are not run again.
+  const handleReviewEntries = (items: { brokerId: string; date: string }[], approved: boolean, comment?: string): boolean => {
+    if (!requirePermission('approveEntries') || !passesMonthLock(items.map(item => item.date))) return false;
+    const changes = items.flatMap(({ brokerId, date }) => {
+      const entry = brokers.find(b => b.id === brokerId)?.dailyEntries.find(e => e.date === date);
+      return entry ? [{ brokerId, date, entry: reviewEntry(entry, approved, getAuditAuthor(), comment) }] : [];
+    });
+    return commitEntryChanges(changes, 'review') > 0;
+  };
+
+  const appendMonthCloseEvent = (event: Omit<MonthCloseEvent, 'id' | 'author' | 'at'>) => {
+    const newEvent = { ...event, id: generateId(), author: getAuditAuthor(), at: new Date().toISOString() };
+    setMonthCloseLog(prevLog => [...prevLog, newEvent]);
+    // The stored log comes back with whatever sync added to it meanwhile
+    persist(storage.appendMonthCloseEvent(newEvent).then(log => setMonthCloseLog(log)));
+  };
+
+  const handleCloseMonth = (month: string) => {
+    if (!requirePermission('closeMonths') || closedMonths.has(month)) return;
+    appendMonthCloseEvent({ month, action: 'close' });
+  };
+
+  const handleReopenMonth = (month: string, reason: string) => {
+    if (!requirePermission('closeMonths') || !closedMonths.has(month)) return;
+    appendMonthCloseEvent({ month, action: 'reopen', reason });
+  };
+
+  // Adds the leads handed out by the distribution planner to the new leads of each broker's day.
+  const handleRecordLeadDistribution = (date: string, allocations: Record<string, number>): boolean => {
+    if (!requirePermission('adjustBalances') || !passesMonthLock([date])) return false;
+    const changes = brokers
+      .filter(broker => (allocations[broker.id] || 0) > 0)
+      .map(broker => {
+        const existing = broker.dailyEntries.find(entry => entry.date === date);
+        // Days the broker already saved keep their review status; new days are the manager's and count right away
+        const entry: DailyEntry = existing
+          ? { ...existing, newLeads: existing.newLeads + allocations[broker.id] }
+          : withSaveStatus({ ...createEmptyEntryData(), date, newLeads: allocations[broker.id] }, getAuditAuthor());
+        return { brokerId: broker.id, date, entry };
       });
+    if (changes.length === 0) return false;
+    if (!passesConsistencyCheck(changes, applyEntryChanges(brokers, changes))) return false;
+    commitEntryChanges(changes, 'distribution');
+    return true;
+  };
+
+  // Puts the days touched by the given audit records back the way they were before them.
+  const handleRevertChanges = (records: AuditRecord[]) => {
+    if (!requirePermission('revertChanges')) return;
+    if (!passesMonthLock(records.map(record => record.date))) return;
+    const plan = planRevert(records, brokers);
+    if (plan.changes.length === 0) {
+      alert('Não é possível reverter: o corretor destes lançamentos não existe mais.');
+      return;
+    }
+    const warnings = [
+      plan.overwritten.length > 0 ? `${plan.overwritten.length} dia(s) foram alterados depois desta mudança; essas alterações posteriores serão substituídas.` : '',
+      plan.missingBroker.length > 0 ? `${plan.missingBroker.length} dia(s) de corretores que não existem mais serão ignorados.` : '',
+    ].filter(Boolean);
+    if (!confirm([`Reverter ${plan.changes.length} dia(s) para o valor anterior à mudança?`, ...warnings].join('\n\n'))) return;
+    if (commitEntryChanges(plan.changes, 'revert', plan.revertsRecordIds) === 0) {
+      alert('Os lançamentos já estão com os valores de antes desta mudança.');
+      return;
+    }
+    // A draft would hide the reverted value in the daily form
+    plan.changes.forEach(change => localStorage.removeItem(getDraftKey(change.brokerId, change.date)));
+  };
+
+  // Adjustments are part of the profile (like leads) and go through the same consistency check as entries,
+  // since they move every later balance. `updatedBrokers` carry the new adjustments of every broker involved.
+  const commitBalanceAdjustments = (updatedBrokers: BrokerProfile[], date: string): boolean => {
+    if (!requirePermission('adjustBalances') || !passesMonthLock([date])) return false;
+    const brokersAfter = brokers.map(broker => updatedBrokers.find(b => b.id === broker.id) || broker);
+    if (!passesConsistencyCheck(updatedBrokers.map(broker => ({ brokerId: broker.id, date })), brokersAfter)) return false;
+    updatedBrokers.forEach(updated => updateBrokerProfile(updated.id, broker => ({ ...broker, balanceAdjustments: updated.balanceAdjustments })));
+    return true;
+  };
+
+  const updateBalanceAdjustments = (date: string, update: (adjustments: BalanceAdjustment[]) => BalanceAdjustment[]): boolean => {
+    if (!selectedBroker) return false;
+    return commitBalanceAdjustments([{ ...selectedBroker, balanceAdjustments: update(selectedBroker.balanceAdjustments || []) }], date);
+  };
+
+  const handleAddBalanceAdjustment = (adjustment: Pick<BalanceAdjustment, 'date' | 'amount' | 'reason' | 'note'>): boolean =>
+    updateBalanceAdjustments(adjustment.date, adjustments => [
+      ...adjustments,
+      { ...adjustment, id: generateId(), author: getAuditAuthor(), createdAt: new Date().toISOString() },
+    ]);
+
+  // Either side of a transfer undoes the whole transfer, so the leads never disappear from one side only
+  const handleDeleteBalanceAdjustment = (adjustment: BalanceAdjustment): boolean =>
+    adjustment.transferId
+      ? handleUndoLeadTransfer(adjustment.transferId)
+      : updateBalanceAdjustments(adjustment.date, adjustments => adjustments.filter(a => a.id !== adjustment.id));
+
+  // Hands part of a broker's base over to colleagues: lowers the source and raises each destination on the same day.
+  const handleTransferLeads = (request: LeadTransferRequest): boolean => {
+    const adjustmentsByBroker = createTransferAdjustments(brokers, request, getAuditAuthor());
+    const updatedBrokers = brokers
+      .filter(broker => adjustmentsByBroker.has(broker.id))
+      .map(broker => ({ ...broker, balanceAdjustments: [...(broker.balanceAdjustments || []), ...adjustmentsByBroker.get(broker.id)!] }));
+    return commitBalanceAdjustments(updatedBrokers, request.date);
+  };
+
+  const handleUndoLeadTransfer = (transferId: string): boolean => {
+    const updatedBrokers = removeTransferAdjustments(brokers, transferId);
+    const date = brokers.flatMap(broker => broker.balanceAdjustments || []).find(a => a.transferId === transferId)?.date;
+    if (!date) return false;
+    return commitBalanceAdjustments(updatedBrokers, date);
+  };
+
+  const handleSaveLead = (lead: Lead) => {
+    if (!selectedBrokerId) return;
+    updateBrokerProfile(selectedBrokerId, broker => {
+      const leads = broker.leads || [];
+      const updatedLeads = leads.some(l => l.id === lead.id)
+        ? leads.map(l => (l.id === lead.id ? lead : l))
+        : [...leads, lead];
+      return { ...broker, leads: updatedLeads };
     });
   };
-  
+
+  const handleDeleteLead = (leadId: string) => {
+    if (!selectedBrokerId) return;
+    updateBrokerProfile(selectedBrokerId, broker => ({ ...broker, leads: (broker.leads || []).filter(l => l.id !== leadId) }));
+  };
+
+  // Absences only change which days are working days for the broker; entries are left untouched
+  const handleAddAbsence = (absence: Omit<BrokerAbsence, 'id'>): boolean => {
+    if (!selectedBroker || !requirePermission('manageBrokers')) return false;
+    const overlapping = (selectedBroker.absences || []).find(a => a.startDate <= absence.endDate && absence.startDate <= a.endDate);
+    if (overlapping) {
+      alert(`O período coincide com ${absenceTypeLabels[overlapping.type]} de ${formatDate(overlapping.startDate)} a ${formatDate(overlapping.endDate)}. Remova-a ou escolha outras datas.`);
+      return false;
+    }
+    updateBrokerProfile(selectedBroker.id, broker => ({ ...broker, absences: [...(broker.absences || []), { ...absence, id: generateId() }] }));
+    return true;
+  };
+
+  const handleDeleteAbsence = (absenceId: string) => {
+    if (!selectedBrokerId || !requirePermission('manageBrokers')) return;
+    updateBrokerProfile(selectedBrokerId, broker => ({ ...broker, absences: (broker.absences || []).filter(a => a.id !== absenceId) }));
+  };
+
+  const handleSaveSettings = (updatedSettings: AgencySettings) => {
+    if (!requirePermission('manageSettings')) return;
+    setSettings(updatedSettings);
+    persist(storage.saveSettings(updatedSettings));
+  };
+
   const handleRestoreBrokers = (restoredBrokers: BrokerProfile[]) => {
+    if (!requirePermission('manageBackups')) return;
     // Basic validation to ensure we're setting an array
     if (Array.isArray(restoredBrokers)) {
-        setBrokers(restoredBrokers);
-        alert('Dados restaurados com sucesso!');
+        // Backups made before brokers had IDs are migrated on the way in. Days of closed months keep
+        // their current values, as anywhere else.
+        const incomingBrokers = ensureBrokerIds(restoredBrokers);
+        const migratedBrokers = keepClosedMonthEntries(incomingBrokers, brokers, closedMonths);
+        const keptClosedMonths = diffBrokerEntries(incomingBrokers, migratedBrokers).length > 0;
+        const previousBrokers = brokers;
+        storage.replaceAllBrokers(migratedBrokers)
+          // Reload so the screen shows exactly what was stored (invalid records go to quarantine)
+          .then(() => storage.loadBrokers())
+          .then(loadedBrokers => {
+            // Every day the restore created, changed or removed is logged as one batch. Brokers that
+            // only exist in the backup count as having had no entries before.
+            const brokersBefore = [
+              ...previousBrokers,
+              ...loadedBrokers.filter(b => !previousBrokers.some(p => p.id === b.id)).map(b => ({ ...b, dailyEntries: [] })),
+            ];
+            const records = createAuditRecords(brokersBefore, diffBrokerEntries(previousBrokers, loadedBrokers), getAuditAuthor(), 'restore');
+            setAuditLog(prevLog => [...prevLog, ...records]);
+            persist(storage.appendAuditRecords(records));
+            setBrokers(loadedBrokers);
+            setSelectedBrokerId(null);
+            return storage.getQuarantinedRecords();
+          })
+          .then(records => {
+            setQuarantinedRecords(records);
+            alert(keptClosedMonths
+              ? 'Dados restaurados com sucesso! Os lançamentos de meses fechados foram mantidos como estavam.'
+              : 'Dados restaurados com sucesso!');
+          })
+          .catch(error => {
+            console.error("Failed to restore backup", error);
+            alert('Não foi possível gravar o backup no armazenamento do navegador. A restauração falhou.');
+          });
     } else {
         alert('O arquivo de backup parece estar corrompido. A restauração falhou.');
     }
@@ -184,32 +749,112 @@ const App: React.FC = () => {
             Performance de Leads
           </h1>
           <p className="text-text-secondary mt-2 text-lg">
-            {selectedBroker ? `Diário de Bordo de ${selectedBroker.brokerName}` : 'Gerenciamento de Performance de Corretores'}
+            {!currentUser ? 'Acesso' : showSettings ? 'Configurações da Imobiliária' : selectedBroker ? `Diário de Bordo de ${selectedBroker.brokerName}` : 'Gerenciamento de Performance de Corretores'}
           </p>
+          {currentUser && (
+            <div className="mt-4 flex flex-wrap justify-center items-center gap-3 text-sm text-text-secondary">
+              <span>{currentUser.name} · {roleLabels[currentUser.role]}</span>
+              <button onClick={() => setShowChangePin(true)} className="px-3 py-1 bg-surface-input rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Alterar PIN</button>
+              <button onClick={handleSignOut} className="px-3 py-1 bg-surface-input rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Sair</button>
+            </div>
+          )}
         </header>
 
         <main>
-          {!selectedBroker ? (
+          {currentUser && entryReminder && reminderDismissedOn !== getTodayString() && (
+            <EntryReminderBanner
+              reason={entryReminder}
+              notificationState={notificationState}
+              onOpenToday={() => currentUser.brokerId && handleOpenEntry(currentUser.brokerId, getTodayString())}
+              onEnableNotifications={handleEnableNotifications}
+              onDismiss={() => setReminderDismissedOn(getTodayString())}
+            />
+          )}
+          {isLoading ? (
+            <p className="text-center text-text-secondary py-8">Carregando dados...</p>
+          ) : loadError ? (
+            <p className="text-center text-red-600 py-8" role="alert">{loadError}</p>
+          ) : !currentUser ? (
+            <LoginScreen users={users} onSignIn={handleSignIn} onCreateFirstAdmin={handleCreateFirstAdmin} />
+          ) : showSettings && hasPermission(currentUser, 'manageSettings') ? (
+            <SettingsScreen
+              settings={settings}
+              onSaveSettings={handleSaveSettings}
+              onClose={() => setShowSettings(false)}
+              brokers={brokers}
+              syncStatus={syncStatus}
+              onSaveSyncConfig={handleSaveSyncConfig}
+              onSyncNow={runSync}
+              onResolveSyncConflict={handleResolveSyncConflict}
+              users={users}
+              currentUserId={currentUser.id}
+              onSaveUser={handleSaveUser}
+              onDeleteUser={handleDeleteUser}
+            />
+          ) : currentUser.role === 'broker' && !(selectedBroker && isActiveBroker(selectedBroker)) ? (
+            <p className="text-center text-text-secondary py-8" role="alert">
+              Seu cadastro de corretor não está ativo. Peça a um gerente ou administrador para verificar seu usuário.
+            </p>
+          ) : !selectedBroker ? (
             <BrokerManagement 
               brokers={brokers} 
+              metrics={settings.metrics}
+              discardReasons={settings.discardReasons}
+              consistencyRules={settings.consistencyRules}
+              distributionSettings={settings.leadDistribution}
+              branding={settings}
+              currentUser={currentUser}
+              monthCloseLog={monthCloseLog}
+              calendar={settings.calendar}
+              onReviewEntries={handleReviewEntries}
+              onCloseMonth={handleCloseMonth}
+              onReopenMonth={handleReopenMonth}
               onAddBroker={handleAddBroker} 
               onSelectBroker={handleSelectBroker} 
               onUpdateBroker={handleUpdateBroker}
+              onSetTeamSalesGoals={handleSetTeamSalesGoals}
+              onArchiveBroker={handleArchiveBroker}
               onDeleteBroker={handleDeleteBroker}
+              onOpenEntry={handleOpenEntry}
+              onRestoreDeletedBroker={handleRestoreDeletedBroker}
+              onPurgeBroker={handlePurgeBroker}
+              onTransferLeads={handleTransferLeads}
+              onUndoLeadTransfer={handleUndoLeadTransfer}
+              onRecordLeadDistribution={handleRecordLeadDistribution}
               onRestoreBrokers={handleRestoreBrokers}
+              quarantinedRecords={quarantinedRecords}
               deferredPrompt={deferredPrompt}
               onInstallClick={handleInstallClick}
+              onOpenSettings={() => setShowSettings(true)}
             />
           ) : (
             <BrokerDashboard // Renamed from Dashboard (Step2InitialLeads)
               profile={selectedBroker} 
+              metrics={settings.metrics}
+              discardReasons={settings.discardReasons}
+              branding={settings}
+              currentUser={currentUser}
+              closedMonths={closedMonths}
+              calendar={settings.calendar}
               onSaveEntry={handleSaveEntry} 
+              onSaveEntries={handleSaveEntries}
               onDeleteEntry={handleDeleteEntry}
+              auditLog={auditLog.filter(record => record.brokerId === selectedBroker.id)}
+              consistencyIssues={checkBrokerConsistency(selectedBroker, settings.metrics, settings.consistencyRules, getTodayString())}
+              initialDate={focusedEntryDate}
+              onRevertChanges={handleRevertChanges}
+              onAddBalanceAdjustment={handleAddBalanceAdjustment}
+              onDeleteBalanceAdjustment={handleDeleteBalanceAdjustment}
+              onSaveLead={handleSaveLead}
+              onDeleteLead={handleDeleteLead}
+              onAddAbsence={handleAddAbsence}
+              onDeleteAbsence={handleDeleteAbsence}
               onReset={handleSwitchBroker} 
             />
           )}
         </main>
       </div>
+      {showChangePin && <ChangePinModal onChangePin={handleChangeOwnPin} onClose={() => setShowChangePin(false)} />}
     </div>
   );
 };
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, MetricDefinition } from '../types';
+import { getPendingEntries, type PendingEntry } from '../utils/approval';
+import { getMetricValue } from '../utils/metrics';
+import { formatDate } from '../utils/date';
+
+interface ApprovalInboxProps {
+  brokers: BrokerProfile[];
+  metrics: MetricDefinition[];
+  onReviewEntries: (items: { brokerId: string; date: string }[], approved: boolean, comment?: string) => boolean;
+  onOpenEntry: (brokerId: string, date: string) => void;
+}
+
+const getItemKey = (item: PendingEntry) => `${item.brokerId}|${item.entry.date}`;
+
+// Entries submitted by brokers, waiting for a manager. They only count in the ranking once approved.
+const ApprovalInbox: React.FC<ApprovalInboxProps> = ({ brokers, metrics, onReviewEntries, onOpenEntry }) => {
+  const [rejectingKey, setRejectingKey] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const pending = getPendingEntries(brokers);
+
+  const handleReject = (item: PendingEntry) => {
+    if (!comment.trim()) {
+      alert('Explique ao corretor o que precisa ser corrigido.');
+      return;
+    }
+    if (onReviewEntries([{ brokerId: item.brokerId, date: item.entry.date }], false, comment)) {
+      setRejectingKey(null);
+      setComment('');
+    }
+  };
+
+  const handleApproveAll = () => {
+    if (!confirm(`Aprovar os ${pending.length} lançamentos pendentes?`)) return;
+    onReviewEntries(pending.map(item => ({ brokerId: item.brokerId, date: item.entry.date })), true);
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-2">
+        <h2 className="text-2xl font-semibold text-text-primary">Lançamentos para Aprovar ({pending.length})</h2>
+        {pending.length > 1 && (
+          <button onClick={handleApproveAll} className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg font-semibold hover:bg-emerald-700 transition-colors">
+            Aprovar todos
+          </button>
+        )}
+      </div>
+      <p className="text-text-secondary mb-6">Lançamentos enviados pelos corretores só contam no ranking e no comparativo depois de aprovados.</p>
+      {pending.length === 0 ? (
+        <p className="text-center text-text-secondary py-4">Nenhum lançamento aguardando aprovação.</p>
+      ) : (
+        <ul className="space-y-3 max-h-[32rem] overflow-y-auto pr-2">
+          {pending.map(item => {
+            const key = getItemKey(item);
+            const values = metrics
+              .filter(metric => getMetricValue(item.entry, metric.key) > 0)
+              .map(metric => `${metric.label}: ${getMetricValue(item.entry, metric.key)}`);
+            return (
+              <li key={key} className="p-3 rounded-lg border border-gray-100 bg-surface-input">
+                <div className="flex flex-wrap justify-between items-start gap-2">
+                  <div>
+                    <p className="font-semibold text-text-primary">
+                      {item.brokerName} · {formatDate(item.entry.date)}
+                    </p>
+                    <p className="text-xs text-text-secondary">{values.length > 0 ? values.join(' • ') : 'Dia sem movimentação'}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => onOpenEntry(item.brokerId, item.entry.date)} className="px-3 py-1 text-sm bg-white border border-gray-200 rounded-md font-semibold text-text-secondary hover:bg-gray-100">
+                      Abrir
+                    </button>
+                    <button
+                      onClick={() => { setRejectingKey(rejectingKey === key ? null : key); setComment(''); }}
+                      className="px-3 py-1 text-sm bg-red-50 text-red-700 border border-red-200 rounded-md font-semibold hover:bg-red-100"
+                    >
+                      Recusar
+                    </button>
+                    <button
+                      onClick={() => onReviewEntries([{ brokerId: item.brokerId, date: item.entry.date }], true)}
+                      className="px-3 py-1 text-sm bg-emerald-600 text-white rounded-md font-semibold hover:bg-emerald-700"
+                    >
+                      Aprovar
+                    </button>
+                  </div>
+                </div>
+                {rejectingKey === key && (
+                  <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="text" value={comment} onChange={e => setComment(e.target.value)} autoFocus
+                      placeholder="Motivo da recusa, ex: vendas não conferem com o contrato"
+                      aria-label={`Motivo da recusa do lançamento de ${item.brokerName}`}
+                      className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-text-primary outline-none focus:ring-2 focus:ring-brand-primary"
+                    />
+                    <button onClick={() => handleReject(item)} className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors">
+                      Confirmar recusa
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ApprovalInbox;
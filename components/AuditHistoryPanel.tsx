@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import type { AuditRecord, DiscardReasonDefinition, MetricDefinition } from '../types';
+import { auditActionLabels, describeFieldChanges, getRevertedRecordIds, groupAuditBatches } from '../utils/audit';
+import { formatDate } from '../utils/date';
+
+interface AuditHistoryPanelProps {
+  records: AuditRecord[]; // Already filtered to a broker or a day; reverts are logged for the same days
+  metrics: MetricDefinition[];
+  discardReasons: DiscardReasonDefinition[];
+  onRevertChanges?: (records: AuditRecord[]) => void; // Omitted when the user may not revert
+  showEntryDates?: boolean;
+}
+
+const PAGE_SIZE = 10;
+
+// Change log grouped by batch, most recent first. A batch (e.g. a bulk edit) can be reverted as a whole
+// or one day at a time.
+const AuditHistoryPanel: React.FC<AuditHistoryPanelProps> = ({ records, metrics, discardReasons, onRevertChanges, showEntryDates = true }) => {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+
+  const batches = useMemo(() => groupAuditBatches(records), [records]);
+  const revertedIds = useMemo(() => getRevertedRecordIds(records), [records]);
+
+  if (batches.length === 0) {
+    return <p className="text-center text-text-secondary py-6">Nenhuma alteração registrada.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {batches.slice(0, visibleCount).map(batch => {
+        const pending = batch.records.filter(record => !revertedIds.has(record.id));
+        const isMultiDay = batch.records.length > 1;
+        const isExpanded = !isMultiDay || expandedBatchId === batch.batchId;
+        return (
+          <div key={batch.batchId} className="border border-gray-200 rounded-lg p-3 bg-white">
+            <div className="flex flex-wrap justify-between items-start gap-2">
+              <div>
+                <p className="text-sm font-semibold text-text-primary">
+                  {auditActionLabels[batch.action]}
+                  {isMultiDay && ` (${batch.records.length} dias)`}
+                  {!isMultiDay && showEntryDates && ` · ${formatDate(batch.records[0].date)}`}
+                </p>
+                <p className="text-xs text-text-secondary">{new Date(batch.at).toLocaleString('pt-BR')} · por {batch.author}</p>
+              </div>
+              <div className="flex gap-2 items-center">
+                {isMultiDay && (
+                  <button
+                    onClick={() => setExpandedBatchId(isExpanded ? null : batch.batchId)}
+                    className="px-2 py-1 text-xs bg-surface-input rounded font-semibold text-text-secondary hover:bg-gray-200"
+                  >
+                    {isExpanded ? 'Ocultar dias' : 'Ver dias'}
+                  </button>
+                )}
+                {pending.length === 0 ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-600">Revertida</span>
+                ) : onRevertChanges && (
+                  <button
+                    onClick={() => onRevertChanges(pending)}
+                    className="px-2 py-1 text-xs bg-amber-50 text-amber-700 border border-amber-200 rounded font-semibold hover:bg-amber-100"
+                  >
+                    {isMultiDay ? 'Reverter tudo' : 'Reverter'}
+                  </button>
+                )}
+              </div>
+            </div>
+            {isExpanded && (
+              <ul className="mt-2 space-y-1 text-xs text-text-secondary">
+                {batch.records.map(record => {
+                  const fieldChanges = describeFieldChanges(record, metrics, discardReasons);
+                  const isReverted = revertedIds.has(record.id);
+                  return (
+                    <li key={record.id} className="flex flex-wrap justify-between items-center gap-2 py-1 border-t border-gray-100">
+                      <span>
+                        {isMultiDay && showEntryDates && <span className="font-semibold text-text-primary">{formatDate(record.date)}: </span>}
+                        {!record.after ? 'lançamento excluído' : !record.before ? 'lançamento criado' : ''}
+                        {fieldChanges.length > 0 && (!record.after || !record.before) && ' · '}
+                        {fieldChanges.map(change => `${change.label}: ${change.before} → ${change.after}`).join('; ')}
+                      </span>
+                      {isMultiDay && (isReverted
+                        ? <span className="text-gray-500">revertido</span>
+                        : onRevertChanges && <button onClick={() => onRevertChanges([record])} className="text-amber-700 font-semibold hover:underline">Reverter este dia</button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+      {batches.length > visibleCount && (
+        <button onClick={() => setVisibleCount(count => count + PAGE_SIZE)} className="w-full py-2 text-sm font-semibold text-brand-primary hover:underline">
+          Mostrar alterações anteriores
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuditHistoryPanel;
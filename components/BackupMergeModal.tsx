@@ -0,0 +1,195 @@
+import React, { useState, useMemo } from 'react';
+import type { BrokerProfile, DiscardReasonDefinition, MetricDefinition } from '../types';
+import {
+  applyMerge, diffBackup, getDayChoiceKey, getDefaultMergeChoices,
+  type BrokerDiff, type MergeChoices, type MergeSide, type MergeStatus,
+} from '../utils/backupMerge';
+import { getMetricLabel, getMetricValue } from '../utils/metrics';
+import { describeEntryDiscards } from '../utils/discardReasons';
+import { formatDate } from '../utils/date';
+
+interface BackupMergeModalProps {
+  localBrokers: BrokerProfile[];
+  incomingBrokers: BrokerProfile[];
+  metrics: MetricDefinition[];
+  discardReasons: DiscardReasonDefinition[];
+  onConfirm: (mergedBrokers: BrokerProfile[]) => void;
+  onClose: () => void;
+}
+
+const statusLabels: Record<MergeStatus, string> = {
+  added: 'Novo',
+  changed: 'Alterado',
+  identical: 'Idêntico',
+  conflicting: 'Conflito',
+};
+
+const statusColors: Record<MergeStatus, string> = {
+  added: 'bg-green-100 text-green-700',
+  changed: 'bg-blue-100 text-blue-700',
+  identical: 'bg-gray-100 text-gray-600',
+  conflicting: 'bg-amber-100 text-amber-700',
+};
+
+const profileFieldLabels: Record<string, string> = {
+  brokerName: 'Nome',
+  initialLeads: 'Base inicial',
+  goals: 'Metas',
+};
+
+const SideSelect: React.FC<{ value: MergeSide; onChange: (side: MergeSide) => void; localLabel?: string; incomingLabel?: string; label: string }> = ({
+  value, onChange, localLabel = 'Manter deste aparelho', incomingLabel = 'Usar do backup', label,
+}) => (
+  <select
+    value={value} onChange={e => onChange(e.target.value as MergeSide)}
+    className="px-2 py-1 bg-white border border-gray-200 rounded text-xs text-text-primary outline-none"
+    aria-label={label}
+  >
+    <option value="local">{localLabel}</option>
+    <option value="incoming">{incomingLabel}</option>
+  </select>
+);
+
+// Shows what a backup would add or change, broker by broker and day by day, and lets the user choose
+// which side wins before anything is written.
+const BackupMergeModal: React.FC<BackupMergeModalProps> = ({ localBrokers, incomingBrokers, metrics, discardReasons, onConfirm, onClose }) => {
+  const diffs = useMemo(() => diffBackup(localBrokers, incomingBrokers), [localBrokers, incomingBrokers]);
+  const [choices, setChoices] = useState<MergeChoices>(() => getDefaultMergeChoices(diffs));
+
+  const setBrokerSide = (key: string, side: MergeSide) =>
+    setChoices(prev => ({ ...prev, brokers: { ...prev.brokers, [key]: side } }));
+
+  const setDaySide = (key: string, side: MergeSide) =>
+    setChoices(prev => ({ ...prev, days: { ...prev.days, [key]: side } }));
+
+  const setAllDaysSide = (diff: BrokerDiff, side: MergeSide) => {
+    const updates: Record<string, MergeSide> = {};
+    diff.days
+      .filter(day => day.status === 'added' || day.status === 'changed' || day.status === 'conflicting')
+      .forEach(day => { updates[getDayChoiceKey(diff.key, day.date)] = side; });
+    setChoices(prev => ({ ...prev, days: { ...prev.days, ...updates } }));
+  };
+
+  const handleConfirm = () => {
+    if (!diffs.some(diff => diff.status !== 'identical')) {
+      alert('O backup é idêntico aos dados deste aparelho. Nada a mesclar.');
+      return;
+    }
+    if (confirm('Gravar o resultado da mesclagem? Os dias e corretores marcados como "Manter deste aparelho" não serão alterados.')) {
+      onConfirm(applyMerge(localBrokers, diffs, choices));
+    }
+  };
+
+  const describeField = (field: string) => {
+    if (field === 'discardReason') return 'Descrição de "Outros"';
+    if (field === 'discardReasonCounts') return 'Motivos do Descarte';
+    return getMetricLabel(metrics, field);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in">
+      <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-2xl font-bold text-text-primary mb-2">Mesclar Backup</h3>
+        <p className="text-sm text-text-secondary mb-6">
+          Corretores são identificados pelo ID (ou pelo nome em backups antigos) e os lançamentos pela data. Corretores e dias que só existem neste aparelho são mantidos.
+        </p>
+
+        <div className="space-y-6">
+          {diffs.map(diff => {
+            const relevantDays = diff.days.filter(day => day.status === 'added' || day.status === 'changed' || day.status === 'conflicting');
+            const identicalDays = diff.days.filter(day => day.status === 'identical').length;
+            return (
+              <div key={diff.key} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                  <h4 className="text-lg font-semibold text-text-primary">
+                    {diff.incoming.brokerName}
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold ${statusColors[diff.status]}`}>{statusLabels[diff.status]}</span>
+                  </h4>
+                  {diff.status === 'added' ? (
+                    <SideSelect
+                      value={choices.brokers[diff.key]} onChange={side => setBrokerSide(diff.key, side)}
+                      localLabel="Não adicionar" incomingLabel="Adicionar corretor" label={`Adicionar ${diff.incoming.brokerName}`}
+                    />
+                  ) : relevantDays.length > 0 && (
+                    <div className="flex gap-2">
+                      <button onClick={() => setAllDaysSide(diff, 'local')} className="px-2 py-1 text-xs bg-surface-input rounded font-semibold text-text-secondary hover:bg-gray-200">Manter todos deste aparelho</button>
+                      <button onClick={() => setAllDaysSide(diff, 'incoming')} className="px-2 py-1 text-xs bg-surface-input rounded font-semibold text-text-secondary hover:bg-gray-200">Usar todos do backup</button>
+                    </div>
+                  )}
+                </div>
+
+                {diff.status === 'added' ? (
+                  <p className="text-sm text-text-secondary">{diff.incoming.dailyEntries.length} lançamento(s) no backup.</p>
+                ) : (
+                  <>
+                    {diff.profileFields.length > 0 && diff.local && (
+                      <div className="flex flex-wrap items-center justify-between gap-2 p-2 mb-3 bg-amber-50 rounded text-sm">
+                        <span className="text-text-primary">
+                          Cadastro diferente: {diff.profileFields.map(field => profileFieldLabels[field]).join(', ')}
+                          {diff.profileFields.includes('brokerName') && ` ("${diff.local.brokerName}" × "${diff.incoming.brokerName}")`}
+                          {diff.profileFields.includes('initialLeads') && ` (base ${diff.local.initialLeads} × ${diff.incoming.initialLeads})`}
+                        </span>
+                        <SideSelect value={choices.brokers[diff.key]} onChange={side => setBrokerSide(diff.key, side)} label={`Cadastro de ${diff.incoming.brokerName}`} />
+                      </div>
+                    )}
+                    {relevantDays.length > 0 ? (
+                      <table className="w-full text-sm text-left text-gray-500">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                          <tr>
+                            <th scope="col" className="px-3 py-2">Data</th>
+                            <th scope="col" className="px-3 py-2">Situação</th>
+                            <th scope="col" className="px-3 py-2">Diferenças (aparelho → backup)</th>
+                            <th scope="col" className="px-3 py-2">Vencedor</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {relevantDays.map(day => {
+                            const choiceKey = getDayChoiceKey(diff.key, day.date);
+                            return (
+                              <tr key={day.date} className="bg-white border-b">
+                                <td className="px-3 py-2 whitespace-nowrap">{formatDate(day.date)}</td>
+                                <td className="px-3 py-2"><span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusColors[day.status as MergeStatus]}`}>{statusLabels[day.status as MergeStatus]}</span></td>
+                                <td className="px-3 py-2 text-xs">
+                                  {day.status === 'added'
+                                    ? 'Dia novo'
+                                    : day.differingFields.map(field => (
+                                        field === 'discardReason'
+                                          ? `${describeField(field)}: "${day.local?.discardReason || ''}" → "${day.incoming?.discardReason || ''}"`
+                                          : field === 'discardReasonCounts'
+                                          ? `${describeField(field)}: "${describeEntryDiscards(day.local || {}, discardReasons)}" → "${describeEntryDiscards(day.incoming || {}, discardReasons)}"`
+                                          : `${describeField(field)}: ${getMetricValue(day.local || {}, field)} → ${getMetricValue(day.incoming || {}, field)}`
+                                      )).join('; ')}
+                                </td>
+                                <td className="px-3 py-2">
+                                  <SideSelect
+                                    value={choices.days[choiceKey]} onChange={side => setDaySide(choiceKey, side)}
+                                    localLabel={day.status === 'added' ? 'Não importar' : 'Manter deste aparelho'}
+                                    label={`Vencedor em ${formatDate(day.date)}`}
+                                  />
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <p className="text-sm text-text-secondary">Nenhum lançamento diferente.</p>
+                    )}
+                    {identicalDays > 0 && <p className="text-xs text-text-secondary mt-2">{identicalDays} dia(s) idêntico(s).</p>}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-8 flex justify-end gap-4">
+          <button onClick={onClose} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
+          <button onClick={handleConfirm} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">Mesclar e Salvar</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupMergeModal;
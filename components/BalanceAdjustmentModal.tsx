@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { BalanceAdjustment, BalanceAdjustmentReason } from '../types';
+import { adjustmentReasonLabels, formatAdjustmentAmount } from '../utils/adjustments';
+import { getTodayString } from '../utils/date';
+
+interface BalanceAdjustmentModalProps {
+  getBalanceAtEndOf: (date: string) => number; // Current balance of the broker, before the new adjustment
+  onSave: (adjustment: Pick<BalanceAdjustment, 'date' | 'amount' | 'reason' | 'note'>) => boolean;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Records a dated correction of the lead base, e.g. after the broker recounts their portfolio.
+const BalanceAdjustmentModal: React.FC<BalanceAdjustmentModalProps> = ({ getBalanceAtEndOf, onSave, onClose }) => {
+  const [date, setDate] = useState(getTodayString());
+  const [direction, setDirection] = useState<1 | -1>(-1);
+  const [quantity, setQuantity] = useState<number | ''>('');
+  const [reason, setReason] = useState<BalanceAdjustmentReason>('recount');
+  const [note, setNote] = useState('');
+  // For recounts the user can type the counted total and let the difference be computed
+  const [countedTotal, setCountedTotal] = useState<number | ''>('');
+
+  const currentBalance = date ? getBalanceAtEndOf(date) : 0;
+  const amount = reason === 'recount' && countedTotal !== ''
+    ? countedTotal - currentBalance
+    : typeof quantity === 'number' ? direction * quantity : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || date > getTodayString()) {
+      alert('Informe uma data válida, que não seja futura.');
+      return;
+    }
+    if (amount === 0) {
+      alert('O ajuste precisa alterar o saldo.');
+      return;
+    }
+    if (onSave({ date, amount, reason, note: note.trim() || undefined })) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in no-print" aria-modal="true" role="dialog">
+      <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto" role="document">
+        <h3 className="text-2xl font-bold text-text-primary mb-2">Ajuste de Saldo</h3>
+        <p className="text-sm text-text-secondary mb-6">
+          Corrige a base de leads a partir do fim do dia escolhido, sem alterar a base inicial nem os lançamentos anteriores.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="adjustmentDate" className="block text-sm font-medium text-text-secondary mb-2">Data</label>
+              <input type="date" id="adjustmentDate" value={date} max={getTodayString()} onChange={e => setDate(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="adjustmentReason" className="block text-sm font-medium text-text-secondary mb-2">Motivo</label>
+              <select id="adjustmentReason" value={reason} onChange={e => setReason(e.target.value as BalanceAdjustmentReason)} className={inputClassName}>
+                {(Object.keys(adjustmentReasonLabels) as BalanceAdjustmentReason[]).map(key => (
+                  <option key={key} value={key}>{adjustmentReasonLabels[key]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {reason === 'recount' && (
+            <div>
+              <label htmlFor="adjustmentCounted" className="block text-sm font-medium text-text-secondary mb-2">Total contado na carteira (opcional)</label>
+              <input
+                type="number" id="adjustmentCounted" min="0" value={countedTotal} placeholder={String(currentBalance)}
+                onChange={e => setCountedTotal(e.target.value === '' ? '' : Math.max(0, parseInt(e.target.value, 10)))}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {!(reason === 'recount' && countedTotal !== '') && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="adjustmentDirection" className="block text-sm font-medium text-text-secondary mb-2">Tipo</label>
+                <select id="adjustmentDirection" value={direction} onChange={e => setDirection(Number(e.target.value) as 1 | -1)} className={inputClassName}>
+                  <option value={-1}>Remover da base</option>
+                  <option value={1}>Adicionar à base</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="adjustmentQuantity" className="block text-sm font-medium text-text-secondary mb-2">Quantidade de leads</label>
+                <input
+                  type="number" id="adjustmentQuantity" min="1" value={quantity} placeholder="Ex: 40"
+                  onChange={e => setQuantity(e.target.value === '' ? '' : Math.max(0, parseInt(e.target.value, 10)))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <label htmlFor="adjustmentNote" className="block text-sm font-medium text-text-secondary mb-2">Observação</label>
+            <input type="text" id="adjustmentNote" value={note} onChange={e => setNote(e.target.value)} placeholder="Ex: recontagem da carteira no CRM" className={inputClassName} />
+          </div>
+          {date && (
+            <p className="p-3 bg-surface-input rounded-lg text-sm text-text-secondary">
+              Saldo ao fim do dia: <strong className="text-text-primary">{currentBalance}</strong>
+              {amount !== 0 && <> → <strong className="text-brand-primary">{currentBalance + amount}</strong> ({formatAdjustmentAmount(amount)})</>}
+            </p>
+          )}
+          <div className="flex justify-end gap-4 pt-2">
+            <button type="button" onClick={onClose} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
+            <button type="submit" className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">Salvar Ajuste</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BalanceAdjustmentModal;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import type { AbsenceType, BrokerAbsence } from '../types';
+import { absenceTypeLabels } from '../utils/calendar';
+import { formatDate } from '../utils/date';
+
+interface BrokerAbsencesPanelProps {
+  absences: BrokerAbsence[];
+  canEdit: boolean; // Only managers register and remove absences; brokers see them
+  onAddAbsence: (absence: Omit<BrokerAbsence, 'id'>) => boolean; // false when it overlaps another absence
+  onDeleteAbsence: (absenceId: string) => void;
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Vacations and leaves of the broker. These days need no entry and are left out of averages and goal pacing.
+const BrokerAbsencesPanel: React.FC<BrokerAbsencesPanelProps> = ({ absences, canEdit, onAddAbsence, onDeleteAbsence }) => {
+  const [type, setType] = useState<AbsenceType>('vacation');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [note, setNote] = useState('');
+  const sortedAbsences = [...absences].sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startDate || !endDate) {
+      alert('Informe o primeiro e o último dia da ausência.');
+      return;
+    }
+    if (startDate > endDate) {
+      alert('O primeiro dia não pode ser posterior ao último.');
+      return;
+    }
+    if (onAddAbsence({ type, startDate, endDate, ...(note.trim() ? { note: note.trim() } : {}) })) {
+      setStartDate('');
+      setEndDate('');
+      setNote('');
+    }
+  };
+
+  if (!canEdit && absences.length === 0) return null;
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <h2 className="text-2xl font-semibold text-text-primary mb-1">Férias e Ausências</h2>
+      <p className="text-text-secondary mb-6">Dias de ausência não precisam de lançamento e não contam nas médias por dia útil nem no ritmo das metas.</p>
+      {sortedAbsences.length > 0 && (
+        <ul className="space-y-2 mb-6">
+          {sortedAbsences.map(absence => (
+            <li key={absence.id} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-surface-input rounded-md">
+              <div>
+                <p className="font-semibold text-text-primary">{absenceTypeLabels[absence.type]}</p>
+                <p className="text-xs text-text-secondary">
+                  {absence.startDate === absence.endDate ? formatDate(absence.startDate) : `${formatDate(absence.startDate)} a ${formatDate(absence.endDate)}`}
+                  {absence.note && ` · ${absence.note}`}
+                </p>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => confirm('Remover esta ausência? Os dias voltam a contar como dias úteis.') && onDeleteAbsence(absence.id)}
+                  className="px-3 py-1 text-sm bg-red-50 text-red-700 border border-red-200 rounded-lg font-semibold hover:bg-red-100 transition-colors"
+                >
+                  Remover
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canEdit && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="absenceType" className="block text-sm font-medium text-text-secondary mb-2">Tipo</label>
+            <select id="absenceType" value={type} onChange={e => setType(e.target.value as AbsenceType)} className={inputClassName}>
+              {(Object.keys(absenceTypeLabels) as AbsenceType[]).map(key => <option key={key} value={key}>{absenceTypeLabels[key]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="absenceStart" className="block text-sm font-medium text-text-secondary mb-2">De</label>
+            <input type="date" id="absenceStart" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="absenceEnd" className="block text-sm font-medium text-text-secondary mb-2">Até</label>
+            <input type="date" id="absenceEnd" value={endDate} min={startDate || undefined} onChange={e => setEndDate(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="absenceNote" className="block text-sm font-medium text-text-secondary mb-2">Observação</label>
+            <input type="text" id="absenceNote" value={note} onChange={e => setNote(e.target.value)} placeholder="Opcional" className={inputClassName} />
+          </div>
+          <div className="md:col-span-4 flex justify-end">
+            <button type="submit" className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">
+              Registrar Ausência
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default BrokerAbsencesPanel;
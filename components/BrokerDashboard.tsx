@@ -1,33 +1,52 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { BrokerProfile, DailyEntry } from '../types';
-
-// TypeScript declarations for global libraries loaded via CDN
-declare const html2canvas: any;
-declare const jspdf: any;
+import type { AgencyCalendar, AuditRecord, BalanceAdjustment, BrokerAbsence, BrokerProfile, DailyEntry, DiscardReasonDefinition, EntryStatus, Lead, MetricDefinition, UserAccount } from '../types';
+import LeadTracker from './LeadTracker';
+import FunnelAnalysis from './FunnelAnalysis';
+import ForecastCard from './ForecastCard';
+import CsvImportModal from './CsvImportModal';
+import DiscardReasonAnalysis from './DiscardReasonAnalysis';
+import AuditHistoryPanel from './AuditHistoryPanel';
+import BalanceAdjustmentModal from './BalanceAdjustmentModal';
+import BrokerAbsencesPanel from './BrokerAbsencesPanel';
+import { formatDate, getTodayString } from '../utils/date';
+import { applyDerivedCounts, deriveDailyCountsFromLeads } from '../utils/leads';
+import {
+  calculateBalances, createEmptyEntryData, getActiveMetrics, getBalanceAtEndOf, getBalanceDelta, getMetricValue, getReportMetrics,
+  setMetricValue, sumMetric, sumMetricsOfKind,
+} from '../utils/metrics';
+import { getDraftKey as buildDraftKey } from '../utils/brokers';
+import { escapeCsv } from '../utils/csv';
+import { canonical, getRevertedRecordIds, groupAuditBatches } from '../utils/audit';
+import { describeAdjustmentReason, filterAdjustmentsByMonth, getAdjustmentDates, formatAdjustmentAmount, sortAdjustments, sumAdjustments } from '../utils/adjustments';
+import { getConsistencyRuleLabel, groupIssuesByDate, type ConsistencyIssue } from '../utils/consistency';
+import { getBrokerGoalProgress, getElapsedWorkingShare, getSalesGoalForMonth, goalPeriodLabels } from '../utils/goals';
+import { monthToRange } from '../utils/funnel';
+import { forecastMonth } from '../utils/forecast';
+import { createPdfReport, rgbFromTriplet, type RGB, type ReportBranding } from '../utils/pdfReport';
+import {
+  OTHER_DISCARD_REASON, compactDiscardCounts, describeEntryDiscards, getClassifiedDiscards, getDiscardBreakdown, getDiscardReasonColumns,
+  getDiscardReasonCount, getDiscardReasonLabel, getMonthlyDiscardBreakdown, summarizeDiscardBreakdown,
+} from '../utils/discardReasons';
+import { hasPermission } from '../utils/users';
+import { countWorkingDays, createWorkingDayCheck, describeDayOff, listWorkingDays } from '../utils/calendar';
+import { entryStatusLabels, formatMonthLabel, getEntryStatus, isDateInClosedMonth } from '../utils/approval';
+
+// TypeScript declaration for the global library loaded via CDN
 declare const Chart: any;
 
-// Helper to get local date string YYYY-MM-DD
-const getTodayString = () => {
-  const d = new Date();
-  const year = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
 const NumberInput: React.FC<{
-  id: keyof Omit<DailyEntry, 'date' | 'discardReason'>;
+  id: string; // Metric key
   label: string;
   value: number | ''; // Allow empty string for bulk edit
-  onChange: (field: keyof Omit<DailyEntry, 'date' | 'discardReason'>, value: number | '') => void;
+  onChange: (field: string, value: number | '') => void;
   placeholder: string;
   error?: boolean;
 }> = ({ id, label, value, onChange, placeholder, error }) => (
   <div>
-    <label htmlFor={id as string} className="block text-sm font-medium text-text-secondary mb-2">{label}</label>
+    <label htmlFor={id} className="block text-sm font-medium text-text-secondary mb-2">{label}</label>
     <input
       type="number"
-      id={id as string}
+      id={id}
       value={value === 0 ? '' : value} // Display 0 as empty string
       onChange={(e) => {
         const val = e.target.value;
@@ -47,6 +66,13 @@ const NumberInput: React.FC<{
 );
 
 
+// RGB triplets used for metric lines in the monthly chart (brand-secondary, orange, purple, pink, teal)
+const chartPalette = ['14, 165, 233', '249, 115, 22', '147, 51, 234', '219, 39, 119', '13, 148, 136'];
+
+// Sales are always green, other metrics take the palette in order
+const getChartColor = (metric: MetricDefinition, index: number) =>
+    metric.kind === 'sale' ? '22, 163, 74' : chartPalette[index % chartPalette.length];
+
 const MetricCard: React.FC<{ label: string; value: string | number; }> = ({ label, value }) => (
     <div className="bg-surface-card p-4 rounded-lg shadow-lg text-center">
         <p className="text-text-secondary text-sm capitalize">{label}</p>
@@ -54,7 +80,19 @@ const MetricCard: React.FC<{ label: string; value: string | number; }> = ({ labe
     </div>
 );
 
-const GoalProgressCard: React.FC<{ current: number; goal: number }> = ({ current, goal }) => {
+const statusBadgeClassNames: Record<EntryStatus, string> = {
+    submitted: 'bg-amber-100 text-amber-800',
+    approved: 'bg-emerald-100 text-emerald-700',
+    rejected: 'bg-red-100 text-red-700',
+};
+
+const formatRangeDate = (date: string) =>
+    new Date(date + 'T00:00:00').toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+// `expected` is the progress an even pace over the period's working days would have reached by now
+const GoalProgressCard: React.FC<{ current: number; goal: number; title?: string; unitLabel?: string; subtitle?: string; expected?: number | null }> = ({
+    current, goal, title = 'Progresso da Meta Mensal', unitLabel = 'vendas', subtitle, expected,
+}) => {
     if (!goal || goal <= 0) {
         return (
             <div className="bg-surface-card rounded-2xl shadow-xl p-6 text-center no-print">
@@ -67,7 +105,10 @@ const GoalProgressCard: React.FC<{ current: number; goal: number }> = ({ current
     return (
         <div className="bg-surface-card rounded-2xl shadow-xl p-6 no-print">
             <div className="flex justify-between items-center mb-2">
-                <h3 className="text-lg font-semibold text-text-primary">Progresso da Meta Mensal</h3>
+                <div>
+                    <h3 className="text-lg font-semibold text-text-primary">{title}</h3>
+                    {subtitle && <p className="text-xs text-text-secondary">{subtitle}</p>}
+                </div>
                 <span className="text-lg font-bold text-brand-primary">{`${progress}%`}</span>
             </div>
             <div className="w-full bg-surface-input rounded-full h-4 relative overflow-hidden">
@@ -80,8 +121,16 @@ const GoalProgressCard: React.FC<{ current: number; goal: number }> = ({ current
                     role="progressbar"
                 >
                 </div>
+                {expected != null && (
+                    <div className="absolute top-0 h-4 w-0.5 bg-text-primary/60" style={{ left: `${Math.min(expected, 100)}%` }} title={`Esperado até hoje: ${Math.round(expected)}%`} />
+                )}
             </div>
-            <p className="text-right text-text-secondary text-sm mt-1 font-semibold">{`${current} de ${goal} vendas`}</p>
+            {expected != null && (
+                <p className={`text-xs mt-1 ${progress >= expected ? 'text-green-600' : 'text-amber-700'}`}>
+                    Esperado até hoje pelos dias úteis: {Math.round(expected)}% ({progress >= expected ? 'no ritmo' : 'abaixo do ritmo'})
+                </p>
+            )}
+            <p className="text-right text-text-secondary text-sm mt-1 font-semibold">{`${current.toLocaleString('pt-BR')} de ${goal.toLocaleString('pt-BR')} ${unitLabel}`.trim()}</p>
         </div>
     );
 };
@@ -89,40 +138,89 @@ const GoalProgressCard: React.FC<{ current: number; goal: number }> = ({ current
 
 interface BrokerDashboardProps { // Renamed interface
   profile: BrokerProfile;
-  onSaveEntry: (entry: DailyEntry) => void;
-  onDeleteEntry: (date: string) => void;
+  metrics: MetricDefinition[];
+  discardReasons: DiscardReasonDefinition[];
+  branding: ReportBranding;
+  currentUser: UserAccount; // Adjustments, reverts and switching brokers depend on the user's role
+  closedMonths: Set<string>; // Entries of closed months are read-only
+  calendar: AgencyCalendar; // Working days, together with the broker's absences
+  // Entry handlers return false when the consistency check stopped the change
+  onSaveEntry: (entry: DailyEntry) => boolean;
+  onSaveEntries: (entries: DailyEntry[], action: 'bulkEdit' | 'import') => boolean;
+  onDeleteEntry: (date: string) => boolean;
+  auditLog: AuditRecord[]; // Changes to this broker's entries
+  consistencyIssues: ConsistencyIssue[]; // Issues found in this broker's entries
+  initialDate?: string | null; // Day to open in the form instead of today
+  onAddBalanceAdjustment: (adjustment: Pick<BalanceAdjustment, 'date' | 'amount' | 'reason' | 'note'>) => boolean;
+  onDeleteBalanceAdjustment: (adjustment: BalanceAdjustment) => boolean;
+  onRevertChanges: (records: AuditRecord[]) => void;
+  onSaveLead: (lead: Lead) => void;
+  onDeleteLead: (leadId: string) => void;
+  onAddAbsence: (absence: Omit<BrokerAbsence, 'id'>) => boolean;
+  onDeleteAbsence: (absenceId: string) => void;
   onReset: () => void;
 }
 
-const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry, onDeleteEntry, onReset }) => { // Renamed component
-  const initialState: Omit<DailyEntry, 'date'> = {
-    newLeads: 0, discardedLeads: 0, repiqueLeads: 0, localVisits: 0, contactingLeads: 0, inProgressLeads: 0,
-    scheduledLeads: 0, negotiationLeads: 0, creditAnalysisLeads: 0, approvedLeads: 0, signedLeads: 0,
-    discardReason: '', // Initialize discardReason
-  };
+const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, metrics, discardReasons, branding, currentUser, closedMonths, calendar, onSaveEntry, onSaveEntries, onDeleteEntry, auditLog, consistencyIssues, initialDate, onAddBalanceAdjustment, onDeleteBalanceAdjustment, onRevertChanges, onSaveLead, onDeleteLead, onAddAbsence, onDeleteAbsence, onReset }) => { // Renamed component
+  const initialState = createEmptyEntryData();
+  const canAdjustBalances = hasPermission(currentUser, 'adjustBalances');
+  const canRevertChanges = hasPermission(currentUser, 'revertChanges');
+  const canSwitchBroker = hasPermission(currentUser, 'viewTeam'); // Brokers only ever see their own dashboard
+  const canManageAbsences = hasPermission(currentUser, 'manageBrokers');
+  const canApproveEntries = hasPermission(currentUser, 'approveEntries'); // Also needed to delete an approved day
   const [dailyData, setDailyData] = useState(initialState);
-  const [selectedDate, setSelectedDate] = useState(getTodayString());
+  const [selectedDate, setSelectedDate] = useState(initialDate || getTodayString());
   const [selectedMonth, setSelectedMonth] = useState(new Date().toISOString().slice(0, 7)); // YYYY-MM
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const formRef = useRef<HTMLDivElement>(null);
-  const [errors, setErrors] = useState<Partial<Record<keyof typeof initialState, boolean>>>({});
+  const [errors, setErrors] = useState<Record<string, boolean>>({});
   const [dateToDelete, setDateToDelete] = useState<string | null>(null);
   const [isDraft, setIsDraft] = useState(false);
+  // Date the form was loaded for and what it held then (saved entry or clean slate), so only real edits become drafts
+  const [draftBaseline, setDraftBaseline] = useState<{ date: string; data: string } | null>(null);
+  const [auditDate, setAuditDate] = useState<string | null>(null); // Entry whose change history is open
 
   // State for bulk edit
   const [showBulkEditModal, setShowBulkEditModal] = useState(false);
+  const [showCsvImportModal, setShowCsvImportModal] = useState(false);
+  const [showAdjustmentModal, setShowAdjustmentModal] = useState(false);
   const [bulkStartDate, setBulkStartDate] = useState(getTodayString());
   const [bulkEndDate, setBulkEndDate] = useState(getTodayString());
   // FIX: Allow 'number | '' in bulkDailyData properties to correctly handle empty input fields.
-  const [bulkDailyData, setBulkDailyData] = useState<Partial<Record<keyof Omit<DailyEntry, 'date' | 'discardReason'>, number | ''>>>({});
-  const [bulkErrors, setBulkErrors] = useState<Partial<Record<keyof typeof initialState, boolean>>>({});
+  const [bulkDailyData, setBulkDailyData] = useState<Record<string, number | ''>>({});
+  const [bulkErrors, setBulkErrors] = useState<Record<string, boolean>>({});
 
   const monthlyChartRef = useRef<HTMLCanvasElement>(null);
   const monthlyChartInstanceRef = useRef<any>(null);
 
+  const leads = useMemo(() => profile.leads || [], [profile.leads]);
+  const balanceAdjustments = useMemo(() => sortAdjustments(profile.balanceAdjustments || []), [profile.balanceAdjustments]);
+  const activeMetrics = useMemo(() => getActiveMetrics(metrics), [metrics]);
+  const labelOf = (key: string) => metrics.find(m => m.key === key)?.label ?? key;
+  const issuesByDate = useMemo(() => groupIssuesByDate(consistencyIssues), [consistencyIssues]);
+  const isWorkingDay = useMemo(() => createWorkingDayCheck(calendar, profile.absences), [calendar, profile.absences]);
+
+  // Opened to fix a specific day (or from the daily reminder while already open): bring its form into view
+  useEffect(() => {
+    if (!initialDate) return;
+    setSelectedDate(initialDate);
+    formRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [initialDate]);
+
+  // Counters derived from the stage transitions of individually tracked leads on the selected date
+  const derivedCounts = useMemo(() => deriveDailyCountsFromLeads(leads, selectedDate, metrics), [leads, selectedDate, metrics]);
+  // Read when a day is loaded, not a dependency of it: moving a lead must not reset the form being edited.
+  // Later movements are applied with "Usar contagem dos leads".
+  const derivedCountsRef = useRef(derivedCounts);
+  derivedCountsRef.current = derivedCounts;
+  const hasDerivedCounts = Object.keys(derivedCounts).length > 0;
+  const savedEntry = profile.dailyEntries.find(e => e.date === selectedDate);
+  const isSelectedDateClosed = isDateInClosedMonth(closedMonths, selectedDate);
+  const selectedDayOff = describeDayOff(calendar, profile.absences, selectedDate);
+
 
   // --- AUTO-SAVE / DRAFT LOGIC ---
-  const getDraftKey = (date: string) => `draft_entry_${profile.brokerName}_${date}`;
+  const getDraftKey = (date: string) => buildDraftKey(profile.id, date);
 
   // Load data: Check Draft -> Check Saved Entry -> Default
   useEffect(() => {
@@ -132,6 +230,11 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
     
     setErrors({}); // Clear errors when date changes
 
+    // What the form shows without a draft: the saved entry, else counters derived from tracked leads
+    const { date: _entryDate, ...savedFormData } = existingEntry ?? { date: selectedDate };
+    const loadedData = existingEntry ? { ...initialState, ...savedFormData } : applyDerivedCounts(initialState, derivedCountsRef.current);
+    setDraftBaseline({ date: selectedDate, data: canonical(loadedData) });
+
     if (savedDraft) {
         // Priority 1: Unsaved Draft (Restore user work)
         try {
@@ -141,46 +244,37 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
         } catch (e) {
             console.error("Error parsing draft", e);
             // Fallback if draft is corrupt
-            if (existingEntry) {
-                 const { date, ...formData } = existingEntry;
-                 setDailyData({ ...initialState, ...formData });
-                 setIsDraft(false);
-            } else {
-                setDailyData(initialState);
-                setIsDraft(false);
-            }
+            setDailyData(loadedData);
+            setIsDraft(false);
         }
-    } else if (existingEntry) {
-      // Priority 2: Saved Database Entry
-      const { date, ...formData } = existingEntry;
-      setDailyData({ ...initialState, ...formData });
-      setIsDraft(false);
     } else {
-      // Priority 3: Clean Slate
-      setDailyData(initialState);
+      // Priority 2: Saved Database Entry
+      // Priority 3: Counters derived from tracked leads (or a clean slate when there are none)
+      setDailyData(loadedData);
       setIsDraft(false);
     }
-  }, [selectedDate, profile.dailyEntries, profile.brokerName]);
+  }, [selectedDate, profile.dailyEntries, profile.id]);
 
-  // Save Draft on Change
+  // Save Draft on Change. A form that still matches what was loaded is not a draft: loading a day or
+  // saving it must not leave one behind, or the daily reminder would report unsaved work.
   useEffect(() => {
-      if (!dailyData) return;
-      
-      // Simple check to see if data is empty (all zeros), we might not want to save "empty" drafts 
-      // effectively, but for safety, we save everything.
-      
-      const draftKey = getDraftKey(selectedDate);
-      // We only save to draft if it differs from the "Saved" state, but simplifying:
-      // Always save current form state to draft.
+      if (!dailyData || !draftBaseline) return;
+
+      const draftKey = getDraftKey(draftBaseline.date);
+      if (canonical(dailyData) === draftBaseline.data) {
+          localStorage.removeItem(draftKey);
+          setIsDraft(false);
+          return;
+      }
       localStorage.setItem(draftKey, JSON.stringify(dailyData));
       setIsDraft(true);
 
-  }, [dailyData, selectedDate, profile.brokerName]);
+  }, [dailyData, draftBaseline, profile.id]);
 
   // --- END AUTO-SAVE LOGIC ---
 
 
-  const handleNumberChange = (field: keyof Omit<DailyEntry, 'date' | 'discardReason'>, value: number | '') => {
+  const handleNumberChange = (field: string, value: number | '') => {
     // Validation: check for negative numbers. Floats are handled by parseInt in the input.
     if (value !== '' && value < 0) {
       setErrors(prev => ({ ...prev, [field]: true }));
@@ -188,10 +282,27 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
       setErrors(prev => ({ ...prev, [field]: false }));
     }
     // Store the sanitized value (ensure it's not negative)
-    setDailyData(prev => ({ ...prev, [field]: value === '' ? 0 : Math.max(0, value) }));
+    setDailyData(prev => setMetricValue(prev, field, value === '' ? 0 : Math.max(0, value)));
+  };
+
+  // Replaces the funnel counters of the form with the ones derived from tracked leads,
+  // keeping any manual values for stages with no lead movement that day.
+  const handleApplyDerivedCounts = () => {
+    setErrors({});
+    setDailyData(prev => applyDerivedCounts(prev, derivedCounts));
+  };
+
+  // Discard reason inputs use the id `discardReason-<key>`
+  const handleDiscardCountChange = (field: string, value: number | '') => {
+    setErrors(prev => ({ ...prev, [field]: value !== '' && value < 0 }));
+    const key = field.slice('discardReason-'.length);
+    setDailyData(prev => ({
+      ...prev,
+      discardReasonCounts: { ...(prev.discardReasonCounts || {}), [key]: value === '' ? 0 : Math.max(0, value) },
+    }));
   };
 
-  const handleBulkNumberChange = (field: keyof Omit<DailyEntry, 'date' | 'discardReason'>, value: number | '') => {
+  const handleBulkNumberChange = (field: string, value: number | '') => {
     if (value !== '' && value < 0) {
       setBulkErrors(prev => ({ ...prev, [field]: true }));
     } else {
@@ -222,14 +333,22 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
         return;
     }
 
-    // Clean discardReason if no discarded leads
+    const totalDiscarded = sumMetricsOfKind([dailyData], metrics, 'outflow');
+    const classifiedDiscards = getClassifiedDiscards(dailyData);
+    if (classifiedDiscards > totalDiscarded) {
+        alert(`A soma dos motivos de descarte (${classifiedDiscards}) é maior que o total de leads descartados (${totalDiscarded}).`);
+        return;
+    }
+
+    // Keep only the reasons that were used; the free text only describes the "outros" count
     const finalData = { ...dailyData };
-    if (finalData.discardedLeads === 0) {
+    finalData.discardReasonCounts = totalDiscarded === 0 ? {} : compactDiscardCounts(dailyData.discardReasonCounts);
+    if (!finalData.discardReasonCounts[OTHER_DISCARD_REASON]) {
         finalData.discardReason = '';
     }
 
     const entryWithDate: DailyEntry = { ...finalData, date: selectedDate };
-    onSaveEntry(entryWithDate);
+    if (!onSaveEntry(entryWithDate)) return;
     
     // Clear the draft since we successfully saved
     localStorage.removeItem(getDraftKey(selectedDate));
@@ -238,45 +357,30 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
     alert('Lançamento salvo com sucesso!');
   };
 
-  const labelsMap: { [key in keyof Omit<DailyEntry, 'date' | 'discardReason'>]: string } = {
-    newLeads: "Novos Leads", discardedLeads: "Descartados", repiqueLeads: "Repique", localVisits: "Visitas Locais", contactingLeads: "Tentando Contato",
-    inProgressLeads: "Em Andamento", scheduledLeads: "Agendados", negotiationLeads: "Leads em Negociação",
-    creditAnalysisLeads: "Análise de Crédito", approvedLeads: "Aprovados", signedLeads: "Contrato Assinado"
-  };
+  const entriesWithCalculatedBalances = useMemo(
+    // Reversed for on-screen display (most recent first)
+    () => calculateBalances(profile.initialLeads, profile.dailyEntries, metrics, balanceAdjustments).reverse(),
+    [profile.dailyEntries, profile.initialLeads, metrics, balanceAdjustments]
+  );
 
-  const fieldOrder: (keyof Omit<DailyEntry, 'date' | 'discardReason'>)[] = [
-    'newLeads', 'discardedLeads', 'repiqueLeads', 'localVisits', 'contactingLeads', 'inProgressLeads', 
-    'scheduledLeads', 'negotiationLeads', 'creditAnalysisLeads', 'approvedLeads', 'signedLeads'
-  ];
+  const getBalanceAtEndOfDay = (date: string) => getBalanceAtEndOf(date, profile.initialLeads, profile.dailyEntries, metrics, balanceAdjustments);
 
-  const entriesWithCalculatedBalances = useMemo(() => {
-    const chronologicalEntries = [...profile.dailyEntries].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-    let currentLeadBase = profile.initialLeads;
-    const entriesWithBalance = chronologicalEntries.map(entry => {
-      const startOfDayBalance = currentLeadBase; // Store the balance at the start of the day
-      const endOfDayBalance = currentLeadBase + entry.newLeads + (entry.repiqueLeads || 0) - entry.discardedLeads - entry.signedLeads;
-      const result = { ...entry, startOfDayBalance, endOfDayBalance };
-      currentLeadBase = endOfDayBalance;
-      return result;
-    });
-    return entriesWithBalance.reverse(); // reverse for on-screen display (most recent first)
-  }, [profile.dailyEntries, profile.initialLeads]);
+  // Entries and adjustments for the history, most recent first. An adjustment applies at the end of its
+  // day, so it is listed above the entry of that day.
+  const historyItems = useMemo(() => [
+    ...entriesWithCalculatedBalances.map(entry => ({ date: entry.date, entry, adjustment: null })),
+    ...balanceAdjustments.map(adjustment => ({ date: adjustment.date, entry: null, adjustment })),
+  ].sort((a, b) => b.date.localeCompare(a.date) || (a.adjustment ? -1 : 0) - (b.adjustment ? -1 : 0)), [entriesWithCalculatedBalances, balanceAdjustments]);
 
   const allTimeStats = useMemo(() => {
-    const totalNew = profile.dailyEntries.reduce((acc, entry) => acc + entry.newLeads, 0);
-    const totalRepique = profile.dailyEntries.reduce((acc, entry) => acc + (entry.repiqueLeads || 0), 0);
-    const totalDiscarded = profile.dailyEntries.reduce((acc, entry) => acc + entry.discardedLeads, 0);
-    
     return {
-      totalReceived: totalNew + totalRepique,
-      totalDiscarded: totalDiscarded
+      totalReceived: sumMetricsOfKind(profile.dailyEntries, metrics, 'inflow'),
+      totalDiscarded: sumMetricsOfKind(profile.dailyEntries, metrics, 'outflow')
     };
-  }, [profile.dailyEntries]);
+  }, [profile.dailyEntries, metrics]);
 
   const handleGenerateCsv = () => {
-    if (!profile || profile.dailyEntries.length === 0) {
+    if (!profile || (profile.dailyEntries.length === 0 && balanceAdjustments.length === 0)) {
       alert("Nenhum lançamento para exportar.");
       return;
     }
@@ -284,33 +388,70 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
     // Sort entries chronologically for the CSV file
     const chronologicalEntries = [...entriesWithCalculatedBalances].reverse();
 
-    // Check if any entry has a discard reason to determine if we need the column
-    const hasDiscardReasons = chronologicalEntries.some(entry => entry.discardReason && entry.discardReason.trim() !== '');
+    // Retired metrics are still exported when they hold data, so the history stays complete
+    const exportMetrics = getReportMetrics(metrics, chronologicalEntries);
+    // One column per discard reason, only when something was ever discarded
+    const discardColumns = allTimeStats.totalDiscarded > 0 ? getDiscardReasonColumns(discardReasons, chronologicalEntries) : [];
 
     // Define CSV headers
     const headers = [
       'Data',
       'Base Inicial do Dia',
-      ...fieldOrder.map(key => labelsMap[key]),
-      ...(hasDiscardReasons ? ['Motivo do Descarte'] : []), // Conditionally add header
+      ...exportMetrics.map(metric => metric.label),
+      ...discardColumns.map(key => `Descarte: ${getDiscardReasonLabel(discardReasons, key)}`),
+      ...(discardColumns.length > 0 ? ['Descarte: Outros (descrição)', 'Descarte: Não informado'] : []),
+      ...(balanceAdjustments.length > 0 ? ['Ajuste de Saldo', 'Motivo do Ajuste'] : []),
       'Saldo Final do Dia'
     ];
 
+    const describeAdjustments = (date: string) => balanceAdjustments
+      .filter(adjustment => adjustment.date === date)
+      .map(adjustment => `${describeAdjustmentReason(adjustment)}${adjustment.note ? ` (${adjustment.note})` : ''}: ${formatAdjustmentAmount(adjustment.amount)}`)
+      .join('; ');
+
+    // Days with an adjustment but no entry get a row of their own with the counters left empty
+    // (the importer skips such rows), so the balance column never jumps without explanation
+    const adjustmentOnlyRows = getAdjustmentDates(balanceAdjustments)
+      .filter(date => !profile.dailyEntries.some(entry => entry.date === date))
+      .map(date => {
+        const endOfDayBalance = getBalanceAtEndOfDay(date);
+        const adjustment = sumAdjustments(balanceAdjustments.filter(a => a.date === date));
+        return { date, cells: [
+          formatDate(date),
+          endOfDayBalance - adjustment,
+          ...exportMetrics.map(() => ''),
+          ...discardColumns.map(() => ''),
+          ...(discardColumns.length > 0 ? ['', ''] : []),
+          adjustment,
+          describeAdjustments(date),
+          endOfDayBalance,
+        ] };
+      });
+
     // Create CSV rows
-    const rows = chronologicalEntries.map(entry => {
+    const entryRows = chronologicalEntries.map(entry => {
       const rowData = [
         new Date(entry.date + 'T00:00:00').toLocaleDateString('pt-BR'),
         entry.startOfDayBalance,
-        ...fieldOrder.map(key => entry[key as keyof DailyEntry] ?? 0),
-        ...(hasDiscardReasons ? [entry.discardReason || ''] : []), // Conditionally add value
+        ...exportMetrics.map(metric => getMetricValue(entry, metric.key)),
+        ...discardColumns.map(key => getDiscardReasonCount(entry, key)),
+        ...(discardColumns.length > 0 ? [
+          entry.discardReason || '',
+          Math.max(0, sumMetricsOfKind([entry], metrics, 'outflow') - getClassifiedDiscards(entry)),
+        ] : []),
+        ...(balanceAdjustments.length > 0 ? [entry.balanceAdjustment, describeAdjustments(entry.date)] : []),
         entry.endOfDayBalance
       ];
-      return rowData.map(val => typeof val === 'string' ? `"${val.replace(/"/g, '""')}"` : val).join(','); // Escape quotes
+      return { date: entry.date, cells: rowData };
     });
 
+    const rows = [...entryRows, ...adjustmentOnlyRows]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(row => row.cells.map(escapeCsv).join(','));
+
     // Combine headers and rows
     const csvContent = [
-      headers.join(','),
+      headers.map(escapeCsv).join(','),
       ...rows
     ].join('\n');
 
@@ -327,60 +468,143 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
   };
 
 
+  // Imported days are saved as one change, so the whole import can be reverted at once
+  const handleImportCsv = (entries: DailyEntry[]) => {
+    if (!onSaveEntries(entries, 'import')) return;
+    entries.forEach(entry => localStorage.removeItem(getDraftKey(entry.date)));
+    alert(`${entries.length} lançamento(s) importado(s) com sucesso!`);
+    setShowCsvImportModal(false);
+  };
+
   const handleGeneratePdf = async () => {
     setIsGeneratingPdf(true);
-    const { jsPDF } = jspdf;
-    const printableElement = document.querySelector('.printable-area') as HTMLElement;
-
-    if (!printableElement) {
-      console.error("Área para impressão não encontrada!");
-      setIsGeneratingPdf(false);
-      return;
-    }
-
-    document.body.classList.add('pdf-export-mode');
+    await new Promise(resolve => setTimeout(resolve, 0)); // Let the button show the progress state
 
     try {
-      const canvas = await html2canvas(printableElement, {
-        scale: 2, // Maior escala para melhor qualidade
-        useCORS: true,
-        backgroundColor: '#ffffff',
+      const monthLabel = new Date(selectedMonth + '-02').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+      const report = createPdfReport({
+        ...branding,
+        title: 'Relatório de Performance Mensal',
+        subtitle: `${profile.brokerName} · ${monthLabel}`,
       });
 
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'pt',
-        format: 'a4',
+      report.heading('Resumo do Mês');
+      report.metricGrid([
+        { label: 'Base Inicial', value: monthlySummary.initialLeadsForMonth },
+        { label: 'Base Final', value: monthlySummary.finalLeadsForMonth },
+        ...reportTableMetrics.filter(m => m.kind === 'inflow').map(metric => ({ label: metric.label, value: monthlySummary.totals[metric.key] })),
+        { label: 'Leads Descartados', value: monthlySummary.discardedLeads, color: [220, 38, 38] as RGB },
+        { label: 'Vendas Realizadas', value: monthlySummary.signedLeads, color: [22, 163, 74] as RGB },
+        { label: 'Taxa de Conversão', value: `${monthlySummary.conversionRate}%`, color: [37, 99, 235] as RGB },
+        ...(monthlySummary.monthAdjustments.length > 0
+          ? [{ label: 'Ajustes de Saldo', value: formatAdjustmentAmount(monthlySummary.adjustmentTotal), detail: `${monthlySummary.monthAdjustments.length} ajuste(s)` }]
+          : []),
+      ]);
+
+      report.heading('Metas');
+      if (monthlySalesGoal > 0) {
+        report.progressBar('Meta Mensal de Vendas', monthlySummary.signedLeads, monthlySalesGoal, 'vendas');
+      } else {
+        report.paragraph('Nenhuma meta de vendas definida para este mês.');
+      }
+      metricGoalProgress.forEach(({ goal, range, current }) => {
+        report.progressBar(
+          `Meta ${goalPeriodLabels[goal.period]}: ${labelOf(goal.metricKey)} (${formatRangeDate(range.start)} a ${formatRangeDate(range.end)})`,
+          current, goal.target
+        );
       });
 
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const canvasWidth = canvas.width;
-      const canvasHeight = canvas.height;
-      const ratio = canvasWidth / pdfWidth;
-      const imgHeight = canvasHeight / ratio;
-      let heightLeft = imgHeight;
-      let position = 0;
-
-      pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, imgHeight);
-      heightLeft -= pdfHeight;
-
-      while (heightLeft > 0) {
-        position = heightLeft - imgHeight;
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, imgHeight);
-        heightLeft -= pdfHeight;
+      if (monthForecast.sales.remainingWorkingDays > 0) {
+        report.heading('Projeção de Fechamento');
+        const { sales, leads } = monthForecast;
+        report.metricGrid([
+          { label: 'Vendas Previstas', value: Math.round(sales.projected), detail: `${Math.floor(sales.low)} a ${Math.ceil(sales.high)}` },
+          { label: 'Leads Previstos', value: Math.round(leads.projected), detail: `${Math.floor(leads.low)} a ${Math.ceil(leads.high)}` },
+          {
+            label: 'Vendas/Dia Útil Necessárias',
+            value: sales.requiredPerDay !== null ? sales.requiredPerDay.toLocaleString('pt-BR', { maximumFractionDigits: 1 }) : 'N/A',
+            detail: `${sales.remainingWorkingDays} dias úteis restantes`,
+          },
+        ]);
+      }
+
+      if (reportEntries.length > 0) {
+        report.heading('Evolução Mensal');
+        const chartMetrics = activeMetrics.filter(m => m.kind === 'inflow' || m.kind === 'sale');
+        report.lineChart(
+          reportEntries.map(e => formatRangeDate(e.date)),
+          [
+            { label: 'Saldo de Leads', values: reportEntries.map(e => e.endOfDayBalance), color: [37, 99, 235] },
+            ...chartMetrics.map((metric, index) => ({
+              label: metric.label,
+              values: reportEntries.map(e => getMetricValue(e, metric.key)),
+              color: rgbFromTriplet(getChartColor(metric, index)),
+            })),
+          ]
+        );
+      }
+
+      report.heading('Lançamentos Diários');
+      report.table(
+        [
+          { header: 'Data', width: 1.3 },
+          { header: 'Base Inicial do Dia', align: 'center' },
+          ...reportTableMetrics.map(metric => ({ header: metric.label, align: 'center' as const })),
+          ...(monthlySummary.monthAdjustments.length > 0 ? [{ header: 'Ajuste', align: 'center' as const }] : []),
+          { header: 'Saldo Final do Dia', align: 'center' },
+        ],
+        reportEntries.map(entry => [
+          formatDate(entry.date),
+          entry.startOfDayBalance ?? '',
+          ...reportTableMetrics.map(metric => ({
+            text: getMetricValue(entry, metric.key),
+            color: metric.kind === 'sale' ? [22, 163, 74] as RGB : metric.kind === 'outflow' ? [220, 38, 38] as RGB : undefined,
+            bold: metric.kind === 'sale' || metric.kind === 'outflow',
+          })),
+          ...(monthlySummary.monthAdjustments.length > 0 ? [entry.balanceAdjustment ? formatAdjustmentAmount(entry.balanceAdjustment) : '-'] : []),
+          { text: entry.endOfDayBalance, bold: true },
+        ]),
+        'Nenhum lançamento neste mês.'
+      );
+
+      if (monthlySummary.monthAdjustments.length > 0) {
+        report.heading('Ajustes de Saldo');
+        report.table(
+          [
+            { header: 'Data', width: 1.3 },
+            { header: 'Motivo', width: 2 },
+            { header: 'Observação', width: 3 },
+            { header: 'Registrado por', width: 1.5 },
+            { header: 'Ajuste', align: 'center' },
+          ],
+          monthlySummary.monthAdjustments.map(adjustment => [
+            formatDate(adjustment.date),
+            describeAdjustmentReason(adjustment),
+            adjustment.note || '-',
+            adjustment.author,
+            { text: formatAdjustmentAmount(adjustment.amount), bold: true, color: adjustment.amount < 0 ? [220, 38, 38] as RGB : [22, 163, 74] as RGB },
+          ])
+        );
+      }
+
+      if (monthDiscardTotals.length > 0) {
+        report.heading('Motivos de Descarte');
+        report.table(
+          [{ header: 'Motivo', width: 3 }, { header: 'Leads Descartados', align: 'center' }, { header: '% dos Descartes', align: 'center' }],
+          monthDiscardTotals.map(total => [total.label, total.discarded, `${Math.round(total.share)}%`])
+        );
+        if (otherDiscardDescriptions.length > 0) {
+          report.paragraph(`Outros: ${otherDiscardDescriptions.join('; ')}`);
+        }
       }
 
       const monthName = new Date(selectedMonth + '-02').toLocaleDateString('pt-BR', { month: 'long' });
       const year = new Date(selectedMonth + '-02').getFullYear();
-      pdf.save(`Relatorio-${profile.brokerName.replace(/\s+/g, '_')}-${monthName}-${year}.pdf`);
+      report.save(`Relatorio-${profile.brokerName.replace(/\s+/g, '_')}-${monthName}-${year}.pdf`);
     } catch (error) {
       console.error("Erro ao gerar PDF:", error);
       alert("Ocorreu um erro ao gerar o PDF. Tente novamente.");
     } finally {
-      document.body.classList.remove('pdf-export-mode');
       setIsGeneratingPdf(false);
     }
   };
@@ -390,44 +614,90 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
         (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
     );
 
-    // Calculate initial leads for the selected month by cumulating previous entries
-    let currentLeadBaseForMonth = profile.initialLeads;
+    // Calculate initial leads for the selected month by cumulating previous entries and adjustments
+    let currentLeadBaseForMonth = profile.initialLeads + sumAdjustments(balanceAdjustments.filter(a => a.date < `${selectedMonth}-01`));
     for (const entry of chronologicalEntries) {
         if (entry.date < `${selectedMonth}-01`) {
-            currentLeadBaseForMonth = currentLeadBaseForMonth + entry.newLeads + (entry.repiqueLeads || 0) - entry.discardedLeads - entry.signedLeads;
+            currentLeadBaseForMonth = currentLeadBaseForMonth + getBalanceDelta(entry, metrics);
         } else {
             break; // Stop when we reach entries for the selected month
         }
     }
 
     const monthEntries = chronologicalEntries.filter(entry => entry.date.startsWith(selectedMonth));
-    const newLeads = monthEntries.reduce((sum, entry) => sum + entry.newLeads, 0);
-    const repiqueLeads = monthEntries.reduce((sum, entry) => sum + (entry.repiqueLeads || 0), 0);
-    const signedLeads = monthEntries.reduce((sum, entry) => sum + entry.signedLeads, 0);
-    const discardedLeads = monthEntries.reduce((sum, entry) => sum + entry.discardedLeads, 0);
-    const negotiationLeads = monthEntries.reduce((sum, entry) => sum + entry.negotiationLeads, 0);
-    const totalLeadsIn = newLeads + repiqueLeads;
+    const totals: Record<string, number> = {};
+    for (const metric of metrics) {
+        totals[metric.key] = sumMetric(monthEntries, metric.key);
+    }
+    const totalLeadsIn = sumMetricsOfKind(monthEntries, metrics, 'inflow');
+    const signedLeads = sumMetricsOfKind(monthEntries, metrics, 'sale');
+    const discardedLeads = sumMetricsOfKind(monthEntries, metrics, 'outflow');
     const conversionRate = totalLeadsIn > 0 ? ((signedLeads / totalLeadsIn) * 100).toFixed(1) : "0.0";
-    const finalLeadsForMonth = currentLeadBaseForMonth + totalLeadsIn - discardedLeads - signedLeads; // Corrected calculation
+    const monthAdjustments = filterAdjustmentsByMonth(balanceAdjustments, selectedMonth);
+    const adjustmentTotal = sumAdjustments(monthAdjustments);
+    const finalLeadsForMonth = currentLeadBaseForMonth + totalLeadsIn - discardedLeads - signedLeads + adjustmentTotal; // Corrected calculation
 
     return { 
-      newLeads, repiqueLeads, signedLeads, discardedLeads, conversionRate, negotiationLeads,
+      totals, totalLeadsIn, signedLeads, discardedLeads, conversionRate,
+      monthAdjustments, adjustmentTotal,
       initialLeadsForMonth: currentLeadBaseForMonth, 
       finalLeadsForMonth 
     };
-  }, [profile.dailyEntries, selectedMonth, profile.initialLeads]);
+  }, [profile.dailyEntries, selectedMonth, profile.initialLeads, metrics, balanceAdjustments]);
 
   
+  // Goal that was in effect in the selected month, so older reports are not rewritten by later changes
+  const monthlySalesGoal = getSalesGoalForMonth(profile, selectedMonth);
+  const expectedSalesProgress = useMemo(
+    () => getElapsedWorkingShare(isWorkingDay, monthToRange(selectedMonth), getTodayString()),
+    [isWorkingDay, selectedMonth]
+  );
+
+  const monthForecast = useMemo(() => ({
+    sales: forecastMonth(profile.dailyEntries, selectedMonth, entry => sumMetricsOfKind([entry], metrics, 'sale'), isWorkingDay, monthlySalesGoal),
+    leads: forecastMonth(profile.dailyEntries, selectedMonth, entry => sumMetricsOfKind([entry], metrics, 'inflow'), isWorkingDay),
+  }), [profile.dailyEntries, selectedMonth, metrics, monthlySalesGoal, isWorkingDay]);
+
+  // Other metric goals, measured in the week/month/quarter of the selected month that contains today
+  // (or its last day for past months)
+  const metricGoalProgress = useMemo(() => {
+    const { start, end } = monthToRange(selectedMonth);
+    const today = getTodayString();
+    const referenceDate = today < start ? start : today > end ? end : today;
+    return getBrokerGoalProgress(profile, referenceDate, isWorkingDay);
+  }, [profile, selectedMonth, isWorkingDay]);
+
   const reportEntries = useMemo(() => {
     return entriesWithCalculatedBalances
         .filter(entry => entry.date.startsWith(selectedMonth))
         .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()); // sort chronologically for the table
   }, [entriesWithCalculatedBalances, selectedMonth]);
 
-  // Check if any entry in the current report has a discard reason to show the column in PDF
-  const showDiscardReasonInReport = useMemo(() => {
-    return reportEntries.some(entry => entry.discardReason && entry.discardReason.trim() !== '');
-  }, [reportEntries]);
+  // Columns of the printed daily table: metrics that move the lead base
+  const reportTableMetrics = useMemo(
+    () => getReportMetrics(metrics, reportEntries).filter(m => m.kind !== 'activity' && m.kind !== 'value'),
+    [metrics, reportEntries]
+  );
+
+  // Discarded leads of the selected month per reason, for the reports and the breakdown card
+  const monthDiscardBreakdown = useMemo(() => getDiscardBreakdown(reportEntries, metrics), [reportEntries, metrics]);
+  const monthDiscardTotals = useMemo(
+    () => summarizeDiscardBreakdown(monthDiscardBreakdown, discardReasons),
+    [monthDiscardBreakdown, discardReasons]
+  );
+  // Descriptions given for the "outros" counts of the month, with the day they were given
+  const otherDiscardDescriptions = reportEntries
+    .filter(entry => getDiscardReasonCount(entry, OTHER_DISCARD_REASON) > 0 && entry.discardReason?.trim())
+    .map(entry => `${formatRangeDate(entry.date)} ${entry.discardReason!.trim()}`);
+
+  const monthlyDiscardRows = useMemo(
+    () => getMonthlyDiscardBreakdown(profile.dailyEntries, metrics).map(({ month, breakdown }) => ({
+      key: month,
+      label: new Date(month + '-02').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' }),
+      breakdown,
+    })),
+    [profile.dailyEntries, metrics]
+  );
 
 
   useEffect(() => {
@@ -448,9 +718,18 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
 
     const labels = reportEntries.map(e => new Date(e.date + 'T00:00:00').toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' }));
     const balanceData = reportEntries.map(e => e.endOfDayBalance);
-    const newLeadsData = reportEntries.map(e => e.newLeads);
-    const salesData = reportEntries.map(e => e.signedLeads);
-    const negotiationData = reportEntries.map(e => e.negotiationLeads);
+    // One line per active inflow and sale metric, following the agency configuration
+    const chartMetrics = activeMetrics.filter(m => m.kind === 'inflow' || m.kind === 'sale');
+    const metricDatasets = chartMetrics.map((metric, index) => {
+      const color = getChartColor(metric, index);
+      return {
+        label: metric.label,
+        data: reportEntries.map(e => getMetricValue(e, metric.key)),
+        borderColor: `rgba(${color}, 1)`,
+        backgroundColor: `rgba(${color}, 0.1)`,
+        tension: 0.3,
+      };
+    });
 
     if (monthlyChartInstanceRef.current) {
       monthlyChartInstanceRef.current.destroy();
@@ -469,27 +748,7 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
             fill: true,
             tension: 0.3,
           },
-          {
-            label: 'Novos Leads',
-            data: newLeadsData,
-            borderColor: 'rgba(14, 165, 233, 1)', // brand-secondary
-            backgroundColor: 'rgba(14, 165, 233, 0.1)',
-            tension: 0.3,
-          },
-          {
-            label: 'Em Negociação',
-            data: negotiationData,
-            borderColor: 'rgba(249, 115, 22, 1)',
-            backgroundColor: 'rgba(249, 115, 22, 0.1)',
-            tension: 0.3,
-          },
-          {
-            label: 'Vendas',
-            data: salesData,
-            borderColor: 'rgba(22, 163, 74, 1)',
-            backgroundColor: 'rgba(22, 163, 74, 0.1)',
-            tension: 0.3,
-          },
+          ...metricDatasets,
         ],
       },
       options: {
@@ -520,9 +779,20 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
         monthlyChartInstanceRef.current.destroy();
       }
     };
-  }, [reportEntries, selectedMonth]);
+  }, [reportEntries, selectedMonth, activeMetrics]);
 
 
+  // Most recent change that still has something to revert. Reverts are skipped, so repeated clicks
+  // keep going back in time instead of redoing what was just undone.
+  const lastRevertibleChange = useMemo(() => {
+    const revertedIds = getRevertedRecordIds(auditLog);
+    for (const batch of groupAuditBatches(auditLog).filter(b => b.action !== 'revert')) {
+      const pending = batch.records.filter(record => !revertedIds.has(record.id));
+      if (pending.length > 0) return pending;
+    }
+    return null;
+  }, [auditLog]);
+
   const handleEditClick = (entry: DailyEntry) => {
     setSelectedDate(entry.date);
     formRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -530,8 +800,9 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
 
   const confirmDelete = () => {
     if (dateToDelete) {
-      onDeleteEntry(dateToDelete);
-      localStorage.removeItem(getDraftKey(dateToDelete)); // Also clear draft if deleting
+      if (onDeleteEntry(dateToDelete)) {
+        localStorage.removeItem(getDraftKey(dateToDelete)); // Also clear draft if deleting
+      }
       setDateToDelete(null);
     }
   };
@@ -565,41 +836,46 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
       return;
     }
 
+    if (isDateInClosedMonth(closedMonths, bulkStartDate) || isDateInClosedMonth(closedMonths, bulkEndDate)
+        || [...closedMonths].some(month => month > bulkStartDate.slice(0, 7) && month < bulkEndDate.slice(0, 7))) {
+        alert('O período inclui um mês fechado. Escolha datas fora dos meses fechados.');
+        return;
+    }
+
     const hasActiveBulkErrors = Object.values(bulkErrors).some(isError => isError);
     if (hasActiveBulkErrors) {
         alert('Por favor, corrija os campos com erros antes de salvar.');
         return;
     }
 
-    let currentDate = new Date(bulkStartDate + 'T00:00:00');
-    const endDate = new Date(bulkEndDate + 'T00:00:00');
+    // Only working days are filled: weekends without office hours, holidays and the broker's absences are skipped
+    const workingDays = listWorkingDays(isWorkingDay, bulkStartDate, bulkEndDate);
+    if (workingDays.length === 0) {
+      alert('O período escolhido não tem dias úteis para este corretor.');
+      return;
+    }
 
-    while (currentDate <= endDate) {
-      const dateString = currentDate.toISOString().split('T')[0];
+    const updatedEntries = workingDays.map(dateString => {
       const existingEntry = profile.dailyEntries.find(e => e.date === dateString);
 
-      const updatedEntry: DailyEntry = {
+      // Start from the existing entry so metrics left empty (and retired ones) keep their values
+      let updatedEntry: DailyEntry = {
+        ...createEmptyEntryData(),
+        ...existingEntry,
         date: dateString,
-        newLeads: typeof bulkDailyData.newLeads === 'number' ? bulkDailyData.newLeads : (existingEntry?.newLeads ?? 0),
-        discardedLeads: typeof bulkDailyData.discardedLeads === 'number' ? bulkDailyData.discardedLeads : (existingEntry?.discardedLeads ?? 0),
-        repiqueLeads: typeof bulkDailyData.repiqueLeads === 'number' ? bulkDailyData.repiqueLeads : (existingEntry?.repiqueLeads ?? 0),
-        localVisits: typeof bulkDailyData.localVisits === 'number' ? bulkDailyData.localVisits : (existingEntry?.localVisits ?? 0),
-        contactingLeads: typeof bulkDailyData.contactingLeads === 'number' ? bulkDailyData.contactingLeads : (existingEntry?.contactingLeads ?? 0),
-        inProgressLeads: typeof bulkDailyData.inProgressLeads === 'number' ? bulkDailyData.inProgressLeads : (existingEntry?.inProgressLeads ?? 0),
-        scheduledLeads: typeof bulkDailyData.scheduledLeads === 'number' ? bulkDailyData.scheduledLeads : (existingEntry?.scheduledLeads ?? 0),
-        negotiationLeads: typeof bulkDailyData.negotiationLeads === 'number' ? bulkDailyData.negotiationLeads : (existingEntry?.negotiationLeads ?? 0),
-        creditAnalysisLeads: typeof bulkDailyData.creditAnalysisLeads === 'number' ? bulkDailyData.creditAnalysisLeads : (existingEntry?.creditAnalysisLeads ?? 0),
-        approvedLeads: typeof bulkDailyData.approvedLeads === 'number' ? bulkDailyData.approvedLeads : (existingEntry?.approvedLeads ?? 0),
-        signedLeads: typeof bulkDailyData.signedLeads === 'number' ? bulkDailyData.signedLeads : (existingEntry?.signedLeads ?? 0),
-        discardReason: existingEntry?.discardReason || '', // Preserve existing reason during bulk number edit
+        discardReason: existingEntry?.discardReason || '', // Preserve existing reasons during bulk number edit
       };
-      
-      onSaveEntry(updatedEntry);
-      localStorage.removeItem(getDraftKey(dateString)); // Clear drafts for bulk edited dates
-
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
+      for (const metric of activeMetrics) {
+        const bulkValue = bulkDailyData[metric.key];
+        if (typeof bulkValue === 'number') {
+          updatedEntry = setMetricValue(updatedEntry, metric.key, bulkValue);
+        }
+      }
+      return updatedEntry;
+    });
 
+    if (!onSaveEntries(updatedEntries, 'bulkEdit')) return;
+    updatedEntries.forEach(entry => localStorage.removeItem(getDraftKey(entry.date))); // Clear drafts for bulk edited dates
     alert('Edição em massa salva com sucesso!');
     setShowBulkEditModal(false);
     setBulkDailyData({}); // Reset bulk data
@@ -638,6 +914,22 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                     >
                       Exportar CSV (Completo)
                     </button>
+                    <button 
+                      onClick={() => setShowCsvImportModal(true)} 
+                      className="px-4 py-2 bg-emerald-50 text-emerald-700 border border-emerald-200 rounded-lg font-semibold shadow-lg hover:bg-emerald-100 transition-colors duration-200"
+                      aria-label="Importar lançamentos de um arquivo CSV"
+                    >
+                      Importar CSV
+                    </button>
+                    {canAdjustBalances && (
+                      <button 
+                        onClick={() => setShowAdjustmentModal(true)} 
+                        className="px-4 py-2 bg-amber-50 text-amber-700 border border-amber-200 rounded-lg font-semibold shadow-lg hover:bg-amber-100 transition-colors duration-200"
+                        aria-label="Registrar um ajuste no saldo de leads"
+                      >
+                        Ajustar Saldo
+                      </button>
+                    )}
                     <button 
                       onClick={() => setShowBulkEditModal(true)} 
                       className="px-4 py-2 bg-gray-600 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-700 transition-colors duration-200"
@@ -698,16 +990,59 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                     <div className="grid grid-cols-3 gap-4">
                         <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Base Inicial</p><p className="text-2xl font-bold text-gray-800">{monthlySummary.initialLeadsForMonth}</p></div>
                         <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Base Final</p><p className="text-2xl font-bold text-gray-800">{monthlySummary.finalLeadsForMonth}</p></div>
-                        <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Leads Recebidos</p><p className="text-2xl font-bold text-gray-800">{monthlySummary.newLeads}</p></div>
-                        <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Repiques</p><p className="text-2xl font-bold text-blue-500">{monthlySummary.repiqueLeads}</p></div>
+                        {reportTableMetrics.filter(m => m.kind === 'inflow').map(metric => (
+                            <div key={metric.key} className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">{metric.label}</p><p className="text-2xl font-bold text-gray-800">{monthlySummary.totals[metric.key]}</p></div>
+                        ))}
                         <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Leads Descartados</p><p className="text-2xl font-bold text-red-600">{monthlySummary.discardedLeads}</p></div>
                         <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Vendas Realizadas</p><p className="text-2xl font-bold text-green-600">{monthlySummary.signedLeads}</p></div>
-                        <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Meta de Vendas</p><p className="text-2xl font-bold text-gray-800">{profile.monthlySalesGoal || 'N/A'}</p></div>
-                        <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Progresso da Meta</p><p className="text-2xl font-bold text-blue-600">{profile.monthlySalesGoal ? `${Math.round((monthlySummary.signedLeads / profile.monthlySalesGoal) * 100)}%` : 'N/A'}</p></div>
+                        <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Meta de Vendas</p><p className="text-2xl font-bold text-gray-800">{monthlySalesGoal || 'N/A'}</p></div>
+                        <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Progresso da Meta</p><p className="text-2xl font-bold text-blue-600">{monthlySalesGoal ? `${Math.round((monthlySummary.signedLeads / monthlySalesGoal) * 100)}%` : 'N/A'}</p></div>
                         <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Taxa de Conversão</p><p className="text-2xl font-bold text-blue-600">{monthlySummary.conversionRate}%</p></div>
+                        {monthlySummary.monthAdjustments.length > 0 && (
+                            <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Ajustes de Saldo</p><p className="text-2xl font-bold text-amber-600">{formatAdjustmentAmount(monthlySummary.adjustmentTotal)}</p></div>
+                        )}
                     </div>
                 </section>
 
+                {monthForecast.sales.remainingWorkingDays > 0 && (
+                    <section className="mb-8">
+                        <h2 className="text-2xl font-bold text-gray-700 mb-4">Projeção de Fechamento</h2>
+                        <div className="grid grid-cols-3 gap-4">
+                            <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Vendas Previstas</p><p className="text-2xl font-bold text-gray-800">{Math.round(monthForecast.sales.projected)}</p><p className="text-xs text-gray-500">{Math.floor(monthForecast.sales.low)} a {Math.ceil(monthForecast.sales.high)}</p></div>
+                            <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Leads Previstos</p><p className="text-2xl font-bold text-gray-800">{Math.round(monthForecast.leads.projected)}</p><p className="text-xs text-gray-500">{Math.floor(monthForecast.leads.low)} a {Math.ceil(monthForecast.leads.high)}</p></div>
+                            <div className="border border-gray-200 p-4 rounded-lg text-center"><p className="text-gray-500 text-sm">Vendas/Dia Útil Necessárias</p><p className="text-2xl font-bold text-blue-600">{monthForecast.sales.requiredPerDay !== null ? monthForecast.sales.requiredPerDay.toLocaleString('pt-BR', { maximumFractionDigits: 1 }) : 'N/A'}</p><p className="text-xs text-gray-500">{monthForecast.sales.remainingWorkingDays} dias úteis restantes</p></div>
+                        </div>
+                    </section>
+                )}
+
+                {metricGoalProgress.length > 0 && (
+                    <section className="mb-8">
+                        <h2 className="text-2xl font-bold text-gray-700 mb-4">Outras Metas</h2>
+                        <table className="w-full text-sm text-left text-gray-500">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">Métrica</th>
+                                    <th scope="col" className="px-4 py-3">Período</th>
+                                    <th scope="col" className="px-4 py-3 text-center">Realizado</th>
+                                    <th scope="col" className="px-4 py-3 text-center">Meta</th>
+                                    <th scope="col" className="px-4 py-3 text-center">Progresso</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {metricGoalProgress.map(({ goal, range, current, percentage }) => (
+                                    <tr key={goal.id} className="bg-white border-b">
+                                        <td className="px-4 py-3 font-medium text-gray-900">{labelOf(goal.metricKey)}</td>
+                                        <td className="px-4 py-3">{goalPeriodLabels[goal.period]} ({formatRangeDate(range.start)} a {formatRangeDate(range.end)})</td>
+                                        <td className="px-4 py-3 text-center">{current.toLocaleString('pt-BR')}</td>
+                                        <td className="px-4 py-3 text-center">{goal.target.toLocaleString('pt-BR')}</td>
+                                        <td className="px-4 py-3 text-center font-bold text-blue-600">{Math.round(percentage)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+
                 {/* Detailed Daily Log Table */}
                 <section>
                     <h2 className="text-2xl font-bold text-gray-700 mb-4">Lançamentos Diários</h2>
@@ -716,10 +1051,10 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                             <tr>
                                 <th scope="col" className="px-4 py-3">Data</th>
                                 <th scope="col" className="px-4 py-3 text-center">Base Inicial do Dia</th>
-                                <th scope="col" className="px-4 py-3 text-center">Novos Leads</th>
-                                <th scope="col" className="px-4 py-3 text-center">Contratos Assinados</th>
-                                <th scope="col" className="px-4 py-3 text-center">Leads Descartados</th>
-                                {showDiscardReasonInReport && <th scope="col" className="px-4 py-3 text-center">Motivo do Descarte</th>}
+                                {reportTableMetrics.map(metric => (
+                                    <th key={metric.key} scope="col" className="px-4 py-3 text-center">{metric.label}</th>
+                                ))}
+                                {monthlySummary.monthAdjustments.length > 0 && <th scope="col" className="px-4 py-3 text-center">Ajuste</th>}
                                 <th scope="col" className="px-4 py-3 text-center">Saldo Final do Dia</th>
                             </tr>
                         </thead>
@@ -730,20 +1065,79 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                                         {new Date(entry.date + 'T00:00:00').toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' })}
                                     </th>
                                     <td className="px-4 py-3 text-center">{entry.startOfDayBalance}</td>
-                                    <td className="px-4 py-3 text-center">{entry.newLeads}</td>
-                                    <td className="px-4 py-3 text-center text-green-600 font-semibold">{entry.signedLeads}</td>
-                                    <td className="px-4 py-3 text-center text-red-600 font-semibold">{entry.discardedLeads}</td>
-                                    {showDiscardReasonInReport && <td className="px-4 py-3 text-center text-gray-600 italic text-xs">{entry.discardReason || '-'}</td>}
+                                    {reportTableMetrics.map(metric => (
+                                        <td key={metric.key} className={`px-4 py-3 text-center ${metric.kind === 'sale' ? 'text-green-600 font-semibold' : metric.kind === 'outflow' ? 'text-red-600 font-semibold' : ''}`}>
+                                            {getMetricValue(entry, metric.key)}
+                                        </td>
+                                    ))}
+                                    {monthlySummary.monthAdjustments.length > 0 && (
+                                        <td className="px-4 py-3 text-center text-amber-600 font-semibold">{entry.balanceAdjustment ? formatAdjustmentAmount(entry.balanceAdjustment) : '-'}</td>
+                                    )}
                                     <td className="px-4 py-3 text-center font-bold text-gray-800">{entry.endOfDayBalance}</td>
                                 </tr>
                             ))}
                             {reportEntries.length === 0 && (
-                                <tr><td colSpan={showDiscardReasonInReport ? 7 : 6} className="text-center py-4">Nenhum lançamento neste mês.</td></tr>
+                                <tr><td colSpan={reportTableMetrics.length + 3} className="text-center py-4">Nenhum lançamento neste mês.</td></tr>
                             )}
                         </tbody>
                     </table>
                 </section>
 
+                {monthlySummary.monthAdjustments.length > 0 && (
+                    <section className="mt-8">
+                        <h2 className="text-2xl font-bold text-gray-700 mb-4">Ajustes de Saldo</h2>
+                        <table className="w-full text-sm text-left text-gray-500">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">Data</th>
+                                    <th scope="col" className="px-4 py-3">Motivo</th>
+                                    <th scope="col" className="px-4 py-3">Observação</th>
+                                    <th scope="col" className="px-4 py-3">Registrado por</th>
+                                    <th scope="col" className="px-4 py-3 text-center">Ajuste</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {monthlySummary.monthAdjustments.map(adjustment => (
+                                    <tr key={adjustment.id} className="bg-white border-b">
+                                        <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">{formatDate(adjustment.date)}</td>
+                                        <td className="px-4 py-3">{describeAdjustmentReason(adjustment)}</td>
+                                        <td className="px-4 py-3">{adjustment.note || '-'}</td>
+                                        <td className="px-4 py-3">{adjustment.author}</td>
+                                        <td className={`px-4 py-3 text-center font-semibold ${adjustment.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatAdjustmentAmount(adjustment.amount)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+
+                {monthDiscardTotals.length > 0 && (
+                    <section className="mt-8">
+                        <h2 className="text-2xl font-bold text-gray-700 mb-4">Motivos de Descarte</h2>
+                        <table className="w-full text-sm text-left text-gray-500">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">Motivo</th>
+                                    <th scope="col" className="px-4 py-3 text-center">Leads Descartados</th>
+                                    <th scope="col" className="px-4 py-3 text-center">% dos Descartes</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {monthDiscardTotals.map(total => (
+                                    <tr key={total.key} className="bg-white border-b">
+                                        <td className="px-4 py-3 font-medium text-gray-900">{total.label}</td>
+                                        <td className="px-4 py-3 text-center text-red-600 font-semibold">{total.discarded}</td>
+                                        <td className="px-4 py-3 text-center">{Math.round(total.share)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {otherDiscardDescriptions.length > 0 && (
+                            <p className="mt-2 text-xs text-gray-600 italic">Outros: {otherDiscardDescriptions.join('; ')}</p>
+                        )}
+                    </section>
+                )}
+
                 {/* Report Footer */}
                 <div className="mt-8 pt-4 text-center text-xs text-gray-400 border-t">
                     Relatório gerado em {new Date().toLocaleString('pt-BR')} | Performance de Leads
@@ -751,18 +1145,35 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
             </div>
           </div>
           
-          <GoalProgressCard current={monthlySummary.signedLeads} goal={profile.monthlySalesGoal || 0} />
+          <div className={metricGoalProgress.length > 0 ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+            <GoalProgressCard current={monthlySummary.signedLeads} goal={monthlySalesGoal} expected={expectedSalesProgress} />
+            {metricGoalProgress.map(({ goal, range, current, expectedPercentage }) => (
+                <GoalProgressCard
+                    key={goal.id}
+                    current={current}
+                    goal={goal.target}
+                    expected={expectedPercentage}
+                    title={`Meta ${goalPeriodLabels[goal.period]}: ${labelOf(goal.metricKey)}`}
+                    unitLabel=""
+                    subtitle={`${formatRangeDate(range.start)} a ${formatRangeDate(range.end)}`}
+                />
+            ))}
+          </div>
+
+          <div className="no-print">
+            <ForecastCard title="Projeção de Fechamento do Mês" sales={monthForecast.sales} leads={monthForecast.leads} salesGoal={monthlySalesGoal} />
+          </div>
 
           <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
                 <MetricCard label="Base Inicial (Mês)" value={monthlySummary.initialLeadsForMonth} />
                 <MetricCard label="Base Final (Mês)" value={monthlySummary.finalLeadsForMonth} />
-                <MetricCard label="Leads Recebidos (Mês)" value={monthlySummary.newLeads} />
-                <MetricCard label="Repiques (Mês)" value={monthlySummary.repiqueLeads} />
-                <MetricCard label="Em Negociação (Mês)" value={monthlySummary.negotiationLeads} />
+                {activeMetrics.filter(m => m.kind === 'inflow').map(metric => (
+                    <MetricCard key={metric.key} label={`${metric.label} (Mês)`} value={monthlySummary.totals[metric.key]} />
+                ))}
                 <MetricCard label="Vendas (Mês)" value={monthlySummary.signedLeads} />
                 <MetricCard label="Leads Descartados (Mês)" value={monthlySummary.discardedLeads} />
-                <MetricCard label="Meta de Vendas" value={profile.monthlySalesGoal || 'N/A'} />
+                <MetricCard label="Meta de Vendas" value={monthlySalesGoal || 'N/A'} />
                 <MetricCard label="Conversão (Mês)" value={`${monthlySummary.conversionRate}%`} />
             </div>
           </section>
@@ -780,26 +1191,95 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
             </div>
           </section>
 
+          <FunnelAnalysis entries={profile.dailyEntries} metrics={metrics} />
+
+          <DiscardReasonAnalysis
+            title="Motivos de Descarte"
+            highlightLabel={`Mês selecionado: ${new Date(selectedMonth + '-02').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}`}
+            highlight={monthDiscardBreakdown}
+            rowHeader="Mês"
+            rows={monthlyDiscardRows}
+            reasons={discardReasons}
+          />
+
           <section className="no-print">
             <h2 className="text-2xl font-semibold text-text-primary mb-4">Histórico de Lançamentos</h2>
+            {consistencyIssues.length > 0 && (
+              <p className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" role="alert">
+                {consistencyIssues.length} inconsistência(s) em {issuesByDate.size} lançamento(s). Os dias afetados estão marcados abaixo.
+              </p>
+            )}
             <div className="space-y-4 max-h-96 overflow-y-auto pr-2 bg-surface-main/80 p-4 rounded-lg">
-                {entriesWithCalculatedBalances.length > 0 ? entriesWithCalculatedBalances.map(entry => {
-                    const dailyLeadsIn = entry.newLeads + (entry.repiqueLeads || 0);
-                    const dailyUtilization = dailyLeadsIn > 0 ? `${((entry.signedLeads / dailyLeadsIn) * 100).toFixed(1)}%` : 'N/A';
+                {historyItems.length > 0 ? historyItems.map(({ entry, adjustment }) => {
+                    if (adjustment) {
+                        return (
+                    <div key={adjustment.id} className="bg-amber-50 border border-amber-200 p-4 rounded-lg shadow-md">
+                        <div className="flex flex-wrap justify-between items-start gap-2">
+                            <div>
+                                <h3 className="font-bold text-amber-800">Ajuste de Saldo · {formatDate(adjustment.date)}</h3>
+                                <p className="text-sm text-amber-800">
+                                    {describeAdjustmentReason(adjustment)}{adjustment.note && ` · ${adjustment.note}`}
+                                </p>
+                                <p className="text-xs text-text-secondary mt-1">Registrado por {adjustment.author} em {new Date(adjustment.createdAt).toLocaleString('pt-BR')}</p>
+                            </div>
+                            <div className="text-right">
+                                <p className={`text-2xl font-bold ${adjustment.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatAdjustmentAmount(adjustment.amount)}</p>
+                                <p className="text-xs text-text-secondary">Saldo ao fim do dia: {getBalanceAtEndOfDay(adjustment.date)}</p>
+                            </div>
+                        </div>
+                        {canAdjustBalances && (
+                          <div className="mt-3 flex justify-end no-print">
+                              <button
+                                onClick={() => confirm(adjustment.transferId
+                                  ? `Desfazer esta transferência? Os leads voltam para ${adjustment.amount < 0 ? 'este corretor' : adjustment.counterpartBrokerName || 'o corretor de origem'} e os saldos dos dois lados a partir desta data serão recalculados.`
+                                  : 'Excluir este ajuste de saldo? Os saldos a partir desta data serão recalculados.') && onDeleteBalanceAdjustment(adjustment)}
+                                className="px-3 py-1 text-sm bg-red-50 text-red-600 rounded-md hover:bg-red-100 transition border border-red-200"
+                              >
+                                {adjustment.transferId ? 'Desfazer transferência' : 'Excluir ajuste'}
+                              </button>
+                          </div>
+                        )}
+                    </div>
+                        );
+                    }
+                    const dailyLeadsIn = sumMetricsOfKind([entry], metrics, 'inflow');
+                    const dailySales = sumMetricsOfKind([entry], metrics, 'sale');
+                    const dailyUtilization = dailyLeadsIn > 0 ? `${((dailySales / dailyLeadsIn) * 100).toFixed(1)}%` : 'N/A';
+                    const entryStatus = getEntryStatus(entry);
+                    const isEntryLocked = isDateInClosedMonth(closedMonths, entry.date);
                     return (
                     <div key={entry.date} className="bg-surface-card p-4 rounded-lg shadow-md">
-                        <h3 className="font-bold text-lg text-brand-primary">{new Date(entry.date + 'T00:00:00').toLocaleDateString('pt-BR', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</h3>
+                        <div className="flex flex-wrap justify-between items-center gap-2">
+                            <h3 className="font-bold text-lg text-brand-primary">{new Date(entry.date + 'T00:00:00').toLocaleDateString('pt-BR', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</h3>
+                            <div className="flex gap-2">
+                                {isEntryLocked && <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-600">Mês fechado</span>}
+                                {entryStatus !== 'approved' && (
+                                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusBadgeClassNames[entryStatus]}`}>{entryStatusLabels[entryStatus]}</span>
+                                )}
+                            </div>
+                        </div>
+                        {entryStatus === 'rejected' && entry.review?.comment && (
+                            <p className="mt-1 text-sm text-red-700"><span className="font-semibold">Motivo da recusa ({entry.review.by}):</span> {entry.review.comment}</p>
+                        )}
                         <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 mt-2 text-sm list-disc list-inside">
                             <li className="col-span-full sm:col-span-1"><span className="font-semibold text-text-secondary">Base Inicial do Dia:</span> {entry.startOfDayBalance}</li>
-                            {Object.entries(entry).filter(([key, value]) => key !== 'date' && key !== 'discardReason' && key !== 'endOfDayBalance' && key !== 'startOfDayBalance' && typeof value === 'number' && value > 0).map(([key, value]) => (
-                                <li key={key}><span className="font-semibold text-text-secondary">{labelsMap[key as keyof Omit<DailyEntry, 'date' | 'discardReason'>]}:</span> {value as number}</li>
+                            {metrics.filter(metric => getMetricValue(entry, metric.key) > 0).map(metric => (
+                                <li key={metric.key}><span className="font-semibold text-text-secondary">{metric.label}:</span> {getMetricValue(entry, metric.key)}</li>
                             ))}
+                            {entry.balanceAdjustment !== 0 && (
+                                <li className="text-amber-700"><span className="font-semibold">Ajuste de Saldo:</span> {formatAdjustmentAmount(entry.balanceAdjustment)}</li>
+                            )}
                         </ul>
-                        {entry.discardReason && (
+                        {getClassifiedDiscards(entry) > 0 && (
                             <div className="mt-2 p-2 bg-red-50 border border-red-100 rounded text-sm text-red-700">
-                                <span className="font-semibold">Motivo do Descarte:</span> {entry.discardReason}
+                                <span className="font-semibold">Motivos do Descarte:</span> {describeEntryDiscards(entry, discardReasons)}
                             </div>
                         )}
+                        {issuesByDate.get(entry.date)?.map(issue => (
+                            <div key={issue.ruleId} className={`mt-2 p-2 rounded text-sm border ${issue.severity === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                                <span className="font-semibold">{getConsistencyRuleLabel(issue.ruleId)}:</span> {issue.message}
+                            </div>
+                        ))}
                           <div className="mt-3 pt-3 border-t border-gray-200/80 flex flex-wrap justify-between items-center gap-4">
                             <div className="flex flex-col">
                               <p className="text-md font-semibold text-text-primary">Leads restantes p/ dia seguinte: <span className="text-brand-primary text-lg">{entry.endOfDayBalance}</span></p>
@@ -817,15 +1297,27 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                                   Editar
                                 </button>
                                 <button 
-                                  onClick={() => setDateToDelete(entry.date)} 
-                                  className="flex items-center gap-1 px-3 py-1 text-sm bg-red-50 text-red-600 rounded-md hover:bg-red-100 transition border border-red-200"
-                                  title="Excluir lançamento"
+                                  onClick={() => setAuditDate(entry.date)} 
+                                  className="flex items-center gap-1 px-3 py-1 text-sm bg-surface-input text-text-secondary rounded-md hover:bg-gray-200 transition border border-gray-200"
+                                  title="Ver alterações deste lançamento"
                                 >
                                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                                   </svg>
-                                  Excluir
+                                  Alterações
                                 </button>
+                                {!isEntryLocked && (entryStatus !== 'approved' || canApproveEntries) && (
+                                  <button 
+                                    onClick={() => setDateToDelete(entry.date)} 
+                                    className="flex items-center gap-1 px-3 py-1 text-sm bg-red-50 text-red-600 rounded-md hover:bg-red-100 transition border border-red-200"
+                                    title="Excluir lançamento"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                    </svg>
+                                    Excluir
+                                  </button>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -835,6 +1327,30 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
             </div>
           </section>
 
+          <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <div>
+                    <h2 className="text-2xl font-semibold text-text-primary">Histórico de Alterações</h2>
+                    <p className="text-sm text-text-secondary">Quem alterou cada lançamento, quando, e os valores antes e depois.</p>
+                </div>
+                {lastRevertibleChange && canRevertChanges && (
+                    <button
+                        onClick={() => onRevertChanges(lastRevertibleChange)}
+                        className="px-4 py-2 text-sm bg-amber-50 text-amber-700 border border-amber-200 rounded-lg font-semibold hover:bg-amber-100 transition-colors"
+                    >
+                        Desfazer última alteração
+                    </button>
+                )}
+            </div>
+            <div className="max-h-96 overflow-y-auto pr-2">
+                <AuditHistoryPanel records={auditLog} metrics={metrics} discardReasons={discardReasons} onRevertChanges={canRevertChanges ? onRevertChanges : undefined} />
+            </div>
+          </section>
+
+          <LeadTracker leads={leads} metrics={metrics} onSaveLead={onSaveLead} onDeleteLead={onDeleteLead} />
+
+          <BrokerAbsencesPanel absences={profile.absences || []} canEdit={canManageAbsences} onAddAbsence={onAddAbsence} onDeleteAbsence={onDeleteAbsence} />
+
           <section ref={formRef} className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
             <div className="flex justify-between items-center mb-1">
                 <h2 className="text-2xl font-semibold text-text-primary">Lançamento do Dia</h2>
@@ -848,6 +1364,36 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                 )}
             </div>
             <p className="text-text-secondary mb-6">Selecione uma data para adicionar ou editar as atividades.</p>
+            {selectedDayOff && !isSelectedDateClosed && (
+                <div className="mb-6 p-4 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-secondary">
+                    <span className="font-semibold text-text-primary">Dia sem expediente:</span> {selectedDayOff}. Nenhum lançamento é esperado, mas você pode registrar a atividade se trabalhou neste dia.
+                </div>
+            )}
+            {isSelectedDateClosed && (
+                <div className="mb-6 p-4 bg-gray-100 border border-gray-200 rounded-lg text-sm text-text-primary">
+                    <span className="font-semibold">Mês fechado:</span> os lançamentos de <span className="capitalize">{formatMonthLabel(selectedDate.slice(0, 7))}</span> não podem ser alterados. Peça ao gerente para reabrir o mês se algo precisar ser corrigido.
+                </div>
+            )}
+            {savedEntry && !isSelectedDateClosed && getEntryStatus(savedEntry) !== 'approved' && (
+                <div className={`mb-6 p-4 rounded-lg text-sm border ${getEntryStatus(savedEntry) === 'rejected' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                    <span className="font-semibold">{entryStatusLabels[getEntryStatus(savedEntry)]}</span>
+                    {getEntryStatus(savedEntry) === 'rejected' && savedEntry.review && (
+                        <> por {savedEntry.review.by}{savedEntry.review.comment && <>: "{savedEntry.review.comment}"</>}. Corrija e salve novamente para reenviar.</>
+                    )}
+                    {getEntryStatus(savedEntry) === 'submitted' && '. O lançamento só entra no ranking depois que o gerente aprovar.'}
+                </div>
+            )}
+            {hasDerivedCounts && (
+                <div className="mb-6 p-4 bg-brand-light/20 border border-brand-light rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <p className="text-sm text-text-primary">
+                        <span className="font-semibold">Movimentações de leads neste dia:</span>{' '}
+                        {activeMetrics.filter(m => derivedCounts[m.key]).map(m => `${m.label}: ${derivedCounts[m.key]}`).join(' • ')}
+                    </p>
+                    <button type="button" onClick={handleApplyDerivedCounts} className="px-4 py-2 text-sm bg-brand-primary text-white rounded-lg font-semibold hover:bg-brand-dark transition-colors whitespace-nowrap">
+                        Usar contagem dos leads
+                    </button>
+                </div>
+            )}
             <form onSubmit={handleSubmit}>
               <div className="mb-6">
                  <label htmlFor="entryDate" className="block text-sm font-medium text-text-secondary mb-2">Data</label>
@@ -856,45 +1402,78 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                     className="px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200"/>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
-                {fieldOrder.map(key => {
-                  const keyTyped = key as keyof Omit<DailyEntry, 'date' | 'discardReason'>;
-                  return <NumberInput 
-                    key={keyTyped} 
-                    id={keyTyped} 
-                    label={labelsMap[keyTyped]} 
-                    value={dailyData[keyTyped]} 
+                {activeMetrics.map(metric => (
+                  <NumberInput 
+                    key={metric.key} 
+                    id={metric.key} 
+                    label={metric.label} 
+                    value={getMetricValue(dailyData, metric.key)} 
                     onChange={handleNumberChange} 
                     placeholder="0"
-                    error={errors[keyTyped]}
+                    error={errors[metric.key]}
                     />
-                })}
-                {dailyData.discardedLeads > 0 && (
-                    <div className="col-span-full animate-fade-in">
-                         <label htmlFor="discardReason" className="block text-sm font-medium text-text-secondary mb-2">Motivo do Descarte</label>
-                         <textarea
-                            id="discardReason"
-                            value={dailyData.discardReason || ''}
-                            onChange={(e) => setDailyData({ ...dailyData, discardReason: e.target.value })}
-                            placeholder="Descreva o motivo do descarte..."
-                            className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200 min-h-[100px]"
-                         />
+                ))}
+                {sumMetricsOfKind([dailyData], metrics, 'outflow') > 0 && (
+                    <div className="col-span-full animate-fade-in p-4 bg-red-50/50 border border-red-100 rounded-lg">
+                        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                            <h3 className="text-sm font-semibold text-text-primary">Motivos do Descarte</h3>
+                            <span className={`text-xs font-semibold ${getClassifiedDiscards(dailyData) > sumMetricsOfKind([dailyData], metrics, 'outflow') ? 'text-red-600' : 'text-text-secondary'}`}>
+                                {getClassifiedDiscards(dailyData)} de {sumMetricsOfKind([dailyData], metrics, 'outflow')} descartados classificados
+                            </span>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                            {/* Retired reasons stay visible on days that already use them */}
+                            {discardReasons.filter(reason => reason.active || getDiscardReasonCount(dailyData, reason.key) > 0).map(reason => (
+                                <NumberInput
+                                    key={reason.key}
+                                    id={`discardReason-${reason.key}`}
+                                    label={reason.label}
+                                    value={getDiscardReasonCount(dailyData, reason.key)}
+                                    onChange={handleDiscardCountChange}
+                                    placeholder="0"
+                                    error={errors[`discardReason-${reason.key}`]}
+                                />
+                            ))}
+                            <NumberInput
+                                id={`discardReason-${OTHER_DISCARD_REASON}`}
+                                label="Outros"
+                                value={getDiscardReasonCount(dailyData, OTHER_DISCARD_REASON)}
+                                onChange={handleDiscardCountChange}
+                                placeholder="0"
+                                error={errors[`discardReason-${OTHER_DISCARD_REASON}`]}
+                            />
+                        </div>
+                        {getDiscardReasonCount(dailyData, OTHER_DISCARD_REASON) > 0 && (
+                            <div className="mt-4">
+                                <label htmlFor="discardReason" className="block text-sm font-medium text-text-secondary mb-2">Descrição de "Outros"</label>
+                                <textarea
+                                    id="discardReason"
+                                    value={dailyData.discardReason || ''}
+                                    onChange={(e) => setDailyData({ ...dailyData, discardReason: e.target.value })}
+                                    placeholder="Descreva os outros motivos do descarte..."
+                                    className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200 min-h-[80px]"
+                                />
+                            </div>
+                        )}
                     </div>
                 )}
               </div>
-              <button type="submit" className="w-full sm:w-auto px-8 py-3 bg-gradient-to-r from-brand-primary to-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity duration-200">
+              <button type="submit" disabled={isSelectedDateClosed} className="w-full sm:w-auto px-8 py-3 bg-gradient-to-r from-brand-primary to-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
                 Salvar Lançamento
               </button>
             </form>
           </section>
           
-          <div className="mt-10 text-center no-print">
-            <button onClick={onReset} className="inline-flex items-center gap-2 px-8 py-3 bg-brand-secondary/80 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-secondary transition-colors duration-200">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
-                </svg>
-              Trocar de Corretor
-            </button>
-          </div>
+          {canSwitchBroker && (
+            <div className="mt-10 text-center no-print">
+              <button onClick={onReset} className="inline-flex items-center gap-2 px-8 py-3 bg-brand-secondary/80 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-secondary transition-colors duration-200">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                  </svg>
+                Trocar de Corretor
+              </button>
+            </div>
+          )}
       </div>
       {dateToDelete && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in" aria-modal="true" role="dialog">
@@ -924,6 +1503,49 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
         </div>
       )}
 
+      {auditDate && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in" aria-modal="true" role="dialog">
+          <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-2xl max-h-[90vh] overflow-y-auto" role="document">
+            <h3 className="text-2xl font-bold text-text-primary mb-4">
+              Alterações de {formatDate(auditDate)}
+            </h3>
+            <AuditHistoryPanel
+              records={auditLog.filter(record => record.date === auditDate)}
+              metrics={metrics}
+              discardReasons={discardReasons}
+              onRevertChanges={canRevertChanges ? onRevertChanges : undefined}
+              showEntryDates={false}
+            />
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={() => setAuditDate(null)}
+                className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors"
+              >
+                Fechar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showCsvImportModal && (
+        <CsvImportModal
+          metrics={metrics}
+          discardReasons={discardReasons}
+          existingEntries={profile.dailyEntries}
+          onImport={handleImportCsv}
+          onClose={() => setShowCsvImportModal(false)}
+        />
+      )}
+
+      {showAdjustmentModal && (
+        <BalanceAdjustmentModal
+          getBalanceAtEndOf={getBalanceAtEndOfDay}
+          onSave={onAddBalanceAdjustment}
+          onClose={() => setShowAdjustmentModal(false)}
+        />
+      )}
+
       {showBulkEditModal && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in" aria-modal="true" role="dialog">
           <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-3xl max-h-[90vh] overflow-y-auto" role="document">
@@ -945,19 +1567,24 @@ const BrokerDashboard: React.FC<BrokerDashboardProps> = ({ profile, onSaveEntry,
                 </div>
               </div>
 
+              {bulkStartDate && bulkEndDate && bulkStartDate <= bulkEndDate && (
+                <p className="-mt-3 mb-6 text-sm text-text-secondary">
+                  {countWorkingDays(isWorkingDay, bulkStartDate, bulkEndDate)} dia(s) útil(eis) no período. Fins de semana sem expediente, feriados e ausências do corretor não são preenchidos.
+                </p>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-                {fieldOrder.map(key => {
-                  const keyTyped = key as keyof Omit<DailyEntry, 'date' | 'discardReason'>;
-                  return <NumberInput 
-                    key={`bulk-${keyTyped}`} 
-                    id={keyTyped} 
-                    label={labelsMap[keyTyped]} 
-                    value={bulkDailyData[keyTyped] ?? ''} 
+                {activeMetrics.map(metric => (
+                  <NumberInput 
+                    key={`bulk-${metric.key}`} 
+                    id={metric.key} 
+                    label={metric.label} 
+                    value={bulkDailyData[metric.key] ?? ''} 
                     onChange={handleBulkNumberChange} 
                     placeholder="Manter existente / 0"
-                    error={bulkErrors[keyTyped]}
+                    error={bulkErrors[metric.key]}
                     />
-                })}
+                ))}
               </div>
               <div className="flex justify-end gap-4">
                 <button
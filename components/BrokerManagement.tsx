@@ -1,29 +1,109 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { BrokerProfile } from '../types';
+import type { AgencyCalendar, BrokerProfile, ConsistencyRuleId, DiscardReasonDefinition, GoalPeriod, LeadDistributionSettings, MetricDefinition, MetricGoal, MonthCloseEvent, RuleSeverity, UserAccount } from '../types';
+import type { QuarantinedRecord } from '../services/storage';
+import TeamFunnelComparison from './TeamFunnelComparison';
+import TeamGoalsPanel from './TeamGoalsPanel';
+import ForecastCard from './ForecastCard';
+import BackupMergeModal from './BackupMergeModal';
+import TeamReportPanel from './TeamReportPanel';
+import PeriodPresetSelector from './PeriodPresetSelector';
+import DiscardReasonAnalysis from './DiscardReasonAnalysis';
+import ConsistencyCheckPanel from './ConsistencyCheckPanel';
+import LeadTransfersPanel from './LeadTransfersPanel';
+import LeadDistributionPlanner from './LeadDistributionPlanner';
+import ApprovalInbox from './ApprovalInbox';
+import MonthClosePanel from './MonthClosePanel';
+import EntryCompliancePanel from './EntryCompliancePanel';
+import { getBrokerGoalProgress, getMetricGoalsInEffect, getSalesGoalForMonth, goalPeriodLabels } from '../utils/goals';
+import { generateId } from '../utils/id';
+import { getTrashExpiry, isActiveBroker, isInTrash, TRASH_RETENTION_DAYS } from '../utils/brokers';
+import { combineForecasts, forecastMonth } from '../utils/forecast';
+import type { ReportBranding } from '../utils/pdfReport';
+import type { DateRange } from '../utils/funnel';
+import type { LeadTransferRequest } from '../utils/transfers';
+import { filterEntriesByPeriod, getPresetRange, getPreviousRange, periodPresetLabels, type PeriodPreset } from '../utils/periods';
+import { formatDate, getTodayString } from '../utils/date';
+import { getActiveMetrics, getMetricLabel, sumMetric, sumMetricsOfKind } from '../utils/metrics';
+import { getDiscardBreakdown } from '../utils/discardReasons';
+import { hasPermission, type Permission } from '../utils/users';
+import { getApprovedEntries, getEntryStatus, withApprovedEntriesOnly } from '../utils/approval';
+import { countWorkingDays, createWorkingDayCheck } from '../utils/calendar';
 
 declare const Chart: any;
 
 interface BrokerManagementProps {
   brokers: BrokerProfile[];
+  metrics: MetricDefinition[];
+  discardReasons: DiscardReasonDefinition[];
+  consistencyRules: Record<ConsistencyRuleId, RuleSeverity>;
+  distributionSettings: LeadDistributionSettings;
+  branding: ReportBranding;
+  currentUser: UserAccount; // Sections and actions are shown according to the user's role
+  monthCloseLog: MonthCloseEvent[];
+  calendar: AgencyCalendar; // Working days for forecasts, goal pacing and the per-day comparison
+  onReviewEntries: (items: { brokerId: string; date: string }[], approved: boolean, comment?: string) => boolean;
+  onCloseMonth: (month: string) => void;
+  onReopenMonth: (month: string, reason: string) => void;
   onAddBroker: (brokerName: string, initialLeads: number, monthlySalesGoal: number) => void;
-  onSelectBroker: (brokerName: string) => void;
-  onUpdateBroker: (originalName: string, updatedData: { brokerName: string; initialLeads: number; monthlySalesGoal: number }) => boolean;
-  onDeleteBroker: (brokerName: string) => void;
+  onSelectBroker: (brokerId: string) => void;
+  onOpenEntry: (brokerId: string, date: string) => void;
+  onUpdateBroker: (brokerId: string, updatedData: { brokerName: string; initialLeads: number; salesGoal: number; goalMonth: string; metricGoals: MetricGoal[] }) => boolean;
+  onSetTeamSalesGoals: (month: string, goals: Record<string, number>) => void;
+  onArchiveBroker: (brokerId: string, archived: boolean) => void;
+  onDeleteBroker: (brokerId: string) => void; // Moves the broker to the trash
+  onRestoreDeletedBroker: (brokerId: string) => void;
+  onPurgeBroker: (brokerId: string) => void;
+  onTransferLeads: (request: LeadTransferRequest) => boolean;
+  onUndoLeadTransfer: (transferId: string) => boolean;
+  onRecordLeadDistribution: (date: string, allocations: Record<string, number>) => boolean;
   onRestoreBrokers: (brokers: BrokerProfile[]) => void;
+  quarantinedRecords: QuarantinedRecord[];
   deferredPrompt: any | null;
   onInstallClick: () => void;
+  onOpenSettings: () => void;
 }
 
 interface ComparisonData {
+  brokerId: string;
   brokerName: string;
   totalNewLeads: number;
   totalSales: number;
   conversionRate: number;
+  previousNewLeads: number | null; // Same figures for the previous period of the same length, null for "all time"
+  previousSales: number | null;
+  previousConversionRate: number | null;
+  workingDays: number; // Working days of the broker in the period up to today, absences excluded
+  salesPerWorkingDay: number;
+  goalProgress: Record<string, number>; // Percentage per goal column, missing when the broker has no such goal
+  goalExpected: Record<string, number | null>; // Percentage an even pace would have reached by today
 }
 
+// Column of the comparison table for a metric goal set for at least one broker
+interface GoalColumn {
+  id: string; // `${metricKey}|${period}`
+  metricKey: string;
+  period: GoalPeriod;
+}
+
+const getGoalColumnId = (goal: Pick<MetricGoal, 'metricKey' | 'period'>) => `${goal.metricKey}|${goal.period}`;
+
+// Change against the previous period; percentage points for rates
+const DeltaIndicator: React.FC<{ current: number; previous: number | null; isRate?: boolean }> = ({ current, previous, isRate }) => {
+  if (previous === null) return null;
+  const delta = current - previous;
+  const text = isRate ? `${Math.abs(delta).toFixed(1)} p.p.` : String(Math.abs(delta));
+  const title = `Período anterior: ${isRate ? `${previous.toFixed(1)}%` : previous}`;
+  if (Math.abs(delta) < 0.05) return <span className="ml-1 text-xs text-text-secondary" title={title}>=</span>;
+  return (
+    <span className={`ml-1 text-xs font-semibold ${delta > 0 ? 'text-green-600' : 'text-red-600'}`} title={title}>
+      {delta > 0 ? '▲' : '▼'} {text}
+    </span>
+  );
+};
 
-const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroker, onSelectBroker, onUpdateBroker, onDeleteBroker, onRestoreBrokers, deferredPrompt, onInstallClick }) => {
+
+const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, metrics, discardReasons, consistencyRules, distributionSettings, branding, currentUser, monthCloseLog, calendar, onReviewEntries, onCloseMonth, onReopenMonth, onAddBroker, onSelectBroker, onOpenEntry, onUpdateBroker, onSetTeamSalesGoals, onArchiveBroker, onDeleteBroker, onRestoreDeletedBroker, onPurgeBroker, onTransferLeads, onUndoLeadTransfer, onRecordLeadDistribution, onRestoreBrokers, quarantinedRecords, deferredPrompt, onInstallClick, onOpenSettings }) => {
   const [brokerName, setBrokerName] = useState('');
   const [initialLeads, setInitialLeads] = useState<number | ''>('');
   const [monthlySalesGoal, setMonthlySalesGoal] = useState<number | ''>('');
@@ -32,37 +112,151 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
   const [editedName, setEditedName] = useState('');
   const [editedInitialLeads, setEditedInitialLeads] = useState<number | ''>('');
   const [editedMonthlySalesGoal, setEditedMonthlySalesGoal] = useState<number | ''>('');
+  const [editedGoalMonth, setEditedGoalMonth] = useState(getTodayString().slice(0, 7));
+  const [editedMetricGoals, setEditedMetricGoals] = useState<MetricGoal[]>([]);
+  const [newGoalMetricKey, setNewGoalMetricKey] = useState('');
+  const [newGoalPeriod, setNewGoalPeriod] = useState<GoalPeriod>('month');
+  const [newGoalTarget, setNewGoalTarget] = useState<number | ''>('');
+  const [periodPreset, setPeriodPreset] = useState<PeriodPreset>('month');
+  const [customRange, setCustomRange] = useState<DateRange>(() => {
+    const today = getTodayString();
+    return { start: `${today.slice(0, 7)}-01`, end: today };
+  });
+
+  const can = (permission: Permission) => hasPermission(currentUser, permission);
 
   const comparisonChartRef = useRef<HTMLCanvasElement>(null);
   const chartInstanceRef = useRef<any>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
+  const [backupToMerge, setBackupToMerge] = useState<BrokerProfile[] | null>(null);
+  const [includeArchived, setIncludeArchived] = useState(false);
 
+  // `brokers` holds every broker, trash included, so that backups are complete. Only active brokers
+  // get cards and goals; archived ones join the rankings and reports when the user asks for them.
+  const activeBrokers = useMemo(() => brokers.filter(isActiveBroker), [brokers]);
+  const archivedBrokers = useMemo(() => brokers.filter(b => b.archivedAt && !isInTrash(b)), [brokers]);
+  const trashedBrokers = useMemo(() => brokers.filter(isInTrash), [brokers]);
+  const reportBrokers = useMemo(
+    () => (includeArchived ? [...activeBrokers, ...archivedBrokers] : activeBrokers),
+    [includeArchived, activeBrokers, archivedBrokers]
+  );
+
+  // Period driving the ranking, the broker cards and the comparison; null means all time
+  const periodRange = useMemo(() => getPresetRange(periodPreset, getTodayString(), customRange), [periodPreset, customRange]);
+  const previousRange = useMemo(() => (periodRange ? getPreviousRange(periodRange) : null), [periodRange]);
+
+  // Figures of each broker in the selected and in the previous period. Only approved entries count;
+  // the ones still waiting for a manager are left out until they are reviewed.
+  const periodStats = useMemo(() => {
+    const summarize = (entries: BrokerProfile['dailyEntries']) => {
+      const leadsIn = sumMetricsOfKind(entries, metrics, 'inflow');
+      const sales = sumMetricsOfKind(entries, metrics, 'sale');
+      return { entries, leadsIn, sales, conversionRate: leadsIn > 0 ? (sales / leadsIn) * 100 : 0 };
+    };
+    return new Map(reportBrokers.map(broker => [broker.id, {
+      current: summarize(filterEntriesByPeriod(getApprovedEntries(broker.dailyEntries), periodRange)),
+      previous: previousRange ? summarize(filterEntriesByPeriod(getApprovedEntries(broker.dailyEntries), previousRange)) : null,
+    }]));
+  }, [reportBrokers, metrics, periodRange, previousRange]);
+
+  // Discarded leads per reason of each broker in the selected period, and of the whole team
+  const discardRows = useMemo(() => reportBrokers.map(broker => ({
+    key: broker.id,
+    label: broker.brokerName,
+    breakdown: getDiscardBreakdown(periodStats.get(broker.id)!.current.entries, metrics),
+  })), [reportBrokers, periodStats, metrics]);
+  const teamDiscardBreakdown = useMemo(
+    () => getDiscardBreakdown(reportBrokers.flatMap(broker => periodStats.get(broker.id)!.current.entries), metrics),
+    [reportBrokers, periodStats, metrics]
+  );
+
+  // Submitted or rejected entries of the period, which the figures below leave out
+  const unapprovedInPeriod = useMemo(
+    () => filterEntriesByPeriod(reportBrokers.flatMap(broker => broker.dailyEntries.filter(entry => getEntryStatus(entry) !== 'approved')), periodRange).length,
+    [reportBrokers, periodRange]
+  );
+
+  const periodLabel = periodPreset === 'custom' && periodRange
+    ? `${formatDate(periodRange.start)} a ${formatDate(periodRange.end)}`
+    : periodPresetLabels[periodPreset];
+
+  // Metrics shown in the "Resumo" of each broker card: what enters and leaves the lead base
+  const summaryMetrics = useMemo(
+    () => getActiveMetrics(metrics).filter(m => m.kind === 'inflow' || m.kind === 'outflow'),
+    [metrics]
+  );
 
   const rankedBrokers = useMemo(() => {
-    return brokers
+    return reportBrokers
       .map(broker => {
-        const totalSales = broker.dailyEntries.reduce((sum, entry) => sum + entry.signedLeads, 0);
-        return { ...broker, totalSales };
+        const stats = periodStats.get(broker.id);
+        return { ...broker, totalSales: stats?.current.sales ?? 0, previousSales: stats?.previous?.sales ?? null };
       })
       .filter(broker => broker.totalSales > 0) // Only rank brokers with actual sales
       .sort((a, b) => b.totalSales - a.totalSales);
-  }, [brokers]);
+  }, [reportBrokers, periodStats]);
+
+  // Each broker's working days: the agency calendar minus the broker's absences
+  const workingDayChecks = useMemo(
+    () => new Map(brokers.map(broker => [broker.id, createWorkingDayCheck(calendar, broker.absences)])),
+    [brokers, calendar]
+  );
+
+  // Month-end projection for the whole team in the current month, from approved entries like the ranking
+  const teamForecast = useMemo(() => {
+    const month = getTodayString().slice(0, 7);
+    const teamSalesGoal = activeBrokers.reduce((sum, broker) => sum + getSalesGoalForMonth(broker, month), 0);
+    return {
+      salesGoal: teamSalesGoal,
+      sales: combineForecasts(
+        activeBrokers.map(broker => forecastMonth(getApprovedEntries(broker.dailyEntries), month, entry => sumMetricsOfKind([entry], metrics, 'sale'), workingDayChecks.get(broker.id)!)),
+        teamSalesGoal
+      ),
+      leads: combineForecasts(
+        activeBrokers.map(broker => forecastMonth(getApprovedEntries(broker.dailyEntries), month, entry => sumMetricsOfKind([entry], metrics, 'inflow'), workingDayChecks.get(broker.id)!))
+      ),
+    };
+  }, [activeBrokers, metrics, workingDayChecks]);
+
+  // Metric goals currently in effect for any broker, one table column each
+  const goalColumns = useMemo(() => {
+    const today = getTodayString();
+    const columns = new Map<string, GoalColumn>();
+    for (const broker of reportBrokers) {
+      for (const goal of getMetricGoalsInEffect(broker.metricGoals, today)) {
+        columns.set(getGoalColumnId(goal), { id: getGoalColumnId(goal), metricKey: goal.metricKey, period: goal.period });
+      }
+    }
+    return [...columns.values()];
+  }, [reportBrokers]);
 
   const comparisonData = useMemo(() => {
-    if (!brokers || brokers.length === 0) return [];
+    if (reportBrokers.length === 0) return [];
+    const today = getTodayString();
 
-    const calculatedData: ComparisonData[] = brokers.map(broker => {
-        const totalNewLeads = broker.dailyEntries.reduce((sum, entry) => sum + entry.newLeads, 0);
-        const totalRepiqueLeads = broker.dailyEntries.reduce((sum, entry) => sum + (entry.repiqueLeads || 0), 0);
-        const totalSales = broker.dailyEntries.reduce((sum, entry) => sum + entry.signedLeads, 0);
-        const totalLeadsIn = totalNewLeads + totalRepiqueLeads;
-        const conversionRate = totalLeadsIn > 0 ? (totalSales / totalLeadsIn) * 100 : 0;
+    const calculatedData: ComparisonData[] = reportBrokers.map(broker => {
+        const { current, previous } = periodStats.get(broker.id)!;
+        const isWorkingDay = workingDayChecks.get(broker.id)!;
+        // "All time" starts at the broker's first entry; days still ahead in the period are not counted
+        const start = periodRange?.start ?? broker.dailyEntries.reduce((first, entry) => (entry.date < first ? entry.date : first), today);
+        const end = periodRange && periodRange.end < today ? periodRange.end : today;
+        const workingDays = start <= end ? countWorkingDays(isWorkingDay, start, end) : 0;
+        const goalProgress = getBrokerGoalProgress(withApprovedEntriesOnly(broker), today, isWorkingDay);
 
         return {
+            brokerId: broker.id,
             brokerName: broker.brokerName,
-            totalNewLeads: totalLeadsIn,
-            totalSales,
-            conversionRate,
+            totalNewLeads: current.leadsIn,
+            totalSales: current.sales,
+            conversionRate: current.conversionRate,
+            previousNewLeads: previous?.leadsIn ?? null,
+            previousSales: previous?.sales ?? null,
+            previousConversionRate: previous?.conversionRate ?? null,
+            workingDays,
+            salesPerWorkingDay: workingDays > 0 ? current.sales / workingDays : 0,
+            goalProgress: Object.fromEntries(goalProgress.map(progress => [getGoalColumnId(progress.goal), progress.percentage])),
+            goalExpected: Object.fromEntries(goalProgress.map(progress => [getGoalColumnId(progress.goal), progress.expectedPercentage])),
         };
     });
 
@@ -80,7 +274,7 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
     }
 
     return calculatedData;
-  }, [brokers, sortConfig]);
+  }, [reportBrokers, sortConfig, periodStats, periodRange, workingDayChecks]);
 
   useEffect(() => {
     if (!comparisonChartRef.current || comparisonData.length === 0) {
@@ -187,7 +381,36 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
     setEditingBroker(broker);
     setEditedName(broker.brokerName);
     setEditedInitialLeads(broker.initialLeads);
-    setEditedMonthlySalesGoal(broker.monthlySalesGoal || '');
+    const currentMonth = getTodayString().slice(0, 7);
+    setEditedGoalMonth(currentMonth);
+    setEditedMonthlySalesGoal(getSalesGoalForMonth(broker, currentMonth) || '');
+    setEditedMetricGoals(broker.metricGoals || []);
+    setNewGoalMetricKey('');
+    setNewGoalTarget('');
+  };
+
+  // Goals are versioned: adding or removing one appends a version effective today,
+  // so the progress of past periods is still measured against the target of the time.
+  const handleAddMetricGoal = () => {
+    if (!newGoalMetricKey || typeof newGoalTarget !== 'number' || newGoalTarget <= 0) {
+      alert('Escolha a métrica e informe uma meta maior que zero.');
+      return;
+    }
+    setEditedMetricGoals(prev => [...prev, {
+      id: generateId(), metricKey: newGoalMetricKey, period: newGoalPeriod, target: newGoalTarget, effectiveFrom: getTodayString(),
+    }]);
+    setNewGoalTarget('');
+  };
+
+  const handleRemoveMetricGoal = (goal: MetricGoal) => {
+    setEditedMetricGoals(prev => [...prev, { ...goal, id: generateId(), target: 0, effectiveFrom: getTodayString() }]);
+  };
+
+  const handleGoalMonthChange = (month: string) => {
+    setEditedGoalMonth(month);
+    if (editingBroker && month) {
+      setEditedMonthlySalesGoal(getSalesGoalForMonth(editingBroker, month) || '');
+    }
   };
 
   const handleCloseModal = () => {
@@ -195,11 +418,13 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
   };
 
   const handleSaveChanges = () => {
-    if (!editingBroker || !editedName.trim() || editedInitialLeads === '') return;
-    const success = onUpdateBroker(editingBroker.brokerName, {
+    if (!editingBroker || !editedName.trim() || editedInitialLeads === '' || !editedGoalMonth) return;
+    const success = onUpdateBroker(editingBroker.id, {
       brokerName: editedName.trim(),
       initialLeads: Number(editedInitialLeads),
-      monthlySalesGoal: Number(editedMonthlySalesGoal) || 0,
+      salesGoal: Number(editedMonthlySalesGoal) || 0,
+      goalMonth: editedGoalMonth,
+      metricGoals: editedMetricGoals,
     });
     if (success) {
       handleCloseModal();
@@ -208,10 +433,19 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
 
   const handleDelete = () => {
     if (editingBroker) {
-      onDeleteBroker(editingBroker.brokerName);
+      onDeleteBroker(editingBroker.id);
+      handleCloseModal();
+    }
+  };
+
+  const handleArchive = () => {
+    if (editingBroker && confirm(`Arquivar o corretor "${editingBroker.brokerName}"? Ele deixará de aparecer nos lançamentos, mas o histórico continua disponível nos relatórios.`)) {
+      onArchiveBroker(editingBroker.id, true);
       handleCloseModal();
     }
   };
+
+  const formatTimestamp = (timestamp: string | Date) => new Date(timestamp).toLocaleDateString('pt-BR');
   
   const handleExportData = () => {
     if (brokers.length === 0) {
@@ -241,7 +475,21 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
     }
   };
 
-  const handleImportClick = () => {
+  // Records the storage could not read are kept apart; this lets the user save them for manual recovery.
+  const handleExportQuarantine = () => {
+    const blob = new Blob([JSON.stringify(quarantinedRecords, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `registros_em_quarentena_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportClick = (mode: 'replace' | 'merge') => {
+    setImportMode(mode);
     fileInputRef.current?.click();
   };
 
@@ -260,6 +508,7 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
         // Basic validation of the imported data structure
         const isValid = Array.isArray(data) && data.every(
           item => typeof item.brokerName === 'string' &&
+                  (item.id === undefined || typeof item.id === 'string') && // Older backups have no IDs
                   typeof item.initialLeads === 'number' &&
                   Array.isArray(item.dailyEntries)
         );
@@ -268,7 +517,9 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
           throw new Error("Formato de arquivo inválido.");
         }
 
-        if (confirm("Atenção! A importação substituirá TODOS os dados existentes. Deseja continuar?")) {
+        if (importMode === 'merge') {
+          setBackupToMerge(data);
+        } else if (confirm("Atenção! A importação substituirá TODOS os dados existentes. Deseja continuar?")) {
           onRestoreBrokers(data);
         }
       } catch (error) {
@@ -300,107 +551,177 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
         </section>
       )}
 
-      <section className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-10 transition-all duration-300 max-w-lg mx-auto">
-        <h2 className="text-2xl font-semibold text-text-primary mb-2">Adicionar Novo Corretor</h2>
-        <p className="text-text-secondary mb-6">Cadastre um novo corretor para começar a acompanhar.</p>
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="brokerName" className="block text-sm font-medium text-text-secondary mb-2">
-              Nome do Corretor
-            </label>
-            <input
-              type="text"
-              id="brokerName"
-              value={brokerName}
-              onChange={(e) => setBrokerName(e.target.value)}
-              placeholder="Ex: João da Silva"
-              required
-              className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200"
-            />
-          </div>
-          <div>
-            <label htmlFor="initialLeads" className="block text-sm font-medium text-text-secondary mb-2">
-              Número de Clientes na Base Inicial
-            </label>
-            <input
-              type="number"
-              id="initialLeads"
-              value={initialLeads}
-              onChange={(e) => setInitialLeads(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
-              placeholder="Ex: 150"
-              required
-              min="0"
-              className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200"
-            />
-          </div>
-          <div>
-            <label htmlFor="monthlySalesGoal" className="block text-sm font-medium text-text-secondary mb-2">
-              Meta Mensal de Vendas (Opcional)
-            </label>
-            <input
-              type="number"
-              id="monthlySalesGoal"
-              value={monthlySalesGoal}
-              onChange={(e) => setMonthlySalesGoal(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
-              placeholder="Ex: 10"
-              min="0"
-              className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200"
-            />
-          </div>
+      {can('manageBrokers') && (
+        <section className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-10 transition-all duration-300 max-w-lg mx-auto">
+          <h2 className="text-2xl font-semibold text-text-primary mb-2">Adicionar Novo Corretor</h2>
+          <p className="text-text-secondary mb-6">Cadastre um novo corretor para começar a acompanhar.</p>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="brokerName" className="block text-sm font-medium text-text-secondary mb-2">
+                Nome do Corretor
+              </label>
+              <input
+                type="text"
+                id="brokerName"
+                value={brokerName}
+                onChange={(e) => setBrokerName(e.target.value)}
+                placeholder="Ex: João da Silva"
+                required
+                className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200"
+              />
+            </div>
+            <div>
+              <label htmlFor="initialLeads" className="block text-sm font-medium text-text-secondary mb-2">
+                Número de Clientes na Base Inicial
+              </label>
+              <input
+                type="number"
+                id="initialLeads"
+                value={initialLeads}
+                onChange={(e) => setInitialLeads(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                placeholder="Ex: 150"
+                required
+                min="0"
+                className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200"
+              />
+            </div>
+            <div>
+              <label htmlFor="monthlySalesGoal" className="block text-sm font-medium text-text-secondary mb-2">
+                Meta Mensal de Vendas (Opcional)
+              </label>
+              <input
+                type="number"
+                id="monthlySalesGoal"
+                value={monthlySalesGoal}
+                onChange={(e) => setMonthlySalesGoal(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                placeholder="Ex: 10"
+                min="0"
+                className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all duration-200"
+              />
+            </div>
+            <button
+              type="submit"
+              className="w-full px-6 py-3 bg-gradient-to-r from-brand-primary to-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity duration-200 disabled:opacity-50"
+              disabled={!brokerName.trim() || initialLeads === ''}
+            >
+              Adicionar Corretor
+            </button>
+          </form>
+        </section>
+      )}
+
+      {can('manageSettings') && (
+        <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 transition-all duration-300 max-w-lg mx-auto">
+          <h2 className="text-2xl font-semibold text-text-primary mb-2">Configurações da Imobiliária</h2>
+          <p className="text-text-secondary mb-6">Defina as métricas e etapas do funil usadas no lançamento diário, nos relatórios e nos gráficos.</p>
           <button
-            type="submit"
-            className="w-full px-6 py-3 bg-gradient-to-r from-brand-primary to-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity duration-200 disabled:opacity-50"
-            disabled={!brokerName.trim() || initialLeads === ''}
+            onClick={onOpenSettings}
+            className="w-full px-6 py-3 bg-gray-600 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-700 transition-colors duration-200"
           >
-            Adicionar Corretor
+            Abrir Configurações
           </button>
-        </form>
-      </section>
+        </section>
+      )}
 
-      <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 transition-all duration-300 max-w-lg mx-auto">
-        <h2 className="text-2xl font-semibold text-text-primary mb-2">Backup e Restauração de Dados</h2>
-        <p className="text-text-secondary mb-6">Exporte todos os dados para um arquivo de segurança ou importe um backup para restaurar suas informações.</p>
-        <div className="flex flex-col sm:flex-row gap-4">
-            <button
-                onClick={handleExportData}
-                className="flex-1 px-6 py-3 bg-gray-600 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-700 transition-colors duration-200"
-            >
-                Exportar Backup (JSON)
-            </button>
-            <button
-                onClick={handleImportClick}
-                className="flex-1 px-6 py-3 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors duration-200"
-            >
-                Importar Backup (JSON)
-            </button>
-            <input
-                type="file"
-                ref={fileInputRef}
-                onChange={handleFileChange}
-                accept=".json,application/json"
-                className="hidden"
-            />
-        </div>
-      </section>
+      {can('manageBackups') && (
+        <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 transition-all duration-300 max-w-lg mx-auto">
+          <h2 className="text-2xl font-semibold text-text-primary mb-2">Backup e Restauração de Dados</h2>
+          <p className="text-text-secondary mb-6">Exporte todos os dados para um arquivo de segurança, importe um backup para restaurar suas informações ou mescle um backup de outro aparelho com os dados deste.</p>
+          <div className="flex flex-col sm:flex-row gap-4">
+              <button
+                  onClick={handleExportData}
+                  className="flex-1 px-6 py-3 bg-gray-600 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-700 transition-colors duration-200"
+              >
+                  Exportar Backup (JSON)
+              </button>
+              <button
+                  onClick={() => handleImportClick('replace')}
+                  className="flex-1 px-6 py-3 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors duration-200"
+              >
+                  Importar Backup (JSON)
+              </button>
+              <button
+                  onClick={() => handleImportClick('merge')}
+                  className="flex-1 px-6 py-3 bg-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity duration-200"
+              >
+                  Mesclar Backup (JSON)
+              </button>
+              <input
+                  type="file"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  accept=".json,application/json"
+                  className="hidden"
+              />
+          </div>
+          {quarantinedRecords.length > 0 && (
+            <div className="mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" role="alert">
+              <p className="font-semibold">{quarantinedRecords.length} registro(s) não puderam ser lidos e foram colocados em quarentena.</p>
+              <p className="mt-1">Eles não aparecem nos relatórios, mas não foram apagados.</p>
+              <button onClick={handleExportQuarantine} className="mt-3 px-4 py-2 bg-amber-600 text-white rounded-lg font-semibold hover:bg-amber-700 transition-colors">
+                Baixar registros em quarentena
+              </button>
+            </div>
+          )}
+        </section>
+      )}
+
+      {activeBrokers.length + archivedBrokers.length > 0 && (
+        <section className="bg-surface-card rounded-2xl shadow-xl p-4 sm:p-6">
+          <h2 className="text-lg font-semibold text-text-primary mb-3 text-center">Período do Ranking e do Comparativo</h2>
+          <PeriodPresetSelector
+            preset={periodPreset} customRange={customRange}
+            onPresetChange={setPeriodPreset} onCustomRangeChange={setCustomRange}
+            idPrefix="management-period"
+          />
+          {previousRange && (
+            <p className="text-xs text-text-secondary text-center mt-3">
+              Variações comparadas com {formatDate(previousRange.start)} a {formatDate(previousRange.end)}.
+            </p>
+          )}
+          {archivedBrokers.length > 0 && (
+            <label className="flex items-center justify-center gap-2 mt-3 text-sm text-text-secondary cursor-pointer">
+              <input type="checkbox" checked={includeArchived} onChange={e => setIncludeArchived(e.target.checked)} className="h-4 w-4 accent-brand-primary" />
+              Incluir corretores arquivados ({archivedBrokers.length}) no ranking, no comparativo e nos relatórios
+            </label>
+          )}
+        </section>
+      )}
+
+      {can('approveEntries') && (
+        <ApprovalInbox brokers={[...activeBrokers, ...archivedBrokers]} metrics={metrics} onReviewEntries={onReviewEntries} onOpenEntry={onOpenEntry} />
+      )}
+
+      {can('viewTeam') && activeBrokers.length > 0 && (
+        <EntryCompliancePanel brokers={activeBrokers} calendar={calendar} onOpenEntry={onOpenEntry} />
+      )}
 
       <section>
-        <h2 className="text-2xl font-semibold text-text-primary mb-4 text-center">Ranking de Vendas (Geral)</h2>
+        <h2 className="text-2xl font-semibold text-text-primary mb-4 text-center">Ranking de Vendas ({periodLabel})</h2>
+        {unapprovedInPeriod > 0 && (
+          <p className="text-sm text-amber-700 text-center -mt-2 mb-4">
+            {unapprovedInPeriod} lançamento(s) do período ainda não aprovados ficam fora do ranking, dos cartões e do comparativo.
+          </p>
+        )}
         {rankedBrokers.length > 0 ? (
           <div className="max-w-2xl mx-auto bg-surface-card rounded-lg shadow-lg p-6">
             <ul className="space-y-4">
               {rankedBrokers.map((broker, index) => (
-                <li key={broker.brokerName} className="flex items-center justify-between p-3 bg-surface-input rounded-md">
+                <li key={broker.id} className="flex items-center justify-between p-3 bg-surface-input rounded-md">
                   <div className="flex items-center gap-4">
                     <span className={`text-2xl font-bold w-8 text-center ${getRankColor(index)}`}>
                       {index + 1}
                     </span>
                     <div>
-                      <h3 className="text-lg font-semibold text-text-primary">{broker.brokerName}</h3>
+                      <h3 className="text-lg font-semibold text-text-primary">
+                        {broker.brokerName}
+                        {broker.archivedAt && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-600 align-middle">Arquivado</span>}
+                      </h3>
                       <p className="text-sm text-text-secondary">Base inicial: {broker.initialLeads} leads</p>
                     </div>
                   </div>
                   <div className="text-right">
-                     <p className="text-xl font-bold text-brand-primary">{broker.totalSales}</p>
+                     <p className="text-xl font-bold text-brand-primary">{broker.totalSales}<DeltaIndicator current={broker.totalSales} previous={broker.previousSales} /></p>
                      <p className="text-sm text-text-secondary">venda(s)</p>
                   </div>
                 </li>
@@ -408,75 +729,60 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
             </ul>
           </div>
         ) : (
-          <p className="text-center text-text-secondary">Nenhum corretor com vendas para rankear ainda.</p>
+          <p className="text-center text-text-secondary">Nenhum corretor com vendas no período selecionado.</p>
         )}
       </section>
 
       <section>
         <h2 className="text-2xl font-semibold text-text-primary mb-4 text-center">Corretores Cadastrados</h2>
-        {brokers.length > 0 ? (
+        {activeBrokers.length > 0 ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-            {brokers.map(broker => {
-              const totalSales = broker.dailyEntries.reduce((sum, entry) => sum + entry.signedLeads, 0);
-              const totalNewLeads = broker.dailyEntries.reduce((sum, entry) => sum + entry.newLeads, 0);
-              const totalRepiqueLeads = broker.dailyEntries.reduce((sum, entry) => sum + (entry.repiqueLeads || 0), 0);
-              const totalDiscarded = broker.dailyEntries.reduce((sum, entry) => sum + entry.discardedLeads, 0);
-              const totalVisits = broker.dailyEntries.reduce((sum, entry) => sum + entry.localVisits, 0);
-              
-              const totalLeadsIn = totalNewLeads + totalRepiqueLeads;
-              const conversionRate = totalLeadsIn > 0 ? ((totalSales / totalLeadsIn) * 100).toFixed(1) : "0.0";
+            {activeBrokers.map(broker => {
+              const { current, previous } = periodStats.get(broker.id)!;
               
               return(
-                <div key={broker.brokerName} className="bg-surface-card rounded-xl shadow-lg p-5 flex flex-col justify-between transition-transform hover:scale-105 duration-300 border border-gray-100">
+                <div key={broker.id} className="bg-surface-card rounded-xl shadow-lg p-5 flex flex-col justify-between transition-transform hover:scale-105 duration-300 border border-gray-100">
                   <div>
                     <div className="flex justify-between items-start border-b border-gray-100 pb-3 mb-3">
                       <div>
                           <h3 className="text-xl font-bold text-text-primary">{broker.brokerName}</h3>
                           <p className="text-xs text-text-secondary">Base inicial: <span className="font-semibold text-text-primary">{broker.initialLeads}</span></p>
                       </div>
-                      <button onClick={() => handleEditClick(broker)} className="text-text-secondary hover:text-brand-primary transition-colors p-1">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                          <path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" />
-                          <path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" />
-                        </svg>
-                      </button>
+                      {can('manageBrokers') && (
+                        <button onClick={() => handleEditClick(broker)} className="text-text-secondary hover:text-brand-primary transition-colors p-1">
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" />
+                            <path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                      )}
                     </div>
                     
                     <div className="flex justify-around text-center bg-brand-light/20 rounded-lg py-2 mb-4">
                       <div>
-                        <p className="text-2xl font-bold text-brand-primary">{totalSales}</p>
+                        <p className="text-2xl font-bold text-brand-primary">{current.sales}<DeltaIndicator current={current.sales} previous={previous?.sales ?? null} /></p>
                         <p className="text-xs text-brand-dark font-semibold uppercase">Vendas</p>
                       </div>
                       <div>
-                        <p className="text-2xl font-bold text-text-primary">{conversionRate}<span className="text-sm">%</span></p>
+                        <p className="text-2xl font-bold text-text-primary">{current.conversionRate.toFixed(1)}<span className="text-sm">%</span><DeltaIndicator current={current.conversionRate} previous={previous?.conversionRate ?? null} isRate /></p>
                         <p className="text-xs text-text-secondary uppercase">Conversão</p>
                       </div>
                     </div>
 
                     <div className="bg-surface-input rounded-lg p-3 mb-4">
-                         <h4 className="text-xs font-bold text-text-secondary uppercase mb-2 text-center border-b border-gray-200 pb-1">Resumo Geral</h4>
+                         <h4 className="text-xs font-bold text-text-secondary uppercase mb-2 text-center border-b border-gray-200 pb-1">Resumo: {periodLabel}</h4>
                          <div className="grid grid-cols-2 gap-y-3 gap-x-2 text-center">
-                            <div>
-                                <p className="text-lg font-bold text-brand-secondary">{totalNewLeads}</p>
-                                <p className="text-[10px] text-text-secondary uppercase">Novos Leads</p>
-                            </div>
-                            <div>
-                                <p className="text-lg font-bold text-blue-500">{totalRepiqueLeads}</p>
-                                <p className="text-[10px] text-text-secondary uppercase">Repiques</p>
-                            </div>
-                            <div>
-                                <p className="text-lg font-bold text-purple-600">{totalVisits}</p>
-                                <p className="text-[10px] text-text-secondary uppercase">Visitas</p>
-                            </div>
-                            <div>
-                                <p className="text-lg font-bold text-red-500">{totalDiscarded}</p>
-                                <p className="text-[10px] text-text-secondary uppercase">Descartados</p>
-                            </div>
+                            {summaryMetrics.map(metric => (
+                                <div key={metric.key}>
+                                    <p className={`text-lg font-bold ${metric.kind === 'outflow' ? 'text-red-500' : 'text-brand-secondary'}`}>{sumMetric(current.entries, metric.key)}<DeltaIndicator current={sumMetric(current.entries, metric.key)} previous={previous ? sumMetric(previous.entries, metric.key) : null} /></p>
+                                    <p className="text-[10px] text-text-secondary uppercase">{metric.label}</p>
+                                </div>
+                            ))}
                          </div>
                     </div>
                   </div>
                   <button
-                    onClick={() => onSelectBroker(broker.brokerName)}
+                    onClick={() => onSelectBroker(broker.id)}
                     className="w-full mt-auto px-4 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-md hover:bg-brand-dark transition-colors duration-200"
                   >
                     Ver Painel Completo
@@ -488,9 +794,57 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
           <p className="text-center text-text-secondary py-8">Nenhum corretor cadastrado ainda. Adicione um para começar.</p>
         )}
       </section>
+
+      {archivedBrokers.length > 0 && (
+        <section className="max-w-2xl mx-auto bg-surface-card rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-text-primary mb-1">Corretores Arquivados</h2>
+          <p className="text-sm text-text-secondary mb-4">Não aparecem nos lançamentos. O histórico continua disponível no ranking e nos relatórios quando incluído.</p>
+          <ul className="space-y-2">
+            {archivedBrokers.map(broker => (
+              <li key={broker.id} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-surface-input rounded-md">
+                <div>
+                  <p className="font-semibold text-text-primary">{broker.brokerName}</p>
+                  <p className="text-xs text-text-secondary">Arquivado em {formatTimestamp(broker.archivedAt!)} · {broker.dailyEntries.length} lançamento(s)</p>
+                </div>
+                <div className="flex gap-2">
+                  {can('manageBrokers') && <button onClick={() => onArchiveBroker(broker.id, false)} className="px-3 py-1 text-sm bg-brand-primary text-white rounded-lg font-semibold hover:bg-brand-dark transition-colors">Reativar</button>}
+                  {can('deleteBrokers') && <button onClick={() => onDeleteBroker(broker.id)} className="px-3 py-1 text-sm bg-red-50 text-red-700 border border-red-200 rounded-lg font-semibold hover:bg-red-100 transition-colors">Excluir</button>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {trashedBrokers.length > 0 && can('deleteBrokers') && (
+        <section className="max-w-2xl mx-auto bg-surface-card rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-text-primary mb-1">Lixeira</h2>
+          <p className="text-sm text-text-secondary mb-4">Corretores excluídos ficam aqui por {TRASH_RETENTION_DAYS} dias e depois são apagados permanentemente, com todos os lançamentos.</p>
+          <ul className="space-y-2">
+            {trashedBrokers.map(broker => (
+              <li key={broker.id} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-surface-input rounded-md">
+                <div>
+                  <p className="font-semibold text-text-primary">{broker.brokerName}</p>
+                  <p className="text-xs text-text-secondary">Excluído em {formatTimestamp(broker.deletedAt!)} · apagado em {formatTimestamp(getTrashExpiry(broker))}</p>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => onRestoreDeletedBroker(broker.id)} className="px-3 py-1 text-sm bg-brand-primary text-white rounded-lg font-semibold hover:bg-brand-dark transition-colors">Restaurar</button>
+                  <button onClick={() => onPurgeBroker(broker.id)} className="px-3 py-1 text-sm bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors">Excluir definitivamente</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
       
+      {activeBrokers.length > 0 && (
+        <section className="max-w-4xl mx-auto">
+          <ForecastCard title="Projeção da Equipe para o Mês Atual" sales={teamForecast.sales} leads={teamForecast.leads} salesGoal={teamForecast.salesGoal} />
+        </section>
+      )}
+
       <section>
-        <h2 className="text-2xl font-semibold text-text-primary mb-4 text-center">Comparativo de Performance</h2>
+        <h2 className="text-2xl font-semibold text-text-primary mb-4 text-center">Comparativo de Performance ({periodLabel})</h2>
         {comparisonData.length > 0 ? (
           <>
             <div className="bg-surface-card rounded-lg shadow-lg p-6 mb-6">
@@ -506,15 +860,36 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
                             <th scope="col" className="px-6 py-3 cursor-pointer" onClick={() => requestSort('totalNewLeads')}>Leads Recebidos {getSortIndicator('totalNewLeads')}</th>
                             <th scope="col" className="px-6 py-3 cursor-pointer" onClick={() => requestSort('totalSales')}>Vendas {getSortIndicator('totalSales')}</th>
                             <th scope="col" className="px-6 py-3 cursor-pointer" onClick={() => requestSort('conversionRate')}>Taxa de Conversão {getSortIndicator('conversionRate')}</th>
+                            <th scope="col" className="px-6 py-3 cursor-pointer" onClick={() => requestSort('workingDays')}>Dias Úteis {getSortIndicator('workingDays')}</th>
+                            <th scope="col" className="px-6 py-3 cursor-pointer" onClick={() => requestSort('salesPerWorkingDay')}>Vendas/Dia Útil {getSortIndicator('salesPerWorkingDay')}</th>
+                            {goalColumns.map(column => (
+                                <th key={column.id} scope="col" className="px-6 py-3">Meta {goalPeriodLabels[column.period]}: {getMetricLabel(metrics, column.metricKey)}</th>
+                            ))}
                         </tr>
                     </thead>
                     <tbody>
                         {comparisonData.map(brokerData => (
-                            <tr key={brokerData.brokerName} className="bg-white border-b hover:bg-gray-50">
+                            <tr key={brokerData.brokerId} className="bg-white border-b hover:bg-gray-50">
                                 <th scope="row" className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">{brokerData.brokerName}</th>
-                                <td className="px-6 py-4">{brokerData.totalNewLeads}</td>
-                                <td className="px-6 py-4">{brokerData.totalSales}</td>
-                                <td className="px-6 py-4">{brokerData.conversionRate.toFixed(2)}%</td>
+                                <td className="px-6 py-4">{brokerData.totalNewLeads}<DeltaIndicator current={brokerData.totalNewLeads} previous={brokerData.previousNewLeads} /></td>
+                                <td className="px-6 py-4">{brokerData.totalSales}<DeltaIndicator current={brokerData.totalSales} previous={brokerData.previousSales} /></td>
+                                <td className="px-6 py-4">{brokerData.conversionRate.toFixed(2)}%<DeltaIndicator current={brokerData.conversionRate} previous={brokerData.previousConversionRate} isRate /></td>
+                                <td className="px-6 py-4">{brokerData.workingDays}</td>
+                                <td className="px-6 py-4">{brokerData.salesPerWorkingDay.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}</td>
+                                {goalColumns.map(column => {
+                                    const progress = brokerData.goalProgress[column.id];
+                                    const expected = brokerData.goalExpected[column.id];
+                                    const isBehind = progress < 100 && expected != null && progress < expected;
+                                    return (
+                                        <td
+                                          key={column.id}
+                                          className={`px-6 py-4 ${progress >= 100 ? 'text-green-600 font-semibold' : isBehind ? 'text-amber-700' : ''}`}
+                                          title={expected != null ? `Esperado até hoje pelos dias úteis: ${Math.round(expected)}%` : undefined}
+                                        >
+                                            {progress === undefined ? '-' : `${Math.round(progress)}%`}
+                                        </td>
+                                    );
+                                })}
                             </tr>
                         ))}
                     </tbody>
@@ -526,9 +901,73 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
         )}
       </section>
       
+      {reportBrokers.length > 0 && (
+        <DiscardReasonAnalysis
+          title={`Motivos de Descarte da Equipe (${periodLabel})`}
+          highlightLabel="Participação de cada motivo no total de leads descartados pela equipe."
+          highlight={teamDiscardBreakdown}
+          rowHeader="Corretor"
+          rows={discardRows}
+          reasons={discardReasons}
+        />
+      )}
+
+      <TeamFunnelComparison brokers={reportBrokers} metrics={metrics} />
+
+      {can('manageBrokers') && <TeamGoalsPanel brokers={activeBrokers} onSetTeamSalesGoals={onSetTeamSalesGoals} />}
+
+      {can('adjustBalances') && (
+          <>
+            <LeadDistributionPlanner
+              brokers={activeBrokers}
+              metrics={metrics}
+              settings={distributionSettings}
+              onRecordDistribution={onRecordLeadDistribution}
+            />
+
+            <LeadTransfersPanel
+              brokers={[...activeBrokers, ...archivedBrokers]}
+              metrics={metrics}
+              range={periodRange}
+              periodLabel={periodLabel}
+              onTransferLeads={onTransferLeads}
+              onUndoLeadTransfer={onUndoLeadTransfer}
+            />
+          </>
+      )}
+
+      {can('closeMonths') && (
+        <MonthClosePanel brokers={[...activeBrokers, ...archivedBrokers]} monthCloseLog={monthCloseLog} onCloseMonth={onCloseMonth} onReopenMonth={onReopenMonth} />
+      )}
+
+      {can('exportTeam') && <TeamReportPanel brokers={reportBrokers} metrics={metrics} discardReasons={discardReasons} branding={branding} />}
+
+      {activeBrokers.length + archivedBrokers.length > 0 && (
+        <ConsistencyCheckPanel
+          brokers={[...activeBrokers, ...archivedBrokers]}
+          metrics={metrics}
+          severities={consistencyRules}
+          onOpenEntry={onOpenEntry}
+        />
+      )}
+
+      {backupToMerge && (
+        <BackupMergeModal
+          localBrokers={brokers}
+          incomingBrokers={backupToMerge}
+          metrics={metrics}
+          discardReasons={discardReasons}
+          onConfirm={mergedBrokers => {
+            setBackupToMerge(null);
+            onRestoreBrokers(mergedBrokers);
+          }}
+          onClose={() => setBackupToMerge(null)}
+        />
+      )}
+
       {editingBroker && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in">
-          <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-lg">
+          <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto">
             <h3 className="text-2xl font-bold text-text-primary mb-6">Editar Corretor</h3>
             <div className="space-y-4">
               <div>
@@ -539,13 +978,46 @@ const BrokerManagement: React.FC<BrokerManagementProps> = ({ brokers, onAddBroke
                 <label htmlFor="editInitialLeads" className="block text-sm font-medium text-text-secondary mb-2">Base Inicial de Leads</label>
                 <input type="number" id="editInitialLeads" value={editedInitialLeads} onChange={e => setEditedInitialLeads(e.target.value === '' ? '' : parseInt(e.target.value))} className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"/>
               </div>
-              <div>
-                <label htmlFor="editMonthlySalesGoal" className="block text-sm font-medium text-text-secondary mb-2">Meta Mensal de Vendas</label>
-                <input type="number" id="editMonthlySalesGoal" value={editedMonthlySalesGoal} onChange={e => setEditedMonthlySalesGoal(e.target.value === '' ? '' : parseInt(e.target.value))} className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"/>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="editMonthlySalesGoal" className="block text-sm font-medium text-text-secondary mb-2">Meta Mensal de Vendas</label>
+                  <input type="number" id="editMonthlySalesGoal" value={editedMonthlySalesGoal} onChange={e => setEditedMonthlySalesGoal(e.target.value === '' ? '' : parseInt(e.target.value))} className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"/>
+                </div>
+                <div>
+                  <label htmlFor="editGoalMonth" className="block text-sm font-medium text-text-secondary mb-2">Válida a partir de</label>
+                  <input type="month" id="editGoalMonth" value={editedGoalMonth} onChange={e => handleGoalMonthChange(e.target.value)} className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"/>
+                </div>
+              </div>
+              <p className="text-xs text-text-secondary">A meta vale para o mês escolhido e os seguintes, até ser alterada de novo. Os relatórios de meses anteriores mantêm a meta da época.</p>
+              <div className="pt-4 border-t border-gray-200">
+                <h4 className="text-sm font-semibold text-text-primary mb-2">Outras Metas</h4>
+                <ul className="space-y-2 mb-3">
+                  {getMetricGoalsInEffect(editedMetricGoals, getTodayString()).map(goal => (
+                    <li key={goal.id} className="flex items-center justify-between p-2 bg-surface-input rounded-md text-sm">
+                      <span className="text-text-primary">{getMetricLabel(metrics, goal.metricKey)} · {goalPeriodLabels[goal.period]} · <strong>{goal.target.toLocaleString('pt-BR')}</strong></span>
+                      <button type="button" onClick={() => handleRemoveMetricGoal(goal)} className="text-red-600 hover:text-red-800 font-semibold" aria-label={`Remover meta de ${getMetricLabel(metrics, goal.metricKey)}`}>Remover</button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap gap-2">
+                  <select value={newGoalMetricKey} onChange={e => setNewGoalMetricKey(e.target.value)} className="flex-1 px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none" aria-label="Métrica da nova meta">
+                    <option value="">Métrica...</option>
+                    {getActiveMetrics(metrics).map(metric => <option key={metric.key} value={metric.key}>{metric.label}</option>)}
+                  </select>
+                  <select value={newGoalPeriod} onChange={e => setNewGoalPeriod(e.target.value as GoalPeriod)} className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none" aria-label="Período da nova meta">
+                    {(Object.keys(goalPeriodLabels) as GoalPeriod[]).map(period => <option key={period} value={period}>{goalPeriodLabels[period]}</option>)}
+                  </select>
+                  <input type="number" min="1" value={newGoalTarget} placeholder="Meta" onChange={e => setNewGoalTarget(e.target.value === '' ? '' : parseInt(e.target.value, 10))} className="w-24 px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none" aria-label="Valor da nova meta"/>
+                  <button type="button" onClick={handleAddMetricGoal} className="px-4 py-2 text-sm bg-gray-600 text-white rounded-lg font-semibold hover:bg-gray-700 transition-colors">Adicionar</button>
+                </div>
+                <p className="text-xs text-text-secondary mt-2">Uma nova meta para a mesma métrica e período substitui a anterior a partir do período atual.</p>
               </div>
             </div>
             <div className="mt-8 flex justify-between items-center gap-4">
-              <button onClick={handleDelete} className="px-6 py-2 bg-red-600 text-white rounded-lg font-semibold shadow-lg hover:bg-red-700 transition-colors">Excluir</button>
+              <div className="flex gap-2">
+                {can('deleteBrokers') && <button onClick={handleDelete} className="px-6 py-2 bg-red-600 text-white rounded-lg font-semibold shadow-lg hover:bg-red-700 transition-colors">Excluir</button>}
+                <button onClick={handleArchive} className="px-6 py-2 bg-gray-600 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-700 transition-colors">Arquivar</button>
+              </div>
               <div className="flex gap-4">
                 <button onClick={handleCloseModal} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
                 <button onClick={handleSaveChanges} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">Salvar Alterações</button>
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import type { AgencyCalendar, Holiday, HolidayScope } from '../types';
+import { getNationalHolidays, holidayScopeLabels, mergeHolidays, parseHolidayList, weekdayLabels } from '../utils/calendar';
+import { formatDate } from '../utils/date';
+
+interface CalendarSettingsPanelProps {
+  calendar: AgencyCalendar;
+  onChange: (calendar: AgencyCalendar) => void; // Saved with the rest of the settings
+}
+
+const inputClassName = 'px-4 py-2 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Monday first, as on printed calendars
+const weekdayOrder = [1, 2, 3, 4, 5, 6, 0];
+
+const CalendarSettingsPanel: React.FC<CalendarSettingsPanelProps> = ({ calendar, onChange }) => {
+  const currentYear = new Date().getFullYear();
+  const [newHoliday, setNewHoliday] = useState<Holiday>({ date: '', name: '', scope: 'municipal' });
+  const [nationalYear, setNationalYear] = useState(currentYear);
+
+  const toggleWeekday = (weekday: number) => {
+    const workingWeekdays = calendar.workingWeekdays.includes(weekday)
+      ? calendar.workingWeekdays.filter(day => day !== weekday)
+      : [...calendar.workingWeekdays, weekday].sort();
+    onChange({ ...calendar, workingWeekdays });
+  };
+
+  const addHolidays = (holidays: Holiday[]) => onChange({ ...calendar, holidays: mergeHolidays(calendar.holidays, holidays) });
+
+  const handleAddHoliday = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newHoliday.date || !newHoliday.name.trim()) return;
+    addHolidays([{ ...newHoliday, name: newHoliday.name.trim() }]);
+    setNewHoliday(prev => ({ ...prev, date: '', name: '' }));
+  };
+
+  // Lists exported from a city hall site or typed in a spreadsheet: date; name; scope (optional)
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = e => {
+      const { holidays, skippedLines } = parseHolidayList(String(e.target?.result || ''));
+      if (holidays.length === 0) {
+        alert('Nenhum feriado encontrado. Use uma linha por feriado com a data e o nome, ex: 20/01/2026;São Sebastião;municipal');
+        return;
+      }
+      addHolidays(holidays);
+      alert(`${holidays.length} feriado(s) importado(s).${skippedLines > 0 ? ` ${skippedLines} linha(s) sem data ou nome válidos foram ignoradas.` : ''}`);
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+      <h2 className="text-2xl font-semibold text-text-primary mb-1">Calendário de Trabalho</h2>
+      <p className="text-text-secondary mb-6">
+        Dias com expediente na imobiliária. Fins de semana sem expediente, feriados e ausências dos corretores ficam fora da edição em massa, das médias por dia útil, do ritmo das metas e dos comparativos. As ausências são registradas no painel de cada corretor.
+      </p>
+
+      <h3 className="font-semibold text-text-primary mb-2">Dias da semana com expediente</h3>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {weekdayOrder.map(weekday => {
+          const isWorking = calendar.workingWeekdays.includes(weekday);
+          return (
+            <button
+              key={weekday} type="button" onClick={() => toggleWeekday(weekday)} aria-pressed={isWorking}
+              className={`px-4 py-2 text-sm rounded-lg font-semibold border transition-colors ${isWorking ? 'bg-brand-primary text-white border-brand-primary' : 'bg-white text-text-secondary border-gray-200 hover:bg-gray-100'}`}
+            >
+              {weekdayLabels[weekday]}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-2">
+        <h3 className="font-semibold text-text-primary">Feriados ({calendar.holidays.length})</h3>
+        <div className="flex flex-wrap gap-2">
+          <select value={nationalYear} onChange={e => setNationalYear(Number(e.target.value))} className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none" aria-label="Ano dos feriados nacionais">
+            {[currentYear - 1, currentYear, currentYear + 1].map(year => <option key={year} value={year}>{year}</option>)}
+          </select>
+          <button type="button" onClick={() => addHolidays(getNationalHolidays(nationalYear))} className="px-4 py-2 text-sm bg-white border border-gray-200 rounded-lg font-semibold text-text-secondary hover:bg-gray-100">
+            Adicionar feriados nacionais
+          </button>
+          <label className="px-4 py-2 text-sm bg-white border border-gray-200 rounded-lg font-semibold text-text-secondary hover:bg-gray-100 cursor-pointer">
+            Importar lista (CSV)
+            <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+      </div>
+      {calendar.holidays.length === 0 ? (
+        <p className="text-sm text-text-secondary mb-4">Nenhum feriado cadastrado.</p>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto pr-2 mb-4">
+          {calendar.holidays.map(holiday => (
+            <li key={holiday.date} className="flex items-center justify-between gap-2 px-3 py-2 bg-surface-input rounded-md text-sm">
+              <span>
+                <span className="font-semibold text-text-primary">{formatDate(holiday.date)}</span>
+                {' · '}{holiday.name}
+                <span className="ml-2 text-xs text-text-secondary">{holidayScopeLabels[holiday.scope]}</span>
+              </span>
+              <button
+                type="button" onClick={() => onChange({ ...calendar, holidays: calendar.holidays.filter(h => h.date !== holiday.date) })}
+                className="px-2 py-1 text-xs bg-red-50 text-red-600 border border-red-200 rounded font-semibold hover:bg-red-100"
+                aria-label={`Remover feriado ${holiday.name}`}
+              >
+                Remover
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleAddHoliday} className="pt-4 border-t border-gray-200 flex flex-col md:flex-row gap-3">
+        <input type="date" value={newHoliday.date} onChange={e => setNewHoliday(prev => ({ ...prev, date: e.target.value }))} className={inputClassName} aria-label="Data do feriado" />
+        <input
+          type="text" value={newHoliday.name} onChange={e => setNewHoliday(prev => ({ ...prev, name: e.target.value }))} placeholder="Nome (ex: Aniversário da cidade)"
+          className={`flex-1 ${inputClassName}`}
+        />
+        <select value={newHoliday.scope} onChange={e => setNewHoliday(prev => ({ ...prev, scope: e.target.value as HolidayScope }))} className={inputClassName} aria-label="Abrangência do feriado">
+          {(Object.keys(holidayScopeLabels) as HolidayScope[]).map(scope => <option key={scope} value={scope}>{holidayScopeLabels[scope]}</option>)}
+        </select>
+        <button type="submit" disabled={!newHoliday.date || !newHoliday.name.trim()} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors disabled:opacity-50">
+          Adicionar Feriado
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default CalendarSettingsPanel;
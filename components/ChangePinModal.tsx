@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { isValidPin, MIN_PIN_LENGTH } from '../utils/users';
+
+interface ChangePinModalProps {
+  onChangePin: (currentPin: string, newPin: string) => Promise<boolean | null>; // false when the current PIN is wrong, null when the change failed and was already reported
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Lets the signed-in user replace their own PIN
+const ChangePinModal: React.FC<ChangePinModalProps> = ({ onChangePin, onClose }) => {
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(newPin)) {
+      alert(`O novo PIN precisa ter ao menos ${MIN_PIN_LENGTH} caracteres.`);
+      return;
+    }
+    if (newPin !== confirmation) {
+      alert('A confirmação não confere com o novo PIN.');
+      return;
+    }
+    const changed = await onChangePin(currentPin, newPin);
+    if (changed) {
+      alert('PIN alterado.');
+      onClose();
+    } else if (changed === false) {
+      alert('O PIN atual está incorreto.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in" aria-modal="true" role="dialog">
+      <form onSubmit={handleSubmit} className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-md space-y-4">
+        <h3 className="text-2xl font-bold text-text-primary">Alterar PIN</h3>
+        <div>
+          <label htmlFor="currentPin" className="block text-sm font-medium text-text-secondary mb-2">PIN atual</label>
+          <input type="password" id="currentPin" value={currentPin} onChange={e => setCurrentPin(e.target.value)} autoComplete="current-password" className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="newPin" className="block text-sm font-medium text-text-secondary mb-2">Novo PIN</label>
+          <input type="password" id="newPin" value={newPin} onChange={e => setNewPin(e.target.value)} autoComplete="new-password" className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="newPinConfirmation" className="block text-sm font-medium text-text-secondary mb-2">Confirme o novo PIN</label>
+          <input type="password" id="newPinConfirmation" value={confirmation} onChange={e => setConfirmation(e.target.value)} autoComplete="new-password" className={inputClassName} />
+        </div>
+        <div className="flex justify-end gap-4 pt-2">
+          <button type="button" onClick={onClose} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
+          <button type="submit" className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">Alterar PIN</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePinModal;
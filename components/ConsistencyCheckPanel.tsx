@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, ConsistencyRuleId, MetricDefinition, RuleSeverity } from '../types';
+import { checkConsistency, getConsistencyRuleLabel, type ConsistencyIssue } from '../utils/consistency';
+import { formatDate, getTodayString } from '../utils/date';
+import { isActiveBroker } from '../utils/brokers';
+
+interface ConsistencyCheckPanelProps {
+  brokers: BrokerProfile[]; // Brokers whose entries are checked (active and archived)
+  metrics: MetricDefinition[];
+  severities: Record<ConsistencyRuleId, RuleSeverity>;
+  onOpenEntry: (brokerId: string, date: string) => void;
+}
+
+// On-demand check of every entry of every broker against the consistency rules.
+const ConsistencyCheckPanel: React.FC<ConsistencyCheckPanelProps> = ({ brokers, metrics, severities, onOpenEntry }) => {
+  const [issues, setIssues] = useState<ConsistencyIssue[] | null>(null);
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null);
+  const [showWarnings, setShowWarnings] = useState(true);
+
+  const handleCheck = () => {
+    setIssues(checkConsistency(brokers, metrics, severities, getTodayString()));
+    setCheckedAt(new Date());
+  };
+
+  const errorCount = issues?.filter(issue => issue.severity === 'error').length ?? 0;
+  const visibleIssues = (issues || [])
+    .filter(issue => showWarnings || issue.severity === 'error')
+    .sort((a, b) => b.date.localeCompare(a.date) || a.brokerName.localeCompare(b.brokerName));
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-text-primary">Verificação de Consistência</h2>
+          <p className="text-sm text-text-secondary">Procura lançamentos impossíveis em todos os corretores. As regras e a gravidade de cada uma são definidas nas configurações.</p>
+        </div>
+        <button onClick={handleCheck} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">
+          {issues ? 'Verificar novamente' : 'Verificar agora'}
+        </button>
+      </div>
+      {issues && checkedAt && (
+        issues.length === 0 ? (
+          <p className="text-center text-green-700 font-semibold py-4">Nenhuma inconsistência encontrada ({checkedAt.toLocaleTimeString('pt-BR')}).</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3 text-sm">
+              <p className="text-text-secondary">
+                {errorCount} erro(s) e {issues.length - errorCount} aviso(s) encontrados às {checkedAt.toLocaleTimeString('pt-BR')}.
+              </p>
+              <label className="flex items-center gap-2 text-text-secondary cursor-pointer">
+                <input type="checkbox" checked={showWarnings} onChange={e => setShowWarnings(e.target.checked)} className="h-4 w-4 accent-brand-primary" />
+                Mostrar avisos
+              </label>
+            </div>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm text-left text-gray-500">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+                  <tr>
+                    <th scope="col" className="px-4 py-3">Gravidade</th>
+                    <th scope="col" className="px-4 py-3">Corretor</th>
+                    <th scope="col" className="px-4 py-3">Data</th>
+                    <th scope="col" className="px-4 py-3">Regra</th>
+                    <th scope="col" className="px-4 py-3">Detalhe</th>
+                    <th scope="col" className="px-4 py-3"><span className="sr-only">Ações</span></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleIssues.map(issue => {
+                    const broker = brokers.find(b => b.id === issue.brokerId);
+                    return (
+                      <tr key={`${issue.brokerId}|${issue.date}|${issue.ruleId}`} className="bg-white border-b hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${issue.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'}`}>
+                            {issue.severity === 'error' ? 'Erro' : 'Aviso'}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">{issue.brokerName}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">{formatDate(issue.date)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">{getConsistencyRuleLabel(issue.ruleId)}</td>
+                        <td className="px-4 py-3">{issue.message}</td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          {broker && isActiveBroker(broker) ? (
+                            <button onClick={() => onOpenEntry(issue.brokerId, issue.date)} className="text-brand-primary font-semibold hover:underline">Abrir lançamento</button>
+                          ) : (
+                            <span className="text-xs text-text-secondary">Corretor arquivado</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )
+      )}
+    </section>
+  );
+};
+
+export default ConsistencyCheckPanel;
@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import type { DailyEntry, DiscardReasonDefinition, MetricDefinition } from '../types';
+import {
+  buildImportPreview, getDiscardCountColumn, guessColumnMapping, parseCsv, DATE_COLUMN, DISCARD_REASON_COLUMN,
+  type ColumnTarget, type ImportRowStatus,
+} from '../utils/csv';
+import { formatDate, getTodayString } from '../utils/date';
+import { OTHER_DISCARD_REASON } from '../utils/discardReasons';
+
+interface CsvImportModalProps {
+  metrics: MetricDefinition[];
+  discardReasons: DiscardReasonDefinition[];
+  existingEntries: DailyEntry[];
+  onImport: (entries: DailyEntry[]) => void;
+  onClose: () => void;
+}
+
+const statusLabels: Record<ImportRowStatus, string> = {
+  new: 'Novo',
+  changed: 'Alterado',
+  unchanged: 'Sem mudança',
+  conflict: 'Conflito',
+  invalid: 'Inválido',
+};
+
+const statusColors: Record<ImportRowStatus, string> = {
+  new: 'bg-green-100 text-green-700',
+  changed: 'bg-blue-100 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+  conflict: 'bg-amber-100 text-amber-700',
+  invalid: 'bg-red-100 text-red-700',
+};
+
+const CsvImportModal: React.FC<CsvImportModalProps> = ({ metrics, discardReasons, existingEntries, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnTarget[]>([]);
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+
+  const preview = useMemo(
+    () => (mapping.includes(DATE_COLUMN) ? buildImportPreview(dataRows, mapping, metrics, discardReasons, existingEntries, getTodayString()) : []),
+    [dataRows, mapping, metrics, discardReasons, existingEntries]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<ImportRowStatus, number> = { new: 0, changed: 0, unchanged: 0, conflict: 0, invalid: 0 };
+    preview.forEach(row => { result[row.status]++; });
+    return result;
+  }, [preview]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const rows = parseCsv(e.target?.result as string);
+      if (rows.length < 2) {
+        alert('O arquivo não contém lançamentos. Verifique se a primeira linha tem os cabeçalhos das colunas.');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0], metrics, discardReasons));
+    };
+    reader.readAsText(file);
+  };
+
+  const handleImport = () => {
+    const entries = preview
+      .filter(row => row.entry && (row.status === 'new' || row.status === 'changed' || (row.status === 'conflict' && overwriteConflicts)))
+      .map(row => row.entry as DailyEntry);
+    if (entries.length === 0) {
+      alert('Nenhum lançamento para importar.');
+      return;
+    }
+    onImport(entries);
+  };
+
+  const importableCount = counts.new + counts.changed + (overwriteConflicts ? counts.conflict : 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in no-print">
+      <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-2xl font-bold text-text-primary mb-2">Importar Lançamentos (CSV)</h3>
+        <p className="text-sm text-text-secondary mb-6">
+          Aceita o CSV exportado pelo app ou planilhas salvas como CSV (separadas por vírgula ou ponto e vírgula), com datas no formato dd/mm/aaaa.
+        </p>
+
+        <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="block w-full text-sm text-text-secondary mb-6" aria-label="Selecionar arquivo CSV" />
+
+        {headers.length > 0 && (
+          <>
+            <h4 className="text-lg font-semibold text-text-primary mb-2">Colunas de {fileName}</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+              {headers.map((header, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-text-primary truncate" title={header}>{header || `Coluna ${index + 1}`}</span>
+                  <select
+                    value={mapping[index]}
+                    onChange={e => setMapping(prev => prev.map((target, i) => (i === index ? e.target.value : target)))}
+                    className="flex-1 px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+                    aria-label={`Destino da coluna ${header}`}
+                  >
+                    <option value="">Ignorar</option>
+                    <option value={DATE_COLUMN}>Data</option>
+                    <option value={DISCARD_REASON_COLUMN}>Descrição de "Outros" (motivo do descarte)</option>
+                    {discardReasons.map(reason => (
+                      <option key={reason.key} value={getDiscardCountColumn(reason.key)}>Descarte: {reason.label}{reason.active ? '' : ' (desativado)'}</option>
+                    ))}
+                    <option value={getDiscardCountColumn(OTHER_DISCARD_REASON)}>Descarte: Outros</option>
+                    {metrics.map(metric => <option key={metric.key} value={metric.key}>{metric.label}{metric.active ? '' : ' (desativada)'}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {!mapping.includes(DATE_COLUMN) ? (
+              <p className="text-sm text-red-600 mb-6">Indique qual coluna contém a data.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2 mb-3 text-sm">
+                  {(Object.keys(statusLabels) as ImportRowStatus[]).map(status => (
+                    <span key={status} className={`px-3 py-1 rounded-full font-semibold ${statusColors[status]}`}>{statusLabels[status]}: {counts[status]}</span>
+                  ))}
+                </div>
+                <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-lg mb-4">
+                  <table className="w-full text-sm text-left text-gray-500">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+                      <tr>
+                        <th scope="col" className="px-4 py-2">Linha</th>
+                        <th scope="col" className="px-4 py-2">Data</th>
+                        <th scope="col" className="px-4 py-2">Situação</th>
+                        <th scope="col" className="px-4 py-2">Detalhes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.map(row => (
+                        <tr key={row.line} className="bg-white border-b">
+                          <td className="px-4 py-2">{row.line}</td>
+                          <td className="px-4 py-2">{row.date ? formatDate(row.date) : '-'}</td>
+                          <td className="px-4 py-2"><span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusColors[row.status]}`}>{statusLabels[row.status]}</span></td>
+                          <td className="px-4 py-2 text-xs">
+                            {row.errors.length > 0 ? row.errors.join('; ') : row.conflictingMetrics.length > 0 ? `Substitui valores salvos: ${row.conflictingMetrics.join(', ')}` : ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {counts.conflict > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-text-primary mb-4">
+                    <input type="checkbox" checked={overwriteConflicts} onChange={e => setOverwriteConflicts(e.target.checked)} />
+                    Substituir os valores já lançados nos dias em conflito
+                  </label>
+                )}
+                {counts.invalid > 0 && <p className="text-sm text-red-600 mb-4">Linhas inválidas não serão importadas.</p>}
+              </>
+            )}
+          </>
+        )}
+
+        <div className="mt-4 flex justify-end gap-4">
+          <button onClick={onClose} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
+          <button onClick={handleImport} disabled={importableCount === 0} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors disabled:opacity-50">
+            Importar {importableCount > 0 ? `${importableCount} dia(s)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportModal;
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import type { DiscardReasonDefinition } from '../types';
+import { combineBreakdowns, getBreakdownTotal, summarizeDiscardBreakdown } from '../utils/discardReasons';
+
+export interface DiscardBreakdownRow {
+  key: string;
+  label: string;
+  breakdown: Record<string, number>; // Discarded leads per reason key, see getDiscardBreakdown
+}
+
+interface DiscardReasonAnalysisProps {
+  title: string;
+  highlightLabel: string; // What the bars cover, e.g. the selected month or period
+  highlight: Record<string, number>;
+  rowHeader: string;
+  rows: DiscardBreakdownRow[]; // One table row per month or broker
+  reasons: DiscardReasonDefinition[];
+}
+
+// Share of each discard reason as bars, followed by a table of the same breakdown per month or broker.
+const DiscardReasonAnalysis: React.FC<DiscardReasonAnalysisProps> = ({ title, highlightLabel, highlight, rowHeader, rows, reasons }) => {
+  const highlightTotals = useMemo(() => summarizeDiscardBreakdown(highlight, reasons), [highlight, reasons]);
+
+  // Table columns: every reason used in any row, most frequent first
+  const columns = useMemo(
+    () => summarizeDiscardBreakdown(combineBreakdowns(rows.map(row => row.breakdown)), reasons),
+    [rows, reasons]
+  );
+
+  const rowsWithDiscards = rows.filter(row => getBreakdownTotal(row.breakdown) > 0);
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <h2 className="text-2xl font-semibold text-text-primary mb-1">{title}</h2>
+      <p className="text-sm text-text-secondary mb-4">{highlightLabel}</p>
+      {highlightTotals.length > 0 ? (
+        <div className="space-y-3 mb-6">
+          {highlightTotals.map(total => (
+            <div key={total.key}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-text-primary">{total.label}</span>
+                <span className="text-text-secondary">{total.discarded} ({Math.round(total.share)}%)</span>
+              </div>
+              <div className="w-full bg-surface-input rounded-full h-2.5 overflow-hidden">
+                <div className="bg-red-500 h-2.5 rounded-full" style={{ width: `${total.share}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-text-secondary mb-6">Nenhum lead descartado neste período.</p>
+      )}
+      {rowsWithDiscards.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-500">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-3">{rowHeader}</th>
+                {columns.map(column => (
+                  <th key={column.key} scope="col" className="px-4 py-3 text-center whitespace-nowrap">{column.label}</th>
+                ))}
+                <th scope="col" className="px-4 py-3 text-center">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rowsWithDiscards.map(row => (
+                <tr key={row.key} className="bg-white border-b hover:bg-gray-50">
+                  <th scope="row" className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">{row.label}</th>
+                  {columns.map(column => (
+                    <td key={column.key} className="px-4 py-3 text-center">{row.breakdown[column.key] || '-'}</td>
+                  ))}
+                  <td className="px-4 py-3 text-center font-semibold text-red-600">{getBreakdownTotal(row.breakdown)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DiscardReasonAnalysis;
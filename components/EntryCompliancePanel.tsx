@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import type { AgencyCalendar, BrokerProfile } from '../types';
+import { createWorkingDayCheck } from '../utils/calendar';
+import { getEntryCompliance } from '../utils/compliance';
+import { formatMonthLabel } from '../utils/approval';
+import { monthToRange } from '../utils/funnel';
+import { getTodayString, parseDate, toLocalDateString } from '../utils/date';
+
+interface EntryCompliancePanelProps {
+  brokers: BrokerProfile[];
+  calendar: AgencyCalendar;
+  onOpenEntry: (brokerId: string, date: string) => void;
+}
+
+// Missing dates listed per broker before the rest is summarized as "+N"
+const MAX_LISTED_DATES = 12;
+
+const getYesterday = () => {
+  const date = new Date();
+  date.setDate(date.getDate() - 1);
+  return toLocalDateString(date);
+};
+
+// Working days each broker left without an entry. Today only counts from tomorrow on: it can still be logged.
+const EntryCompliancePanel: React.FC<EntryCompliancePanelProps> = ({ brokers, calendar, onOpenEntry }) => {
+  const [month, setMonth] = useState(getTodayString().slice(0, 7));
+
+  const rows = useMemo(() => {
+    const { start, end } = monthToRange(month);
+    const yesterday = getYesterday();
+    const range = { start, end: end < yesterday ? end : yesterday };
+    return brokers
+      .map(broker => getEntryCompliance(broker, createWorkingDayCheck(calendar, broker.absences), range))
+      .sort((a, b) => (a.percentage ?? 100) - (b.percentage ?? 100) || a.brokerName.localeCompare(b.brokerName, 'pt-BR'));
+  }, [brokers, calendar, month]);
+
+  const expectedDays = rows.reduce((sum, row) => sum + row.expectedDays, 0);
+  const filledDays = rows.reduce((sum, row) => sum + row.filledDays, 0);
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-2">
+        <h2 className="text-2xl font-semibold text-text-primary">Dias sem Lançamento</h2>
+        <input
+          type="month" value={month} max={getTodayString().slice(0, 7)} onChange={e => e.target.value && setMonth(e.target.value)}
+          aria-label="Mês verificado"
+          className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none focus:ring-2 focus:ring-brand-primary"
+        />
+      </div>
+      <p className="text-text-secondary mb-6">
+        Dias úteis de <span className="capitalize">{formatMonthLabel(month)}</span> sem lançamento salvo, até ontem. Feriados, dias sem expediente e ausências não são cobrados.
+        {expectedDays > 0 && ` Equipe: ${Math.round((filledDays / expectedDays) * 100)}% dos dias preenchidos.`}
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-center text-text-secondary py-4">Nenhum corretor ativo.</p>
+      ) : (
+        <ul className="space-y-3">
+          {rows.map(row => {
+            const hiddenDates = row.missingDates.length - MAX_LISTED_DATES;
+            return (
+              <li key={row.brokerId} className="p-3 rounded-lg border border-gray-100 bg-surface-input">
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                  <p className="font-semibold text-text-primary">{row.brokerName}</p>
+                  <p className={`text-sm font-semibold ${row.percentage === null ? 'text-text-secondary' : row.percentage === 100 ? 'text-green-600' : row.percentage >= 80 ? 'text-amber-700' : 'text-red-600'}`}>
+                    {row.percentage === null ? 'Nenhum dia útil no período' : `${Math.round(row.percentage)}% · ${row.filledDays} de ${row.expectedDays} dias`}
+                  </p>
+                </div>
+                {row.missingDates.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {row.missingDates.slice(0, MAX_LISTED_DATES).map(date => (
+                      <button
+                        key={date} onClick={() => onOpenEntry(row.brokerId, date)}
+                        className="px-2 py-0.5 text-xs bg-white border border-red-200 text-red-700 rounded hover:bg-red-50"
+                        title="Abrir o lançamento deste dia"
+                      >
+                        {parseDate(date).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}
+                      </button>
+                    ))}
+                    {hiddenDates > 0 && <span className="px-2 py-0.5 text-xs text-text-secondary">+{hiddenDates}</span>}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default EntryCompliancePanel;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { entryReminderMessages, type EntryReminderReason } from '../utils/compliance';
+import type { NotificationState } from '../services/notifications';
+
+interface EntryReminderBannerProps {
+  reason: EntryReminderReason;
+  notificationState: NotificationState;
+  onOpenToday: () => void;
+  onEnableNotifications: () => void;
+  onDismiss: () => void; // Hides the banner until tomorrow
+}
+
+// In-app side of the daily reminder, shown to brokers whose entry for today is missing or still a draft
+const EntryReminderBanner: React.FC<EntryReminderBannerProps> = ({ reason, notificationState, onOpenToday, onEnableNotifications, onDismiss }) => (
+  <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3 no-print" role="status">
+    <p className="text-sm text-amber-800">
+      <span className="font-semibold">Lembrete:</span> {entryReminderMessages[reason]}
+    </p>
+    <div className="flex flex-wrap gap-2">
+      {notificationState === 'default' && (
+        <button onClick={onEnableNotifications} className="px-3 py-1 text-sm bg-white border border-amber-200 rounded-lg font-semibold text-amber-800 hover:bg-amber-100">
+          Avisar por notificação
+        </button>
+      )}
+      <button onClick={onDismiss} className="px-3 py-1 text-sm bg-white border border-amber-200 rounded-lg font-semibold text-amber-800 hover:bg-amber-100">
+        Agora não
+      </button>
+      <button onClick={onOpenToday} className="px-3 py-1 text-sm bg-amber-600 text-white rounded-lg font-semibold hover:bg-amber-700">
+        Lançar agora
+      </button>
+    </div>
+  </div>
+);
+
+export default EntryReminderBanner;
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { Forecast } from '../utils/forecast';
+
+interface ForecastCardProps {
+  title: string;
+  sales: Forecast;
+  leads: Forecast;
+  salesGoal: number;
+}
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 1 });
+
+const ForecastRow: React.FC<{ label: string; forecast: Forecast }> = ({ label, forecast }) => (
+  <div className="p-4 bg-surface-input rounded-lg">
+    <p className="text-sm text-text-secondary">{label}</p>
+    <p className="text-2xl font-bold text-text-primary">{Math.round(forecast.projected)}</p>
+    <p className="text-xs text-text-secondary">
+      Faixa provável: {Math.floor(forecast.low)} a {Math.ceil(forecast.high)} · Ritmo: {formatNumber(forecast.pacePerDay)}/dia útil
+    </p>
+  </div>
+);
+
+// Month-end projection at the current pace, with the daily pace still needed to reach the sales goal.
+const ForecastCard: React.FC<ForecastCardProps> = ({ title, sales, leads, salesGoal }) => {
+  const onTrack = salesGoal > 0 && sales.projected >= salesGoal;
+
+  return (
+    <div className="bg-surface-card rounded-2xl shadow-xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-text-primary">{title}</h3>
+        <span className="text-xs text-text-secondary">
+          {sales.remainingWorkingDays > 0 ? `${sales.remainingWorkingDays} dias úteis restantes` : 'Mês encerrado'}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <ForecastRow label="Vendas previstas" forecast={sales} />
+        <ForecastRow label="Leads previstos" forecast={leads} />
+      </div>
+      {salesGoal > 0 && (
+        <p className={`mt-4 text-sm font-semibold ${onTrack ? 'text-green-600' : 'text-amber-600'}`}>
+          {sales.actual >= salesGoal
+            ? 'Meta de vendas já atingida.'
+            : sales.requiredPerDay !== null
+              ? `Para atingir a meta de ${salesGoal} vendas: ${formatNumber(sales.requiredPerDay)} por dia útil (${onTrack ? 'no ritmo atual a meta será atingida' : 'acima do ritmo atual'}).`
+              : `Meta de ${salesGoal} vendas não atingida.`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ForecastCard;
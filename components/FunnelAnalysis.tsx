@@ -0,0 +1,72 @@
+import React, { useState, useMemo } from 'react';
+import type { DailyEntry, MetricDefinition } from '../types';
+import PeriodSelector, { createDefaultPeriod, resolvePeriod } from './PeriodSelector';
+import { computeFunnel, filterEntriesByRange, formatRate, getFunnelStages } from '../utils/funnel';
+import { getMetricLabel } from '../utils/metrics';
+
+const FunnelAnalysis: React.FC<{ entries: DailyEntry[]; metrics: MetricDefinition[] }> = ({ entries, metrics }) => {
+  const [period, setPeriod] = useState(createDefaultPeriod);
+
+  const funnelStages = useMemo(() => getFunnelStages(metrics), [metrics]);
+  const funnel = useMemo(
+    () => computeFunnel(filterEntriesByRange(entries, resolvePeriod(period)), funnelStages),
+    [entries, period, funnelStages]
+  );
+  const labelOf = (key: string) => getMetricLabel(metrics, key);
+  const maxCount = Math.max(1, ...funnelStages.map(stage => funnel.totals[stage]));
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-text-primary">Funil de Conversão</h2>
+          <p className="text-text-secondary">Conversão entre cada etapa do funil no período.</p>
+        </div>
+        <PeriodSelector value={period} onChange={setPeriod} idPrefix="funnel" />
+      </div>
+
+      <div className="space-y-1">
+        {funnelStages.map((stage, index) => {
+          const step = index > 0 ? funnel.steps[index - 1] : null;
+          const isBiggestLoss = step !== null && funnel.biggestLoss === step;
+          return (
+            <React.Fragment key={stage}>
+              {step && (
+                <p className={`text-xs pl-2 ${isBiggestLoss ? 'text-red-600 font-bold' : 'text-text-secondary'}`}>
+                  ↓ {formatRate(step.conversionRate)}{isBiggestLoss && ' — maior perda'}
+                </p>
+              )}
+              <div className="flex items-center gap-3">
+                <span className="w-40 text-sm text-text-secondary shrink-0">{labelOf(stage)}</span>
+                <div className="flex-1 bg-surface-input rounded h-6 overflow-hidden">
+                  <div
+                    className="bg-gradient-to-r from-brand-secondary to-brand-primary h-6 rounded"
+                    style={{ width: `${(funnel.totals[stage] / maxCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-12 text-right font-semibold text-text-primary">{funnel.totals[stage]}</span>
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="p-4 bg-blue-50 rounded-xl border border-blue-100">
+          <p className="text-sm text-text-secondary font-medium">Conversão total ({labelOf(funnelStages[0])} → {labelOf(funnelStages[funnelStages.length - 1])})</p>
+          <p className="text-2xl font-bold text-brand-primary mt-1">{formatRate(funnel.overallConversionRate)}</p>
+        </div>
+        <div className="p-4 bg-red-50 rounded-xl border border-red-100">
+          <p className="text-sm text-text-secondary font-medium">Etapa com maior perda</p>
+          <p className="text-lg font-bold text-red-600 mt-1">
+            {funnel.biggestLoss
+              ? `${labelOf(funnel.biggestLoss.from)} → ${labelOf(funnel.biggestLoss.to)} (${formatRate(funnel.biggestLoss.conversionRate)})`
+              : 'Dados insuficientes'}
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default FunnelAnalysis;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, LeadDistributionSettings, MetricDefinition } from '../types';
+import { planLeadDistribution, sumAllocations, type DistributionPlan } from '../utils/distribution';
+import { formatDate, getTodayString } from '../utils/date';
+import { getMetricLabel } from '../utils/metrics';
+
+interface LeadDistributionPlannerProps {
+  brokers: BrokerProfile[]; // Active brokers only
+  metrics: MetricDefinition[];
+  settings: LeadDistributionSettings;
+  onRecordDistribution: (date: string, allocations: Record<string, number>) => boolean;
+}
+
+const inputClassName = 'px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Suggests how to split the day's incoming portal leads among the brokers. The manager can change any
+// number before confirming; the result is added to each broker's new leads of that day.
+const LeadDistributionPlanner: React.FC<LeadDistributionPlannerProps> = ({ brokers, metrics, settings, onRecordDistribution }) => {
+  const [date, setDate] = useState(getTodayString());
+  const [total, setTotal] = useState<number | ''>('');
+  const [excludedIds, setExcludedIds] = useState<string[]>([]); // Brokers left out today, e.g. on a day off
+  const [plan, setPlan] = useState<DistributionPlan | null>(null);
+  const [allocations, setAllocations] = useState<Record<string, number>>({});
+
+  if (brokers.length === 0) return null;
+
+  const allocatedTotal = sumAllocations(allocations);
+
+  const toggleExcluded = (brokerId: string) => {
+    setExcludedIds(prev => (prev.includes(brokerId) ? prev.filter(id => id !== brokerId) : [...prev, brokerId]));
+    setPlan(null);
+  };
+
+  const handleSuggest = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (typeof total !== 'number' || total <= 0) {
+      alert('Informe quantos leads chegaram para distribuir.');
+      return;
+    }
+    if (!date || date > getTodayString()) {
+      alert('Informe uma data válida, que não seja futura.');
+      return;
+    }
+    const candidates = brokers.filter(broker => !excludedIds.includes(broker.id));
+    if (candidates.length === 0) {
+      alert('Selecione ao menos um corretor para receber leads.');
+      return;
+    }
+    const newPlan = planLeadDistribution(candidates, metrics, settings, total, date);
+    setPlan(newPlan);
+    setAllocations(Object.fromEntries(newPlan.suggestions.map(suggestion => [suggestion.brokerId, suggestion.suggested])));
+  };
+
+  const handleConfirm = () => {
+    if (!plan || allocatedTotal <= 0) return;
+    const difference = allocatedTotal !== total
+      ? `\n\nAtenção: a distribuição soma ${allocatedTotal} lead(s), mas chegaram ${total}.`
+      : '';
+    const formattedDate = formatDate(date);
+    if (!confirm(`Registrar ${allocatedTotal} lead(s) como "${getMetricLabel(metrics, 'newLeads')}" no dia ${formattedDate}?${difference}`)) return;
+    if (onRecordDistribution(date, allocations)) {
+      setPlan(null);
+      setAllocations({});
+      setTotal('');
+    }
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <h2 className="text-2xl font-semibold text-text-primary mb-2">Distribuição de Leads</h2>
+      <p className="text-text-secondary mb-6">
+        Sugere quantos leads novos cada corretor deve receber, com base no saldo atual, na conversão e no descarte recentes e nos limites definidos nas configurações.
+      </p>
+      <form onSubmit={handleSuggest} className="flex flex-col sm:flex-row sm:items-end gap-4 mb-4">
+        <div>
+          <label htmlFor="distributionDate" className="block text-sm font-medium text-text-secondary mb-2">Data</label>
+          <input type="date" id="distributionDate" value={date} max={getTodayString()} onChange={e => { setDate(e.target.value); setPlan(null); }} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="distributionTotal" className="block text-sm font-medium text-text-secondary mb-2">Leads a distribuir</label>
+          <input
+            type="number" id="distributionTotal" min="1" value={total} placeholder="Ex: 25"
+            onChange={e => { setTotal(e.target.value === '' ? '' : Math.max(0, parseInt(e.target.value, 10))); setPlan(null); }}
+            className={inputClassName}
+          />
+        </div>
+        <button type="submit" className="px-6 py-3 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">
+          Sugerir Distribuição
+        </button>
+      </form>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {brokers.map(broker => (
+          <label key={broker.id} className="flex items-center gap-2 px-3 py-1 bg-surface-input rounded-full text-sm text-text-secondary cursor-pointer">
+            <input type="checkbox" checked={!excludedIds.includes(broker.id)} onChange={() => toggleExcluded(broker.id)} className="h-4 w-4 accent-brand-primary" />
+            {broker.brokerName}
+          </label>
+        ))}
+      </div>
+      {plan && (
+        <>
+          {plan.unallocated > 0 && (
+            <p className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" role="alert">
+              {plan.unallocated} lead(s) ficaram sem corretor porque todos atingiram os limites configurados.
+            </p>
+          )}
+          <div className="space-y-3">
+            {plan.suggestions.map(suggestion => (
+              <div key={suggestion.brokerId} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border border-gray-100 bg-surface-input">
+                <div className="flex-1">
+                  <p className="font-semibold text-text-primary">
+                    {suggestion.brokerName}
+                    <span className="ml-2 text-xs font-normal text-text-secondary">peso {Math.round(suggestion.weight)}% · sugerido {suggestion.suggested}</span>
+                  </p>
+                  <ul className="text-xs text-text-secondary list-disc list-inside">
+                    {suggestion.explanation.map(line => <li key={line}>{line}</li>)}
+                  </ul>
+                </div>
+                <input
+                  type="number" min="0" aria-label={`Leads para ${suggestion.brokerName}`}
+                  value={allocations[suggestion.brokerId] ?? 0}
+                  onChange={e => setAllocations(prev => ({ ...prev, [suggestion.brokerId]: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                  className={`${inputClassName} w-28 text-center`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-between items-center gap-4 mt-4">
+            <p className={`text-sm font-semibold ${allocatedTotal === total ? 'text-text-secondary' : 'text-amber-700'}`}>
+              Distribuídos: {allocatedTotal} de {total}
+            </p>
+            <button
+              onClick={handleConfirm} disabled={allocatedTotal <= 0}
+              className="px-6 py-2 bg-emerald-600 text-white rounded-lg font-semibold shadow-lg hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Confirmar Distribuição
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default LeadDistributionPlanner;
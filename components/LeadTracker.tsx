@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import type { Lead, LeadStage, MetricDefinition } from '../types';
+import { createLead, moveLeadToStage, getLeadStages, getEntryStages, isClosedLeadStage, daysInCurrentStage } from '../utils/leads';
+import { getMetricLabel } from '../utils/metrics';
+
+interface LeadTrackerProps {
+  leads: Lead[];
+  metrics: MetricDefinition[]; // Stages and their labels come from the funnel metrics
+  onSaveLead: (lead: Lead) => void;
+  onDeleteLead: (leadId: string) => void;
+}
+
+const LeadTracker: React.FC<LeadTrackerProps> = ({ leads, metrics, onSaveLead, onDeleteLead }) => {
+  const stages = useMemo(() => getLeadStages(metrics), [metrics]);
+  const entryStages = useMemo(() => getEntryStages(metrics), [metrics]);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [source, setSource] = useState('');
+  const [entryStage, setEntryStage] = useState<LeadStage>('newLeads');
+  const [stageFilter, setStageFilter] = useState<LeadStage | 'open' | 'all'>('open');
+  const [expandedLeadId, setExpandedLeadId] = useState<string | null>(null);
+
+  const filteredLeads = useMemo(() => {
+    return leads
+      .filter(lead => {
+        if (stageFilter === 'all') return true;
+        if (stageFilter === 'open') return !isClosedLeadStage(metrics, lead.stage);
+        return lead.stage === stageFilter;
+      })
+      // Leads stuck for longer in their stage come first
+      .sort((a, b) => daysInCurrentStage(b) - daysInCurrentStage(a));
+  }, [leads, metrics, stageFilter]);
+
+  const handleAddLead = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    // The chosen stage may have been retired since it was picked
+    const stage = entryStages.some(metric => metric.key === entryStage) ? entryStage : entryStages[0]?.key;
+    onSaveLead(createLead({ name: name.trim(), phone: phone.trim(), source: source.trim() }, stage));
+    setName('');
+    setPhone('');
+    setSource('');
+  };
+
+  const handleStageChange = (lead: Lead, stage: LeadStage) => {
+    onSaveLead(moveLeadToStage(lead, stage));
+  };
+
+  const handleDelete = (lead: Lead) => {
+    if (confirm(`Excluir o lead "${lead.name}"? O histórico de etapas dele também será removido.`)) {
+      onDeleteLead(lead.id);
+    }
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <h2 className="text-2xl font-semibold text-text-primary mb-1">Acompanhamento de Leads</h2>
+      <p className="text-text-secondary mb-6">Registre cada cliente e mova-o pelas etapas do funil. Os contadores do lançamento diário são calculados a partir dessas movimentações.</p>
+
+      <form onSubmit={handleAddLead} className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+        <input
+          type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Nome do cliente" required
+          className="md:col-span-2 px-4 py-2 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+        />
+        <input
+          type="tel" value={phone} onChange={e => setPhone(e.target.value)} placeholder="Telefone"
+          className="px-4 py-2 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+        />
+        <input
+          type="text" value={source} onChange={e => setSource(e.target.value)} placeholder="Origem (portal, indicação...)"
+          className="px-4 py-2 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+        />
+        <select
+          value={entryStage} onChange={e => setEntryStage(e.target.value)}
+          className="px-4 py-2 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+        >
+          {entryStages.map(metric => <option key={metric.key} value={metric.key}>{metric.label}</option>)}
+        </select>
+        <button
+          type="submit" disabled={!name.trim()}
+          className="md:col-span-5 px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors duration-200 disabled:opacity-50"
+        >
+          Adicionar Lead
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <label htmlFor="leadStageFilter" className="text-sm font-medium text-text-secondary">Mostrar:</label>
+        <select
+          id="leadStageFilter" value={stageFilter} onChange={e => setStageFilter(e.target.value as LeadStage | 'open' | 'all')}
+          className="px-3 py-1 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+        >
+          <option value="open">Em aberto</option>
+          <option value="all">Todos</option>
+          {stages.map(metric => <option key={metric.key} value={metric.key}>{metric.label}</option>)}
+        </select>
+        <span className="text-sm text-text-secondary">{filteredLeads.length} lead(s)</span>
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
+        {filteredLeads.length > 0 ? filteredLeads.map(lead => {
+          const daysInStage = daysInCurrentStage(lead);
+          return (
+            <div key={lead.id} className="bg-surface-input rounded-lg p-3 border border-gray-100">
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <div>
+                  <button onClick={() => setExpandedLeadId(expandedLeadId === lead.id ? null : lead.id)} className="font-semibold text-text-primary hover:text-brand-primary text-left">
+                    {lead.name}
+                  </button>
+                  <p className="text-xs text-text-secondary">
+                    {[lead.phone, lead.source].filter(Boolean).join(' • ') || 'Sem contato ou origem'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs font-semibold ${daysInStage >= 7 && !isClosedLeadStage(metrics, lead.stage) ? 'text-red-600' : 'text-text-secondary'}`}>
+                    {daysInStage} dia(s) na etapa
+                  </span>
+                  <select
+                    value={lead.stage} onChange={e => handleStageChange(lead, e.target.value as LeadStage)}
+                    className="px-2 py-1 bg-white border border-gray-200 rounded-md text-sm text-text-primary outline-none"
+                    aria-label={`Etapa de ${lead.name}`}
+                  >
+                    {/* A lead sitting in a retired stage keeps showing it until moved */}
+                    {!stages.some(metric => metric.key === lead.stage) && <option value={lead.stage}>{getMetricLabel(metrics, lead.stage)}</option>}
+                    {stages.map(metric => <option key={metric.key} value={metric.key}>{metric.label}</option>)}
+                  </select>
+                  <button onClick={() => handleDelete(lead)} className="px-2 py-1 text-sm bg-red-50 text-red-600 rounded-md hover:bg-red-100 transition border border-red-200" title="Excluir lead">
+                    Excluir
+                  </button>
+                </div>
+              </div>
+              {expandedLeadId === lead.id && (
+                <ol className="mt-3 pt-2 border-t border-gray-200 text-sm space-y-1">
+                  {lead.history.map((change, index) => (
+                    <li key={`${change.stage}-${index}`} className="flex justify-between">
+                      <span className="text-text-primary">{getMetricLabel(metrics, change.stage)}</span>
+                      <span className="text-text-secondary">{new Date(change.at).toLocaleString('pt-BR')}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          );
+        }) : (
+          <p className="text-center text-text-secondary py-4">Nenhum lead nesta etapa.</p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default LeadTracker;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, MetricDefinition } from '../types';
+import type { LeadTransferRequest } from '../utils/transfers';
+import { getBalanceAtEndOf } from '../utils/metrics';
+import { getTodayString } from '../utils/date';
+import { isActiveBroker } from '../utils/brokers';
+
+interface LeadTransferModalProps {
+  brokers: BrokerProfile[]; // Possible sources (active and archived); only active brokers can receive leads
+  metrics: MetricDefinition[];
+  onSave: (request: LeadTransferRequest) => boolean;
+  onClose: () => void;
+}
+
+interface DestinationRow {
+  brokerId: string;
+  quantity: number | '';
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Hands part of a broker's lead base over to one or more colleagues, e.g. when the broker leaves or goes on vacation.
+const LeadTransferModal: React.FC<LeadTransferModalProps> = ({ brokers, metrics, onSave, onClose }) => {
+  const [fromBrokerId, setFromBrokerId] = useState('');
+  const [date, setDate] = useState(getTodayString());
+  const [destinations, setDestinations] = useState<DestinationRow[]>([{ brokerId: '', quantity: '' }]);
+  const [note, setNote] = useState('');
+
+  const fromBroker = brokers.find(b => b.id === fromBrokerId);
+  const sourceBalance = fromBroker && date
+    ? getBalanceAtEndOf(date, fromBroker.initialLeads, fromBroker.dailyEntries, metrics, fromBroker.balanceAdjustments)
+    : 0;
+  const receivers = brokers.filter(b => isActiveBroker(b) && b.id !== fromBrokerId);
+  const total = destinations.reduce((sum, row) => sum + (typeof row.quantity === 'number' ? row.quantity : 0), 0);
+
+  const updateRow = (index: number, row: Partial<DestinationRow>) =>
+    setDestinations(rows => rows.map((r, i) => (i === index ? { ...r, ...row } : r)));
+
+  // Splits the whole balance among the chosen colleagues; the first ones get the remainder
+  const handleSplitEvenly = () => {
+    const chosen = destinations.filter(row => row.brokerId);
+    if (chosen.length === 0 || sourceBalance <= 0) return;
+    const share = Math.floor(sourceBalance / chosen.length);
+    const remainder = sourceBalance % chosen.length;
+    setDestinations(chosen.map((row, index) => ({ ...row, quantity: share + (index < remainder ? 1 : 0) })));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fromBroker) {
+      alert('Escolha o corretor de origem.');
+      return;
+    }
+    if (!date || date > getTodayString()) {
+      alert('Informe uma data válida, que não seja futura.');
+      return;
+    }
+    const filled = destinations.filter(row => row.brokerId && typeof row.quantity === 'number' && row.quantity > 0);
+    if (filled.length === 0) {
+      alert('Informe ao menos um corretor de destino e a quantidade de leads.');
+      return;
+    }
+    if (new Set(filled.map(row => row.brokerId)).size !== filled.length) {
+      alert('Cada corretor de destino deve aparecer uma única vez.');
+      return;
+    }
+    if (total > sourceBalance) {
+      alert(`${fromBroker.brokerName} tinha ${sourceBalance} lead(s) ao fim do dia escolhido; não é possível transferir ${total}.`);
+      return;
+    }
+    const request: LeadTransferRequest = {
+      fromBrokerId,
+      date,
+      destinations: filled.map(row => ({ brokerId: row.brokerId, quantity: row.quantity as number })),
+      note: note.trim() || undefined,
+    };
+    if (onSave(request)) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 animate-fade-in no-print" aria-modal="true" role="dialog">
+      <div className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto" role="document">
+        <h3 className="text-2xl font-bold text-text-primary mb-2">Transferir Leads</h3>
+        <p className="text-sm text-text-secondary mb-6">
+          Os leads saem da base do corretor de origem e entram na base dos colegas ao fim do dia escolhido. Não contam como leads novos.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="transferFrom" className="block text-sm font-medium text-text-secondary mb-2">De</label>
+              <select id="transferFrom" value={fromBrokerId} onChange={e => setFromBrokerId(e.target.value)} className={inputClassName}>
+                <option value="">Selecione...</option>
+                {brokers.map(broker => (
+                  <option key={broker.id} value={broker.id}>{broker.brokerName}{broker.archivedAt ? ' (arquivado)' : ''}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="transferDate" className="block text-sm font-medium text-text-secondary mb-2">Data</label>
+              <input type="date" id="transferDate" value={date} max={getTodayString()} onChange={e => setDate(e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+          {fromBroker && date && (
+            <p className="p-3 bg-surface-input rounded-lg text-sm text-text-secondary">
+              Saldo de {fromBroker.brokerName} ao fim do dia: <strong className="text-text-primary">{sourceBalance}</strong>
+              {total > 0 && <> → <strong className={total > sourceBalance ? 'text-red-600' : 'text-brand-primary'}>{sourceBalance - total}</strong></>}
+            </p>
+          )}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="block text-sm font-medium text-text-secondary">Para</span>
+              <button type="button" onClick={handleSplitEvenly} disabled={!fromBroker || sourceBalance <= 0} className="text-sm font-semibold text-brand-primary hover:underline disabled:opacity-50 disabled:no-underline">
+                Dividir todo o saldo igualmente
+              </button>
+            </div>
+            <div className="space-y-2">
+              {destinations.map((row, index) => (
+                <div key={index} className="flex gap-2">
+                  <select
+                    aria-label={`Corretor de destino ${index + 1}`} value={row.brokerId}
+                    onChange={e => updateRow(index, { brokerId: e.target.value })} className={`${inputClassName} flex-[2]`}
+                  >
+                    <option value="">Selecione...</option>
+                    {receivers.map(broker => <option key={broker.id} value={broker.id}>{broker.brokerName}</option>)}
+                  </select>
+                  <input
+                    type="number" min="1" aria-label={`Quantidade para o destino ${index + 1}`} value={row.quantity} placeholder="Qtd."
+                    onChange={e => updateRow(index, { quantity: e.target.value === '' ? '' : Math.max(0, parseInt(e.target.value, 10)) })}
+                    className={`${inputClassName} flex-1`}
+                  />
+                  {destinations.length > 1 && (
+                    <button type="button" onClick={() => setDestinations(rows => rows.filter((_, i) => i !== index))} className="px-3 text-red-600 hover:bg-red-50 rounded-lg" aria-label="Remover destino">
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {destinations.length < receivers.length && (
+              <button type="button" onClick={() => setDestinations(rows => [...rows, { brokerId: '', quantity: '' }])} className="mt-2 text-sm font-semibold text-brand-primary hover:underline">
+                + Adicionar corretor
+              </button>
+            )}
+          </div>
+          <div>
+            <label htmlFor="transferNote" className="block text-sm font-medium text-text-secondary mb-2">Observação</label>
+            <input type="text" id="transferNote" value={note} onChange={e => setNote(e.target.value)} placeholder="Ex: férias de 15 dias" className={inputClassName} />
+          </div>
+          <div className="flex justify-end gap-4 pt-2">
+            <button type="button" onClick={onClose} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
+            <button type="submit" className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">
+              Transferir {total > 0 ? `${total} lead(s)` : ''}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LeadTransferModal;
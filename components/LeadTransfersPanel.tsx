@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import type { BrokerProfile, MetricDefinition } from '../types';
+import type { DateRange } from '../utils/funnel';
+import { getLeadTransfers, type LeadTransferRequest } from '../utils/transfers';
+import { formatDate } from '../utils/date';
+import LeadTransferModal from './LeadTransferModal';
+
+interface LeadTransfersPanelProps {
+  brokers: BrokerProfile[]; // Active and archived brokers
+  metrics: MetricDefinition[];
+  range: DateRange | null; // Period of the team view; null means all time
+  periodLabel: string;
+  onTransferLeads: (request: LeadTransferRequest) => boolean;
+  onUndoLeadTransfer: (transferId: string) => boolean;
+}
+
+// Leads handed over between brokers. They are a redistribution of the team's base, so they appear here
+// and in the broker histories but never as new leads.
+const LeadTransfersPanel: React.FC<LeadTransfersPanelProps> = ({ brokers, metrics, range, periodLabel, onTransferLeads, onUndoLeadTransfer }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const transfers = useMemo(
+    () => getLeadTransfers(brokers).filter(transfer => !range || (transfer.date >= range.start && transfer.date <= range.end)),
+    [brokers, range]
+  );
+  const totalMoved = transfers.reduce((sum, transfer) => sum + transfer.total, 0);
+
+  if (brokers.length < 2) return null;
+
+  const handleUndo = (transferId: string, fromBrokerName: string) => {
+    if (confirm(`Desfazer esta transferência? Os leads voltam para ${fromBrokerName} e os saldos a partir da data da transferência serão recalculados.`)) {
+      onUndoLeadTransfer(transferId);
+    }
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-text-primary">Redistribuição de Leads ({periodLabel})</h2>
+          <p className="text-sm text-text-secondary">
+            {transfers.length > 0
+              ? `${totalMoved} lead(s) redistribuído(s) em ${transfers.length} transferência(s). Transferências não contam como leads recebidos.`
+              : 'Repasse a base de um corretor que saiu ou está de férias para os colegas.'}
+          </p>
+        </div>
+        <button onClick={() => setIsModalOpen(true)} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">
+          Transferir Leads
+        </button>
+      </div>
+      {transfers.length > 0 ? (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm text-left text-gray-500">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+              <tr>
+                <th scope="col" className="px-4 py-3">Data</th>
+                <th scope="col" className="px-4 py-3">De</th>
+                <th scope="col" className="px-4 py-3">Para</th>
+                <th scope="col" className="px-4 py-3 text-center">Leads</th>
+                <th scope="col" className="px-4 py-3">Observação</th>
+                <th scope="col" className="px-4 py-3">Registrado por</th>
+                <th scope="col" className="px-4 py-3"><span className="sr-only">Ações</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.map(transfer => (
+                <tr key={transfer.transferId} className="bg-white border-b hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap">{formatDate(transfer.date)}</td>
+                  <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">{transfer.fromBrokerName}</td>
+                  <td className="px-4 py-3">{transfer.destinations.map(d => `${d.brokerName} (${d.quantity})`).join(', ')}</td>
+                  <td className="px-4 py-3 text-center font-semibold text-text-primary">{transfer.total}</td>
+                  <td className="px-4 py-3">{transfer.note || '-'}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">{transfer.author}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button onClick={() => handleUndo(transfer.transferId, transfer.fromBrokerName)} className="text-red-600 font-semibold hover:underline">Desfazer</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-center text-text-secondary py-4">Nenhuma transferência no período.</p>
+      )}
+      {isModalOpen && (
+        <LeadTransferModal brokers={brokers} metrics={metrics} onSave={onTransferLeads} onClose={() => setIsModalOpen(false)} />
+      )}
+    </section>
+  );
+};
+
+export default LeadTransfersPanel;
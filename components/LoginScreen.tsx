@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import type { UserAccount } from '../types';
+import { isValidPin, MIN_PIN_LENGTH, roleLabels } from '../utils/users';
+
+interface LoginScreenProps {
+  users: UserAccount[]; // Empty on the first use of the device
+  onSignIn: (userId: string, pin: string) => Promise<boolean>;
+  onCreateFirstAdmin: (name: string, pin: string) => void;
+}
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 30 * 1000;
+
+// Kept across reloads, otherwise reloading the page would reset the count and lift the lockout
+const SIGN_IN_LOCKOUT_KEY = 'sign_in_lockout';
+
+interface SignInLockout {
+  failedAttempts: number;
+  lockedUntil: number; // Epoch ms, 0 when not locked
+}
+
+const loadSignInLockout = (): SignInLockout => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SIGN_IN_LOCKOUT_KEY) || 'null');
+    if (saved && typeof saved.failedAttempts === 'number' && typeof saved.lockedUntil === 'number') return saved;
+  } catch (e) {
+    console.error("Error parsing the sign-in lockout", e);
+  }
+  return { failedAttempts: 0, lockedUntil: 0 };
+};
+
+const saveSignInLockout = (lockout: SignInLockout) => {
+  if (lockout.failedAttempts === 0 && lockout.lockedUntil === 0) localStorage.removeItem(SIGN_IN_LOCKOUT_KEY);
+  else localStorage.setItem(SIGN_IN_LOCKOUT_KEY, JSON.stringify(lockout));
+};
+
+const inputClassName = 'w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Sign-in with a PIN per account. On a device without accounts it asks for the first administrator instead.
+const LoginScreen: React.FC<LoginScreenProps> = ({ users, onSignIn, onCreateFirstAdmin }) => {
+  const [userId, setUserId] = useState(users.length === 1 ? users[0].id : '');
+  const [pin, setPin] = useState('');
+  const [name, setName] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !pin) return;
+    if (Date.now() < loadSignInLockout().lockedUntil) {
+      setError('Muitas tentativas incorretas. Aguarde alguns segundos e tente novamente.');
+      return;
+    }
+    setIsChecking(true);
+    const success = await onSignIn(userId, pin);
+    setIsChecking(false);
+    if (success) {
+      saveSignInLockout({ failedAttempts: 0, lockedUntil: 0 });
+      return;
+    }
+    // Read again: another tab may have counted attempts meanwhile
+    const attempts = loadSignInLockout().failedAttempts + 1;
+    setPin('');
+    if (attempts >= MAX_FAILED_ATTEMPTS) {
+      saveSignInLockout({ failedAttempts: 0, lockedUntil: Date.now() + LOCKOUT_MS });
+      setError('Muitas tentativas incorretas. Aguarde 30 segundos e tente novamente.');
+    } else {
+      saveSignInLockout({ failedAttempts: attempts, lockedUntil: 0 });
+      setError('PIN incorreto.');
+    }
+  };
+
+  const handleCreateAdmin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Informe seu nome.');
+      return;
+    }
+    if (!isValidPin(pin)) {
+      setError(`O PIN precisa ter ao menos ${MIN_PIN_LENGTH} caracteres.`);
+      return;
+    }
+    if (pin !== confirmation) {
+      setError('A confirmação não confere com o PIN.');
+      return;
+    }
+    onCreateFirstAdmin(name.trim(), pin);
+  };
+
+  if (users.length === 0) {
+    return (
+      <section className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-10 max-w-md mx-auto animate-fade-in">
+        <h2 className="text-2xl font-semibold text-text-primary mb-2">Criar Administrador</h2>
+        <p className="text-text-secondary mb-6">
+          Este aparelho ainda não tem usuários. Crie a conta de administrador; depois, nas configurações, cadastre gerentes e corretores.
+        </p>
+        <form onSubmit={handleCreateAdmin} className="space-y-4">
+          <div>
+            <label htmlFor="adminName" className="block text-sm font-medium text-text-secondary mb-2">Seu nome</label>
+            <input type="text" id="adminName" value={name} onChange={e => setName(e.target.value)} placeholder="Ex: Maria Oliveira" className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="adminPin" className="block text-sm font-medium text-text-secondary mb-2">PIN ou senha</label>
+            <input type="password" id="adminPin" value={pin} onChange={e => setPin(e.target.value)} autoComplete="new-password" className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="adminPinConfirmation" className="block text-sm font-medium text-text-secondary mb-2">Confirme o PIN</label>
+            <input type="password" id="adminPinConfirmation" value={confirmation} onChange={e => setConfirmation(e.target.value)} autoComplete="new-password" className={inputClassName} />
+          </div>
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+          <button type="submit" className="w-full px-6 py-3 bg-gradient-to-r from-brand-primary to-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity duration-200">
+            Criar e Entrar
+          </button>
+        </form>
+      </section>
+    );
+  }
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-2xl p-6 sm:p-10 max-w-md mx-auto animate-fade-in">
+      <h2 className="text-2xl font-semibold text-text-primary mb-6">Entrar</h2>
+      <form onSubmit={handleSignIn} className="space-y-4">
+        <div>
+          <label htmlFor="signInUser" className="block text-sm font-medium text-text-secondary mb-2">Usuário</label>
+          <select id="signInUser" value={userId} onChange={e => { setUserId(e.target.value); setError(null); }} className={inputClassName}>
+            <option value="">Selecione...</option>
+            {[...users].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR')).map(user => (
+              <option key={user.id} value={user.id}>{user.name} · {roleLabels[user.role]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="signInPin" className="block text-sm font-medium text-text-secondary mb-2">PIN ou senha</label>
+          <input type="password" id="signInPin" value={pin} onChange={e => setPin(e.target.value)} autoComplete="current-password" className={inputClassName} />
+        </div>
+        {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+        <button
+          type="submit" disabled={!userId || !pin || isChecking}
+          className="w-full px-6 py-3 bg-gradient-to-r from-brand-primary to-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity duration-200 disabled:opacity-50"
+        >
+          {isChecking ? 'Verificando...' : 'Entrar'}
+        </button>
+      </form>
+      <p className="text-xs text-text-secondary mt-4">Esqueceu o PIN? Peça a um administrador para redefini-lo.</p>
+    </section>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, MonthCloseEvent } from '../types';
+import { canCloseMonth, formatMonthLabel, getClosedMonths, getPendingEntries } from '../utils/approval';
+import { getTodayString } from '../utils/date';
+
+interface MonthClosePanelProps {
+  brokers: BrokerProfile[];
+  monthCloseLog: MonthCloseEvent[];
+  onCloseMonth: (month: string) => void;
+  onReopenMonth: (month: string, reason: string) => void;
+}
+
+const getPreviousMonth = (today: string) => {
+  const date = new Date(today.slice(0, 7) + '-01T00:00:00');
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Closing a month locks its entries in the form, in bulk edit and everywhere else until it is reopened
+const MonthClosePanel: React.FC<MonthClosePanelProps> = ({ brokers, monthCloseLog, onCloseMonth, onReopenMonth }) => {
+  const today = getTodayString();
+  const [month, setMonth] = useState(getPreviousMonth(today));
+  const [reopeningMonth, setReopeningMonth] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const closedMonths = [...getClosedMonths(monthCloseLog)].sort().reverse();
+
+  const handleClose = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!month || !canCloseMonth(month, today)) {
+      alert('Só é possível fechar meses que já terminaram.');
+      return;
+    }
+    if (closedMonths.includes(month)) {
+      alert(`${formatMonthLabel(month)} já está fechado.`);
+      return;
+    }
+    const pending = getPendingEntries(brokers).filter(item => item.entry.date.startsWith(month)).length;
+    const warning = pending > 0 ? `\n\nAtenção: ${pending} lançamento(s) deste mês ainda aguardam aprovação e ficarão fora do ranking.` : '';
+    if (!confirm(`Fechar ${formatMonthLabel(month)}? Os lançamentos do mês não poderão mais ser alterados até que ele seja reaberto.${warning}`)) return;
+    onCloseMonth(month);
+  };
+
+  const handleReopen = (closedMonth: string) => {
+    if (!reason.trim()) {
+      alert('Informe o motivo da reabertura. Ele fica registrado no histórico de fechamentos.');
+      return;
+    }
+    onReopenMonth(closedMonth, reason.trim());
+    setReopeningMonth(null);
+    setReason('');
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 no-print">
+      <h2 className="text-2xl font-semibold text-text-primary mb-2">Fechamento de Mês</h2>
+      <p className="text-text-secondary mb-6">
+        Um mês fechado não aceita novos lançamentos, edições, exclusões ou ajustes de saldo. Reabrir exige um motivo, registrado abaixo.
+      </p>
+      <form onSubmit={handleClose} className="flex flex-col sm:flex-row sm:items-end gap-4 mb-6">
+        <div>
+          <label htmlFor="closeMonth" className="block text-sm font-medium text-text-secondary mb-2">Mês</label>
+          <input
+            type="month" id="closeMonth" value={month} max={getPreviousMonth(today)} onChange={e => setMonth(e.target.value)}
+            className="px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+          />
+        </div>
+        <button type="submit" className="px-6 py-3 bg-gray-600 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-700 transition-colors">
+          Fechar Mês
+        </button>
+      </form>
+      {closedMonths.length > 0 && (
+        <ul className="space-y-2 mb-6">
+          {closedMonths.map(closedMonth => (
+            <li key={closedMonth} className="p-3 bg-surface-input rounded-md">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-semibold text-text-primary capitalize">{formatMonthLabel(closedMonth)}</p>
+                <button
+                  onClick={() => { setReopeningMonth(reopeningMonth === closedMonth ? null : closedMonth); setReason(''); }}
+                  className="px-3 py-1 text-sm bg-amber-50 text-amber-700 border border-amber-200 rounded-lg font-semibold hover:bg-amber-100 transition-colors"
+                >
+                  Reabrir
+                </button>
+              </div>
+              {reopeningMonth === closedMonth && (
+                <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text" value={reason} onChange={e => setReason(e.target.value)} autoFocus
+                    placeholder="Motivo, ex: venda de 28/09 lançada no dia errado"
+                    aria-label={`Motivo da reabertura de ${formatMonthLabel(closedMonth)}`}
+                    className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-text-primary outline-none focus:ring-2 focus:ring-brand-primary"
+                  />
+                  <button onClick={() => handleReopen(closedMonth)} className="px-4 py-2 text-sm bg-amber-600 text-white rounded-lg font-semibold hover:bg-amber-700 transition-colors">
+                    Confirmar reabertura
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {monthCloseLog.length > 0 && (
+        <>
+          <h3 className="font-semibold text-text-primary mb-2">Histórico</h3>
+          <ul className="space-y-1 text-sm text-text-secondary max-h-48 overflow-y-auto">
+            {[...monthCloseLog].reverse().map(event => (
+              <li key={event.id}>
+                <span className="font-semibold">{event.action === 'close' ? 'Fechado' : 'Reaberto'}</span>: {formatMonthLabel(event.month)}
+                {' · '}{event.author} em {new Date(event.at).toLocaleString('pt-BR')}
+                {event.reason && ` · "${event.reason}"`}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default MonthClosePanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { DateRange } from '../utils/funnel';
+import { periodPresetLabels, type PeriodPreset } from '../utils/periods';
+
+interface PeriodPresetSelectorProps {
+  preset: PeriodPreset;
+  customRange: DateRange;
+  onPresetChange: (preset: PeriodPreset) => void;
+  onCustomRangeChange: (range: DateRange) => void;
+  idPrefix: string;
+}
+
+const PeriodPresetSelector: React.FC<PeriodPresetSelectorProps> = ({ preset, customRange, onPresetChange, onCustomRangeChange, idPrefix }) => (
+  <div className="flex flex-wrap gap-2 items-center justify-center">
+    {(Object.keys(periodPresetLabels) as PeriodPreset[]).map(option => (
+      <button
+        key={option}
+        onClick={() => onPresetChange(option)}
+        className={`px-3 py-2 text-sm rounded-lg font-semibold border transition-colors ${
+          preset === option ? 'bg-brand-primary text-white border-brand-primary' : 'bg-surface-input text-text-secondary border-gray-200 hover:bg-gray-200/80'
+        }`}
+        aria-pressed={preset === option}
+      >
+        {periodPresetLabels[option]}
+      </button>
+    ))}
+    {preset === 'custom' && (
+      <div className="flex gap-2 items-center">
+        <input
+          type="date" id={`${idPrefix}-start`} value={customRange.start} max={customRange.end}
+          onChange={e => onCustomRangeChange({ ...customRange, start: e.target.value })}
+          className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+          aria-label="Data inicial"
+        />
+        <span className="text-text-secondary text-sm">até</span>
+        <input
+          type="date" id={`${idPrefix}-end`} value={customRange.end} min={customRange.start}
+          onChange={e => onCustomRangeChange({ ...customRange, end: e.target.value })}
+          className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+          aria-label="Data final"
+        />
+      </div>
+    )}
+  </div>
+);
+
+export default PeriodPresetSelector;
@@ -0,0 +1,62 @@
+import React from 'react';
+import type { DateRange } from '../utils/funnel';
+import { monthToRange } from '../utils/funnel';
+import { getTodayString } from '../utils/date';
+
+export interface PeriodSelection {
+  mode: 'month' | 'range';
+  month: string; // YYYY-MM
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+}
+
+export const resolvePeriod = (period: PeriodSelection): DateRange =>
+  period.mode === 'month' ? monthToRange(period.month) : { start: period.start, end: period.end };
+
+export const createDefaultPeriod = (): PeriodSelection => {
+  const today = getTodayString();
+  return { mode: 'month', month: today.slice(0, 7), start: `${today.slice(0, 7)}-01`, end: today };
+};
+
+const PeriodSelector: React.FC<{
+  value: PeriodSelection;
+  onChange: (value: PeriodSelection) => void;
+  idPrefix: string;
+}> = ({ value, onChange, idPrefix }) => (
+  <div className="flex flex-wrap gap-2 items-center">
+    <select
+      value={value.mode}
+      onChange={e => onChange({ ...value, mode: e.target.value as PeriodSelection['mode'] })}
+      className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+      aria-label="Tipo de período"
+    >
+      <option value="month">Mês</option>
+      <option value="range">Intervalo de datas</option>
+    </select>
+    {value.mode === 'month' ? (
+      <input
+        type="month" id={`${idPrefix}-month`} value={value.month}
+        onChange={e => onChange({ ...value, month: e.target.value })}
+        className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+      />
+    ) : (
+      <>
+        <input
+          type="date" id={`${idPrefix}-start`} value={value.start} max={value.end}
+          onChange={e => onChange({ ...value, start: e.target.value })}
+          className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+          aria-label="Data inicial"
+        />
+        <span className="text-text-secondary text-sm">até</span>
+        <input
+          type="date" id={`${idPrefix}-end`} value={value.end} min={value.start}
+          onChange={e => onChange({ ...value, end: e.target.value })}
+          className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+          aria-label="Data final"
+        />
+      </>
+    )}
+  </div>
+);
+
+export default PeriodSelector;
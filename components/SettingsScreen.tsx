@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import type { AgencyCalendar, AgencySettings, BrokerProfile, ConsistencyRuleId, DiscardReasonDefinition, EntryReminderSettings, LeadDistributionSettings, MetricDefinition, MetricKind, RuleSeverity, UserAccount } from '../types';
+import { metricKindLabels } from '../utils/metrics';
+import { generateId } from '../utils/id';
+import { consistencyRules, ruleSeverityLabels } from '../utils/consistency';
+import type { SyncStatus } from '../utils/sync';
+import type { UserAccountInput } from '../utils/users';
+import SyncPanel from './SyncPanel';
+import UserAccountsPanel from './UserAccountsPanel';
+import CalendarSettingsPanel from './CalendarSettingsPanel';
+
+interface SettingsScreenProps {
+  settings: AgencySettings;
+  onSaveSettings: (settings: AgencySettings) => void;
+  onClose: () => void;
+  // Sync is per device and applies immediately, outside of the save button
+  brokers: BrokerProfile[];
+  syncStatus: SyncStatus;
+  onSaveSyncConfig: (serverUrl: string, token: string) => void;
+  onSyncNow: () => void;
+  onResolveSyncConflict: (key: string, keep: 'local' | 'remote') => void;
+  // Accounts of this device, also applied immediately
+  users: UserAccount[];
+  currentUserId: string;
+  onSaveUser: (user: UserAccountInput, pin: string | null) => void;
+  onDeleteUser: (userId: string) => void;
+}
+
+const MAX_LOGO_BYTES = 500 * 1024;
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, onSaveSettings, onClose, brokers, syncStatus, onSaveSyncConfig, onSyncNow, onResolveSyncConflict, users, currentUserId, onSaveUser, onDeleteUser }) => {
+  const [metrics, setMetrics] = useState<MetricDefinition[]>(settings.metrics);
+  const [newMetricLabel, setNewMetricLabel] = useState('');
+  const [newMetricKind, setNewMetricKind] = useState<MetricKind>('activity');
+  const [agencyName, setAgencyName] = useState(settings.agencyName || '');
+  const [agencyLogo, setAgencyLogo] = useState(settings.agencyLogo || '');
+  const [discardReasons, setDiscardReasons] = useState<DiscardReasonDefinition[]>(settings.discardReasons);
+  const [newReasonLabel, setNewReasonLabel] = useState('');
+  const [ruleSeverities, setRuleSeverities] = useState<Record<ConsistencyRuleId, RuleSeverity>>(settings.consistencyRules);
+  const [leadDistribution, setLeadDistribution] = useState<LeadDistributionSettings>(settings.leadDistribution);
+  const [calendar, setCalendar] = useState<AgencyCalendar>(settings.calendar);
+  const [entryReminder, setEntryReminder] = useState<EntryReminderSettings>(settings.entryReminder);
+
+  const updateMetric = (key: string, changes: Partial<MetricDefinition>) => {
+    setMetrics(prev => prev.map(m => (m.key === key ? { ...m, ...changes } : m)));
+  };
+
+  const moveMetric = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= metrics.length) return;
+    setMetrics(prev => {
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const handleAddMetric = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMetricLabel.trim()) return;
+    setMetrics(prev => [...prev, { key: `custom_${generateId()}`, label: newMetricLabel.trim(), kind: newMetricKind, active: true }]);
+    setNewMetricLabel('');
+  };
+
+  const updateDiscardReason = (key: string, changes: Partial<DiscardReasonDefinition>) => {
+    setDiscardReasons(prev => prev.map(r => (r.key === key ? { ...r, ...changes } : r)));
+  };
+
+  const handleAddDiscardReason = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newReasonLabel.trim()) return;
+    setDiscardReasons(prev => [...prev, { key: `reason_${generateId()}`, label: newReasonLabel.trim(), active: true }]);
+    setNewReasonLabel('');
+  };
+
+  // The logo is stored inline (data URL) so reports can be generated offline
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      alert('Use uma imagem PNG ou JPEG para o logotipo.');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      alert('O logotipo deve ter no máximo 500 KB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = e => setAgencyLogo(e.target?.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    if (metrics.some(m => !m.label.trim())) {
+      alert('Todas as métricas precisam de um nome.');
+      return;
+    }
+    if (discardReasons.some(r => !r.label.trim())) {
+      alert('Todos os motivos de descarte precisam de um nome.');
+      return;
+    }
+    if (entryReminder.enabled && !entryReminder.time) {
+      alert('Informe o horário do lembrete de lançamento.');
+      return;
+    }
+    if (calendar.workingWeekdays.length === 0) {
+      alert('Marque ao menos um dia da semana com expediente.');
+      return;
+    }
+    if (!metrics.some(m => m.active && m.kind === 'sale')) {
+      if (!confirm('Nenhuma métrica ativa está marcada como "Venda". Vendas, metas e conversão ficarão zeradas. Deseja salvar mesmo assim?')) {
+        return;
+      }
+    }
+    onSaveSettings({
+      ...settings,
+      metrics: metrics.map(m => ({ ...m, label: m.label.trim() })),
+      discardReasons: discardReasons.map(r => ({ ...r, label: r.label.trim() })),
+      agencyName: agencyName.trim() || undefined,
+      agencyLogo: agencyLogo || undefined,
+      consistencyRules: ruleSeverities,
+      leadDistribution,
+      calendar,
+      entryReminder,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <UserAccountsPanel
+        users={users}
+        brokers={brokers}
+        currentUserId={currentUserId}
+        onSaveUser={onSaveUser}
+        onDeleteUser={onDeleteUser}
+      />
+
+      <SyncPanel
+        status={syncStatus}
+        brokers={brokers}
+        metrics={settings.metrics}
+        onSaveConfig={onSaveSyncConfig}
+        onSyncNow={onSyncNow}
+        onResolveConflict={onResolveSyncConflict}
+      />
+
+      <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+        <h2 className="text-2xl font-semibold text-text-primary mb-1">Identidade nos Relatórios</h2>
+        <p className="text-text-secondary mb-6">Nome e logotipo exibidos no cabeçalho de todas as páginas dos relatórios em PDF.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="agencyName" className="block text-sm font-medium text-text-secondary mb-2">Nome da Imobiliária</label>
+            <input
+              type="text" id="agencyName" value={agencyName} onChange={e => setAgencyName(e.target.value)} placeholder="Ex: Imobiliária Central"
+              className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+            />
+          </div>
+          <div>
+            <label htmlFor="agencyLogo" className="block text-sm font-medium text-text-secondary mb-2">Logotipo (PNG ou JPEG)</label>
+            <div className="flex items-center gap-4">
+              {agencyLogo && <img src={agencyLogo} alt="Logotipo da imobiliária" className="h-12 max-w-[120px] object-contain border border-gray-200 rounded" />}
+              <input type="file" id="agencyLogo" accept="image/png,image/jpeg" onChange={handleLogoChange} className="flex-1 text-sm text-text-secondary" />
+              {agencyLogo && (
+                <button type="button" onClick={() => setAgencyLogo('')} className="px-3 py-2 text-sm rounded-lg font-semibold border bg-red-50 text-red-600 border-red-200 hover:bg-red-100">Remover</button>
+              )}
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+        <h2 className="text-2xl font-semibold text-text-primary mb-1">Métricas e Etapas do Funil</h2>
+        <p className="text-text-secondary mb-6">
+          Renomeie, reordene, adicione ou desative métricas. Métricas desativadas somem do lançamento diário, mas os dados já lançados são mantidos e continuam nos relatórios e no saldo de leads.
+        </p>
+
+        <div className="space-y-3">
+          {metrics.map((metric, index) => (
+            <div key={metric.key} className={`flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-lg border ${metric.active ? 'bg-surface-input border-gray-100' : 'bg-gray-100 border-gray-200 opacity-70'}`}>
+              <div className="flex gap-1">
+                <button type="button" onClick={() => moveMetric(index, -1)} disabled={index === 0} className="px-2 py-1 text-sm bg-white border border-gray-200 rounded disabled:opacity-30" aria-label={`Mover ${metric.label} para cima`}>↑</button>
+                <button type="button" onClick={() => moveMetric(index, 1)} disabled={index === metrics.length - 1} className="px-2 py-1 text-sm bg-white border border-gray-200 rounded disabled:opacity-30" aria-label={`Mover ${metric.label} para baixo`}>↓</button>
+              </div>
+              <input
+                type="text" value={metric.label} onChange={e => updateMetric(metric.key, { label: e.target.value })}
+                className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                aria-label="Nome da métrica"
+              />
+              <select
+                value={metric.kind} onChange={e => updateMetric(metric.key, { kind: e.target.value as MetricKind })}
+                className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+                aria-label={`Tipo de ${metric.label}`}
+              >
+                {(Object.keys(metricKindLabels) as MetricKind[]).map(kind => <option key={kind} value={kind}>{metricKindLabels[kind]}</option>)}
+              </select>
+              <button
+                type="button" onClick={() => updateMetric(metric.key, { active: !metric.active })}
+                className={`px-3 py-2 text-sm rounded-lg font-semibold border transition-colors ${metric.active ? 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100' : 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'}`}
+              >
+                {metric.active ? 'Desativar' : 'Reativar'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAddMetric} className="mt-6 pt-6 border-t border-gray-200 flex flex-col md:flex-row gap-3">
+          <input
+            type="text" value={newMetricLabel} onChange={e => setNewMetricLabel(e.target.value)} placeholder="Nova métrica (ex: Documentação, Reservas)"
+            className="flex-1 px-4 py-2 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+          />
+          <select
+            value={newMetricKind} onChange={e => setNewMetricKind(e.target.value as MetricKind)}
+            className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+            aria-label="Tipo da nova métrica"
+          >
+            {(Object.keys(metricKindLabels) as MetricKind[]).map(kind => <option key={kind} value={kind}>{metricKindLabels[kind]}</option>)}
+          </select>
+          <button type="submit" disabled={!newMetricLabel.trim()} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors disabled:opacity-50">
+            Adicionar Métrica
+          </button>
+        </form>
+      </section>
+
+      <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+        <h2 className="text-2xl font-semibold text-text-primary mb-1">Motivos de Descarte</h2>
+        <p className="text-text-secondary mb-6">
+          Motivos em que os corretores classificam os leads descartados a cada dia. "Outros", com descrição livre, está sempre disponível. Motivos desativados somem do lançamento diário, mas as contagens já lançadas são mantidas.
+        </p>
+
+        <div className="space-y-3">
+          {discardReasons.map(reason => (
+            <div key={reason.key} className={`flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-lg border ${reason.active ? 'bg-surface-input border-gray-100' : 'bg-gray-100 border-gray-200 opacity-70'}`}>
+              <input
+                type="text" value={reason.label} onChange={e => updateDiscardReason(reason.key, { label: e.target.value })}
+                className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                aria-label="Nome do motivo de descarte"
+              />
+              <button
+                type="button" onClick={() => updateDiscardReason(reason.key, { active: !reason.active })}
+                className={`px-3 py-2 text-sm rounded-lg font-semibold border transition-colors ${reason.active ? 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100' : 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'}`}
+              >
+                {reason.active ? 'Desativar' : 'Reativar'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAddDiscardReason} className="mt-6 pt-6 border-t border-gray-200 flex flex-col md:flex-row gap-3">
+          <input
+            type="text" value={newReasonLabel} onChange={e => setNewReasonLabel(e.target.value)} placeholder="Novo motivo (ex: Fora do perfil, Desistiu)"
+            className="flex-1 px-4 py-2 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+          />
+          <button type="submit" disabled={!newReasonLabel.trim()} className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors disabled:opacity-50">
+            Adicionar Motivo
+          </button>
+        </form>
+      </section>
+
+      <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+        <h2 className="text-2xl font-semibold text-text-primary mb-1">Regras de Consistência</h2>
+        <p className="text-text-secondary mb-6">
+          Verificadas ao salvar lançamentos e na verificação de consistência da tela de gerenciamento. Regras que bloqueiam impedem o salvamento; avisos pedem confirmação.
+        </p>
+        <div className="space-y-3">
+          {consistencyRules.map(rule => (
+            <div key={rule.id} className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-lg border bg-surface-input border-gray-100">
+              <div className="flex-1">
+                <p className="font-semibold text-text-primary">{rule.label}</p>
+                <p className="text-xs text-text-secondary">{rule.description}</p>
+              </div>
+              <select
+                value={ruleSeverities[rule.id]} onChange={e => setRuleSeverities(prev => ({ ...prev, [rule.id]: e.target.value as RuleSeverity }))}
+                className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+                aria-label={`Gravidade da regra ${rule.label}`}
+              >
+                {(Object.keys(ruleSeverityLabels) as RuleSeverity[]).map(severity => <option key={severity} value={severity}>{ruleSeverityLabels[severity]}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <CalendarSettingsPanel calendar={calendar} onChange={setCalendar} />
+
+      <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+        <h2 className="text-2xl font-semibold text-text-primary mb-1">Lembrete de Lançamento</h2>
+        <p className="text-text-secondary mb-6">
+          A partir deste horário, em dias úteis, o corretor que ainda não salvou o lançamento do dia recebe um aviso no aplicativo e, se permitir, uma notificação do aparelho.
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <label className="flex items-center gap-2 text-text-primary">
+            <input
+              type="checkbox" checked={entryReminder.enabled} onChange={e => setEntryReminder(prev => ({ ...prev, enabled: e.target.checked }))}
+              className="h-4 w-4 accent-brand-primary"
+            />
+            Lembrar os corretores
+          </label>
+          <div>
+            <label htmlFor="entryReminderTime" className="block text-sm font-medium text-text-secondary mb-2">Horário</label>
+            <input
+              type="time" id="entryReminderTime" value={entryReminder.time} disabled={!entryReminder.enabled}
+              onChange={e => setEntryReminder(prev => ({ ...prev, time: e.target.value }))}
+              className="px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none disabled:opacity-50"
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+        <h2 className="text-2xl font-semibold text-text-primary mb-1">Distribuição de Leads</h2>
+        <p className="text-text-secondary mb-6">Usados pelo planejador de distribuição da tela de gerenciamento. Deixe um limite em 0 para não limitar.</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {([
+            ['lookbackDays', 'Dias de histórico considerados', 1],
+            ['maxLeadsPerDay', 'Máximo de leads novos por dia', 0],
+            ['maxBalance', 'Saldo máximo do corretor', 0],
+          ] as [keyof LeadDistributionSettings, string, number][]).map(([key, label, min]) => (
+            <div key={key}>
+              <label htmlFor={`distribution-${key}`} className="block text-sm font-medium text-text-secondary mb-2">{label}</label>
+              <input
+                type="number" id={`distribution-${key}`} min={min} value={leadDistribution[key]}
+                onChange={e => setLeadDistribution(prev => ({ ...prev, [key]: Math.max(min, parseInt(e.target.value, 10) || 0) }))}
+                className="w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <div className="flex justify-end gap-4">
+        <button onClick={onClose} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
+        <button onClick={handleSave} className="px-6 py-2 bg-gradient-to-r from-brand-primary to-brand-secondary text-white rounded-lg font-semibold shadow-lg hover:opacity-90 transition-opacity">Salvar Configurações</button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsScreen;
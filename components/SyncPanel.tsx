@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, MetricDefinition } from '../types';
+import { describeConflictDifferences, describeSyncKey, type SyncStatus } from '../utils/sync';
+
+interface SyncPanelProps {
+  status: SyncStatus;
+  brokers: BrokerProfile[];
+  metrics: MetricDefinition[];
+  onSaveConfig: (serverUrl: string, token: string) => void;
+  onSyncNow: () => void;
+  onResolveConflict: (key: string, keep: 'local' | 'remote') => void;
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+// Connection of this device to the optional sync server, with the days that changed here and on another device.
+const SyncPanel: React.FC<SyncPanelProps> = ({ status, brokers, metrics, onSaveConfig, onSyncNow, onResolveConflict }) => {
+  const [serverUrl, setServerUrl] = useState(status.config.serverUrl);
+  const [token, setToken] = useState(status.config.token);
+  const isConnected = !!status.config.serverUrl;
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^https?:\/\/.+/.test(serverUrl.trim())) {
+      alert('Informe o endereço do servidor, começando com http:// ou https://.');
+      return;
+    }
+    onSaveConfig(serverUrl.trim(), token.trim());
+  };
+
+  const handleDisconnect = () => {
+    if (status.pending > 0 && !confirm(`${status.pending} alteração(ões) ainda não foram enviadas ao servidor. Desconectar mesmo assim? Elas continuam salvas neste aparelho.`)) {
+      return;
+    }
+    onSaveConfig('', '');
+    setServerUrl('');
+    setToken('');
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+      <h2 className="text-2xl font-semibold text-text-primary mb-1">Sincronização</h2>
+      <p className="text-text-secondary mb-6">
+        Opcional. Mantém corretores e lançamentos iguais em todos os aparelhos por meio de um servidor próprio (veja <code>npm run sync-server</code>). Sem conexão, as alterações ficam na fila e são enviadas depois.
+      </p>
+      <form onSubmit={handleConnect} className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="syncServerUrl" className="block text-sm font-medium text-text-secondary mb-2">Endereço do servidor</label>
+          <input type="url" id="syncServerUrl" value={serverUrl} onChange={e => setServerUrl(e.target.value)} placeholder="Ex: http://192.168.0.10:8787" className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="syncToken" className="block text-sm font-medium text-text-secondary mb-2">Token de acesso (se configurado no servidor)</label>
+          <input type="password" id="syncToken" value={token} onChange={e => setToken(e.target.value)} autoComplete="off" className={inputClassName} />
+        </div>
+        <div className="md:col-span-2 flex flex-wrap justify-end gap-3">
+          {isConnected && (
+            <>
+              <button type="button" onClick={handleDisconnect} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Desconectar</button>
+              <button type="button" onClick={onSyncNow} disabled={status.isSyncing} className="px-6 py-2 bg-emerald-600 text-white rounded-lg font-semibold shadow-lg hover:bg-emerald-700 transition-colors disabled:opacity-50">
+                {status.isSyncing ? 'Sincronizando...' : 'Sincronizar agora'}
+              </button>
+            </>
+          )}
+          <button type="submit" className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">
+            {isConnected ? 'Salvar conexão' : 'Conectar'}
+          </button>
+        </div>
+      </form>
+      {isConnected && (
+        <div className="p-3 bg-surface-input rounded-lg text-sm text-text-secondary space-y-1">
+          <p>
+            {status.config.lastSyncAt ? `Última sincronização: ${new Date(status.config.lastSyncAt).toLocaleString('pt-BR')}` : 'Ainda não sincronizado.'}
+            {' · '}{status.pending > 0 ? `${status.pending} alteração(ões) na fila` : 'Nada pendente'}
+          </p>
+          {status.error && <p className="text-red-600" role="alert">{status.error}</p>}
+        </div>
+      )}
+      {status.conflicts.length > 0 && (
+        <div className="mt-6">
+          <h3 className="font-semibold text-text-primary mb-1">Conflitos ({status.conflicts.length})</h3>
+          <p className="text-sm text-text-secondary mb-3">
+            Estes registros foram alterados aqui e em outro aparelho. A versão do outro aparelho está valendo; escolha qual deve ficar.
+          </p>
+          <div className="space-y-3">
+            {status.conflicts.map(conflict => (
+              <div key={conflict.key} className="p-3 rounded-lg border border-amber-200 bg-amber-50">
+                <p className="font-semibold text-amber-800">{describeSyncKey(conflict.key, brokers)}</p>
+                <p className="text-xs text-text-secondary mb-1">
+                  Outro aparelho: {conflict.remote.author || 'não identificado'}
+                  {conflict.remote.updatedAt && ` em ${new Date(conflict.remote.updatedAt).toLocaleString('pt-BR')}`}
+                </p>
+                {conflict.closedMonth && (
+                  <p className="text-xs text-amber-800 mb-1">Mês fechado: a versão deste aparelho continua valendo. Para ficar com a do outro, reabra o mês.</p>
+                )}
+                <ul className="text-xs text-text-secondary list-disc list-inside mb-2">
+                  {describeConflictDifferences(conflict, metrics).map(line => <li key={line}>{line}</li>)}
+                </ul>
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => onResolveConflict(conflict.key, 'remote')} className="px-3 py-1 text-sm bg-white border border-gray-200 rounded-md font-semibold text-text-secondary hover:bg-gray-100">
+                    Manter a do outro aparelho
+                  </button>
+                  <button onClick={() => onResolveConflict(conflict.key, 'local')} className="px-3 py-1 text-sm bg-brand-primary text-white rounded-md font-semibold hover:bg-brand-dark">
+                    Manter a deste aparelho
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,93 @@
+import React, { useState, useMemo } from 'react';
+import type { BrokerProfile, MetricDefinition } from '../types';
+import PeriodSelector, { createDefaultPeriod, resolvePeriod } from './PeriodSelector';
+import { computeFunnel, filterEntriesByRange, formatRate, getFunnelStages, median } from '../utils/funnel';
+import { getMetricLabel } from '../utils/metrics';
+import { getApprovedEntries } from '../utils/approval';
+
+const TeamFunnelComparison: React.FC<{ brokers: BrokerProfile[]; metrics: MetricDefinition[] }> = ({ brokers, metrics }) => {
+  const [period, setPeriod] = useState(createDefaultPeriod);
+
+  const brokerFunnels = useMemo(() => {
+    const range = resolvePeriod(period);
+    const funnelStages = getFunnelStages(metrics);
+    return brokers.map(broker => ({
+      brokerId: broker.id,
+      brokerName: broker.brokerName,
+      funnel: computeFunnel(filterEntriesByRange(getApprovedEntries(broker.dailyEntries), range), funnelStages),
+    }));
+  }, [brokers, period, metrics]);
+  const labelOf = (key: string) => getMetricLabel(metrics, key);
+
+  // Team median of each step, ignoring brokers without leads in the step's starting stage
+  const stepMedians = useMemo(() => {
+    if (brokerFunnels.length === 0) return [];
+    return brokerFunnels[0].funnel.steps.map((_, index) =>
+      median(brokerFunnels.map(b => b.funnel.steps[index].conversionRate).filter((rate): rate is number => rate !== null))
+    );
+  }, [brokerFunnels]);
+
+  if (brokers.length === 0) return null;
+
+  const steps = brokerFunnels[0].funnel.steps;
+
+  return (
+    <section>
+      <h2 className="text-2xl font-semibold text-text-primary mb-4 text-center">Funil por Corretor x Mediana da Equipe</h2>
+      <div className="bg-surface-card rounded-lg shadow-lg p-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+          <p className="text-sm text-text-secondary">Verde: acima da mediana da equipe. Vermelho: abaixo. Em destaque, a etapa onde cada corretor mais perde leads.</p>
+          <PeriodSelector value={period} onChange={setPeriod} idPrefix="team-funnel" />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-500">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-3">Corretor</th>
+                {steps.map(step => (
+                  <th key={`${step.from}-${step.to}`} scope="col" className="px-4 py-3 text-center whitespace-nowrap">
+                    {labelOf(step.from)} → {labelOf(step.to)}
+                  </th>
+                ))}
+                <th scope="col" className="px-4 py-3 text-center">Maior Perda</th>
+              </tr>
+            </thead>
+            <tbody>
+              {brokerFunnels.map(({ brokerId, brokerName, funnel }) => (
+                <tr key={brokerId} className="bg-white border-b hover:bg-gray-50">
+                  <th scope="row" className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">{brokerName}</th>
+                  {funnel.steps.map((step, index) => {
+                    const teamMedian = stepMedians[index];
+                    let color = '';
+                    if (step.conversionRate !== null && teamMedian !== null) {
+                      if (step.conversionRate > teamMedian) color = 'text-green-600';
+                      else if (step.conversionRate < teamMedian) color = 'text-red-600';
+                    }
+                    const isBiggestLoss = funnel.biggestLoss === step;
+                    return (
+                      <td key={`${step.from}-${step.to}`} className={`px-4 py-3 text-center ${color} ${isBiggestLoss ? 'font-bold bg-red-50' : ''}`}>
+                        {formatRate(step.conversionRate)}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-3 text-center whitespace-nowrap">
+                    {funnel.biggestLoss ? `${labelOf(funnel.biggestLoss.from)} → ${labelOf(funnel.biggestLoss.to)}` : '—'}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-semibold text-gray-800">
+                <th scope="row" className="px-4 py-3">Mediana da Equipe</th>
+                {stepMedians.map((value, index) => (
+                  <td key={index} className="px-4 py-3 text-center">{formatRate(value)}</td>
+                ))}
+                <td className="px-4 py-3" />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TeamFunnelComparison;
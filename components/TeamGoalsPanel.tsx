@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import type { BrokerProfile } from '../types';
+import { getSalesGoalForMonth } from '../utils/goals';
+import { getTodayString } from '../utils/date';
+
+interface TeamGoalsPanelProps {
+  brokers: BrokerProfile[];
+  onSetTeamSalesGoals: (month: string, goals: Record<string, number>) => void;
+}
+
+// Lets the manager set every broker's sales goal for a month in one go, usually at the start of the month.
+const TeamGoalsPanel: React.FC<TeamGoalsPanelProps> = ({ brokers, onSetTeamSalesGoals }) => {
+  const [month, setMonth] = useState(getTodayString().slice(0, 7));
+  const [goals, setGoals] = useState<Record<string, number | ''>>({});
+  const [goalForAll, setGoalForAll] = useState<number | ''>('');
+
+  // Prefill with the goals currently in effect for the chosen month
+  useEffect(() => {
+    if (!month) return;
+    const current: Record<string, number | ''> = {};
+    for (const broker of brokers) {
+      current[broker.id] = getSalesGoalForMonth(broker, month) || '';
+    }
+    setGoals(current);
+  }, [brokers, month]);
+
+  if (brokers.length === 0) return null;
+
+  const handleApplyToAll = () => {
+    if (goalForAll === '') return;
+    setGoals(Object.fromEntries(brokers.map(broker => [broker.id, goalForAll])));
+  };
+
+  const handleSave = () => {
+    if (!month) {
+      alert('Por favor, selecione o mês das metas.');
+      return;
+    }
+    const parsedGoals: Record<string, number> = {};
+    for (const broker of brokers) {
+      parsedGoals[broker.id] = Number(goals[broker.id]) || 0;
+    }
+    onSetTeamSalesGoals(month, parsedGoals);
+    alert('Metas da equipe salvas com sucesso!');
+  };
+
+  return (
+    <section>
+      <h2 className="text-2xl font-semibold text-text-primary mb-4 text-center">Metas de Vendas da Equipe</h2>
+      <div className="max-w-2xl mx-auto bg-surface-card rounded-lg shadow-lg p-6">
+        <p className="text-sm text-text-secondary mb-4">As metas valem a partir do mês escolhido e se mantêm nos meses seguintes até serem alteradas. Meses anteriores não são afetados.</p>
+        <div className="flex flex-wrap gap-2 items-center mb-4">
+          <label htmlFor="teamGoalMonth" className="text-sm font-medium text-text-secondary">A partir de</label>
+          <input
+            type="month" id="teamGoalMonth" value={month} onChange={e => setMonth(e.target.value)}
+            className="px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+          />
+          <input
+            type="number" min="0" value={goalForAll} placeholder="Meta para todos"
+            onChange={e => setGoalForAll(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+            className="w-36 px-3 py-2 bg-surface-input border border-gray-200 rounded-lg text-sm text-text-primary outline-none"
+            aria-label="Meta para todos os corretores"
+          />
+          <button onClick={handleApplyToAll} disabled={goalForAll === ''} className="px-4 py-2 text-sm bg-gray-600 text-white rounded-lg font-semibold hover:bg-gray-700 transition-colors disabled:opacity-50">
+            Aplicar a todos
+          </button>
+        </div>
+        <ul className="space-y-2">
+          {brokers.map(broker => (
+            <li key={broker.id} className="flex items-center justify-between p-3 bg-surface-input rounded-md">
+              <span className="font-semibold text-text-primary">{broker.brokerName}</span>
+              <input
+                type="number" min="0" value={goals[broker.id] ?? ''} placeholder="Sem meta"
+                onChange={e => setGoals(prev => ({ ...prev, [broker.id]: e.target.value === '' ? '' : Math.max(0, parseInt(e.target.value, 10)) }))}
+                className="w-28 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-text-primary text-right outline-none"
+                aria-label={`Meta de ${broker.brokerName}`}
+              />
+            </li>
+          ))}
+        </ul>
+        <button onClick={handleSave} className="mt-4 w-full px-6 py-3 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors duration-200">
+          Salvar Metas do Mês
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default TeamGoalsPanel;
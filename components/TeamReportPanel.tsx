@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, DiscardReasonDefinition, MetricDefinition } from '../types';
+import PeriodSelector, { createDefaultPeriod, resolvePeriod } from './PeriodSelector';
+import { buildTeamReportData, generateTeamReportPdf, teamReportToCsv } from '../utils/teamReport';
+import type { ReportBranding } from '../utils/pdfReport';
+
+interface TeamReportPanelProps {
+  brokers: BrokerProfile[];
+  metrics: MetricDefinition[];
+  discardReasons: DiscardReasonDefinition[];
+  branding: ReportBranding;
+}
+
+// Consolidated report of every broker for a month or date range, as PDF or CSV.
+const TeamReportPanel: React.FC<TeamReportPanelProps> = ({ brokers, metrics, discardReasons, branding }) => {
+  const [period, setPeriod] = useState(createDefaultPeriod);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  if (brokers.length === 0) return null;
+
+  const getReportData = () => {
+    const range = resolvePeriod(period);
+    if (!range.start || !range.end || range.start > range.end) {
+      alert('Selecione um período válido.');
+      return null;
+    }
+    return buildTeamReportData(brokers, metrics, discardReasons, range);
+  };
+
+  const handleGeneratePdf = async () => {
+    const data = getReportData();
+    if (!data) return;
+    setIsGenerating(true);
+    await new Promise(resolve => setTimeout(resolve, 0)); // Let the button show the progress state
+    try {
+      generateTeamReportPdf(data, branding);
+    } catch (error) {
+      console.error("Erro ao gerar PDF da equipe:", error);
+      alert("Ocorreu um erro ao gerar o PDF. Tente novamente.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleGenerateCsv = () => {
+    const data = getReportData();
+    if (!data) return;
+    const blob = new Blob([`\uFEFF${teamReportToCsv(data)}`], { type: 'text/csv;charset=utf-8;' }); // BOM for Excel
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `Relatorio-Equipe-${data.range.start}_a_${data.range.end}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8 max-w-2xl mx-auto">
+      <h2 className="text-2xl font-semibold text-text-primary mb-2">Relatório da Equipe</h2>
+      <p className="text-text-secondary mb-6">Ranking, comparativo, funil por corretor, metas, motivos de descarte, redistribuição de leads e totais da equipe em um único documento, com um anexo por corretor.</p>
+      <div className="flex flex-col gap-4">
+        <PeriodSelector value={period} onChange={setPeriod} idPrefix="team-report" />
+        <div className="flex flex-col sm:flex-row gap-4">
+          <button
+            onClick={handleGeneratePdf} disabled={isGenerating}
+            className="flex-1 px-6 py-3 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isGenerating ? 'Gerando...' : 'Gerar PDF da Equipe'}
+          </button>
+          <button
+            onClick={handleGenerateCsv}
+            className="flex-1 px-6 py-3 bg-emerald-600 text-white rounded-lg font-semibold shadow-lg hover:bg-emerald-700 transition-colors duration-200"
+          >
+            Exportar CSV da Equipe
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TeamReportPanel;
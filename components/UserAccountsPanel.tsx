@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import type { BrokerProfile, UserAccount, UserRole } from '../types';
+import { isActiveBroker } from '../utils/brokers';
+import { countAdmins, describeUser, isValidPin, MIN_PIN_LENGTH, roleDescriptions, roleLabels, type UserAccountInput } from '../utils/users';
+
+interface UserAccountsPanelProps {
+  users: UserAccount[];
+  brokers: BrokerProfile[];
+  currentUserId: string;
+  onSaveUser: (user: UserAccountInput, pin: string | null) => void; // null keeps the current PIN
+  onDeleteUser: (userId: string) => void;
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-surface-input border border-gray-200 rounded-lg text-text-primary placeholder-text-placeholder focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+const emptyForm: UserAccountInput = { name: '', role: 'broker' };
+
+// Accounts of this device and what each role may do. Changes apply immediately, outside of the save button.
+const UserAccountsPanel: React.FC<UserAccountsPanelProps> = ({ users, brokers, currentUserId, onSaveUser, onDeleteUser }) => {
+  const [form, setForm] = useState<UserAccountInput>(emptyForm);
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const activeBrokers = brokers.filter(isActiveBroker);
+  const editingUser = form.id ? users.find(user => user.id === form.id) : undefined;
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setPin('');
+    setConfirmation('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    if (!name) {
+      alert('Informe o nome do usuário.');
+      return;
+    }
+    if (users.some(user => user.id !== form.id && user.name.toLowerCase() === name.toLowerCase())) {
+      alert(`Já existe um usuário chamado "${name}". Use nomes diferentes para que cada um se reconheça na hora de entrar.`);
+      return;
+    }
+    if (form.role === 'broker' && !form.brokerId) {
+      alert('Escolha o corretor ao qual este usuário corresponde.');
+      return;
+    }
+    if (form.role === 'broker' && users.some(user => user.id !== form.id && user.role === 'broker' && user.brokerId === form.brokerId)) {
+      alert('Este corretor já tem um usuário.');
+      return;
+    }
+    if (editingUser?.role === 'admin' && form.role !== 'admin' && countAdmins(users) === 1) {
+      alert('Este é o único administrador. Cadastre outro administrador antes de mudar o perfil deste usuário.');
+      return;
+    }
+    if ((!editingUser || pin) && !isValidPin(pin)) {
+      alert(`O PIN precisa ter ao menos ${MIN_PIN_LENGTH} caracteres.`);
+      return;
+    }
+    if (pin !== confirmation) {
+      alert('A confirmação não confere com o PIN.');
+      return;
+    }
+    onSaveUser({ ...form, name, brokerId: form.role === 'broker' ? form.brokerId : undefined }, pin || null);
+    resetForm();
+  };
+
+  const handleDelete = (user: UserAccount) => {
+    if (user.role === 'admin' && countAdmins(users) === 1) {
+      alert('Não é possível remover o único administrador.');
+      return;
+    }
+    if (!confirm(`Remover o usuário "${user.name}"? O histórico de alterações feito por ele é mantido.`)) return;
+    onDeleteUser(user.id);
+    if (form.id === user.id) resetForm();
+  };
+
+  return (
+    <section className="bg-surface-card rounded-2xl shadow-xl p-6 sm:p-8">
+      <h2 className="text-2xl font-semibold text-text-primary mb-1">Usuários e Acessos</h2>
+      <p className="text-text-secondary mb-4">
+        Quem pode entrar neste aparelho. O nome do usuário fica registrado no histórico de alterações. Os usuários não vão para os backups nem para a sincronização; cadastre-os em cada aparelho.
+      </p>
+      <ul className="text-sm text-text-secondary list-disc list-inside mb-6">
+        {(Object.keys(roleLabels) as UserRole[]).map(role => (
+          <li key={role}><span className="font-semibold">{roleLabels[role]}:</span> {roleDescriptions[role]}</li>
+        ))}
+      </ul>
+      <ul className="space-y-2 mb-6">
+        {users.map(user => (
+          <li key={user.id} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-surface-input rounded-md">
+            <div>
+              <p className="font-semibold text-text-primary">{user.name}{user.id === currentUserId && <span className="ml-2 text-xs font-normal text-text-secondary">(você)</span>}</p>
+              <p className="text-xs text-text-secondary">{describeUser(user, brokers)}</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => { setForm({ id: user.id, name: user.name, role: user.role, brokerId: user.brokerId }); setPin(''); setConfirmation(''); }}
+                className="px-3 py-1 text-sm bg-white border border-gray-200 rounded-lg font-semibold text-text-secondary hover:bg-gray-100"
+              >
+                Editar
+              </button>
+              {user.id !== currentUserId && (
+                <button onClick={() => handleDelete(user)} className="px-3 py-1 text-sm bg-red-50 text-red-700 border border-red-200 rounded-lg font-semibold hover:bg-red-100 transition-colors">
+                  Remover
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <h3 className="md:col-span-2 font-semibold text-text-primary">{editingUser ? `Editar ${editingUser.name}` : 'Novo usuário'}</h3>
+        <div>
+          <label htmlFor="userName" className="block text-sm font-medium text-text-secondary mb-2">Nome</label>
+          <input type="text" id="userName" value={form.name} onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))} placeholder="Ex: Ana Souza" className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="userRole" className="block text-sm font-medium text-text-secondary mb-2">Perfil</label>
+          <select id="userRole" value={form.role} onChange={e => setForm(prev => ({ ...prev, role: e.target.value as UserRole }))} className={inputClassName}>
+            {(Object.keys(roleLabels) as UserRole[]).map(role => <option key={role} value={role}>{roleLabels[role]}</option>)}
+          </select>
+        </div>
+        {form.role === 'broker' && (
+          <div className="md:col-span-2">
+            <label htmlFor="userBroker" className="block text-sm font-medium text-text-secondary mb-2">Corretor</label>
+            <select id="userBroker" value={form.brokerId || ''} onChange={e => setForm(prev => ({ ...prev, brokerId: e.target.value || undefined }))} className={inputClassName}>
+              <option value="">Selecione...</option>
+              {activeBrokers.map(broker => <option key={broker.id} value={broker.id}>{broker.brokerName}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="userPin" className="block text-sm font-medium text-text-secondary mb-2">{editingUser ? 'Novo PIN (deixe em branco para manter)' : 'PIN ou senha'}</label>
+          <input type="password" id="userPin" value={pin} onChange={e => setPin(e.target.value)} autoComplete="new-password" className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="userPinConfirmation" className="block text-sm font-medium text-text-secondary mb-2">Confirme o PIN</label>
+          <input type="password" id="userPinConfirmation" value={confirmation} onChange={e => setConfirmation(e.target.value)} autoComplete="new-password" className={inputClassName} />
+        </div>
+        <div className="md:col-span-2 flex justify-end gap-3">
+          {editingUser && (
+            <button type="button" onClick={resetForm} className="px-6 py-2 bg-surface-input text-text-secondary rounded-lg font-semibold hover:bg-gray-200/80 transition-colors">Cancelar</button>
+          )}
+          <button type="submit" className="px-6 py-2 bg-brand-primary text-white rounded-lg font-semibold shadow-lg hover:bg-brand-dark transition-colors">
+            {editingUser ? 'Salvar Usuário' : 'Adicionar Usuário'}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+};
+
+export default UserAccountsPanel;
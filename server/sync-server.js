@@ -0,0 +1,120 @@
+// Self-hostable sync service for the lead performance app. No dependencies: Node's http module and a
+// JSON file as the store.
+//
+// Every broker profile, every day of every broker and the month close log is a record with its own
+// version. A client sends the version its change was based on; the change is accepted only if nobody
+// changed the record in the meantime, otherwise the current record comes back as a conflict for that
+// single record. Every accepted change gets the next value of a global sequence, which clients use to
+// pull what they have not seen.
+//
+//   GET  /api/health
+//   GET  /api/changes?since=<seq>   -> { seq, records }
+//   POST /api/changes               <- { author, changes: [{ key, kind, data, baseVersion }] }
+//                                   -> { seq, accepted: [{ key, version, seq }], conflicts: [record] }
+//
+// Environment: PORT (default 8787), SYNC_DATA_FILE (default server/data/sync.json) and SYNC_TOKEN, which,
+// when set, must be sent by clients as "Authorization: Bearer <token>".
+
+import { createServer } from 'node:http';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createSyncStore } from './sync-store.js';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || resolve(dirname(fileURLToPath(import.meta.url)), 'data', 'sync.json'));
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const loadStore = () => {
+  try {
+    const store = JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+    if (typeof store.seq === 'number' && store.records && typeof store.records === 'object') return store;
+    throw new Error('invalid store');
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Could not read ${DATA_FILE}; refusing to start over an unreadable store.`, error);
+      process.exit(1);
+    }
+    return { seq: 0, records: {} };
+  }
+};
+
+const store = loadStore();
+
+// Written to a temporary file first, so a crash never leaves half a store behind
+const saveStore = () => {
+  mkdirSync(dirname(DATA_FILE), { recursive: true });
+  const temporary = `${DATA_FILE}.tmp`;
+  writeFileSync(temporary, JSON.stringify(store));
+  renameSync(temporary, DATA_FILE);
+};
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+};
+
+const readBody = request =>
+  new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolveBody(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const { handlePush, handlePull } = createSyncStore(store, saveStore);
+
+const server = createServer(async (request, response) => {
+  // The app is served from another origin (or from a file), so every origin is allowed; the token protects the data
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const url = new URL(request.url || '/', 'http://localhost');
+  if (url.pathname === '/api/health') {
+    sendJson(response, 200, { ok: true, seq: store.seq });
+    return;
+  }
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    sendJson(response, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    if (url.pathname === '/api/changes' && request.method === 'GET') {
+      const since = Number(url.searchParams.get('since')) || 0;
+      sendJson(response, ...handlePull(since));
+    } else if (url.pathname === '/api/changes' && request.method === 'POST') {
+      sendJson(response, ...handlePush(await readBody(request)));
+    } else {
+      sendJson(response, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    sendJson(response, 400, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on port ${PORT}, storing data in ${DATA_FILE}${TOKEN ? ' (token required)' : ''}`);
+});
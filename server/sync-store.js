@@ -0,0 +1,53 @@
+// Records of the sync server, kept apart from the HTTP layer in sync-server.js so they can be tested
+// without starting a server.
+
+const KEY_PATTERN = /^(broker:[^|]+|entry:[^|]+\|\d{4}-\d{2}-\d{2}|meta:monthCloseLog)$/;
+
+const isValidChange = change =>
+  change && typeof change === 'object' &&
+  typeof change.key === 'string' && KEY_PATTERN.test(change.key) &&
+  ['broker', 'entry', 'meta'].includes(change.kind) && change.key.startsWith(`${change.kind}:`) &&
+  typeof change.baseVersion === 'number' &&
+  (change.data === null || typeof change.data === 'object');
+
+// `store` is { seq, records } as kept in the data file; `save` is called whenever a change was accepted.
+// Handlers return [status, body].
+export const createSyncStore = (store, save) => {
+  const handlePush = body => {
+    if (!Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+      return [400, { error: 'Invalid changes' }];
+    }
+    const author = typeof body.author === 'string' ? body.author.slice(0, 100) : '';
+    const accepted = [];
+    const conflicts = [];
+    for (const change of body.changes) {
+      const current = store.records[change.key];
+      if ((current?.version ?? 0) !== change.baseVersion) {
+        // A record the server does not know comes back as version 0, e.g. after the store was reset
+        conflicts.push(current ?? { key: change.key, kind: change.kind, data: null, version: 0, seq: 0, updatedAt: '' });
+        continue;
+      }
+      store.seq += 1;
+      const record = {
+        key: change.key,
+        kind: change.kind,
+        data: change.data,
+        version: (current?.version ?? 0) + 1,
+        seq: store.seq,
+        author,
+        updatedAt: new Date().toISOString(),
+      };
+      store.records[change.key] = record;
+      accepted.push({ key: record.key, version: record.version, seq: record.seq });
+    }
+    if (accepted.length > 0) save();
+    return [200, { seq: store.seq, accepted, conflicts }];
+  };
+
+  const handlePull = since => {
+    const records = Object.values(store.records).filter(record => record.seq > since).sort((a, b) => a.seq - b.seq);
+    return [200, { seq: store.seq, records }];
+  };
+
+  return { handlePush, handlePull };
+};
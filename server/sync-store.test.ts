@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SyncRecord } from '../utils/sync';
+import { createSyncStore } from './sync-store.js';
+
+interface PushBody {
+  seq: number;
+  accepted: { key: string; version: number; seq: number }[];
+  conflicts: SyncRecord[];
+}
+
+const change = (key: string, baseVersion: number, data: Record<string, unknown> | null = { newLeads: 1 }) => ({
+  key, kind: key.slice(0, key.indexOf(':')), data, baseVersion,
+});
+
+describe('handlePush', () => {
+  it('accepts a change based on the current version and gives it the next sequence', () => {
+    const save = vi.fn();
+    const { handlePush } = createSyncStore({ seq: 0, records: {} }, save);
+
+    const [status, body] = handlePush({ author: 'Ana', changes: [change('entry:a|2026-03-02', 0)] });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ seq: 1, accepted: [{ key: 'entry:a|2026-03-02', version: 1, seq: 1 }], conflicts: [] });
+    expect(save).toHaveBeenCalledOnce();
+  });
+
+  it('sends the current record back when the change was based on an older version', () => {
+    const save = vi.fn();
+    const { handlePush } = createSyncStore({ seq: 0, records: {} }, save);
+    handlePush({ author: 'Ana', changes: [change('entry:a|2026-03-02', 0, { newLeads: 1 })] });
+
+    const body = handlePush({ author: 'Bruno', changes: [change('entry:a|2026-03-02', 0, { newLeads: 7 })] })[1] as PushBody;
+
+    expect(body.accepted).toEqual([]);
+    expect(body.conflicts).toMatchObject([{ key: 'entry:a|2026-03-02', version: 1, data: { newLeads: 1 }, author: 'Ana' }]);
+    expect(save).toHaveBeenCalledOnce();
+  });
+
+  it('answers a change to a record it does not know with an empty version 0', () => {
+    const { handlePush } = createSyncStore({ seq: 0, records: {} }, () => {});
+
+    const body = handlePush({ author: 'Ana', changes: [change('broker:a', 3)] })[1] as PushBody;
+
+    expect(body.conflicts).toMatchObject([{ key: 'broker:a', kind: 'broker', data: null, version: 0 }]);
+  });
+
+  it('still accepts the other changes of a push with a conflict', () => {
+    const { handlePush } = createSyncStore({ seq: 0, records: {} }, () => {});
+
+    const body = handlePush({ author: 'Ana', changes: [change('broker:a', 2), change('entry:a|2026-03-02', 0)] })[1] as PushBody;
+
+    expect(body.accepted.map(record => record.key)).toEqual(['entry:a|2026-03-02']);
+    expect(body.conflicts).toHaveLength(1);
+  });
+
+  it('accepts the month close log as a record of its own', () => {
+    const { handlePush } = createSyncStore({ seq: 0, records: {} }, () => {});
+
+    const body = handlePush({ changes: [change('meta:monthCloseLog', 0, { events: [] })] })[1] as PushBody;
+
+    expect(body.accepted).toMatchObject([{ key: 'meta:monthCloseLog', version: 1 }]);
+  });
+
+  it('refuses keys that do not match their kind', () => {
+    const { handlePush } = createSyncStore({ seq: 0, records: {} }, () => {});
+
+    expect(handlePush({ changes: [{ ...change('entry:a|2026-03-02', 0), kind: 'broker' }] })[0]).toBe(400);
+    expect(handlePush({ changes: [change('entry:a', 0)] })[0]).toBe(400);
+    expect(handlePush({ changes: [change('meta:settings', 0)] })[0]).toBe(400);
+  });
+});
+
+describe('handlePull', () => {
+  it('returns the records changed after the given sequence, oldest first', () => {
+    const { handlePush, handlePull } = createSyncStore({ seq: 0, records: {} }, () => {});
+    handlePush({ changes: [change('broker:a', 0), change('entry:a|2026-03-02', 0)] });
+    handlePush({ changes: [change('broker:a', 1)] });
+
+    const [, body] = handlePull(1) as [number, { seq: number; records: SyncRecord[] }];
+
+    expect(body.seq).toBe(3);
+    expect(body.records.map(record => [record.key, record.seq])).toEqual([['entry:a|2026-03-02', 2], ['broker:a', 3]]);
+  });
+});
@@ -0,0 +1,26 @@
+// System notifications for the daily entry reminder. Where they are unsupported or not allowed the
+// reminder is only shown inside the app.
+
+export type NotificationState = NotificationPermission | 'unsupported';
+
+export const getNotificationState = (): NotificationState =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+// Must be called from a click: browsers ignore permission requests made without a user gesture
+export const requestNotificationPermission = async (): Promise<NotificationState> => {
+  if (!('Notification' in window)) return 'unsupported';
+  return Notification.requestPermission();
+};
+
+// Mobile browsers only show notifications through a service worker, desktop ones also without it.
+// Resolves to false when nothing was shown because notifications are unsupported or not allowed.
+export const showNotification = async (title: string, body: string, tag: string): Promise<boolean> => {
+  if (getNotificationState() !== 'granted') return false;
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, { body, tag });
+  } else {
+    new Notification(title, { body, tag });
+  }
+  return true;
+};
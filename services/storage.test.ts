@@ -0,0 +1,116 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MonthCloseEvent } from '../types';
+import { createEmptyEntryData } from '../utils/metrics';
+import type { SyncRecord } from '../utils/sync';
+
+let storage: typeof import('./storage');
+
+// Every test starts from an empty database
+beforeEach(async () => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.resetModules();
+  storage = await import('./storage');
+});
+
+const remote = (version: number, data: Record<string, unknown> | null): SyncRecord => ({
+  key: 'broker:a', kind: 'broker', data, version, seq: version, author: 'Bruno', updatedAt: '2026-03-02T12:00:00.000Z',
+});
+
+const ana = (brokerName: string) => ({ id: 'a', brokerName, initialLeads: 10, dailyEntries: [] });
+
+const pendingData = async () => (await storage.getPendingSyncChanges()).map(change => [change.baseVersion, change.data?.brokerName]);
+
+describe('applyRemoteRecords', () => {
+  it('applies newer records and skips the ones already seen', async () => {
+    const first = await storage.applyRemoteRecords([remote(2, { id: 'a', brokerName: 'Ana', initialLeads: 10 })]);
+    const again = await storage.applyRemoteRecords([remote(2, { id: 'a', brokerName: 'Ana Paula', initialLeads: 10 })]);
+
+    expect(first).toEqual({ keys: ['broker:a'], conflicts: 0, authors: ['Bruno'] });
+    expect(again.keys).toEqual([]);
+    expect(await storage.getSyncStatus()).toEqual({ pending: 0, conflicts: [] });
+  });
+
+  it('bases a pending change on the server version when the server is behind it', async () => {
+    await storage.applyRemoteRecords([remote(3, { id: 'a', brokerName: 'Ana', initialLeads: 10 })]);
+    await storage.saveBroker(ana('Ana Paula'));
+
+    const result = await storage.applyRemoteRecords([remote(0, null)]);
+
+    expect(result.keys).toEqual([]);
+    expect(await pendingData()).toEqual([[0, 'Ana Paula']]);
+  });
+
+  it('clears a pending change the server already holds', async () => {
+    await storage.saveBroker(ana('Ana'));
+
+    const result = await storage.applyRemoteRecords([remote(1, { id: 'a', brokerName: 'Ana', initialLeads: 10, schemaVersion: 1 })]);
+
+    expect(result.keys).toEqual([]);
+    expect(await storage.getSyncStatus()).toEqual({ pending: 0, conflicts: [] });
+  });
+
+  it('applies the other device version of a record changed on both and keeps the local one as a conflict', async () => {
+    await storage.saveBroker(ana('Ana Paula'));
+
+    const result = await storage.applyRemoteRecords([remote(1, { id: 'a', brokerName: 'Ana Souza', initialLeads: 10 })]);
+    const { pending, conflicts } = await storage.getSyncStatus();
+
+    expect(result).toEqual({ keys: ['broker:a'], conflicts: 1, authors: ['Bruno'] });
+    expect(pending).toBe(0);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].local).toMatchObject({ brokerName: 'Ana Paula' });
+    expect(conflicts[0].remote.data).toMatchObject({ brokerName: 'Ana Souza' });
+
+    await storage.resolveSyncConflict('broker:a', 'local');
+    expect(await pendingData()).toEqual([[1, 'Ana Paula']]);
+  });
+});
+
+describe('applyRemoteRecords with closed months', () => {
+  const closeEvent = (id: string, month: string, at: string): MonthCloseEvent => ({ id, month, action: 'close', author: 'Gerente', at });
+
+  const remoteEntry = (version: number, newLeads: number): SyncRecord => ({
+    key: 'entry:a|2026-02-10', kind: 'entry', data: { ...createEmptyEntryData(), date: '2026-02-10', brokerId: 'a', newLeads },
+    version, seq: version, author: 'Bruno', updatedAt: '2026-03-02T12:00:00.000Z',
+  });
+
+  it('keeps the local day of a closed month and shows the other version as a conflict', async () => {
+    await storage.applyRemoteRecords([remoteEntry(1, 1)]);
+    await storage.appendMonthCloseEvent(closeEvent('e1', '2026-02', '2026-03-01T10:00:00.000Z'));
+
+    const result = await storage.applyRemoteRecords([remoteEntry(2, 7)]);
+    const { conflicts } = await storage.getSyncStatus();
+
+    expect(result).toMatchObject({ keys: [], conflicts: 1 });
+    expect(conflicts[0]).toMatchObject({ key: 'entry:a|2026-02-10', closedMonth: true, local: { newLeads: 1 } });
+
+    await storage.resolveSyncConflict('entry:a|2026-02-10', 'local');
+    expect((await storage.getPendingSyncChanges()).find(change => change.kind === 'entry')).toMatchObject({ baseVersion: 2, data: { newLeads: 1 } });
+  });
+
+  it('checks pulled days against months closed on the other device in the same pull', async () => {
+    await storage.applyRemoteRecords([remoteEntry(1, 1)]);
+    const closeLog: SyncRecord = {
+      key: 'meta:monthCloseLog', kind: 'meta', data: { events: [closeEvent('e1', '2026-02', '2026-03-01T10:00:00.000Z')] },
+      version: 1, seq: 3, author: 'Gerente', updatedAt: '2026-03-01T10:00:00.000Z',
+    };
+
+    const result = await storage.applyRemoteRecords([remoteEntry(2, 7), closeLog]);
+
+    expect(result).toMatchObject({ keys: ['meta:monthCloseLog'], conflicts: 1 });
+  });
+
+  it('keeps the close events of both devices', async () => {
+    await storage.appendMonthCloseEvent(closeEvent('e1', '2026-02', '2026-03-01T10:00:00.000Z'));
+
+    await storage.applyRemoteRecords([{
+      key: 'meta:monthCloseLog', kind: 'meta', data: { events: [closeEvent('e2', '2026-01', '2026-02-01T10:00:00.000Z')] },
+      version: 1, seq: 1, author: 'Gerente', updatedAt: '2026-02-01T10:00:00.000Z',
+    }]);
+
+    expect((await storage.loadMonthCloseLog()).map(event => event.id)).toEqual(['e2', 'e1']);
+    expect(await storage.getPendingSyncChanges()).toMatchObject([{ key: 'meta:monthCloseLog', baseVersion: 1 }]);
+  });
+});
@@ -0,0 +1,660 @@
+import type { AgencySettings, AuditRecord, BrokerProfile, DailyEntry, MonthCloseEvent, UserAccount } from '../types';
+import type { EntryChange } from '../utils/audit';
+import { ensureBrokerIds } from '../utils/brokers';
+import { normalizeSettings } from '../utils/settings';
+import { canonical } from '../utils/audit';
+import { getClosedMonths, isDateInClosedMonth, mergeMonthCloseLogs } from '../utils/approval';
+import {
+  createDefaultSyncConfig, getBrokerSyncKey, getEntrySyncKey, MONTH_CLOSE_LOG_SYNC_KEY, parseSyncKey,
+  type PendingSyncChange, type SyncConfig, type SyncConflict, type SyncRecord,
+} from '../utils/sync';
+
+// Versioned persistence layer on top of IndexedDB.
+//
+// Brokers and daily entries live in separate object stores so that a change to a single
+// day only rewrites that day. Every record carries the data schema version it was written
+// with; older records are upgraded on load by the ordered `migrations` list below. Records
+// that cannot be parsed are moved to a quarantine store instead of being dropped.
+//
+// Entry changes are written together with their audit records, which are append-only: they are
+// never updated or deleted, and keep the entry snapshots exactly as they were at the time.
+//
+// Every write also marks the broker or day it touched in the sync store, so that an optional sync server
+// (see services/sync.ts) receives it whenever the device is online. Records pulled from the server are
+// written without being marked. The month close log is synced the same way, as a record of its own.
+
+const DB_NAME = 'lead-performance';
+const DB_VERSION = 3; // IndexedDB structure (object stores and indexes)
+export const SCHEMA_VERSION = 3; // Shape of the stored records, see `migrations`
+
+const LEGACY_LOCAL_STORAGE_KEY = 'lead-performance-brokers';
+
+const BROKERS_STORE = 'brokers';
+const ENTRIES_STORE = 'entries';
+const QUARANTINE_STORE = 'quarantine';
+const META_STORE = 'meta';
+const AUDIT_STORE = 'audit';
+const SYNC_STORE = 'sync';
+
+type StoredBroker = Omit<BrokerProfile, 'dailyEntries'> & { schemaVersion: number };
+type StoredEntry = DailyEntry & { brokerId: string; schemaVersion: number };
+
+// Sync state of one record: the server version it was last based on and whether it changed here since
+interface SyncState {
+  key: string;
+  version: number;
+  pending: boolean;
+  revision: number;
+  conflict?: Omit<SyncConflict, 'key'>;
+}
+
+export interface QuarantinedRecord {
+  id?: number;
+  store: string;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string; // ISO timestamp
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrateBroker?: (broker: Record<string, unknown>) => Record<string, unknown>;
+  migrateEntry?: (entry: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Ordered list of record migrations. A record written with schema version N goes through
+// every migration with a version greater than N. Never edit a released migration; add a new one.
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Entries created before repiques were tracked lack repiqueLeads',
+    migrateEntry: entry => ({ ...entry, repiqueLeads: typeof entry.repiqueLeads === 'number' ? entry.repiqueLeads : 0 }),
+  },
+  {
+    version: 2,
+    description: 'Brokers created before per-lead tracking lack the leads list',
+    migrateBroker: broker => ({ ...broker, leads: Array.isArray(broker.leads) ? broker.leads : [] }),
+  },
+  {
+    version: 3,
+    description: 'Free-text discard reasons become the "outros" count of the structured reasons',
+    migrateEntry: entry => (
+      !entry.discardReasonCounts && typeof entry.discardReason === 'string' && entry.discardReason.trim() &&
+      typeof entry.discardedLeads === 'number' && entry.discardedLeads > 0
+        ? { ...entry, discardReasonCounts: { outros: entry.discardedLeads } }
+        : entry
+    ),
+  },
+];
+
+const numericEntryFields: (keyof DailyEntry)[] = [
+  'newLeads', 'discardedLeads', 'repiqueLeads', 'localVisits', 'contactingLeads', 'inProgressLeads',
+  'scheduledLeads', 'negotiationLeads', 'creditAnalysisLeads', 'approvedLeads', 'signedLeads',
+];
+
+const migrateRecord = <T>(record: Record<string, unknown>, kind: 'migrateBroker' | 'migrateEntry'): T => {
+  const fromVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  let migrated = record;
+  for (const migration of migrations) {
+    const migrate = migration[kind];
+    if (migration.version > fromVersion && migrate) {
+      migrated = migrate(migrated);
+    }
+  }
+  return { ...migrated, schemaVersion: SCHEMA_VERSION } as T;
+};
+
+// Throws when the record cannot be used, so the caller can quarantine it.
+const parseBroker = (raw: unknown): StoredBroker => {
+  if (!raw || typeof raw !== 'object') throw new Error('Registro de corretor não é um objeto');
+  const broker = migrateRecord<StoredBroker>(raw as Record<string, unknown>, 'migrateBroker');
+  if (typeof broker.id !== 'string' || !broker.id) throw new Error('Corretor sem ID');
+  if (typeof broker.brokerName !== 'string') throw new Error('Corretor sem nome');
+  if (typeof broker.initialLeads !== 'number' || Number.isNaN(broker.initialLeads)) throw new Error('Base inicial inválida');
+  return broker;
+};
+
+const parseEntry = (raw: unknown): StoredEntry => {
+  if (!raw || typeof raw !== 'object') throw new Error('Lançamento não é um objeto');
+  const entry = migrateRecord<StoredEntry>(raw as Record<string, unknown>, 'migrateEntry');
+  if (typeof entry.brokerId !== 'string' || !entry.brokerId) throw new Error('Lançamento sem corretor');
+  if (typeof entry.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) throw new Error('Data do lançamento inválida');
+  for (const field of numericEntryFields) {
+    const value = entry[field];
+    if (typeof value !== 'number' || Number.isNaN(value)) throw new Error(`Campo "${field}" inválido`);
+  }
+  if (entry.customMetrics !== undefined && (typeof entry.customMetrics !== 'object' || entry.customMetrics === null)) {
+    throw new Error('Métricas personalizadas inválidas');
+  }
+  if (entry.discardReasonCounts !== undefined && (typeof entry.discardReasonCounts !== 'object' || entry.discardReasonCounts === null)) {
+    throw new Error('Motivos de descarte inválidos');
+  }
+  return entry;
+};
+
+const toStoredBroker = (broker: BrokerProfile): StoredBroker => {
+  const { dailyEntries, ...profile } = broker;
+  return { ...profile, schemaVersion: SCHEMA_VERSION };
+};
+
+const toStoredEntry = (brokerId: string, entry: DailyEntry): StoredEntry => {
+  // Calculated balances are derived on screen and must not be persisted
+  const { startOfDayBalance, ...data } = entry;
+  return { ...data, brokerId, schemaVersion: SCHEMA_VERSION };
+};
+
+const fromStoredEntry = ({ brokerId, schemaVersion, ...entry }: StoredEntry): DailyEntry => entry;
+
+// --- IndexedDB helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transação cancelada'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BROKERS_STORE)) {
+          db.createObjectStore(BROKERS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: ['brokerId', 'date'] });
+          entries.createIndex('brokerId', 'brokerId');
+        }
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+          db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+          const audit = db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+          audit.createIndex('brokerId', 'brokerId');
+        }
+        if (!db.objectStoreNames.contains(SYNC_STORE)) {
+          db.createObjectStore(SYNC_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const quarantine = (store: IDBObjectStore, storeName: string, record: unknown, error: unknown) => {
+  const item: QuarantinedRecord = {
+    store: storeName,
+    record,
+    reason: error instanceof Error ? error.message : String(error),
+    quarantinedAt: new Date().toISOString(),
+  };
+  store.add(item);
+};
+
+// Marks records as changed on this device inside an existing transaction that includes the sync store.
+const markPending = (tx: IDBTransaction, keys: string[]) => {
+  const syncStore = tx.objectStore(SYNC_STORE);
+  for (const key of keys) {
+    const request = syncStore.get(key);
+    request.onsuccess = () => {
+      const state: SyncState = request.result || { key, version: 0, pending: false, revision: 0 };
+      syncStore.put({ ...state, pending: true, revision: state.revision + 1 });
+    };
+  }
+};
+
+// Imports the single JSON blob written by versions before IndexedDB. Runs only once;
+// the original localStorage value is left untouched as a fallback copy.
+const importLegacyLocalStorage = async (db: IDBDatabase) => {
+  const metaTx = db.transaction(META_STORE, 'readonly');
+  const imported = await requestToPromise(metaTx.objectStore(META_STORE).get('legacyImported'));
+  if (imported) return;
+
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, QUARANTINE_STORE, META_STORE], 'readwrite');
+  const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+  const saved = localStorage.getItem(LEGACY_LOCAL_STORAGE_KEY);
+
+  if (saved) {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(saved);
+      if (!Array.isArray(parsed)) throw new Error('Os dados salvos não são uma lista de corretores');
+    } catch (error) {
+      console.error("Failed to parse legacy localStorage data, moving it to quarantine", error);
+      quarantine(quarantineStore, 'localStorage', saved, error);
+      parsed = null;
+    }
+
+    if (Array.isArray(parsed)) {
+      const validBrokers = parsed.filter(item => {
+        const isObject = item && typeof item === 'object' && typeof item.brokerName === 'string';
+        if (!isObject) quarantine(quarantineStore, BROKERS_STORE, item, new Error('Registro de corretor inválido'));
+        return isObject;
+      });
+      for (const broker of ensureBrokerIds(validBrokers)) {
+        writeBroker(tx, broker);
+      }
+    }
+  }
+
+  tx.objectStore(META_STORE).put({ key: 'legacyImported', value: new Date().toISOString() });
+  await transactionDone(tx);
+};
+
+// Writes a broker and all of its entries inside an existing transaction. Records arriving from
+// older data go through the migrations; the ones that still fail validation are quarantined.
+const writeBroker = (tx: IDBTransaction, broker: BrokerProfile) => {
+  const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+  const { dailyEntries, ...profile } = broker;
+  try {
+    tx.objectStore(BROKERS_STORE).put(parseBroker(profile));
+  } catch (error) {
+    quarantine(quarantineStore, BROKERS_STORE, broker, error);
+    return;
+  }
+  const entriesStore = tx.objectStore(ENTRIES_STORE);
+  for (const rawEntry of Array.isArray(dailyEntries) ? dailyEntries : []) {
+    try {
+      entriesStore.put(parseEntry({ ...rawEntry, brokerId: broker.id }));
+    } catch (error) {
+      quarantine(quarantineStore, ENTRIES_STORE, rawEntry, error);
+    }
+  }
+};
+
+// Sync keys of every broker and entry currently stored
+const getAllRecordKeys = async (tx: IDBTransaction): Promise<string[]> => {
+  const [brokerIds, entryKeys] = await Promise.all([
+    requestToPromise(tx.objectStore(BROKERS_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(ENTRIES_STORE).getAllKeys()),
+  ]);
+  return [
+    ...brokerIds.map(id => getBrokerSyncKey(id as string)),
+    ...entryKeys.map(key => getEntrySyncKey(...(key as [string, string]))),
+  ];
+};
+
+// Events of a synced month close log record
+const getCloseEvents = (data: Record<string, unknown> | null): MonthCloseEvent[] => (Array.isArray(data?.events) ? data.events : []);
+
+// Current local version of a synced record, as sent to the server; null when it does not exist here
+const readSyncedRecord = async (tx: IDBTransaction, key: string): Promise<Record<string, unknown> | null> => {
+  if (key === MONTH_CLOSE_LOG_SYNC_KEY) {
+    const saved = await requestToPromise(tx.objectStore(META_STORE).get('monthCloseLog'));
+    return saved ? { events: saved.value } : null;
+  }
+  const { kind, brokerId, date } = parseSyncKey(key);
+  const record = kind === 'broker'
+    ? await requestToPromise(tx.objectStore(BROKERS_STORE).get(brokerId))
+    : await requestToPromise(tx.objectStore(ENTRIES_STORE).get([brokerId, date!]));
+  return record ?? null;
+};
+
+// Writes a record that came from the server, going through the same migrations and validation as local data
+const writeSyncedRecord = (tx: IDBTransaction, key: string, data: Record<string, unknown> | null) => {
+  if (key === MONTH_CLOSE_LOG_SYNC_KEY) {
+    tx.objectStore(META_STORE).put({ key: 'monthCloseLog', value: getCloseEvents(data) });
+    return;
+  }
+  const { kind, brokerId, date } = parseSyncKey(key);
+  const store = tx.objectStore(kind === 'broker' ? BROKERS_STORE : ENTRIES_STORE);
+  if (!data) {
+    store.delete(kind === 'broker' ? brokerId : [brokerId, date!]);
+    return;
+  }
+  try {
+    store.put(kind === 'broker' ? parseBroker({ ...data, id: brokerId }) : parseEntry({ ...data, brokerId, date }));
+  } catch (error) {
+    quarantine(tx.objectStore(QUARANTINE_STORE), kind === 'broker' ? BROKERS_STORE : ENTRIES_STORE, data, error);
+  }
+};
+
+// Records are compared without the schema version they were written with
+const isSameSyncedData = (a: Record<string, unknown> | null, b: Record<string, unknown> | null) => {
+  const strip = (data: Record<string, unknown> | null) => {
+    if (!data) return null;
+    const { schemaVersion, ...rest } = data;
+    return rest;
+  };
+  return canonical(strip(a)) === canonical(strip(b));
+};
+
+// --- Public API ---
+
+export const loadBrokers = async (): Promise<BrokerProfile[]> => {
+  const db = await openDatabase();
+  await importLegacyLocalStorage(db);
+
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, QUARANTINE_STORE], 'readwrite');
+  const brokersStore = tx.objectStore(BROKERS_STORE);
+  const entriesStore = tx.objectStore(ENTRIES_STORE);
+  const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+
+  const [rawBrokers, rawEntries] = await Promise.all([
+    requestToPromise(brokersStore.getAll()),
+    requestToPromise(entriesStore.getAll()),
+  ]);
+
+  const brokers = new Map<string, BrokerProfile>();
+  for (const raw of rawBrokers) {
+    try {
+      const stored = parseBroker(raw);
+      if (stored.schemaVersion !== raw.schemaVersion) brokersStore.put(stored); // Persist migration
+      const { schemaVersion, ...profile } = stored;
+      brokers.set(profile.id, { ...profile, dailyEntries: [] });
+    } catch (error) {
+      console.error("Quarantining unreadable broker record", raw, error);
+      quarantine(quarantineStore, BROKERS_STORE, raw, error);
+      brokersStore.delete(raw.id);
+    }
+  }
+
+  for (const raw of rawEntries) {
+    try {
+      const stored = parseEntry(raw);
+      const owner = brokers.get(stored.brokerId);
+      if (!owner) throw new Error('Lançamento de corretor inexistente');
+      if (stored.schemaVersion !== raw.schemaVersion) entriesStore.put(stored);
+      owner.dailyEntries.push(fromStoredEntry(stored));
+    } catch (error) {
+      console.error("Quarantining unreadable entry record", raw, error);
+      quarantine(quarantineStore, ENTRIES_STORE, raw, error);
+      entriesStore.delete([raw.brokerId, raw.date]);
+    }
+  }
+
+  await transactionDone(tx);
+  return Array.from(brokers.values());
+};
+
+// Saves the profile fields of a broker (name, base, goal, leads...) without touching entries.
+export const saveBroker = async (broker: BrokerProfile): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BROKERS_STORE, SYNC_STORE], 'readwrite');
+  tx.objectStore(BROKERS_STORE).put(toStoredBroker(broker));
+  markPending(tx, [getBrokerSyncKey(broker.id)]);
+  await transactionDone(tx);
+};
+
+// Removes a broker and all of its entries for good. Brokers deleted on screen go to the trash first
+// (see `deletedAt`); this only runs when they are purged from it.
+export const deleteBroker = async (brokerId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, SYNC_STORE], 'readwrite');
+  tx.objectStore(BROKERS_STORE).delete(brokerId);
+  const entriesStore = tx.objectStore(ENTRIES_STORE);
+  const keys = await requestToPromise(entriesStore.index('brokerId').getAllKeys(brokerId));
+  keys.forEach(key => entriesStore.delete(key));
+  markPending(tx, [getBrokerSyncKey(brokerId), ...keys.map(key => getEntrySyncKey(brokerId, (key as [string, string])[1]))]);
+  await transactionDone(tx);
+};
+
+// Saves or deletes entries of any broker and appends their audit records in a single transaction,
+// so a change is never stored without its history (or the other way around).
+export const commitEntryChanges = async (changes: EntryChange[], auditRecords: AuditRecord[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES_STORE, AUDIT_STORE, SYNC_STORE], 'readwrite');
+  const entriesStore = tx.objectStore(ENTRIES_STORE);
+  for (const { brokerId, date, entry } of changes) {
+    if (entry) entriesStore.put(toStoredEntry(brokerId, entry));
+    else entriesStore.delete([brokerId, date]);
+  }
+  markPending(tx, changes.map(change => getEntrySyncKey(change.brokerId, change.date)));
+  const auditStore = tx.objectStore(AUDIT_STORE);
+  auditRecords.forEach(record => auditStore.add(record));
+  await transactionDone(tx);
+};
+
+export const appendAuditRecords = async (auditRecords: AuditRecord[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIT_STORE, 'readwrite');
+  const auditStore = tx.objectStore(AUDIT_STORE);
+  auditRecords.forEach(record => auditStore.add(record));
+  await transactionDone(tx);
+};
+
+export const loadAuditLog = async (): Promise<AuditRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIT_STORE, 'readonly');
+  const records: AuditRecord[] = await requestToPromise(tx.objectStore(AUDIT_STORE).getAll());
+  return records.sort((a, b) => a.at.localeCompare(b.at));
+};
+
+// Replaces everything at once. Only used when restoring a full backup.
+export const replaceAllBrokers = async (brokers: BrokerProfile[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, QUARANTINE_STORE, SYNC_STORE], 'readwrite');
+  // Records that disappear are deletions for the sync server, so the old keys are marked as well
+  const previousKeys = await getAllRecordKeys(tx);
+  tx.objectStore(BROKERS_STORE).clear();
+  tx.objectStore(ENTRIES_STORE).clear();
+  for (const broker of brokers) {
+    writeBroker(tx, broker);
+  }
+  const newKeys = brokers.flatMap(broker => [
+    getBrokerSyncKey(broker.id),
+    ...(Array.isArray(broker.dailyEntries) ? broker.dailyEntries : []).map(entry => getEntrySyncKey(broker.id, entry.date)),
+  ]);
+  markPending(tx, [...new Set([...previousKeys, ...newKeys])]);
+  await transactionDone(tx);
+};
+
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(QUARANTINE_STORE).getAll());
+};
+
+export const loadSettings = async (): Promise<AgencySettings> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const saved = await requestToPromise(tx.objectStore(META_STORE).get('settings'));
+  return normalizeSettings(saved?.value);
+};
+
+export const saveSettings = async (settings: AgencySettings): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key: 'settings', value: settings });
+  await transactionDone(tx);
+};
+
+// --- Month close ---
+
+export const loadMonthCloseLog = async (): Promise<MonthCloseEvent[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const saved = await requestToPromise(tx.objectStore(META_STORE).get('monthCloseLog'));
+  return Array.isArray(saved?.value) ? saved.value : [];
+};
+
+// Appends to the stored log rather than saving the one on screen, which a sync may have extended meanwhile.
+// Unlike the settings, the log is synced, so every device locks the same months. Returns the updated log.
+export const appendMonthCloseEvent = async (event: MonthCloseEvent): Promise<MonthCloseEvent[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, SYNC_STORE], 'readwrite');
+  const metaStore = tx.objectStore(META_STORE);
+  const saved = await requestToPromise(metaStore.get('monthCloseLog'));
+  const log = [...(Array.isArray(saved?.value) ? saved.value : []), event];
+  metaStore.put({ key: 'monthCloseLog', value: log });
+  markPending(tx, [MONTH_CLOSE_LOG_SYNC_KEY]);
+  await transactionDone(tx);
+  return log;
+};
+
+// --- Users ---
+
+// Accounts of this device only: neither backed up nor synced, like the sync configuration
+export const loadUsers = async (): Promise<UserAccount[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const saved = await requestToPromise(tx.objectStore(META_STORE).get('users'));
+  return Array.isArray(saved?.value) ? saved.value : [];
+};
+
+export const saveUsers = async (users: UserAccount[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key: 'users', value: users });
+  await transactionDone(tx);
+};
+
+// --- Sync ---
+
+export const loadSyncConfig = async (): Promise<SyncConfig> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const saved = await requestToPromise(tx.objectStore(META_STORE).get('syncConfig'));
+  return { ...createDefaultSyncConfig(), ...(saved?.value || {}) };
+};
+
+export const saveSyncConfig = async (config: SyncConfig): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key: 'syncConfig', value: config });
+  await transactionDone(tx);
+};
+
+// Marks everything stored here as changed, so that data created before sync was turned on gets pushed.
+// With `resetVersions` the versions known from a previous server are forgotten as well.
+export const markAllPendingSync = async (resetVersions = false): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, META_STORE, SYNC_STORE], 'readwrite');
+  if (resetVersions) tx.objectStore(SYNC_STORE).clear();
+  const hasMonthCloseLog = Boolean(await requestToPromise(tx.objectStore(META_STORE).get('monthCloseLog')));
+  markPending(tx, [...await getAllRecordKeys(tx), ...(hasMonthCloseLog ? [MONTH_CLOSE_LOG_SYNC_KEY] : [])]);
+  await transactionDone(tx);
+};
+
+// Local changes not yet accepted by the server, broker profiles first so their entries never arrive alone.
+export const getPendingSyncChanges = async (): Promise<PendingSyncChange[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, META_STORE, SYNC_STORE], 'readonly');
+  const states: SyncState[] = await requestToPromise(tx.objectStore(SYNC_STORE).getAll());
+  const changes: PendingSyncChange[] = [];
+  for (const state of states.filter(s => s.pending)) {
+    changes.push({
+      key: state.key,
+      kind: parseSyncKey(state.key).kind,
+      data: await readSyncedRecord(tx, state.key),
+      baseVersion: state.version,
+      revision: state.revision,
+    });
+  }
+  return changes.sort((a, b) => Number(a.kind !== 'broker') - Number(b.kind !== 'broker'));
+};
+
+// Records the versions the server gave to pushed changes. A record changed again during the push stays pending.
+export const markSynced = async (accepted: { key: string; version: number; revision: number }[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SYNC_STORE, 'readwrite');
+  const syncStore = tx.objectStore(SYNC_STORE);
+  for (const { key, version, revision } of accepted) {
+    const state: SyncState | undefined = await requestToPromise(syncStore.get(key));
+    if (!state) continue;
+    syncStore.put({ ...state, version, pending: state.revision !== revision });
+  }
+  await transactionDone(tx);
+};
+
+// Applies records from the server. A record that also changed here becomes a conflict, unless both sides
+// hold the same data. Days of months closed here are never overwritten: the other device's version only
+// shows up as a conflict. The month close log does not conflict; the events of both sides are kept.
+// Returns the keys of the records written here, how many conflicts appeared and who made the changes.
+export const applyRemoteRecords = async (records: SyncRecord[]): Promise<{ keys: string[]; conflicts: number; authors: string[] }> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, QUARANTINE_STORE, META_STORE, SYNC_STORE], 'readwrite');
+  const syncStore = tx.objectStore(SYNC_STORE);
+  const result = { keys: [] as string[], conflicts: 0, authors: [] as string[] };
+  // The close log goes first, so the days that follow are checked against the months closed on any device
+  const sorted = [...records].sort((a, b) => Number(b.key === MONTH_CLOSE_LOG_SYNC_KEY) - Number(a.key === MONTH_CLOSE_LOG_SYNC_KEY));
+  let closedMonths: Set<string> | null = null;
+  for (const record of sorted) {
+    const state: SyncState | undefined = await requestToPromise(syncStore.get(record.key));
+    const version = state?.version ?? 0;
+    const revision = state?.revision ?? 0;
+    if (!state?.pending && version >= record.version) continue; // Already applied, e.g. our own change coming back
+    if (state?.pending && record.version <= version) {
+      // The server is behind what this change was based on (e.g. its store was reset): push on top of it
+      syncStore.put({ ...state, version: record.version });
+      continue;
+    }
+    const local = await readSyncedRecord(tx, record.key);
+    if (state?.pending && isSameSyncedData(local, record.data)) {
+      syncStore.put({ ...state, version: record.version, pending: false });
+      continue;
+    }
+    if (record.key === MONTH_CLOSE_LOG_SYNC_KEY) {
+      // Events only known here stay pending, to be pushed on top of the other device's version
+      const events = mergeMonthCloseLogs(state?.pending ? getCloseEvents(local) : [], getCloseEvents(record.data));
+      writeSyncedRecord(tx, record.key, { events });
+      syncStore.put({ key: record.key, version: record.version, pending: Boolean(state?.pending), revision });
+      closedMonths = getClosedMonths(events);
+    } else {
+      const { kind, date } = parseSyncKey(record.key);
+      closedMonths ??= getClosedMonths(getCloseEvents(await readSyncedRecord(tx, MONTH_CLOSE_LOG_SYNC_KEY)));
+      if (kind === 'entry' && isDateInClosedMonth(closedMonths, date!)) {
+        const isSame = isSameSyncedData(local, record.data);
+        syncStore.put({ key: record.key, version: record.version, pending: false, revision, conflict: isSame ? state?.conflict : { local, remote: record, closedMonth: true } });
+        if (!isSame) result.conflicts += 1;
+        continue;
+      }
+      writeSyncedRecord(tx, record.key, record.data);
+      syncStore.put({ key: record.key, version: record.version, pending: false, revision, conflict: state?.pending ? { local, remote: record } : state?.conflict });
+      if (state?.pending) result.conflicts += 1;
+    }
+    result.keys.push(record.key);
+    if (record.author && !result.authors.includes(record.author)) result.authors.push(record.author);
+  }
+  await transactionDone(tx);
+  return result;
+};
+
+export const getSyncStatus = async (): Promise<{ pending: number; conflicts: SyncConflict[] }> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SYNC_STORE, 'readonly');
+  const states: SyncState[] = await requestToPromise(tx.objectStore(SYNC_STORE).getAll());
+  return {
+    pending: states.filter(state => state.pending).length,
+    conflicts: states.filter(state => state.conflict).map(state => ({ key: state.key, ...state.conflict! })),
+  };
+};
+
+// Keeping the local version writes it back and pushes it over the other device's version on the next sync.
+export const resolveSyncConflict = async (key: string, keep: 'local' | 'remote'): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BROKERS_STORE, ENTRIES_STORE, QUARANTINE_STORE, SYNC_STORE], 'readwrite');
+  const syncStore = tx.objectStore(SYNC_STORE);
+  const state: SyncState | undefined = await requestToPromise(syncStore.get(key));
+  if (state?.conflict) {
+    const { conflict, ...rest } = state;
+    if (keep === 'local') {
+      writeSyncedRecord(tx, key, conflict.local);
+      syncStore.put({ ...rest, pending: true, revision: state.revision + 1 });
+    } else {
+      // Days of closed months kept the local version until now
+      if (conflict.closedMonth) writeSyncedRecord(tx, key, conflict.remote.data);
+      syncStore.put(rest);
+    }
+  }
+  await transactionDone(tx);
+};
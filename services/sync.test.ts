@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SyncConfig, SyncRecord } from '../utils/sync';
+import * as storage from './storage';
+import { syncNow } from './sync';
+
+vi.mock('./storage');
+
+const config: SyncConfig = { serverUrl: 'https://sync.example.com', token: '', lastSeq: 10 };
+
+const record: SyncRecord = { key: 'broker:a', kind: 'broker', data: { id: 'a' }, version: 1, seq: 1, author: 'Bruno', updatedAt: '' };
+
+// Answers each GET /api/changes?since=<seq> with the given response
+const serveChanges = (responses: Record<string, { seq: number; records: SyncRecord[] }>) => {
+  const fetchMock = vi.fn(async (url: string) => {
+    const since = new URL(url).searchParams.get('since')!;
+    return new Response(JSON.stringify(responses[since]), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(storage.loadSyncConfig).mockResolvedValue(config);
+  vi.mocked(storage.getPendingSyncChanges).mockResolvedValue([]);
+  vi.mocked(storage.applyRemoteRecords).mockImplementation(async records => ({ keys: records.map(r => r.key), conflicts: 0, authors: [] }));
+});
+
+describe('syncNow', () => {
+  it('pulls what changed since the last sequence seen', async () => {
+    const fetchMock = serveChanges({ 10: { seq: 12, records: [record] } });
+
+    const result = await syncNow('Ana');
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(result.keys).toEqual(['broker:a']);
+    expect(storage.markAllPendingSync).not.toHaveBeenCalled();
+    expect(storage.saveSyncConfig).toHaveBeenCalledWith(expect.objectContaining({ lastSeq: 12 }));
+  });
+
+  it('pulls everything again and queues everything here when the server is behind the last sequence seen', async () => {
+    const fetchMock = serveChanges({ 10: { seq: 2, records: [] }, 0: { seq: 2, records: [record] } });
+
+    await syncNow('Ana');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(storage.markAllPendingSync).toHaveBeenCalledWith(true);
+    expect(storage.applyRemoteRecords).toHaveBeenCalledWith([record]);
+    expect(storage.saveSyncConfig).toHaveBeenCalledWith(expect.objectContaining({ lastSeq: 2 }));
+  });
+
+  it('keeps a configuration changed while it ran', async () => {
+    serveChanges({ 10: { seq: 12, records: [] } });
+    vi.mocked(storage.loadSyncConfig).mockResolvedValueOnce(config).mockResolvedValueOnce({ ...config, serverUrl: '', token: '' });
+
+    await syncNow('Ana');
+
+    expect(storage.saveSyncConfig).not.toHaveBeenCalled();
+  });
+});
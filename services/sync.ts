@@ -0,0 +1,107 @@
+import type { SyncConfig, SyncRecord } from '../utils/sync';
+import * as storage from './storage';
+
+// Client of the optional sync server (server/sync-server.js). Local writes are queued by the storage
+// layer; a sync pushes the queue, one record per broker profile or day, then pulls what other devices
+// changed since the last sync. When offline the queue simply waits for the next sync.
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number; // Records from other devices applied here
+  keys: string[]; // Their sync keys, so only those are refreshed on screen
+  conflicts: number;
+  authors: string[]; // Who made the pulled changes, as named on their devices
+}
+
+interface PushResponse {
+  seq: number;
+  accepted: { key: string; version: number; seq: number }[];
+  conflicts: SyncRecord[];
+}
+
+interface PullResponse {
+  seq: number;
+  records: SyncRecord[];
+}
+
+const request = async <T>(config: SyncConfig, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${config.serverUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+    },
+  });
+  if (response.status === 401) throw new Error('O servidor recusou o token de acesso.');
+  if (!response.ok) throw new Error(`O servidor respondeu com erro ${response.status}.`);
+  return response.json();
+};
+
+const push = async (config: SyncConfig, author: string): Promise<{ pushed: number; keys: string[]; conflicts: number; authors: string[] }> => {
+  const pending = await storage.getPendingSyncChanges();
+  if (pending.length === 0) return { pushed: 0, keys: [], conflicts: 0, authors: [] };
+  const response = await request<PushResponse>(config, '/api/changes', {
+    method: 'POST',
+    body: JSON.stringify({ author, changes: pending.map(({ revision, ...change }) => change) }),
+  });
+  await storage.markSynced(response.accepted.map(({ key, version }) => ({
+    key, version, revision: pending.find(change => change.key === key)!.revision,
+  })));
+  // Someone else changed these records first: their version is applied and ours kept as a conflict
+  const { keys, conflicts, authors } = await storage.applyRemoteRecords(response.conflicts);
+  return { pushed: response.accepted.length, keys, conflicts, authors };
+};
+
+const pull = async (config: SyncConfig): Promise<{ keys: string[]; conflicts: number; authors: string[]; seq: number }> => {
+  let response = await request<PullResponse>(config, `/api/changes?since=${config.lastSeq}`);
+  if (response.seq < config.lastSeq) {
+    // The server lost data (e.g. a new store): everything is pulled again and everything here pushed again
+    response = await request<PullResponse>(config, '/api/changes?since=0');
+    await storage.markAllPendingSync(true);
+  }
+  return { ...(await storage.applyRemoteRecords(response.records)), seq: response.seq };
+};
+
+let inFlight: Promise<SyncResult> | null = null;
+
+// Pushes local changes and pulls remote ones. Concurrent calls share the sync already running.
+// Throws when the server cannot be reached; nothing is lost, the queue is kept for the next try.
+export const syncNow = (author: string): Promise<SyncResult> => {
+  if (!inFlight) {
+    inFlight = (async () => {
+      const config = await storage.loadSyncConfig();
+      if (!config.serverUrl) return { pushed: 0, pulled: 0, keys: [], conflicts: 0, authors: [] };
+      const pushed = await push(config, author);
+      const pulled = await pull(config);
+      // Read again, as sync may have been turned off or pointed elsewhere while this one ran
+      const latest = await storage.loadSyncConfig();
+      if (latest.serverUrl === config.serverUrl) {
+        await storage.saveSyncConfig({ ...latest, lastSeq: pulled.seq, lastSyncAt: new Date().toISOString() });
+      }
+      const keys = [...new Set([...pushed.keys, ...pulled.keys])];
+      return {
+        pushed: pushed.pushed,
+        pulled: keys.length,
+        keys,
+        conflicts: pushed.conflicts + pulled.conflicts,
+        authors: [...new Set([...pushed.authors, ...pulled.authors])],
+      };
+    })().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+};
+
+// Turning sync on for the first time sends everything already stored on this device.
+export const connect = async (serverUrl: string, token: string): Promise<void> => {
+  const config = await storage.loadSyncConfig();
+  const isNewServer = config.serverUrl !== serverUrl;
+  await storage.saveSyncConfig({ ...config, serverUrl, token, lastSeq: isNewServer ? 0 : config.lastSeq });
+  if (isNewServer) await storage.markAllPendingSync(true);
+};
+
+export const disconnect = async (): Promise<void> => {
+  const config = await storage.loadSyncConfig();
+  await storage.saveSyncConfig({ ...config, serverUrl: '', token: '' });
+};
@@ -1,4 +1,14 @@
 
+// Review state of a saved entry; work not saved yet is a draft kept in localStorage (see getDraftKey).
+// Only approved entries count in the ranking and the team comparison.
+export type EntryStatus = 'submitted' | 'approved' | 'rejected';
+
+export interface EntryReview {
+  by: string; // Name of the reviewer
+  at: string; // ISO timestamp
+  comment?: string; // Required when rejecting
+}
+
 export interface DailyEntry {
   date: string; // YYYY-MM-DD
   newLeads: number;
@@ -12,15 +22,202 @@ export interface DailyEntry {
   creditAnalysisLeads: number;
   approvedLeads: number;
   signedLeads: number;
-  discardReason?: string; // Added for tracking reasons when discardedLeads > 0
+  discardReason?: string; // Added for tracking reasons when discardedLeads > 0; now describes the "outros" count
+  discardReasonCounts?: Record<string, number>; // Discarded leads per DiscardReasonDefinition.key (plus "outros")
   startOfDayBalance?: number; // Added for calculated balance in dashboard/reports
+  customMetrics?: Record<string, number>; // Values of agency-defined metrics, keyed by MetricDefinition.key
+  status?: EntryStatus; // Missing on entries saved before the approval workflow, which count as approved
+  review?: EntryReview; // Last approval or rejection
+}
+
+// How a metric affects the broker's lead base: inflows add to it, outflows and sales remove from it,
+// activities (funnel stages, visits...) are only counted. Values (e.g. sales in R$) are counted but are
+// neither leads nor funnel stages.
+export type MetricKind = 'inflow' | 'outflow' | 'sale' | 'activity' | 'value';
+
+export interface MetricDefinition {
+  key: string; // Built-in keys are DailyEntry fields; custom keys live in DailyEntry.customMetrics
+  label: string;
+  kind: MetricKind;
+  active: boolean; // Retired metrics are hidden from the form but their recorded data is kept
+  builtIn?: boolean;
+}
+
+// Why leads are discarded. Each day records how many discarded leads fell under each reason.
+export interface DiscardReasonDefinition {
+  key: string;
+  label: string;
+  active: boolean; // Retired reasons are hidden from the form but their recorded counts are kept
+}
+
+// Checks run on the entries of every broker, see utils/consistency.ts
+export type ConsistencyRuleId =
+  | 'negativeValue'
+  | 'futureDate'
+  | 'signedOverApproved'
+  | 'discardOverBase'
+  | 'discardReasonsOverTotal'
+  | 'negativeBalance';
+
+// Errors block saving, warnings ask for confirmation, disabled rules are not checked.
+export type RuleSeverity = 'error' | 'warning' | 'off';
+
+// Limits used by the lead distribution planner; 0 means no limit.
+export interface LeadDistributionSettings {
+  lookbackDays: number; // Days of history used for the conversion and discard rates
+  maxBalance: number; // Brokers are not given leads beyond this lead base
+  maxLeadsPerDay: number; // Incoming leads a broker can receive in one day, counting the ones already recorded
+}
+
+// Closing a month locks its entries until it is reopened, which needs a reason. Events are only appended,
+// so the log tells who closed and reopened each month and why. The log is kept oldest first and is shared
+// by every device through sync.
+export interface MonthCloseEvent {
+  id: string;
+  month: string; // YYYY-MM
+  action: 'close' | 'reopen';
+  author: string;
+  at: string; // ISO timestamp
+  reason?: string; // Required when reopening
+}
+
+export type HolidayScope = 'national' | 'municipal';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  scope: HolidayScope;
+}
+
+// Days the agency works. Holidays are days off even when they fall on a working weekday.
+export interface AgencyCalendar {
+  workingWeekdays: number[]; // 0 = Sunday ... 6 = Saturday, as in Date.getDay()
+  holidays: Holiday[]; // Sorted by date
+}
+
+// Daily reminder shown to brokers whose entry for today is missing or still a draft
+export interface EntryReminderSettings {
+  enabled: boolean;
+  time: string; // HH:MM, local time
+}
+
+export interface AgencySettings {
+  metrics: MetricDefinition[]; // Array order is the display order
+  discardReasons: DiscardReasonDefinition[]; // Array order is the display order
+  consistencyRules: Record<ConsistencyRuleId, RuleSeverity>;
+  leadDistribution: LeadDistributionSettings;
+  calendar: AgencyCalendar;
+  entryReminder: EntryReminderSettings;
+  agencyName?: string; // Shown in the header of PDF reports
+  agencyLogo?: string; // PNG or JPEG data URL, shown next to the agency name
+}
+
+// Funnel stage a single lead is in: the key of the metric (see getLeadStages) whose daily counter
+// a transition into the stage increments.
+export type LeadStage = string;
+
+export interface LeadStageChange {
+  stage: LeadStage;
+  at: string; // ISO timestamp of when the lead entered the stage
+}
+
+export interface Lead {
+  id: string;
+  name: string;
+  phone: string;
+  source: string; // Where the lead came from (portal, indicação, plantão...)
+  stage: LeadStage; // Current stage, always equal to the last history item
+  history: LeadStageChange[];
+  createdAt: string; // ISO timestamp
+}
+
+export type GoalPeriod = 'week' | 'month' | 'quarter';
+
+// One version of a goal for a metric and period. Changing or removing a goal appends a new version
+// (a removal has target 0), so past periods keep the target they had.
+export interface MetricGoal {
+  id: string;
+  metricKey: string;
+  period: GoalPeriod;
+  target: number;
+  effectiveFrom: string; // YYYY-MM-DD
+}
+
+export type BalanceAdjustmentReason = 'recount' | 'transfer' | 'cleanup';
+
+// Dated correction of a broker's lead base that is not a daily counter, e.g. after recounting the real
+// portfolio. It moves the balance from the end of its day on, leaving earlier history untouched.
+export interface BalanceAdjustment {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // Leads added to (positive) or removed from (negative) the base
+  reason: BalanceAdjustmentReason;
+  note?: string;
+  author: string;
+  createdAt: string; // ISO timestamp
+  // Transfers between brokers are stored as one adjustment on each side, sharing the transfer ID
+  transferId?: string;
+  counterpartBrokerId?: string;
+  counterpartBrokerName?: string; // Name at the time of the transfer, as brokers can be renamed or deleted
+}
+
+export type AbsenceType = 'vacation' | 'sickLeave' | 'other';
+
+// Days a broker is away. They are days off for that broker only: no entry is expected and they do not
+// count in averages, goal pacing or comparisons.
+export interface BrokerAbsence {
+  id: string;
+  type: AbsenceType;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  note?: string;
 }
 
 export interface BrokerProfile {
+  id: string; // Immutable identifier; the name can be edited and is not unique
   brokerName: string;
   initialLeads: number;
-  monthlySalesGoal?: number;
+  monthlySalesGoal?: number; // Legacy single goal, still used for months before the first goalHistory change
+  goalHistory?: Record<string, number>; // Sales goal keyed by the month (YYYY-MM) it starts applying
+  metricGoals?: MetricGoal[]; // Targets for other metrics and periods (visits per week, R$ per quarter...)
   dailyEntries: DailyEntry[];
+  leads?: Lead[]; // Optional per-lead tracking; brokers may keep using manual daily entries only
+  balanceAdjustments?: BalanceAdjustment[];
+  absences?: BrokerAbsence[];
+  archivedAt?: string; // ISO timestamp; archived brokers get no new entries but keep their history for reports
+  deletedAt?: string; // ISO timestamp the broker was moved to the trash, see TRASH_RETENTION_DAYS
+}
+
+export type UserRole = 'admin' | 'manager' | 'broker';
+
+// Someone who signs in on this device. Brokers are tied to their broker record and only reach that one.
+export interface UserAccount {
+  id: string;
+  name: string; // Shown in the sign-in list and recorded as the author of changes
+  role: UserRole;
+  brokerId?: string; // Required for the 'broker' role
+  pinHash: string; // PBKDF2 of the PIN, see utils/users.ts
+  pinSalt: string;
+  createdAt: string; // ISO timestamp
+}
+
+// What caused a change to an entry. Changes made by one action (a bulk edit, an import, a restore,
+// reverting a batch) share a batch ID so they can be reviewed and reverted together.
+export type AuditAction = 'create' | 'update' | 'delete' | 'bulkEdit' | 'import' | 'restore' | 'revert' | 'distribution' | 'sync' | 'review';
+
+// Append-only record of one change to one day of one broker.
+export interface AuditRecord {
+  id: string;
+  batchId: string;
+  action: AuditAction;
+  brokerId: string;
+  brokerName: string; // At the time of the change
+  date: string; // YYYY-MM-DD of the entry
+  before: DailyEntry | null; // null when the entry did not exist
+  after: DailyEntry | null; // null when the entry was deleted
+  author: string;
+  at: string; // ISO timestamp
+  revertsRecordId?: string; // Set on 'revert' records: the change that was undone
 }
 
 // FIX: Add LeadPerformanceData interface to resolve missing export errors.
@@ -0,0 +1,30 @@
+import type { BalanceAdjustment, BalanceAdjustmentReason } from '../types';
+
+export const adjustmentReasonLabels: Record<BalanceAdjustmentReason, string> = {
+  recount: 'Recontagem da carteira',
+  transfer: 'Transferência',
+  cleanup: 'Limpeza de dados',
+};
+
+// Reason shown in histories and reports; transfers name the other broker
+export const describeAdjustmentReason = (adjustment: BalanceAdjustment): string => {
+  if (!adjustment.transferId) return adjustmentReasonLabels[adjustment.reason];
+  return `${adjustment.amount < 0 ? 'Transferência para' : 'Transferência de'} ${adjustment.counterpartBrokerName || 'outro corretor'}`;
+};
+
+export const sumAdjustments = (adjustments: BalanceAdjustment[]): number =>
+  adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+export const filterAdjustmentsByMonth = (adjustments: BalanceAdjustment[], month: string): BalanceAdjustment[] =>
+  adjustments.filter(adjustment => adjustment.date.startsWith(month));
+
+// Oldest first; adjustments of the same day in the order they were made
+export const sortAdjustments = (adjustments: BalanceAdjustment[]): BalanceAdjustment[] =>
+  [...adjustments].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+
+// "+12" / "-40", as shown next to balances
+export const formatAdjustmentAmount = (amount: number): string => (amount > 0 ? `+${amount}` : String(amount));
+
+// Days with at least one adjustment, oldest first
+export const getAdjustmentDates = (adjustments: BalanceAdjustment[]): string[] =>
+  [...new Set(adjustments.map(adjustment => adjustment.date))].sort();
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { MonthCloseEvent } from '../types';
+import { getApprovedEntries, getClosedMonths, keepClosedMonthEntries, mergeMonthCloseLogs, withApprovedEntriesOnly } from './approval';
+import { defaultMetrics } from './metrics';
+import { buildTeamReportData } from './teamReport';
+import { broker, entry } from './testFixtures';
+
+describe('getApprovedEntries', () => {
+  it('keeps approved entries and the ones saved before approvals existed', () => {
+    const legacy = entry('2026-03-02');
+    const approved = entry('2026-03-03', { status: 'approved' });
+    const entries = [legacy, approved, entry('2026-03-04', { status: 'submitted' }), entry('2026-03-05', { status: 'rejected' })];
+
+    expect(getApprovedEntries(entries)).toEqual([legacy, approved]);
+  });
+
+  it('leaves the rest of the broker untouched', () => {
+    const ana = broker('a', [entry('2026-03-02', { status: 'submitted' }), entry('2026-03-03')], { brokerName: 'Ana', initialLeads: 10 });
+
+    const approvedOnly = withApprovedEntriesOnly(ana);
+
+    expect(approvedOnly).toMatchObject({ id: 'a', brokerName: 'Ana', initialLeads: 10 });
+    expect(approvedOnly.dailyEntries.map(e => e.date)).toEqual(['2026-03-03']);
+    expect(ana.dailyEntries).toHaveLength(2);
+  });
+
+  it('keeps entries waiting for approval out of the team report', () => {
+    const ana = broker('a', [
+      entry('2026-03-02', { newLeads: 4, signedLeads: 1 }),
+      entry('2026-03-03', { newLeads: 10, signedLeads: 5, status: 'submitted' }),
+      entry('2026-03-04', { newLeads: 20, status: 'rejected' }),
+    ]);
+
+    const [row] = buildTeamReportData([ana], defaultMetrics, [], { start: '2026-03-01', end: '2026-03-31' }).rows;
+
+    expect(row.totals.newLeads).toBe(4);
+    expect(row.sales).toBe(1);
+  });
+});
+
+const closeEvent = (id: string, month: string, action: MonthCloseEvent['action'], at: string): MonthCloseEvent => ({ id, month, action, author: 'Gerente', at });
+
+describe('month close', () => {
+  it('merges two copies of the log in time order, once per event', () => {
+    const closeMarch = closeEvent('e1', '2026-03', 'close', '2026-04-01T10:00:00.000Z');
+    const reopenMarch = closeEvent('e2', '2026-03', 'reopen', '2026-04-02T10:00:00.000Z');
+    const closeFebruary = closeEvent('e3', '2026-02', 'close', '2026-04-01T09:00:00.000Z');
+
+    const merged = mergeMonthCloseLogs([closeMarch, reopenMarch], [closeFebruary, closeMarch]);
+
+    expect(merged.map(event => event.id)).toEqual(['e3', 'e1', 'e2']);
+    expect([...getClosedMonths(merged)]).toEqual(['2026-02']);
+  });
+
+  it('keeps the current days of closed months when restoring a backup', () => {
+    const current = [
+      broker('a', [entry('2026-02-10', { newLeads: 1 }), entry('2026-03-10', { newLeads: 2 })]),
+      broker('b', [entry('2026-02-11', { newLeads: 3 }), entry('2026-03-11')]),
+    ];
+    const backup = [broker('a', [entry('2026-02-10', { newLeads: 9 }), entry('2026-02-12'), entry('2026-03-10', { newLeads: 8 })])];
+
+    const restored = keepClosedMonthEntries(backup, current, new Set(['2026-02']));
+
+    expect(restored.map(b => [b.id, b.dailyEntries.map(e => [e.date, e.newLeads])])).toEqual([
+      ['a', [['2026-03-10', 8], ['2026-02-10', 1]]],
+      ['b', [['2026-02-11', 3]]],
+    ]);
+  });
+});
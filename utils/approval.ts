@@ -0,0 +1,91 @@
+import type { BrokerProfile, DailyEntry, EntryStatus, MonthCloseEvent } from '../types';
+
+// Review workflow of daily entries and the monthly close that locks them.
+
+export const entryStatusLabels: Record<EntryStatus, string> = {
+  submitted: 'Aguardando aprovação',
+  approved: 'Aprovado',
+  rejected: 'Recusado',
+};
+
+// Entries saved before the workflow existed have no status and stay counted
+export const getEntryStatus = (entry: Pick<DailyEntry, 'status'>): EntryStatus => entry.status || 'approved';
+
+export const getApprovedEntries = (entries: DailyEntry[]): DailyEntry[] =>
+  entries.filter(entry => getEntryStatus(entry) === 'approved');
+
+// The broker as the team views (ranking, comparison, funnel, team report) count it
+export const withApprovedEntriesOnly = (broker: BrokerProfile): BrokerProfile => ({
+  ...broker,
+  dailyEntries: getApprovedEntries(broker.dailyEntries),
+});
+
+// Status of an entry being saved: users who approve entries approve their own; everyone else submits it
+// for review, which also sends a rejected entry back to the reviewer once it is corrected.
+export const withSaveStatus = (entry: DailyEntry, approvedBy: string | null): DailyEntry => {
+  const { status, review, ...data } = entry;
+  return approvedBy
+    ? { ...data, status: 'approved', review: { by: approvedBy, at: new Date().toISOString() } }
+    : { ...data, status: 'submitted' };
+};
+
+export const reviewEntry = (entry: DailyEntry, approved: boolean, reviewer: string, comment?: string): DailyEntry => ({
+  ...entry,
+  status: approved ? 'approved' : 'rejected',
+  review: { by: reviewer, at: new Date().toISOString(), ...(comment?.trim() ? { comment: comment.trim() } : {}) },
+});
+
+export interface PendingEntry {
+  brokerId: string;
+  brokerName: string;
+  entry: DailyEntry;
+}
+
+// Submitted entries of the given brokers, oldest first, as listed in the manager's inbox
+export const getPendingEntries = (brokers: BrokerProfile[]): PendingEntry[] =>
+  brokers
+    .flatMap(broker => broker.dailyEntries
+      .filter(entry => getEntryStatus(entry) === 'submitted')
+      .map(entry => ({ brokerId: broker.id, brokerName: broker.brokerName, entry })))
+    .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.brokerName.localeCompare(b.brokerName, 'pt-BR'));
+
+// --- Month close ---
+
+// Months whose last event is a close
+export const getClosedMonths = (log: MonthCloseEvent[]): Set<string> => {
+  const closed = new Set<string>();
+  for (const event of log) {
+    if (event.action === 'close') closed.add(event.month);
+    else closed.delete(event.month);
+  }
+  return closed;
+};
+
+// Events of two copies of the log, e.g. closes made on two devices before they synced, oldest first
+export const mergeMonthCloseLogs = (a: MonthCloseEvent[], b: MonthCloseEvent[]): MonthCloseEvent[] =>
+  [...new Map([...a, ...b].map(event => [event.id, event])).values()].sort((x, y) => x.at.localeCompare(y.at));
+
+export const isDateInClosedMonth = (closedMonths: Set<string>, date: string): boolean => closedMonths.has(date.slice(0, 7));
+
+// Restoring a backup replaces every day except those of closed months, which keep their current values.
+// Brokers missing from the backup are kept with just those days.
+export const keepClosedMonthEntries = (restored: BrokerProfile[], current: BrokerProfile[], closedMonths: Set<string>): BrokerProfile[] => {
+  const isLocked = (entry: DailyEntry) => isDateInClosedMonth(closedMonths, entry.date);
+  const lockedEntriesOf = (brokerId: string) => current.find(b => b.id === brokerId)?.dailyEntries.filter(isLocked) ?? [];
+  return [
+    ...restored.map(broker => ({
+      ...broker,
+      dailyEntries: [...broker.dailyEntries.filter(entry => !isLocked(entry)), ...lockedEntriesOf(broker.id)],
+    })),
+    ...current
+      .filter(broker => !restored.some(b => b.id === broker.id) && broker.dailyEntries.some(isLocked))
+      .map(broker => ({ ...broker, dailyEntries: broker.dailyEntries.filter(isLocked) })),
+  ];
+};
+
+// Only months that have ended can be closed
+export const canCloseMonth = (month: string, today: string): boolean => month < today.slice(0, 7);
+
+// "outubro de 2026"
+export const formatMonthLabel = (month: string): string =>
+  new Date(month + '-02T00:00:00').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
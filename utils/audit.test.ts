@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditRecord, DailyEntry } from '../types';
+import { applyEntryChanges, planRevert } from './audit';
+import { broker, entry } from './testFixtures';
+
+const record = (id: string, brokerId: string, before: DailyEntry | null, after: DailyEntry | null): AuditRecord => ({
+  id, batchId: 'batch', action: 'update', brokerId, brokerName: brokerId, date: (before || after)!.date,
+  before, after, author: 'Gerente', at: '2026-03-02T12:00:00.000Z',
+});
+
+describe('planRevert', () => {
+  it('puts each day back the way it was before the record', () => {
+    const before = entry('2026-03-02', { newLeads: 1 });
+    const after = entry('2026-03-02', { newLeads: 3 });
+    const brokers = [broker('a', [after])];
+
+    const plan = planRevert([record('r1', 'a', before, after)], brokers);
+
+    expect(plan.changes).toEqual([{ brokerId: 'a', date: '2026-03-02', entry: before }]);
+    expect(plan.revertsRecordIds).toEqual({ 'a|2026-03-02': 'r1' });
+    expect(plan.overwritten).toEqual([]);
+    expect(applyEntryChanges(brokers, plan.changes)[0].dailyEntries).toEqual([before]);
+  });
+
+  it('removes a created entry and brings back a deleted one', () => {
+    const created = entry('2026-03-02', { newLeads: 2 });
+    const deleted = entry('2026-03-03', { newLeads: 4 });
+    const brokers = [broker('a', [created])];
+
+    const plan = planRevert([record('r1', 'a', null, created), record('r2', 'a', deleted, null)], brokers);
+
+    expect(applyEntryChanges(brokers, plan.changes)[0].dailyEntries).toEqual([deleted]);
+  });
+
+  it('flags days changed again after the record', () => {
+    const before = entry('2026-03-02', { newLeads: 1 });
+    const after = entry('2026-03-02', { newLeads: 3 });
+    const laterChange = entry('2026-03-02', { newLeads: 7 });
+
+    const plan = planRevert([record('r1', 'a', before, after)], [broker('a', [laterChange])]);
+
+    expect(plan.overwritten.map(r => r.id)).toEqual(['r1']);
+    expect(plan.changes).toHaveLength(1);
+  });
+
+  it('ignores the recalculated balances when checking for later changes', () => {
+    const before = entry('2026-03-02');
+    const after = entry('2026-03-02', { newLeads: 3 });
+
+    const withBalances = { ...after, startOfDayBalance: 10, endOfDayBalance: 13 };
+
+    const plan = planRevert([record('r1', 'a', before, after)], [broker('a', [withBalances])]);
+
+    expect(plan.overwritten).toEqual([]);
+  });
+
+  it('leaves out days of brokers that no longer exist', () => {
+    const after = entry('2026-03-02', { newLeads: 3 });
+
+    const plan = planRevert([record('r1', 'gone', null, after)], [broker('a', [])]);
+
+    expect(plan.missingBroker.map(r => r.id)).toEqual(['r1']);
+    expect(plan.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,206 @@
+import type { AuditAction, AuditRecord, BrokerProfile, DailyEntry, DiscardReasonDefinition, MetricDefinition } from '../types';
+import { generateId } from './id';
+import { builtInMetricKeys, getMetricLabel, getMetricValue } from './metrics';
+import { describeEntryDiscards } from './discardReasons';
+import { entryStatusLabels, getEntryStatus } from './approval';
+
+// A write to one day of one broker; a null entry deletes the day.
+export interface EntryChange {
+  brokerId: string;
+  date: string;
+  entry: DailyEntry | null;
+}
+
+// Changes made together, as shown in the history panels.
+export interface AuditBatch {
+  batchId: string;
+  action: AuditAction;
+  author: string;
+  at: string;
+  records: AuditRecord[];
+}
+
+export interface FieldChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  create: 'Lançamento criado',
+  update: 'Lançamento alterado',
+  delete: 'Lançamento excluído',
+  bulkEdit: 'Edição em massa',
+  import: 'Importação de CSV',
+  restore: 'Restauração de backup',
+  revert: 'Reversão',
+  distribution: 'Distribuição de leads',
+  sync: 'Sincronização',
+  review: 'Revisão do gerente',
+};
+
+// The author is the user signed in on this device (see utils/users.ts); App sets it on sign-in and sign-out.
+let sessionAuthor = '';
+
+export const getAuditAuthor = (): string => sessionAuthor || 'Não identificado';
+
+export const setAuditAuthor = (name: string) => {
+  sessionAuthor = name.trim();
+};
+
+// Calculated balances are not part of the entry and never go into the log
+const toSnapshot = (entry: DailyEntry | null | undefined): DailyEntry | null => {
+  if (!entry) return null;
+  const { startOfDayBalance, endOfDayBalance, ...data } = entry as DailyEntry & { endOfDayBalance?: number };
+  return data;
+};
+
+// JSON with sorted keys, so that two entries with the same values compare equal
+export const canonical = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record).filter(key => record[key] !== undefined).sort().map(key => `${JSON.stringify(key)}:${canonical(record[key])}`).join(',')}}`;
+};
+
+export const isSameEntry = (a: DailyEntry | null | undefined, b: DailyEntry | null | undefined) =>
+  canonical(toSnapshot(a)) === canonical(toSnapshot(b));
+
+// Same values, whatever their review status
+export const isSameEntryData = (a: DailyEntry | null | undefined, b: DailyEntry | null | undefined) => {
+  const withoutReview = (entry: DailyEntry | null | undefined) => {
+    if (!entry) return null;
+    const { status, review, ...data } = entry;
+    return data;
+  };
+  return isSameEntry(withoutReview(a), withoutReview(b));
+};
+
+const findEntry = (brokers: BrokerProfile[], brokerId: string, date: string) =>
+  brokers.find(b => b.id === brokerId)?.dailyEntries.find(e => e.date === date) || null;
+
+// Turns changes into audit records, skipping the ones that change nothing. `brokers` is the state before
+// the changes. Without an action, each record is a create, update or delete according to what it did.
+export const createAuditRecords = (
+  brokers: BrokerProfile[],
+  changes: EntryChange[],
+  author: string,
+  action?: AuditAction,
+  revertsRecordIds: Record<string, string> = {} // Change key (brokerId|date) -> undone record
+): AuditRecord[] => {
+  const batchId = generateId();
+  const at = new Date().toISOString();
+  return changes.flatMap(change => {
+    const before = toSnapshot(findEntry(brokers, change.brokerId, change.date));
+    const after = toSnapshot(change.entry);
+    if (isSameEntry(before, after)) return [];
+    const record: AuditRecord = {
+      id: generateId(),
+      batchId,
+      action: action || (!before ? 'create' : after ? 'update' : 'delete'),
+      brokerId: change.brokerId,
+      brokerName: brokers.find(b => b.id === change.brokerId)?.brokerName ?? '',
+      date: change.date,
+      before,
+      after,
+      author,
+      at,
+    };
+    const revertsRecordId = revertsRecordIds[`${change.brokerId}|${change.date}`];
+    return [revertsRecordId ? { ...record, revertsRecordId } : record];
+  });
+};
+
+// Applies changes to the in-memory brokers; unknown brokers are ignored.
+export const applyEntryChanges = (brokers: BrokerProfile[], changes: EntryChange[]): BrokerProfile[] =>
+  brokers.map(broker => {
+    const own = changes.filter(change => change.brokerId === broker.id);
+    if (own.length === 0) return broker;
+    let entries = broker.dailyEntries;
+    for (const { date, entry } of own) {
+      if (!entry) entries = entries.filter(e => e.date !== date);
+      else if (entries.some(e => e.date === date)) entries = entries.map(e => (e.date === date ? entry : e));
+      else entries = [...entries, entry];
+    }
+    return { ...broker, dailyEntries: entries };
+  });
+
+// Entry changes between two versions of the whole data set, e.g. before and after restoring a backup.
+export const diffBrokerEntries = (before: BrokerProfile[], after: BrokerProfile[]): EntryChange[] => {
+  const changes: EntryChange[] = [];
+  const brokerIds = new Set([...before, ...after].map(b => b.id));
+  for (const brokerId of brokerIds) {
+    const beforeEntries = before.find(b => b.id === brokerId)?.dailyEntries || [];
+    const afterEntries = after.find(b => b.id === brokerId)?.dailyEntries || [];
+    const dates = new Set([...beforeEntries, ...afterEntries].map(e => e.date));
+    for (const date of dates) {
+      const entry = afterEntries.find(e => e.date === date) || null;
+      if (!isSameEntry(beforeEntries.find(e => e.date === date), entry)) changes.push({ brokerId, date, entry });
+    }
+  }
+  return changes;
+};
+
+export const groupAuditBatches = (records: AuditRecord[]): AuditBatch[] => {
+  const batches = new Map<string, AuditBatch>();
+  for (const record of records) {
+    const batch = batches.get(record.batchId);
+    if (batch) batch.records.push(record);
+    else batches.set(record.batchId, { batchId: record.batchId, action: record.action, author: record.author, at: record.at, records: [record] });
+  }
+  return [...batches.values()].sort((a, b) => b.at.localeCompare(a.at));
+};
+
+// IDs of the records that were undone by a later revert
+export const getRevertedRecordIds = (records: AuditRecord[]): Set<string> =>
+  new Set(records.map(record => record.revertsRecordId).filter((id): id is string => !!id));
+
+export interface RevertPlan {
+  changes: EntryChange[];
+  revertsRecordIds: Record<string, string>;
+  overwritten: AuditRecord[]; // Days changed again after the record; reverting discards those later changes
+  missingBroker: AuditRecord[]; // Days of brokers that no longer exist, which cannot be reverted
+}
+
+// Puts every day touched by the records back the way it was before them.
+export const planRevert = (records: AuditRecord[], brokers: BrokerProfile[]): RevertPlan => {
+  const plan: RevertPlan = { changes: [], revertsRecordIds: {}, overwritten: [], missingBroker: [] };
+  for (const record of records) {
+    if (!brokers.some(b => b.id === record.brokerId)) {
+      plan.missingBroker.push(record);
+      continue;
+    }
+    if (!isSameEntry(findEntry(brokers, record.brokerId, record.date), record.after)) plan.overwritten.push(record);
+    plan.changes.push({ brokerId: record.brokerId, date: record.date, entry: record.before });
+    plan.revertsRecordIds[`${record.brokerId}|${record.date}`] = record.id;
+  }
+  return plan;
+};
+
+// Fields that differ between the before and after values of a record, formatted for display.
+export const describeFieldChanges = (
+  record: AuditRecord,
+  metrics: MetricDefinition[],
+  discardReasons: DiscardReasonDefinition[]
+): FieldChange[] => {
+  const before: Partial<DailyEntry> = record.before || {};
+  const after: Partial<DailyEntry> = record.after || {};
+  const customKeys = new Set([...Object.keys(before.customMetrics || {}), ...Object.keys(after.customMetrics || {})]);
+  const changes: FieldChange[] = [...builtInMetricKeys, ...customKeys]
+    .filter(key => getMetricValue(before, key) !== getMetricValue(after, key))
+    .map(key => ({ label: getMetricLabel(metrics, key), before: String(getMetricValue(before, key)), after: String(getMetricValue(after, key)) }));
+  const discardsBefore = describeEntryDiscards(before, discardReasons);
+  const discardsAfter = describeEntryDiscards(after, discardReasons);
+  if (discardsBefore !== discardsAfter) {
+    changes.push({ label: 'Motivos do Descarte', before: discardsBefore || '-', after: discardsAfter || '-' });
+  } else if ((before.discardReason || '') !== (after.discardReason || '')) {
+    changes.push({ label: 'Descrição de "Outros"', before: before.discardReason || '-', after: after.discardReason || '-' });
+  }
+  if (record.before && record.after && getEntryStatus(before) !== getEntryStatus(after)) {
+    changes.push({ label: 'Situação', before: entryStatusLabels[getEntryStatus(before)], after: entryStatusLabels[getEntryStatus(after)] });
+  }
+  if (after.review?.comment && after.review.comment !== before.review?.comment) {
+    changes.push({ label: 'Comentário', before: before.review?.comment || '-', after: after.review.comment });
+  }
+  return changes;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { BrokerProfile } from '../types';
+import { applyMerge, diffBackup, getDayChoiceKey, getDefaultMergeChoices } from './backupMerge';
+import { broker, entry } from './testFixtures';
+
+const datesOf = (profile: BrokerProfile) => profile.dailyEntries.map(e => e.date).sort();
+
+describe('applyMerge', () => {
+  it('adds missing days and keeps local-only days with the default choices', () => {
+    const local = [broker('a', [entry('2026-03-02', { newLeads: 1 })], { brokerName: 'Ana' })];
+    const incoming = [broker('a', [entry('2026-03-03', { newLeads: 2 })], { brokerName: 'Ana' })];
+    const diffs = diffBackup(local, incoming);
+
+    const [merged] = applyMerge(local, diffs, getDefaultMergeChoices(diffs));
+
+    expect(merged.id).toBe('a');
+    expect(datesOf(merged)).toEqual(['2026-03-02', '2026-03-03']);
+  });
+
+  it('keeps the local value of a conflicting day unless the backup is chosen for it', () => {
+    const local = [broker('a', [entry('2026-03-02', { newLeads: 1 })], { brokerName: 'Ana' })];
+    const incoming = [broker('a', [entry('2026-03-02', { newLeads: 5 })], { brokerName: 'Ana' })];
+    const diffs = diffBackup(local, incoming);
+    const choices = getDefaultMergeChoices(diffs);
+
+    expect(diffs[0].days[0].status).toBe('conflicting');
+    expect(applyMerge(local, diffs, choices)[0].dailyEntries[0].newLeads).toBe(1);
+
+    choices.days[getDayChoiceKey(diffs[0].key, '2026-03-02')] = 'incoming';
+    expect(applyMerge(local, diffs, choices)[0].dailyEntries[0].newLeads).toBe(5);
+  });
+
+  it('takes the backup profile without changing the local ID', () => {
+    const local = [broker('a', [], { brokerName: 'Ana' })];
+    const incoming = [broker('', [], { brokerName: 'ana', initialLeads: 40 })];
+    const diffs = diffBackup(local, incoming);
+
+    const [merged] = applyMerge(local, diffs, { ...getDefaultMergeChoices(diffs), brokers: { [diffs[0].key]: 'incoming' } });
+
+    expect(merged).toMatchObject({ id: 'a', brokerName: 'ana', initialLeads: 40 });
+  });
+
+  it('adds a broker listed twice in the backup as a separate broker instead of overwriting the first', () => {
+    const local = [broker('a', [entry('2026-03-02')], { brokerName: 'Ana' })];
+    const incoming = [broker('a', [entry('2026-03-03')], { brokerName: 'Ana' }), broker('a', [entry('2026-03-04')], { brokerName: 'Ana' })];
+    const diffs = diffBackup(local, incoming);
+
+    expect(diffs.map(diff => diff.status)).toEqual(['changed', 'added']);
+
+    const merged = applyMerge(local, diffs, getDefaultMergeChoices(diffs));
+
+    expect(merged).toHaveLength(2);
+    expect(datesOf(merged[0])).toEqual(['2026-03-02', '2026-03-03']);
+    expect(merged[1].id).not.toBe('a');
+    expect(datesOf(merged[1])).toEqual(['2026-03-04']);
+  });
+
+  it('lets an ID match win over an earlier name match for the same local broker', () => {
+    const local = [broker('a', [], { brokerName: 'Ana' })];
+    const incoming = [broker('', [entry('2026-03-03')], { brokerName: 'Ana' }), broker('a', [entry('2026-03-04')], { brokerName: 'Ana Paula' })];
+
+    const diffs = diffBackup(local, incoming);
+
+    expect(diffs[0].local).toBeUndefined();
+    expect(diffs[1].local?.id).toBe('a');
+  });
+
+  it('keeps brokers missing from the backup and skips added brokers that were declined', () => {
+    const local = [broker('a', [], { brokerName: 'Ana' }), broker('b', [], { brokerName: 'Bruno' })];
+    const incoming = [broker('c', [entry('2026-03-02')], { brokerName: 'Carla' })];
+    const diffs = diffBackup(local, incoming);
+
+    expect(applyMerge(local, diffs, getDefaultMergeChoices(diffs)).map(b => b.id)).toEqual(['a', 'b', 'c']);
+    expect(applyMerge(local, diffs, { brokers: { [diffs[0].key]: 'local' }, days: {} }).map(b => b.id)).toEqual(['a', 'b']);
+  });
+});
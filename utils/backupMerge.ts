@@ -0,0 +1,197 @@
+import type { BalanceAdjustment, BrokerAbsence, BrokerProfile, DailyEntry, Lead } from '../types';
+import { builtInMetricKeys, getMetricValue } from './metrics';
+import { compactDiscardCounts } from './discardReasons';
+import { generateId } from './id';
+
+export type MergeStatus = 'added' | 'changed' | 'identical' | 'conflicting';
+export type MergeSide = 'local' | 'incoming';
+
+export interface DayDiff {
+  date: string;
+  // 'localOnly' days are not in the backup and are always kept
+  status: MergeStatus | 'localOnly';
+  local?: DailyEntry;
+  incoming?: DailyEntry;
+  differingFields: string[]; // Metric keys, plus 'discardReason' and 'discardReasonCounts'
+}
+
+export interface BrokerDiff {
+  key: string; // Identifies the diff in the merge choices
+  local?: BrokerProfile;
+  incoming: BrokerProfile;
+  status: MergeStatus;
+  profileFields: string[]; // Profile fields that differ: brokerName, initialLeads, goals
+  days: DayDiff[];
+}
+
+export interface MergeChoices {
+  brokers: Record<string, MergeSide>; // Profile winner; for added brokers 'local' means "do not add"
+  days: Record<string, MergeSide>; // Keyed by getDayChoiceKey
+}
+
+export const getDayChoiceKey = (brokerKey: string, date: string) => `${brokerKey}|${date}`;
+
+const getEntryFields = (entries: DailyEntry[]) => {
+  const customKeys = new Set<string>();
+  entries.forEach(entry => Object.keys(entry.customMetrics || {}).forEach(key => customKeys.add(key)));
+  return [...builtInMetricKeys, ...customKeys];
+};
+
+const sameDiscardCounts = (local: DailyEntry, incoming: DailyEntry) => {
+  const localCounts = compactDiscardCounts(local.discardReasonCounts);
+  const incomingCounts = compactDiscardCounts(incoming.discardReasonCounts);
+  const keys = new Set([...Object.keys(localCounts), ...Object.keys(incomingCounts)]);
+  return [...keys].every(key => localCounts[key] === incomingCounts[key]);
+};
+
+const compareDay = (local: DailyEntry, incoming: DailyEntry): DayDiff => {
+  const differingFields = getEntryFields([local, incoming])
+    .filter(key => getMetricValue(local, key) !== getMetricValue(incoming, key));
+  if ((local.discardReason || '') !== (incoming.discardReason || '')) differingFields.push('discardReason');
+  if (!sameDiscardCounts(local, incoming)) differingFields.push('discardReasonCounts');
+
+  let status: MergeStatus = 'identical';
+  if (differingFields.length > 0) {
+    // The backup only filling blanks is a plain change; overwriting something already recorded is a conflict
+    const overwritesLocalData = differingFields.some(field =>
+      field === 'discardReason' ? !!local.discardReason
+        : field === 'discardReasonCounts' ? Object.keys(compactDiscardCounts(local.discardReasonCounts)).length > 0
+        : getMetricValue(local, field) !== 0
+    );
+    status = overwritesLocalData ? 'conflicting' : 'changed';
+  }
+  return { date: local.date, status, local, incoming, differingFields };
+};
+
+const getProfileDifferences = (local: BrokerProfile, incoming: BrokerProfile): string[] => {
+  const fields: string[] = [];
+  if (local.brokerName !== incoming.brokerName) fields.push('brokerName');
+  if (local.initialLeads !== incoming.initialLeads) fields.push('initialLeads');
+  if (JSON.stringify(local.goalHistory || {}) !== JSON.stringify(incoming.goalHistory || {}) ||
+      JSON.stringify(local.metricGoals || []) !== JSON.stringify(incoming.metricGoals || []) ||
+      (local.monthlySalesGoal || 0) !== (incoming.monthlySalesGoal || 0)) {
+    fields.push('goals');
+  }
+  return fields;
+};
+
+const isSameName = (a: BrokerProfile, b: BrokerProfile) => a.brokerName.trim().toLowerCase() === b.brokerName.trim().toLowerCase();
+
+// Brokers are matched by ID; backups made before brokers had IDs are matched by name. Each local broker
+// is matched once, ID matches first: a second backup broker pointing at it is treated as added, since
+// merging both into it would let the second overwrite the first.
+const matchLocalBrokers = (localBrokers: BrokerProfile[], incomingBrokers: BrokerProfile[]): (BrokerProfile | undefined)[] => {
+  const matchedIds = new Set<string>();
+  const claim = (local: BrokerProfile | undefined) => {
+    if (!local || matchedIds.has(local.id)) return undefined;
+    matchedIds.add(local.id);
+    return local;
+  };
+  const findById = (incoming: BrokerProfile) => (incoming.id ? localBrokers.find(b => b.id === incoming.id) : undefined);
+  const idMatches = incomingBrokers.map(incoming => claim(findById(incoming)));
+  return incomingBrokers.map((incoming, index) =>
+    findById(incoming) ? idMatches[index] : claim(localBrokers.find(b => !matchedIds.has(b.id) && isSameName(b, incoming)))
+  );
+};
+
+export const diffBackup = (localBrokers: BrokerProfile[], incomingBrokers: BrokerProfile[]): BrokerDiff[] => {
+  const localMatches = matchLocalBrokers(localBrokers, incomingBrokers);
+  return incomingBrokers.map((incoming, index): BrokerDiff => {
+    const key = `${incoming.id || 'sem-id'}#${index}`;
+    const local = localMatches[index];
+    if (!local) {
+      const days = incoming.dailyEntries.map(entry => ({ date: entry.date, status: 'added' as const, incoming: entry, differingFields: [] }));
+      return { key, incoming, status: 'added', profileFields: [], days };
+    }
+
+    const dates = [...new Set([...local.dailyEntries, ...incoming.dailyEntries].map(e => e.date))].sort();
+    const days: DayDiff[] = dates.map(date => {
+      const localEntry = local.dailyEntries.find(e => e.date === date);
+      const incomingEntry = incoming.dailyEntries.find(e => e.date === date);
+      if (!incomingEntry) return { date, status: 'localOnly', local: localEntry, differingFields: [] };
+      if (!localEntry) return { date, status: 'added', incoming: incomingEntry, differingFields: [] };
+      return compareDay(localEntry, incomingEntry);
+    });
+
+    const profileFields = getProfileDifferences(local, incoming);
+    let status: MergeStatus = 'identical';
+    if (profileFields.length > 0 || days.some(d => d.status === 'conflicting')) status = 'conflicting';
+    else if (days.some(d => d.status === 'added' || d.status === 'changed')) status = 'changed';
+    return { key, local, incoming, status, profileFields, days };
+  });
+};
+
+// Adding whatever is missing is always safe, so by default the backup wins for added and changed days
+// while the data on this device wins every conflict until the user says otherwise.
+export const getDefaultMergeChoices = (diffs: BrokerDiff[]): MergeChoices => {
+  const choices: MergeChoices = { brokers: {}, days: {} };
+  for (const diff of diffs) {
+    choices.brokers[diff.key] = diff.status === 'added' ? 'incoming' : 'local';
+    for (const day of diff.days) {
+      if (day.status === 'added' || day.status === 'changed') choices.days[getDayChoiceKey(diff.key, day.date)] = 'incoming';
+      if (day.status === 'conflicting') choices.days[getDayChoiceKey(diff.key, day.date)] = 'local';
+    }
+  }
+  return choices;
+};
+
+const lastChangeOf = (lead: Lead) => lead.history[lead.history.length - 1]?.at || lead.createdAt;
+
+// Leads are merged by ID; when both sides have the same lead, the one moved most recently wins.
+const mergeLeads = (local: Lead[] = [], incoming: Lead[] = []): Lead[] => {
+  const merged = new Map(local.map(lead => [lead.id, lead]));
+  for (const lead of incoming) {
+    const existing = merged.get(lead.id);
+    if (!existing || lastChangeOf(lead) > lastChangeOf(existing)) merged.set(lead.id, lead);
+  }
+  return [...merged.values()];
+};
+
+// Adjustments are never edited, so they are matched by ID and the ones only in the backup are added.
+const mergeBalanceAdjustments = (local: BalanceAdjustment[] = [], incoming: BalanceAdjustment[] = []): BalanceAdjustment[] => [
+  ...local,
+  ...incoming.filter(adjustment => !local.some(a => a.id === adjustment.id)),
+];
+
+// Absences are added and removed but never edited, so they merge like adjustments
+const mergeAbsences = (local: BrokerAbsence[] = [], incoming: BrokerAbsence[] = []): BrokerAbsence[] => [
+  ...local,
+  ...incoming.filter(absence => !local.some(a => a.id === absence.id)),
+];
+
+// Builds the complete broker list to store: brokers missing from the backup are kept as they are.
+export const applyMerge = (localBrokers: BrokerProfile[], diffs: BrokerDiff[], choices: MergeChoices): BrokerProfile[] => {
+  const mergedById = new Map<string, BrokerProfile>();
+  const added: BrokerProfile[] = [];
+  const usedIds = new Set(localBrokers.map(broker => broker.id));
+
+  for (const diff of diffs) {
+    const brokerSide = choices.brokers[diff.key];
+    if (!diff.local) {
+      if (brokerSide !== 'incoming') continue;
+      // A backup listing the same broker twice adds the extra copy, which needs an ID of its own
+      const id = diff.incoming.id && !usedIds.has(diff.incoming.id) ? diff.incoming.id : generateId();
+      usedIds.add(id);
+      added.push({ ...diff.incoming, id });
+      continue;
+    }
+    const { dailyEntries: _local, ...localProfile } = diff.local;
+    const { dailyEntries: _incoming, id: _incomingId, ...incomingProfile } = diff.incoming;
+    const profile = brokerSide === 'incoming' ? { ...localProfile, ...incomingProfile, id: diff.local.id } : localProfile;
+    const dailyEntries = diff.days
+      .map(day => {
+        if (day.status === 'localOnly' || day.status === 'identical') return day.local;
+        return choices.days[getDayChoiceKey(diff.key, day.date)] === 'incoming' ? day.incoming : day.local;
+      })
+      .filter((entry): entry is DailyEntry => !!entry);
+    mergedById.set(diff.local.id, {
+      ...profile,
+      leads: mergeLeads(diff.local.leads, diff.incoming.leads),
+      balanceAdjustments: mergeBalanceAdjustments(diff.local.balanceAdjustments, diff.incoming.balanceAdjustments),
+      absences: mergeAbsences(diff.local.absences, diff.incoming.absences),
+      dailyEntries,
+    });
+  }
+
+  return [...localBrokers.map(broker => mergedById.get(broker.id) || broker), ...added];
+};
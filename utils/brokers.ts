@@ -0,0 +1,63 @@
+import type { BrokerProfile } from '../types';
+import { generateId } from './id';
+
+export const getDraftKey = (brokerId: string, date: string) => `draft_entry_${brokerId}_${date}`;
+
+// Older versions keyed drafts by broker name. Moves them to the ID-based key so that
+// unsaved work survives the upgrade (and later renames).
+const migrateNameBasedDrafts = (brokerName: string, brokerId: string) => {
+  try {
+    const legacyPrefix = `draft_entry_${brokerName}_`;
+    const legacyKeys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      // The suffix check avoids picking up drafts of a broker whose name merely starts with this one
+      if (key && key.startsWith(legacyPrefix) && /^\d{4}-\d{2}-\d{2}$/.test(key.slice(legacyPrefix.length))) {
+        legacyKeys.push(key);
+      }
+    }
+    for (const key of legacyKeys) {
+      const draft = localStorage.getItem(key);
+      const newKey = getDraftKey(brokerId, key.slice(legacyPrefix.length));
+      if (draft !== null && localStorage.getItem(newKey) === null) {
+        localStorage.setItem(newKey, draft);
+      }
+      localStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error("Failed to migrate drafts for broker", brokerName, error);
+  }
+};
+
+// Gives every broker an immutable ID, keeping existing ones. Used for data saved by
+// older versions (localStorage and backup files) that identified brokers by name.
+export const ensureBrokerIds = (brokers: BrokerProfile[]): BrokerProfile[] => {
+  const seenIds = new Set<string>();
+  return brokers.map(broker => {
+    if (typeof broker.id === 'string' && broker.id && !seenIds.has(broker.id)) {
+      seenIds.add(broker.id);
+      return broker;
+    }
+    const id = generateId();
+    seenIds.add(id);
+    migrateNameBasedDrafts(broker.brokerName, id);
+    return { ...broker, id };
+  });
+};
+
+// Deleted brokers stay in the trash, with all their entries, for this many days before being purged.
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isInTrash = (broker: BrokerProfile) => !!broker.deletedAt;
+
+// Active brokers are the ones that still receive daily entries
+export const isActiveBroker = (broker: BrokerProfile) => !broker.deletedAt && !broker.archivedAt;
+
+export const getTrashExpiry = (broker: BrokerProfile): Date =>
+  new Date(new Date(broker.deletedAt!).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+// Brokers whose time in the trash is over and that can be deleted for good.
+export const getExpiredTrash = (brokers: BrokerProfile[], now: Date = new Date()): BrokerProfile[] =>
+  brokers.filter(broker => isInTrash(broker) && getTrashExpiry(broker).getTime() <= now.getTime());
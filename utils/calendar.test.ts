@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import type { AgencyCalendar } from '../types';
+import { countWorkingDays, createDefaultCalendar, createWorkingDayCheck } from './calendar';
+
+// March 2026 starts on a Sunday and has 22 weekdays
+const calendar: AgencyCalendar = { ...createDefaultCalendar(), holidays: [{ date: '2026-03-19', name: 'São José', scope: 'municipal' }] };
+
+describe('countWorkingDays', () => {
+  it('counts the working weekdays between two dates, both included', () => {
+    const isWorkingDay = createWorkingDayCheck(createDefaultCalendar());
+
+    expect(countWorkingDays(isWorkingDay, '2026-03-01', '2026-03-31')).toBe(22);
+    expect(countWorkingDays(isWorkingDay, '2026-03-02', '2026-03-02')).toBe(1);
+    expect(countWorkingDays(isWorkingDay, '2026-03-07', '2026-03-08')).toBe(0);
+  });
+
+  it('leaves out holidays and the absences of the broker', () => {
+    const absences = [{ id: 'v', type: 'vacation' as const, startDate: '2026-03-23', endDate: '2026-03-27' }];
+
+    expect(countWorkingDays(createWorkingDayCheck(calendar), '2026-03-01', '2026-03-31')).toBe(21);
+    expect(countWorkingDays(createWorkingDayCheck(calendar, absences), '2026-03-01', '2026-03-31')).toBe(16);
+  });
+
+  it('follows the weekdays the agency works', () => {
+    const withSaturdays = createWorkingDayCheck({ ...createDefaultCalendar(), workingWeekdays: [1, 2, 3, 4, 5, 6] });
+
+    expect(countWorkingDays(withSaturdays, '2026-03-01', '2026-03-31')).toBe(26);
+  });
+});
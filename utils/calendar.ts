@@ -0,0 +1,142 @@
+import type { AbsenceType, AgencyCalendar, BrokerAbsence, Holiday, HolidayScope } from '../types';
+import { parseCsv, parsePtBrDate } from './csv';
+import { addDays, parseDate } from './date';
+
+// Working days of the agency and of each broker: weekdays the agency works, minus holidays and absences.
+// Bulk edit, forecasts, daily averages and comparisons only count these days.
+
+const sortHolidays = (holidays: Holiday[]) => [...holidays].sort((a, b) => a.date.localeCompare(b.date));
+
+export const createDefaultCalendar = (): AgencyCalendar => ({
+  workingWeekdays: [1, 2, 3, 4, 5], // Monday to Friday
+  holidays: [],
+});
+
+export const normalizeCalendar = (saved: Partial<AgencyCalendar> | undefined | null): AgencyCalendar => ({
+  workingWeekdays: Array.isArray(saved?.workingWeekdays) ? saved.workingWeekdays : createDefaultCalendar().workingWeekdays,
+  holidays: Array.isArray(saved?.holidays) ? sortHolidays(saved.holidays) : [],
+});
+
+// Indexed by Date.getDay()
+export const weekdayLabels = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+export const holidayScopeLabels: Record<HolidayScope, string> = {
+  national: 'Nacional',
+  municipal: 'Municipal',
+};
+
+export const absenceTypeLabels: Record<AbsenceType, string> = {
+  vacation: 'Férias',
+  sickLeave: 'Atestado médico',
+  other: 'Outra ausência',
+};
+
+export const getHoliday = (calendar: AgencyCalendar, date: string): Holiday | undefined =>
+  calendar.holidays.find(holiday => holiday.date === date);
+
+export const getAbsenceOn = (absences: BrokerAbsence[] | undefined, date: string): BrokerAbsence | undefined =>
+  (absences || []).find(absence => absence.startDate <= date && date <= absence.endDate);
+
+// Tells whether a date (YYYY-MM-DD) is a working day. Built once per calendar and broker, as it is
+// called for every day of the periods being counted.
+export type WorkingDayCheck = (date: string) => boolean;
+
+export const createWorkingDayCheck = (calendar: AgencyCalendar, absences: BrokerAbsence[] = []): WorkingDayCheck => {
+  const weekdays = new Set(calendar.workingWeekdays);
+  const holidays = new Set(calendar.holidays.map(holiday => holiday.date));
+  return date => weekdays.has(parseDate(date).getDay()) && !holidays.has(date) && !getAbsenceOn(absences, date);
+};
+
+// Why a date is a day off, e.g. "Feriado: Natal" or "Férias", or null on working days
+export const describeDayOff = (calendar: AgencyCalendar, absences: BrokerAbsence[] | undefined, date: string): string | null => {
+  const absence = getAbsenceOn(absences, date);
+  if (absence) return absence.note ? `${absenceTypeLabels[absence.type]} (${absence.note})` : absenceTypeLabels[absence.type];
+  const holiday = getHoliday(calendar, date);
+  if (holiday) return `Feriado: ${holiday.name}`;
+  const weekday = parseDate(date).getDay();
+  return calendar.workingWeekdays.includes(weekday) ? null : `${weekdayLabels[weekday]}, dia sem expediente`;
+};
+
+// Working days between two dates (YYYY-MM-DD), both inclusive.
+export const listWorkingDays = (isWorkingDay: WorkingDayCheck, start: string, end: string): string[] => {
+  const days: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (isWorkingDay(date)) days.push(date);
+  }
+  return days;
+};
+
+export const countWorkingDays = (isWorkingDay: WorkingDayCheck, start: string, end: string): number =>
+  listWorkingDays(isWorkingDay, start, end).length;
+
+// --- Holidays ---
+
+// Easter Sunday (anonymous Gregorian algorithm), the base of the movable holidays
+const getEasterDate = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// National holidays of Brazil in a year. Carnival and Corpus Christi are optional days off decided
+// locally, so they are left to the imported municipal list.
+export const getNationalHolidays = (year: number): Holiday[] => {
+  const fixed: [string, string][] = [
+    ['01-01', 'Confraternização Universal'],
+    ['04-21', 'Tiradentes'],
+    ['05-01', 'Dia do Trabalho'],
+    ['09-07', 'Independência do Brasil'],
+    ['10-12', 'Nossa Senhora Aparecida'],
+    ['11-02', 'Finados'],
+    ['11-15', 'Proclamação da República'],
+    ...(year >= 2024 ? [['11-20', 'Dia Nacional de Zumbi e da Consciência Negra'] as [string, string]] : []),
+    ['12-25', 'Natal'],
+  ];
+  return sortHolidays([
+    ...fixed.map(([day, name]) => ({ date: `${year}-${day}`, name, scope: 'national' as const })),
+    { date: addDays(getEasterDate(year), -2), name: 'Sexta-feira Santa', scope: 'national' },
+  ]);
+};
+
+export interface HolidayImportResult {
+  holidays: Holiday[];
+  skippedLines: number; // Non-empty lines without a valid date and name
+}
+
+// Reads a holiday list with one holiday per line: date (dd/mm/aaaa or aaaa-mm-dd), name and, optionally,
+// "nacional" or "municipal". Lines without a valid date, such as a header, are reported and skipped.
+export const parseHolidayList = (text: string, defaultScope: HolidayScope = 'municipal'): HolidayImportResult => {
+  const holidays: Holiday[] = [];
+  let skippedLines = 0;
+  parseCsv(text).forEach(row => {
+    const date = parsePtBrDate(row[0] || '');
+    const name = (row[1] || '').trim();
+    if (!date || !name) {
+      skippedLines++;
+      return;
+    }
+    const scopeText = (row[2] || '').trim().toLowerCase();
+    const scope: HolidayScope = scopeText.startsWith('nac') ? 'national' : scopeText.startsWith('mun') ? 'municipal' : defaultScope;
+    holidays.push({ date, name, scope });
+  });
+  return { holidays, skippedLines };
+};
+
+// One holiday per date: the added ones replace what was registered for the same day
+export const mergeHolidays = (current: Holiday[], added: Holiday[]): Holiday[] => {
+  const byDate = new Map(current.map(holiday => [holiday.date, holiday]));
+  for (const holiday of added) byDate.set(holiday.date, holiday);
+  return sortHolidays([...byDate.values()]);
+};
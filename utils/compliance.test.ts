@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultCalendar, createWorkingDayCheck } from './calendar';
+import { getEntryCompliance, getEntryReminderReason } from './compliance';
+import { broker, entry } from './testFixtures';
+
+// Monday 2 to Friday 13 of March 2026: ten working days
+const range = { start: '2026-03-02', end: '2026-03-13' };
+const isWorkingDay = createWorkingDayCheck(createDefaultCalendar());
+
+describe('getEntryCompliance', () => {
+  it('lists the working days without an entry, counting entries of any status as filled', () => {
+    const ana = broker('a', [entry('2026-03-02'), entry('2026-03-03', { status: 'submitted' }), entry('2026-03-04', { status: 'rejected' }), entry('2026-03-07')]);
+
+    const compliance = getEntryCompliance(ana, isWorkingDay, range);
+
+    expect(compliance).toMatchObject({ expectedDays: 10, filledDays: 3, percentage: 30 });
+    expect(compliance.missingDates).toEqual(['2026-03-05', '2026-03-06', '2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13']);
+  });
+
+  it('does not expect days before the first entry of the broker', () => {
+    const compliance = getEntryCompliance(broker('a', [entry('2026-03-10'), entry('2026-03-11')]), isWorkingDay, range);
+
+    expect(compliance).toMatchObject({ expectedDays: 4, filledDays: 2, missingDates: ['2026-03-12', '2026-03-13'] });
+  });
+
+  it('expects nothing from a broker whose entries start after the range', () => {
+    expect(getEntryCompliance(broker('a', [entry('2026-04-01')]), isWorkingDay, range)).toMatchObject({ expectedDays: 0, percentage: null });
+  });
+});
+
+describe('getEntryReminderReason', () => {
+  const settings = { enabled: true, time: '18:00' };
+  const evening = new Date(2026, 2, 2, 18, 30);
+
+  it('reminds about a missing or draft entry after the reminder time of a working day', () => {
+    expect(getEntryReminderReason(settings, evening, true, false, false)).toBe('missing');
+    expect(getEntryReminderReason(settings, evening, true, false, true)).toBe('draft');
+  });
+
+  it('stays quiet before the time, on days off, once saved or when turned off', () => {
+    expect(getEntryReminderReason(settings, new Date(2026, 2, 2, 17, 59), true, false, false)).toBeNull();
+    expect(getEntryReminderReason(settings, evening, false, false, false)).toBeNull();
+    expect(getEntryReminderReason(settings, evening, true, true, false)).toBeNull();
+    expect(getEntryReminderReason({ ...settings, enabled: false }, evening, true, false, false)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import type { BrokerProfile, EntryReminderSettings } from '../types';
+import { listWorkingDays, type WorkingDayCheck } from './calendar';
+import type { DateRange } from './funnel';
+
+// Which working days each broker left without an entry, and the daily reminder about today's entry.
+
+export const defaultEntryReminder: EntryReminderSettings = {
+  enabled: true,
+  time: '18:00',
+};
+
+export interface EntryCompliance {
+  brokerId: string;
+  brokerName: string;
+  expectedDays: number; // Working days of the broker in the range
+  filledDays: number;
+  percentage: number | null; // null when no day was expected
+  missingDates: string[]; // Oldest first
+}
+
+// Working days in the range with no saved entry. Days before the broker's first entry are not expected,
+// so a broker who joined mid-month is not shown as missing the days before they started.
+// Entries waiting for approval or rejected still count as filled: the day was logged.
+export const getEntryCompliance = (broker: BrokerProfile, isWorkingDay: WorkingDayCheck, range: DateRange): EntryCompliance => {
+  const firstEntryDate = broker.dailyEntries.reduce<string | null>((first, entry) => (first === null || entry.date < first ? entry.date : first), null);
+  const start = firstEntryDate && firstEntryDate > range.start ? firstEntryDate : range.start;
+  const expected = start <= range.end ? listWorkingDays(isWorkingDay, start, range.end) : [];
+  const filled = new Set(broker.dailyEntries.map(entry => entry.date));
+  const missingDates = expected.filter(date => !filled.has(date));
+  return {
+    brokerId: broker.id,
+    brokerName: broker.brokerName,
+    expectedDays: expected.length,
+    filledDays: expected.length - missingDates.length,
+    percentage: expected.length > 0 ? ((expected.length - missingDates.length) / expected.length) * 100 : null,
+    missingDates,
+  };
+};
+
+// What today's reminder is about: no entry at all, or work typed in the form but never saved
+export type EntryReminderReason = 'missing' | 'draft';
+
+export const getEntryReminderReason = (
+  settings: EntryReminderSettings,
+  now: Date,
+  isWorkingToday: boolean,
+  hasEntry: boolean,
+  hasDraft: boolean
+): EntryReminderReason | null => {
+  const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+  if (!settings.enabled || !isWorkingToday || hasEntry || currentTime < settings.time) return null;
+  return hasDraft ? 'draft' : 'missing';
+};
+
+export const entryReminderMessages: Record<EntryReminderReason, string> = {
+  missing: 'Você ainda não lançou as atividades de hoje.',
+  draft: 'O lançamento de hoje está só como rascunho. Salve para que ele conte.',
+};
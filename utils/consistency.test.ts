@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { BrokerProfile } from '../types';
+import type { EntryChange } from './audit';
+import { createDefaultRuleSeverities, findIntroducedIssues } from './consistency';
+import { defaultMetrics } from './metrics';
+import { broker, entry } from './testFixtures';
+
+const severities = createDefaultRuleSeverities();
+const today = '2026-03-31';
+
+const issuesOf = (...args: Parameters<typeof findIntroducedIssues>) =>
+  findIntroducedIssues(...args).map(issue => `${issue.brokerId} ${issue.date} ${issue.ruleId}`);
+
+// The day as saved in the given broker
+const changeOf = (profile: BrokerProfile, date: string): EntryChange => ({
+  brokerId: profile.id, date, entry: profile.dailyEntries.find(e => e.date === date) || null,
+});
+
+describe('findIntroducedIssues', () => {
+  it('reports every issue of a changed day but not old issues of untouched days', () => {
+    const before = [broker('a', [entry('2026-03-02', { signedLeads: 2 }), entry('2026-03-03', { signedLeads: 1 })], { initialLeads: 10 })];
+    const after = [broker('a', [entry('2026-03-02', { signedLeads: 2 }), entry('2026-03-03', { signedLeads: 1, newLeads: 1 })], { initialLeads: 10 })];
+
+    expect(issuesOf(before, after, [changeOf(after[0], '2026-03-03')], defaultMetrics, severities, today)).toEqual(['a 2026-03-03 signedOverApproved']);
+  });
+
+  it('reports issues a change causes on later days', () => {
+    const before = [broker('a', [entry('2026-03-02', { newLeads: 5 }), entry('2026-03-03', { discardedLeads: 4 })])];
+    const after = [broker('a', [entry('2026-03-02', { newLeads: 2 }), entry('2026-03-03', { discardedLeads: 4 })])];
+
+    expect(issuesOf(before, after, [changeOf(after[0], '2026-03-02')], defaultMetrics, severities, today))
+      .toEqual(['a 2026-03-03 discardOverBase', 'a 2026-03-03 negativeBalance']);
+  });
+
+  it('leaves out brokers the changes did not touch and rules that are off', () => {
+    const other = broker('b', [entry('2026-03-02', { discardedLeads: 9 })]);
+    const before = [broker('a'), other];
+    const after = [broker('a', [entry('2026-04-02', { newLeads: 1 })]), other];
+    const changes = [changeOf(after[0], '2026-04-02')];
+
+    expect(issuesOf(before, after, changes, defaultMetrics, severities, today)).toEqual(['a 2026-04-02 futureDate']);
+    expect(issuesOf(before, after, changes, defaultMetrics, { ...severities, futureDate: 'off' }, today)).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+import type { BrokerProfile, ConsistencyRuleId, MetricDefinition, RuleSeverity } from '../types';
+import type { EntryChange } from './audit';
+import { builtInMetricKeys, calculateBalances, getMetricLabel, getMetricValue, sumMetricsOfKind, type EntryWithBalance } from './metrics';
+import { getClassifiedDiscards } from './discardReasons';
+import { formatDate } from './date';
+
+export interface ConsistencyRule {
+  id: ConsistencyRuleId;
+  label: string;
+  description: string;
+  defaultSeverity: RuleSeverity;
+}
+
+export interface ConsistencyIssue {
+  brokerId: string;
+  brokerName: string;
+  date: string;
+  ruleId: ConsistencyRuleId;
+  severity: Exclude<RuleSeverity, 'off'>;
+  message: string;
+}
+
+export const consistencyRules: ConsistencyRule[] = [
+  { id: 'negativeValue', label: 'Valor negativo', description: 'Nenhuma métrica pode ter valor negativo.', defaultSeverity: 'error' },
+  { id: 'futureDate', label: 'Data futura', description: 'Lançamentos com data posterior a hoje.', defaultSeverity: 'warning' },
+  {
+    id: 'signedOverApproved', label: 'Mais assinados que aprovados',
+    description: 'No mesmo dia, contratos assinados acima do número de aprovados.', defaultSeverity: 'warning',
+  },
+  {
+    id: 'discardOverBase', label: 'Descarte maior que a base',
+    description: 'O dia descarta mais leads do que a base tinha (saldo inicial mais as entradas do dia).', defaultSeverity: 'error',
+  },
+  {
+    id: 'discardReasonsOverTotal', label: 'Motivos acima do descarte',
+    description: 'A soma dos motivos de descarte passa do total de leads descartados no dia.', defaultSeverity: 'error',
+  },
+  { id: 'negativeBalance', label: 'Saldo negativo', description: 'O saldo de leads ao fim do dia fica abaixo de zero.', defaultSeverity: 'error' },
+];
+
+export const ruleSeverityLabels: Record<RuleSeverity, string> = {
+  error: 'Bloqueia',
+  warning: 'Aviso',
+  off: 'Desativada',
+};
+
+export const createDefaultRuleSeverities = (): Record<ConsistencyRuleId, RuleSeverity> =>
+  Object.fromEntries(consistencyRules.map(rule => [rule.id, rule.defaultSeverity])) as Record<ConsistencyRuleId, RuleSeverity>;
+
+// Rules introduced in newer versions start with their default severity.
+export const mergeWithDefaultRuleSeverities = (saved: Partial<Record<ConsistencyRuleId, RuleSeverity>> | undefined) => ({
+  ...createDefaultRuleSeverities(),
+  ...(saved || {}),
+});
+
+export const getConsistencyRuleLabel = (ruleId: ConsistencyRuleId) => consistencyRules.find(rule => rule.id === ruleId)?.label ?? ruleId;
+
+// Violations of one day, each with a message naming the values involved. `entry` carries the
+// balances of the broker's lead base around that day.
+const checkEntry = (entry: EntryWithBalance, metrics: MetricDefinition[], today: string): { ruleId: ConsistencyRuleId; message: string }[] => {
+  const violations: { ruleId: ConsistencyRuleId; message: string }[] = [];
+  const keys = [...builtInMetricKeys, ...Object.keys(entry.customMetrics || {})];
+  const negative = keys.filter(key => getMetricValue(entry, key) < 0);
+  if (negative.length > 0) {
+    violations.push({ ruleId: 'negativeValue', message: `Valor negativo em ${negative.map(key => getMetricLabel(metrics, key)).join(', ')}.` });
+  }
+  if (entry.date > today) {
+    violations.push({ ruleId: 'futureDate', message: 'Lançamento com data futura.' });
+  }
+  if (entry.signedLeads > entry.approvedLeads) {
+    violations.push({
+      ruleId: 'signedOverApproved',
+      message: `${getMetricLabel(metrics, 'signedLeads')} (${entry.signedLeads}) acima de ${getMetricLabel(metrics, 'approvedLeads')} (${entry.approvedLeads}).`,
+    });
+  }
+  const discarded = sumMetricsOfKind([entry], metrics, 'outflow');
+  const available = entry.startOfDayBalance + sumMetricsOfKind([entry], metrics, 'inflow');
+  if (discarded > Math.max(available, 0)) {
+    violations.push({ ruleId: 'discardOverBase', message: `${discarded} lead(s) descartado(s), mas a base tinha ${available}.` });
+  }
+  const classified = getClassifiedDiscards(entry);
+  if (classified > discarded) {
+    violations.push({ ruleId: 'discardReasonsOverTotal', message: `Motivos somam ${classified}, mas foram descartados ${discarded} lead(s).` });
+  }
+  if (entry.endOfDayBalance < 0) {
+    violations.push({ ruleId: 'negativeBalance', message: `Saldo de leads ao fim do dia: ${entry.endOfDayBalance}.` });
+  }
+  return violations;
+};
+
+// Issues of one broker, oldest day first. Disabled rules are skipped.
+export const checkBrokerConsistency = (
+  broker: BrokerProfile,
+  metrics: MetricDefinition[],
+  severities: Record<ConsistencyRuleId, RuleSeverity>,
+  today: string
+): ConsistencyIssue[] =>
+  calculateBalances(broker.initialLeads, broker.dailyEntries, metrics, broker.balanceAdjustments).flatMap(entry =>
+    checkEntry(entry, metrics, today)
+      .filter(violation => severities[violation.ruleId] !== 'off')
+      .map(violation => ({
+        brokerId: broker.id,
+        brokerName: broker.brokerName,
+        date: entry.date,
+        ruleId: violation.ruleId,
+        severity: severities[violation.ruleId] as ConsistencyIssue['severity'],
+        message: violation.message,
+      }))
+  );
+
+export const checkConsistency = (
+  brokers: BrokerProfile[],
+  metrics: MetricDefinition[],
+  severities: Record<ConsistencyRuleId, RuleSeverity>,
+  today: string
+): ConsistencyIssue[] => brokers.flatMap(broker => checkBrokerConsistency(broker, metrics, severities, today));
+
+const getIssueKey = (issue: ConsistencyIssue) => `${issue.brokerId}|${issue.date}|${issue.ruleId}`;
+
+// Issues a set of changes is responsible for: every issue on a changed day, plus the ones that appear on
+// other days of the same brokers (e.g. a smaller inflow turning later balances negative). Problems that
+// were already there on untouched days do not stop a save. Changes can be entries or balance adjustments.
+export const findIntroducedIssues = (
+  before: BrokerProfile[],
+  after: BrokerProfile[],
+  changes: Pick<EntryChange, 'brokerId' | 'date'>[],
+  metrics: MetricDefinition[],
+  severities: Record<ConsistencyRuleId, RuleSeverity>,
+  today: string
+): ConsistencyIssue[] => {
+  const brokerIds = new Set(changes.map(change => change.brokerId));
+  const changedDays = new Set(changes.map(change => `${change.brokerId}|${change.date}`));
+  const affected = (brokers: BrokerProfile[]) => checkConsistency(brokers.filter(b => brokerIds.has(b.id)), metrics, severities, today);
+  const existing = new Set(affected(before).map(getIssueKey));
+  return affected(after).filter(issue => changedDays.has(`${issue.brokerId}|${issue.date}`) || !existing.has(getIssueKey(issue)));
+};
+
+const MAX_LISTED_ISSUES = 8;
+
+// Issue list for alert and confirm dialogs.
+export const describeIssues = (issues: ConsistencyIssue[]): string => {
+  const lines = issues.slice(0, MAX_LISTED_ISSUES).map(issue =>
+    `• ${formatDate(issue.date)} · ${issue.brokerName} · ${getConsistencyRuleLabel(issue.ruleId)}: ${issue.message}`
+  );
+  if (issues.length > MAX_LISTED_ISSUES) lines.push(`... e mais ${issues.length - MAX_LISTED_ISSUES}.`);
+  return lines.join('\n');
+};
+
+// Issues grouped by the day they were found on, for the entry list of a broker.
+export const groupIssuesByDate = (issues: ConsistencyIssue[]): Map<string, ConsistencyIssue[]> => {
+  const byDate = new Map<string, ConsistencyIssue[]>();
+  issues.forEach(issue => byDate.set(issue.date, [...(byDate.get(issue.date) || []), issue]));
+  return byDate;
+};
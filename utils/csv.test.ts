@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DATE_COLUMN, DISCARD_REASON_COLUMN, getDiscardCountColumn, guessColumnMapping, parseCsv, parsePtBrDate } from './csv';
+import { defaultDiscardReasons } from './discardReasons';
+import { defaultMetrics } from './metrics';
+
+describe('parseCsv', () => {
+  it('takes the delimiter from the header line', () => {
+    expect(parseCsv('Data;Novos Leads\n02/03/2026;5')).toEqual([['Data', 'Novos Leads'], ['02/03/2026', '5']]);
+    expect(parseCsv('Data,Novos Leads\r\n02/03/2026,5\r\n')).toEqual([['Data', 'Novos Leads'], ['02/03/2026', '5']]);
+  });
+
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('"Motivo; extra","Obs"\n"Disse ""não""","linha 1\nlinha 2"')).toEqual([
+      ['Motivo; extra', 'Obs'],
+      ['Disse "não"', 'linha 1\nlinha 2'],
+    ]);
+  });
+
+  it('drops the byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFData;Novos Leads\n\n;\n02/03/2026;5\n')).toEqual([['Data', 'Novos Leads'], ['02/03/2026', '5']]);
+  });
+});
+
+describe('parsePtBrDate', () => {
+  it('accepts the usual pt-BR formats and ISO dates', () => {
+    expect(['02/03/2026', '2/3/26', '02-03-2026', '02.03.2026', '2026-03-02'].map(parsePtBrDate)).toEqual(Array(5).fill('2026-03-02'));
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parsePtBrDate('31/02/2026')).toBeNull();
+    expect(parsePtBrDate('março')).toBeNull();
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognizes the exported headers regardless of case and accents and ignores the rest', () => {
+    const headers = ['Data', 'NOVOS LEADS', 'contrato assinado', 'signedLeads', 'Saldo Final', 'Motivo do Descarte'];
+
+    expect(guessColumnMapping(headers, defaultMetrics, defaultDiscardReasons))
+      .toEqual([DATE_COLUMN, 'newLeads', 'signedLeads', 'signedLeads', '', DISCARD_REASON_COLUMN]);
+  });
+
+  it('maps the count of each discard reason', () => {
+    const headers = ['Descarte: Sem credito', 'Descarte: Outros', 'Descarte: Outros (descrição)', 'Descarte: Desconhecido'];
+
+    expect(guessColumnMapping(headers, defaultMetrics, defaultDiscardReasons))
+      .toEqual([getDiscardCountColumn('semCredito'), getDiscardCountColumn('outros'), DISCARD_REASON_COLUMN, '']);
+  });
+});
@@ -0,0 +1,205 @@
+import type { DailyEntry, DiscardReasonDefinition, MetricDefinition } from '../types';
+import { createEmptyEntryData, getMetricValue, setMetricValue, sumMetricsOfKind } from './metrics';
+import { OTHER_DISCARD_REASON, getClassifiedDiscards, getDiscardReasonCount, getDiscardReasonLabel } from './discardReasons';
+
+// Target of a CSV column: the entry date, the discard reason text, the count of a discard reason,
+// a metric key, or '' to ignore it
+export type ColumnTarget = string;
+export const DATE_COLUMN = '__date';
+export const DISCARD_REASON_COLUMN = '__discardReason';
+const DISCARD_COUNT_PREFIX = '__discardCount:';
+
+export const getDiscardCountColumn = (reasonKey: string): ColumnTarget => `${DISCARD_COUNT_PREFIX}${reasonKey}`;
+
+export type ImportRowStatus = 'new' | 'changed' | 'unchanged' | 'conflict' | 'invalid';
+
+export interface ImportRow {
+  line: number; // Line in the file, for error messages
+  date: string | null; // YYYY-MM-DD
+  entry: DailyEntry | null;
+  status: ImportRowStatus;
+  errors: string[];
+  conflictingMetrics: string[]; // Metrics whose saved non-zero value would be replaced
+}
+
+// Quotes text cells (headers included) so commas, quotes and line breaks in labels don't shift the columns
+export const escapeCsv = (value: string | number) => (typeof value === 'string' ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Minimal RFC 4180 parser. Spreadsheets saved in pt-BR usually separate fields with ';',
+// so the delimiter is taken from the header line.
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Accepts dd/mm/aaaa (as exported), dd/mm/aa, dd-mm-aaaa, dd.mm.aaaa and ISO aaaa-mm-dd.
+export const parsePtBrDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const ptBr = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (ptBr) {
+    [day, month, year] = [Number(ptBr[1]), Number(ptBr[2]), Number(ptBr[3])];
+    if (ptBr[3].length === 2) year += 2000;
+  } else {
+    return null;
+  }
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+// Suggests a target for each header: the exporter's own headers (metric labels, "Data", "Descarte: <motivo>"
+// and the older "Motivo do Descarte") are recognized; the derived balance, balance adjustment and
+// "não informado" columns and anything unknown are ignored until the user maps them.
+export const guessColumnMapping = (headers: string[], metrics: MetricDefinition[], discardReasons: DiscardReasonDefinition[]): ColumnTarget[] =>
+  headers.map(header => {
+    const normalized = normalizeHeader(header);
+    if (normalized === 'data' || normalized === 'date') return DATE_COLUMN;
+    if (normalized === 'motivo do descarte' || normalized === 'descarte: outros (descricao)') return DISCARD_REASON_COLUMN;
+    if (normalized.startsWith('descarte:')) {
+      const reasonLabel = normalized.slice('descarte:'.length).trim();
+      const reason = [...discardReasons.map(r => r.key), OTHER_DISCARD_REASON]
+        .find(key => normalizeHeader(getDiscardReasonLabel(discardReasons, key)) === reasonLabel);
+      return reason ? getDiscardCountColumn(reason) : '';
+    }
+    const metric = metrics.find(m => normalizeHeader(m.label) === normalized || normalizeHeader(m.key) === normalized);
+    return metric ? metric.key : '';
+  });
+
+// Same rule as the daily form: only non-negative whole numbers. Empty cells mean "no value".
+const parseCount = (value: string): number | null | 'invalid' => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : 'invalid';
+};
+
+// Classifies every data row against the saved entries:
+// new (no entry that day), changed (only fills empty/zero values), unchanged,
+// conflict (would replace a saved non-zero value) or invalid.
+export const buildImportPreview = (
+  rows: string[][],
+  mapping: ColumnTarget[],
+  metrics: MetricDefinition[],
+  discardReasons: DiscardReasonDefinition[],
+  existingEntries: DailyEntry[],
+  today: string
+): ImportRow[] => {
+  const dateColumn = mapping.indexOf(DATE_COLUMN);
+  const seenDates = new Set<string>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2; // Header is line 1
+    const errors: string[] = [];
+    const date = dateColumn >= 0 ? parsePtBrDate(cells[dateColumn] || '') : null;
+    if (!date) {
+      errors.push(`Data inválida: "${dateColumn >= 0 ? cells[dateColumn] || '' : ''}"`);
+    } else if (date > today) {
+      errors.push('Data futura');
+    } else if (seenDates.has(date)) {
+      errors.push('Data repetida no arquivo');
+    }
+    if (date) seenDates.add(date);
+
+    const existing = date ? existingEntries.find(e => e.date === date) : undefined;
+    let entry: DailyEntry = { ...createEmptyEntryData(), ...existing, date: date || '' };
+    const conflictingMetrics: string[] = [];
+    let changed = false;
+    let filled = false; // Any mapped value present; rows without one (e.g. adjustment-only days) create nothing
+    let importedReasonText = false;
+
+    mapping.forEach((target, column) => {
+      const cell = cells[column] ?? '';
+      if (!target || target === DATE_COLUMN) return;
+      if (target === DISCARD_REASON_COLUMN) {
+        const reason = cell.trim();
+        if (reason) filled = true;
+        if (reason && reason !== (entry.discardReason || '')) {
+          if (existing?.discardReason) conflictingMetrics.push('Motivo do Descarte');
+          entry = { ...entry, discardReason: reason };
+          changed = true;
+          importedReasonText = true;
+        }
+        return;
+      }
+      const reasonKey = target.startsWith(DISCARD_COUNT_PREFIX) ? target.slice(DISCARD_COUNT_PREFIX.length) : null;
+      const value = parseCount(cell);
+      const label = reasonKey !== null
+        ? `Descarte: ${getDiscardReasonLabel(discardReasons, reasonKey)}`
+        : metrics.find(m => m.key === target)?.label ?? target;
+      if (value === 'invalid') {
+        errors.push(`${label}: "${cell}" não é um número inteiro não negativo`);
+        return;
+      }
+      if (value === null) return;
+      filled = true;
+      const current = reasonKey !== null ? getDiscardReasonCount(entry, reasonKey) : getMetricValue(entry, target);
+      if (value !== current) {
+        if (existing && current !== 0) conflictingMetrics.push(label);
+        entry = reasonKey !== null
+          ? { ...entry, discardReasonCounts: { ...(entry.discardReasonCounts || {}), [reasonKey]: value } }
+          : setMetricValue(entry, target, value);
+        changed = true;
+      }
+    });
+
+    // Files from before the structured reasons only have the text: it describes all of the day's discards
+    const totalDiscarded = sumMetricsOfKind([entry], metrics, 'outflow');
+    if (importedReasonText && getClassifiedDiscards(entry) === 0 && totalDiscarded > 0) {
+      entry = { ...entry, discardReasonCounts: { [OTHER_DISCARD_REASON]: totalDiscarded } };
+    }
+    if (getClassifiedDiscards(entry) > totalDiscarded) {
+      errors.push(`A soma dos motivos de descarte (${getClassifiedDiscards(entry)}) é maior que o total de descartados (${totalDiscarded})`);
+    }
+
+    let status: ImportRowStatus;
+    if (errors.length > 0) status = 'invalid';
+    else if (!existing) status = filled ? 'new' : 'unchanged';
+    else if (conflictingMetrics.length > 0) status = 'conflict';
+    else status = changed ? 'changed' : 'unchanged';
+
+    return { line, date, entry: errors.length > 0 ? null : entry, status, errors, conflictingMetrics };
+  });
+};
@@ -0,0 +1,23 @@
+// Helper to get local date string YYYY-MM-DD from a Date (avoids the UTC shift of toISOString)
+export const toLocalDateString = (d: Date) => {
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Helper to get local date string YYYY-MM-DD
+export const getTodayString = () => toLocalDateString(new Date());
+
+// Parses a YYYY-MM-DD string as local midnight (a bare date string would be read as UTC)
+export const parseDate = (date: string) => new Date(date + 'T00:00:00');
+
+// Shifts a YYYY-MM-DD string by whole days, across month and year ends
+export const addDays = (date: string, days: number) => {
+  const result = parseDate(date);
+  result.setDate(result.getDate() + days);
+  return toLocalDateString(result);
+};
+
+// YYYY-MM-DD as shown to users: dd/mm/aaaa
+export const formatDate = (date: string) => parseDate(date).toLocaleDateString('pt-BR');
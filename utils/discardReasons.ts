@@ -0,0 +1,115 @@
+import type { DailyEntry, DiscardReasonDefinition, MetricDefinition } from '../types';
+import { sumMetricsOfKind } from './metrics';
+
+// Always available: its description is the entry's free-text discardReason
+export const OTHER_DISCARD_REASON = 'outros';
+// Not stored: discarded leads of a day that were not assigned to any reason
+export const UNSPECIFIED_DISCARD_REASON = '__naoInformado';
+
+export const defaultDiscardReasons: DiscardReasonDefinition[] = [
+  { key: 'semContato', label: 'Sem contato', active: true },
+  { key: 'semCredito', label: 'Sem crédito', active: true },
+  { key: 'preco', label: 'Preço', active: true },
+  { key: 'comprouOutro', label: 'Comprou em outro lugar', active: true },
+  { key: 'duplicado', label: 'Duplicado', active: true },
+];
+
+// Adds reasons introduced in newer versions to a saved configuration without touching the agency's changes.
+export const mergeWithDefaultDiscardReasons = (saved: DiscardReasonDefinition[] | undefined): DiscardReasonDefinition[] => {
+  if (!Array.isArray(saved) || saved.length === 0) return defaultDiscardReasons;
+  const missing = defaultDiscardReasons.filter(def => !saved.some(r => r.key === def.key));
+  return [...saved, ...missing.map(r => ({ ...r, active: false }))];
+};
+
+export const getDiscardReasonLabel = (reasons: DiscardReasonDefinition[], key: string): string => {
+  if (key === OTHER_DISCARD_REASON) return 'Outros';
+  if (key === UNSPECIFIED_DISCARD_REASON) return 'Não informado';
+  return reasons.find(r => r.key === key)?.label ?? key;
+};
+
+export const getDiscardReasonCount = (entry: Partial<DailyEntry>, key: string): number =>
+  entry.discardReasonCounts?.[key] || 0;
+
+export const getClassifiedDiscards = (entry: Partial<DailyEntry>): number =>
+  Object.values(entry.discardReasonCounts || {}).reduce((sum, count) => sum + (count || 0), 0);
+
+// Reason keys to show as columns: configured reasons that are active or hold data, then "outros".
+export const getDiscardReasonColumns = (reasons: DiscardReasonDefinition[], entries: Partial<DailyEntry>[]): string[] => [
+  ...reasons.filter(r => r.active || entries.some(entry => getDiscardReasonCount(entry, r.key) > 0)).map(r => r.key),
+  OTHER_DISCARD_REASON,
+];
+
+// Discarded leads per reason key. Leads of a day beyond the counts it assigned go to UNSPECIFIED_DISCARD_REASON.
+export const getDiscardBreakdown = (entries: Partial<DailyEntry>[], metrics: MetricDefinition[]): Record<string, number> => {
+  const breakdown: Record<string, number> = {};
+  for (const entry of entries) {
+    Object.entries(entry.discardReasonCounts || {}).forEach(([key, count]) => {
+      if (count > 0) breakdown[key] = (breakdown[key] || 0) + count;
+    });
+    const unspecified = sumMetricsOfKind([entry], metrics, 'outflow') - getClassifiedDiscards(entry);
+    if (unspecified > 0) breakdown[UNSPECIFIED_DISCARD_REASON] = (breakdown[UNSPECIFIED_DISCARD_REASON] || 0) + unspecified;
+  }
+  return breakdown;
+};
+
+export const getBreakdownTotal = (breakdown: Record<string, number>): number =>
+  Object.values(breakdown).reduce((sum, count) => sum + count, 0);
+
+export const combineBreakdowns = (breakdowns: Record<string, number>[]): Record<string, number> => {
+  const combined: Record<string, number> = {};
+  breakdowns.forEach(breakdown => Object.entries(breakdown).forEach(([key, count]) => { combined[key] = (combined[key] || 0) + count; }));
+  return combined;
+};
+
+// Counts of a day without the reasons left at zero
+export const compactDiscardCounts = (counts: Record<string, number> | undefined): Record<string, number> =>
+  Object.fromEntries(Object.entries(counts || {}).filter(([, count]) => count > 0));
+
+export interface DiscardReasonTotal {
+  key: string;
+  label: string;
+  discarded: number;
+  share: number; // Percentage of all discarded leads in the breakdown
+}
+
+// Non-zero reasons of a breakdown, most frequent first.
+export const summarizeDiscardBreakdown = (breakdown: Record<string, number>, reasons: DiscardReasonDefinition[]): DiscardReasonTotal[] => {
+  const total = getBreakdownTotal(breakdown);
+  return Object.entries(breakdown)
+    .filter(([, discarded]) => discarded > 0)
+    .map(([key, discarded]) => ({ key, label: getDiscardReasonLabel(reasons, key), discarded, share: (discarded / total) * 100 }))
+    .sort((a, b) => b.discarded - a.discarded || a.label.localeCompare(b.label));
+};
+
+export interface MonthlyDiscardBreakdown {
+  month: string; // YYYY-MM
+  total: number;
+  breakdown: Record<string, number>;
+}
+
+// One breakdown per month with discarded leads, most recent first.
+export const getMonthlyDiscardBreakdown = (entries: DailyEntry[], metrics: MetricDefinition[]): MonthlyDiscardBreakdown[] => {
+  const byMonth = new Map<string, DailyEntry[]>();
+  entries.forEach(entry => {
+    const month = entry.date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) || []), entry]);
+  });
+  return [...byMonth.entries()]
+    .map(([month, monthEntries]) => {
+      const breakdown = getDiscardBreakdown(monthEntries, metrics);
+      return { month, total: getBreakdownTotal(breakdown), breakdown };
+    })
+    .filter(month => month.total > 0)
+    .sort((a, b) => b.month.localeCompare(a.month));
+};
+
+// Short description of a day's reasons, e.g. "Sem contato: 2, Outros (mudou de cidade): 1".
+export const describeEntryDiscards = (entry: Partial<DailyEntry>, reasons: DiscardReasonDefinition[]): string =>
+  Object.entries(entry.discardReasonCounts || {})
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => {
+      const label = getDiscardReasonLabel(reasons, key);
+      const detail = key === OTHER_DISCARD_REASON && entry.discardReason?.trim() ? ` (${entry.discardReason.trim()})` : '';
+      return `${label}${detail}: ${count}`;
+    })
+    .join(', ');
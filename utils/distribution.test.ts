@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { allocate, defaultDistributionSettings, planLeadDistribution } from './distribution';
+import { defaultMetrics } from './metrics';
+import { broker, entry } from './testFixtures';
+
+describe('allocate', () => {
+  it('splits the total in proportion to the weights, rounding by the largest remainders', () => {
+    expect(allocate(10, [1, 1, 2], [null, null, null])).toEqual([3, 2, 5]);
+  });
+
+  it('gives a capped broker its cap and splits the rest among the others', () => {
+    expect(allocate(10, [3, 1], [2, null])).toEqual([2, 8]);
+  });
+
+  it('splits evenly when nobody has any weight', () => {
+    expect(allocate(6, [0, 0, 0], [null, null, null])).toEqual([2, 2, 2]);
+  });
+
+  it('leaves leads over when every broker reaches a cap', () => {
+    expect(allocate(10, [1, 1], [3, 0])).toEqual([3, 0]);
+  });
+});
+
+describe('planLeadDistribution', () => {
+  const history = (sales: number) => [entry('2026-03-02', { newLeads: 20, signedLeads: sales })];
+
+  it('gives more leads to the broker who converts better', () => {
+    const brokers = [broker('a', history(1), { initialLeads: 10 }), broker('b', history(6), { initialLeads: 10 })];
+
+    const { suggestions, unallocated } = planLeadDistribution(brokers, defaultMetrics, defaultDistributionSettings, 10, '2026-03-10');
+
+    expect(suggestions[1].suggested).toBeGreaterThan(suggestions[0].suggested);
+    expect(suggestions[0].suggested + suggestions[1].suggested).toBe(10);
+    expect(unallocated).toBe(0);
+  });
+
+  it('gives fewer leads to the broker holding a larger base', () => {
+    const brokers = [broker('a', history(3), { initialLeads: 80 }), broker('b', history(3), { initialLeads: 10 })];
+
+    const [a, b] = planLeadDistribution(brokers, defaultMetrics, defaultDistributionSettings, 10, '2026-03-10').suggestions;
+
+    expect(a.suggested).toBeLessThan(b.suggested);
+  });
+
+  it('counts the leads already received that day against the daily cap', () => {
+    const brokers = [broker('a', [...history(3), entry('2026-03-10', { newLeads: 4 })]), broker('b', history(3))];
+    const settings = { ...defaultDistributionSettings, maxLeadsPerDay: 5 };
+
+    const { suggestions, unallocated } = planLeadDistribution(brokers, defaultMetrics, settings, 10, '2026-03-10');
+
+    expect(suggestions.map(s => [s.receivedToday, s.capacity, s.suggested])).toEqual([[4, 1, 1], [0, 5, 5]]);
+    expect(unallocated).toBe(4);
+  });
+});
@@ -0,0 +1,151 @@
+import type { BrokerProfile, LeadDistributionSettings, MetricDefinition } from '../types';
+import { getBalanceAtEndOf, sumMetricsOfKind } from './metrics';
+import { filterEntriesByRange } from './funnel';
+import { addDays } from './date';
+
+export const defaultDistributionSettings: LeadDistributionSettings = {
+  lookbackDays: 30,
+  maxBalance: 0,
+  maxLeadsPerDay: 0,
+};
+
+// Leads of history a broker needs before their own rates outweigh the team's. Keeps a broker with
+// two leads and one sale from being rated at 50% conversion.
+const PRIOR_LEADS = 10;
+
+export interface DistributionSuggestion {
+  brokerId: string;
+  brokerName: string;
+  balance: number; // Lead base at the end of the day before the new leads
+  leadsIn: number; // Incoming leads in the lookback window
+  conversionRate: number; // Percentage, smoothed towards the team rate
+  discardRate: number; // Percentage, smoothed towards the team rate
+  receivedToday: number; // Incoming leads already recorded on the distribution day
+  capacity: number | null; // Most leads the caps allow; null without caps
+  weight: number; // Share of the leads before the caps, as a percentage
+  suggested: number;
+  explanation: string[];
+}
+
+export interface DistributionPlan {
+  suggestions: DistributionSuggestion[];
+  unallocated: number; // Leads left over because every broker reached a cap
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1).replace('.', ',')}%`;
+
+// Splits `total` in proportion to the weights without passing the caps (null = no cap). Brokers that
+// would pass their cap get exactly the cap and the rest is split again among the others; the final
+// fractions go to the largest remainders.
+export const allocate = (total: number, weights: number[], caps: (number | null)[]): number[] => {
+  const result = weights.map(() => 0);
+  let open = weights.map((_, index) => index).filter(index => caps[index] === null || caps[index]! > 0);
+  // Without any weight (e.g. no history at all) the leads are split evenly
+  const effectiveWeights = open.some(index => weights[index] > 0) ? weights : weights.map(() => 1);
+  open = open.filter(index => effectiveWeights[index] > 0);
+  let remaining = total;
+  while (remaining > 0 && open.length > 0) {
+    const weightSum = open.reduce((sum, index) => sum + effectiveWeights[index], 0);
+    const shares = new Map(open.map(index => [index, (remaining * effectiveWeights[index]) / weightSum]));
+    const capped = open.filter(index => caps[index] !== null && result[index] + shares.get(index)! >= caps[index]!);
+    if (capped.length > 0) {
+      capped.forEach(index => {
+        remaining -= caps[index]! - result[index];
+        result[index] = caps[index]!;
+      });
+      open = open.filter(index => !capped.includes(index));
+      continue;
+    }
+    open.forEach(index => (result[index] += Math.floor(shares.get(index)!)));
+    const leftover = remaining - open.reduce((sum, index) => sum + Math.floor(shares.get(index)!), 0);
+    [...open]
+      .sort((a, b) => (shares.get(b)! % 1) - (shares.get(a)! % 1) || effectiveWeights[b] - effectiveWeights[a])
+      .slice(0, leftover)
+      .forEach(index => (result[index] += 1));
+    remaining = 0;
+  }
+  return result;
+};
+
+export const sumAllocations = (allocations: Record<string, number>): number =>
+  Object.values(allocations).reduce((sum, value) => sum + value, 0);
+
+// Suggests how to split `total` incoming leads among the given (active) brokers on `date`. Brokers who
+// turn leads into sales and discard little get more; a large base waiting to be worked lowers the share.
+export const planLeadDistribution = (
+  brokers: BrokerProfile[],
+  metrics: MetricDefinition[],
+  settings: LeadDistributionSettings,
+  total: number,
+  date: string
+): DistributionPlan => {
+  const range = { start: addDays(date, -Math.max(1, settings.lookbackDays)), end: addDays(date, -1) };
+  const stats = brokers.map(broker => {
+    const entries = filterEntriesByRange(broker.dailyEntries, range);
+    const dayEntry = broker.dailyEntries.find(entry => entry.date === date);
+    const receivedToday = dayEntry ? sumMetricsOfKind([dayEntry], metrics, 'inflow') : 0;
+    return {
+      broker,
+      leadsIn: sumMetricsOfKind(entries, metrics, 'inflow'),
+      sales: sumMetricsOfKind(entries, metrics, 'sale'),
+      discarded: sumMetricsOfKind(entries, metrics, 'outflow'),
+      receivedToday,
+      // The leads of the day are handed out on top of what the broker already holds at its end
+      balance: getBalanceAtEndOf(date, broker.initialLeads, broker.dailyEntries, metrics, broker.balanceAdjustments),
+    };
+  });
+
+  const teamLeadsIn = stats.reduce((sum, s) => sum + s.leadsIn, 0);
+  const teamConversion = teamLeadsIn > 0 ? stats.reduce((sum, s) => sum + s.sales, 0) / teamLeadsIn : 0;
+  const teamDiscard = teamLeadsIn > 0 ? Math.min(1, stats.reduce((sum, s) => sum + s.discarded, 0) / teamLeadsIn) : 0;
+  const averageBalance = stats.length > 0 ? stats.reduce((sum, s) => sum + Math.max(s.balance, 0), 0) / stats.length : 0;
+
+  const rated = stats.map(s => {
+    const conversion = (s.sales + teamConversion * PRIOR_LEADS) / (s.leadsIn + PRIOR_LEADS);
+    const discard = Math.min(1, (s.discarded + teamDiscard * PRIOR_LEADS) / (s.leadsIn + PRIOR_LEADS));
+    const load = averageBalance > 0 ? Math.max(s.balance, 0) / averageBalance : 0;
+    const caps = [
+      settings.maxLeadsPerDay > 0 ? settings.maxLeadsPerDay - s.receivedToday : null,
+      settings.maxBalance > 0 ? settings.maxBalance - s.balance : null,
+    ].filter((cap): cap is number => cap !== null);
+    return {
+      ...s,
+      conversion,
+      discard,
+      load,
+      score: (conversion * (1 - discard)) / (1 + load),
+      capacity: caps.length > 0 ? Math.max(0, Math.min(...caps)) : null,
+    };
+  });
+
+  const allocation = allocate(total, rated.map(r => r.score), rated.map(r => r.capacity));
+  const scoreSum = rated.reduce((sum, r) => sum + r.score, 0);
+
+  const suggestions = rated.map((r, index): DistributionSuggestion => {
+    const explanation = [
+      `Saldo atual de ${r.balance} lead(s)${r.load > 1.2 ? ', acima da média da equipe: recebe menos' : r.load < 0.8 && averageBalance > 0 ? ', abaixo da média da equipe: recebe mais' : ''}.`,
+      r.leadsIn > 0
+        ? `Nos últimos ${settings.lookbackDays} dias: ${r.leadsIn} lead(s) recebido(s), conversão de ${formatPercent(r.conversion * 100)} e descarte de ${formatPercent(r.discard * 100)}.`
+        : `Sem leads nos últimos ${settings.lookbackDays} dias: usa as taxas da equipe.`,
+    ];
+    if (r.receivedToday > 0) explanation.push(`Já recebeu ${r.receivedToday} lead(s) neste dia.`);
+    if (r.capacity !== null && allocation[index] >= r.capacity) {
+      explanation.push(r.capacity === 0 ? 'Limite atingido: não recebe leads.' : `Limitado a ${r.capacity} lead(s) pelos limites configurados.`);
+    }
+    return {
+      brokerId: r.broker.id,
+      brokerName: r.broker.brokerName,
+      balance: r.balance,
+      leadsIn: r.leadsIn,
+      conversionRate: r.conversion * 100,
+      discardRate: r.discard * 100,
+      receivedToday: r.receivedToday,
+      capacity: r.capacity,
+      weight: scoreSum > 0 ? (r.score / scoreSum) * 100 : 100 / rated.length,
+      suggested: allocation[index],
+      explanation,
+    };
+  });
+
+  return { suggestions, unallocated: total - allocation.reduce((sum, value) => sum + value, 0) };
+};
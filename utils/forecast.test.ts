@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyEntry } from '../types';
+import { forecastMonth } from './forecast';
+import { parseDate } from './date';
+import { entry } from './testFixtures';
+
+const sales = (e: DailyEntry) => e.signedLeads;
+const isWeekday = (date: string) => ![0, 6].includes(parseDate(date).getDay());
+
+describe('forecastMonth', () => {
+  // March 2026 has 22 working days: 10 up to Friday the 13th and 12 after it
+  const month = '2026-03';
+
+  it('projects the month from the pace of the working days elapsed so far', () => {
+    const entries = ['2026-03-02', '2026-03-04', '2026-03-06', '2026-03-10', '2026-03-12'].map(date => entry(date, { signedLeads: 1 }));
+
+    const forecast = forecastMonth(entries, month, sales, isWeekday, 20, '2026-03-13');
+
+    expect(forecast).toMatchObject({ actual: 5, elapsedWorkingDays: 10, remainingWorkingDays: 12, pacePerDay: 0.5, projected: 11, requiredPerDay: 1.25 });
+    expect(forecast.low).toBeGreaterThanOrEqual(5);
+    expect(forecast.low).toBeLessThan(11);
+    expect(forecast.high).toBeGreaterThan(11);
+  });
+
+  it('uses the daily average of the history for a month that has not started', () => {
+    const entries = [entry('2026-02-02', { signedLeads: 9 })];
+
+    const forecast = forecastMonth(entries, month, sales, isWeekday, 0, '2026-02-27');
+
+    expect(forecast).toMatchObject({ actual: 0, elapsedWorkingDays: 0, remainingWorkingDays: 22, requiredPerDay: null });
+    expect(forecast.pacePerDay).toBeGreaterThan(0);
+    expect(forecast.projected).toBeCloseTo(forecast.pacePerDay * 22);
+  });
+
+  it('settles on what was done once the month is over', () => {
+    const entries = [entry('2026-03-02', { signedLeads: 2 }), entry('2026-03-20', { signedLeads: 1 })];
+
+    const forecast = forecastMonth(entries, month, sales, isWeekday, 10, '2026-04-06');
+
+    expect(forecast).toMatchObject({ actual: 3, projected: 3, low: 3, high: 3, remainingWorkingDays: 0, requiredPerDay: null });
+  });
+});
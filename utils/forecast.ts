@@ -0,0 +1,93 @@
+import type { DailyEntry } from '../types';
+import { addDays, getTodayString, parseDate, toLocalDateString } from './date';
+import { monthToRange } from './funnel';
+import { countWorkingDays, type WorkingDayCheck } from './calendar';
+
+// Number of past days of history used to measure how much a broker's daily numbers vary
+const HISTORY_WINDOW_DAYS = 90;
+// z-score of the confidence band (80% of outcomes expected inside it)
+const CONFIDENCE_Z = 1.28;
+
+export interface Forecast {
+  actual: number; // Done so far in the month
+  projected: number; // Expected month-end total at the current pace
+  low: number; // Lower end of the confidence band, never below what is already done
+  high: number;
+  margin: number; // Half-width of the band before clamping, used to combine forecasts
+  pacePerDay: number; // Average per working day so far
+  requiredPerDay: number | null; // Per working day still needed to hit the goal, null without a goal
+  elapsedWorkingDays: number;
+  remainingWorkingDays: number;
+}
+
+// Mean and standard deviation of the value per working day in the given period; days without an entry count
+// as 0. Days off with an entry (a sale on a Saturday) are counted too.
+const getDailyStats = (entries: DailyEntry[], start: string, end: string, valueOf: (entry: DailyEntry) => number, isWorkingDay: WorkingDayCheck) => {
+  const valuesByDate = new Map(entries.filter(e => e.date >= start && e.date <= end).map(e => [e.date, valueOf(e)]));
+  const values: number[] = [];
+  for (const day = parseDate(start); day <= parseDate(end); day.setDate(day.getDate() + 1)) {
+    const date = toLocalDateString(day);
+    if (isWorkingDay(date) || valuesByDate.has(date)) values.push(valuesByDate.get(date) || 0);
+  }
+  if (values.length === 0) return { mean: 0, stdDev: 0 };
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+};
+
+// Projects the month-end total of a value (sales, leads received...) from the pace of the working days
+// elapsed so far. The band widens with the days left and with how irregular the broker's own history is.
+// Working days follow the agency calendar and the broker's absences, see utils/calendar.ts.
+export const forecastMonth = (
+  entries: DailyEntry[],
+  month: string,
+  valueOf: (entry: DailyEntry) => number,
+  isWorkingDay: WorkingDayCheck,
+  goal = 0,
+  today = getTodayString()
+): Forecast => {
+  const { start, end } = monthToRange(month);
+  const elapsedEnd = today < end ? today : end;
+  const actual = entries.filter(e => e.date >= start && e.date <= elapsedEnd).reduce((sum, e) => sum + valueOf(e), 0);
+  const elapsedWorkingDays = elapsedEnd >= start ? countWorkingDays(isWorkingDay, start, elapsedEnd) : 0;
+  const remainingWorkingDays = today < end ? countWorkingDays(isWorkingDay, today < start ? start : addDays(today, 1), end) : 0;
+
+  const history = getDailyStats(entries, addDays(elapsedEnd, -HISTORY_WINDOW_DAYS), elapsedEnd, valueOf, isWorkingDay);
+  // Without any elapsed working day (future month, first weekend) the historical average is the best guess
+  const pacePerDay = elapsedWorkingDays > 0 ? actual / elapsedWorkingDays : history.mean;
+  const projected = actual + pacePerDay * remainingWorkingDays;
+  const margin = CONFIDENCE_Z * history.stdDev * Math.sqrt(remainingWorkingDays);
+
+  return {
+    actual,
+    projected,
+    low: Math.max(actual, projected - margin),
+    high: projected + margin,
+    margin,
+    pacePerDay,
+    requiredPerDay: goal > 0
+      ? (remainingWorkingDays > 0 ? Math.max(0, goal - actual) / remainingWorkingDays : null)
+      : null,
+    elapsedWorkingDays,
+    remainingWorkingDays,
+  };
+};
+
+// Team total: projections add up, independent bands combine as the root of the summed squares.
+export const combineForecasts = (forecasts: Forecast[], goal = 0): Forecast => {
+  const actual = forecasts.reduce((sum, f) => sum + f.actual, 0);
+  const projected = forecasts.reduce((sum, f) => sum + f.projected, 0);
+  const margin = Math.sqrt(forecasts.reduce((sum, f) => sum + f.margin ** 2, 0));
+  const remainingWorkingDays = forecasts.reduce((max, f) => Math.max(max, f.remainingWorkingDays), 0);
+  return {
+    actual,
+    projected,
+    low: Math.max(actual, projected - margin),
+    high: projected + margin,
+    margin,
+    pacePerDay: forecasts.reduce((sum, f) => sum + f.pacePerDay, 0),
+    requiredPerDay: goal > 0 && remainingWorkingDays > 0 ? Math.max(0, goal - actual) / remainingWorkingDays : null,
+    elapsedWorkingDays: forecasts.reduce((max, f) => Math.max(max, f.elapsedWorkingDays), 0),
+    remainingWorkingDays,
+  };
+};
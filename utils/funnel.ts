@@ -0,0 +1,74 @@
+import type { DailyEntry, MetricDefinition } from '../types';
+import { sumMetric } from './metrics';
+
+// Sequence of funnel stages a lead goes through, from first contact to the signed contract:
+// the agency's active activity metrics followed by its sale metrics, in the configured order.
+export const getFunnelStages = (metrics: MetricDefinition[]): string[] => [
+  ...metrics.filter(m => m.active && m.kind === 'activity').map(m => m.key),
+  ...metrics.filter(m => m.active && m.kind === 'sale').map(m => m.key),
+];
+
+export interface FunnelStep {
+  from: string;
+  to: string;
+  fromCount: number;
+  toCount: number;
+  conversionRate: number | null; // Percentage, null when the previous stage had no leads
+}
+
+export interface FunnelResult {
+  totals: Record<string, number>;
+  steps: FunnelStep[];
+  overallConversionRate: number | null; // First stage → last stage
+  biggestLoss: FunnelStep | null; // Step with the lowest conversion rate
+}
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export const monthToRange = (month: string): DateRange => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(year, monthIndex, 0).getDate();
+  return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+export const filterEntriesByRange = (entries: DailyEntry[], range: DateRange): DailyEntry[] =>
+  entries.filter(entry => entry.date >= range.start && entry.date <= range.end);
+
+const toRate = (to: number, from: number): number | null => (from > 0 ? (to / from) * 100 : null);
+
+export const computeFunnel = (entries: DailyEntry[], funnelStages: string[]): FunnelResult => {
+  const totals: Record<string, number> = {};
+  for (const stage of funnelStages) {
+    totals[stage] = sumMetric(entries, stage);
+  }
+
+  const steps: FunnelStep[] = funnelStages.slice(1).map((to, index) => {
+    const from = funnelStages[index];
+    return { from, to, fromCount: totals[from], toCount: totals[to], conversionRate: toRate(totals[to], totals[from]) };
+  });
+
+  const biggestLoss = steps.reduce<FunnelStep | null>((worst, step) => {
+    if (step.conversionRate === null) return worst;
+    if (!worst || step.conversionRate < (worst.conversionRate as number)) return step;
+    return worst;
+  }, null);
+
+  const first = funnelStages[0];
+  const last = funnelStages[funnelStages.length - 1];
+
+  const overallConversionRate = funnelStages.length > 1 ? toRate(totals[last], totals[first]) : null;
+
+  return { totals, steps, overallConversionRate, biggestLoss };
+};
+
+export const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate.toFixed(1)}%`);
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
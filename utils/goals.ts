@@ -0,0 +1,97 @@
+import type { BrokerProfile, GoalPeriod, MetricGoal } from '../types';
+import { toLocalDateString } from './date';
+import { filterEntriesByRange, monthToRange, type DateRange } from './funnel';
+import { sumMetric } from './metrics';
+import { countWorkingDays, type WorkingDayCheck } from './calendar';
+
+// Sales goal in effect for a month (YYYY-MM): the most recent goal set on or before that month.
+// Months before any recorded change fall back to the legacy single `monthlySalesGoal`.
+export const getSalesGoalForMonth = (broker: BrokerProfile, month: string): number => {
+  const history = broker.goalHistory || {};
+  const effectiveMonth = Object.keys(history)
+    .filter(setMonth => setMonth <= month)
+    .sort()
+    .pop();
+  if (effectiveMonth !== undefined) return history[effectiveMonth];
+  return broker.monthlySalesGoal || 0;
+};
+
+// Records a goal starting at the given month. Later months keep it until another goal is set,
+// while reports of earlier months keep showing the goal that was in effect back then.
+export const setSalesGoalFromMonth = (broker: BrokerProfile, month: string, goal: number): BrokerProfile => {
+  if (getSalesGoalForMonth(broker, month) === goal && broker.goalHistory?.[month] === undefined) {
+    return broker; // Nothing changes for this month, avoid cluttering the history
+  }
+  return { ...broker, goalHistory: { ...(broker.goalHistory || {}), [month]: goal } };
+};
+
+export const goalPeriodLabels: Record<GoalPeriod, string> = {
+  week: 'Semanal',
+  month: 'Mensal',
+  quarter: 'Trimestral',
+};
+
+// Period of the given kind containing a date (YYYY-MM-DD). Weeks run Monday to Sunday.
+export const getPeriodRange = (period: GoalPeriod, date: string): DateRange => {
+  const [year, month, day] = date.split('-').map(Number);
+  if (period === 'week') {
+    const start = new Date(year, month - 1, day);
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    const end = new Date(start);
+    end.setDate(start.getDate() + 6);
+    return { start: toLocalDateString(start), end: toLocalDateString(end) };
+  }
+  if (period === 'quarter') {
+    const firstMonth = Math.floor((month - 1) / 3) * 3 + 1;
+    const startMonth = `${year}-${String(firstMonth).padStart(2, '0')}`;
+    const endMonth = `${year}-${String(firstMonth + 2).padStart(2, '0')}`;
+    return { start: monthToRange(startMonth).start, end: monthToRange(endMonth).end };
+  }
+  return monthToRange(date.slice(0, 7));
+};
+
+// Latest version of each metric/period goal in effect during the period containing `date`.
+// A goal set in the middle of a period already counts for that whole period.
+export const getMetricGoalsInEffect = (goals: MetricGoal[] | undefined, date: string): MetricGoal[] => {
+  const latest = new Map<string, MetricGoal>();
+  for (const goal of goals || []) {
+    if (goal.effectiveFrom > getPeriodRange(goal.period, date).end) continue;
+    const slot = `${goal.metricKey}|${goal.period}`;
+    const current = latest.get(slot);
+    if (!current || goal.effectiveFrom >= current.effectiveFrom) latest.set(slot, goal);
+  }
+  return [...latest.values()].filter(goal => goal.target > 0);
+};
+
+export interface MetricGoalProgress {
+  goal: MetricGoal;
+  range: DateRange;
+  current: number;
+  percentage: number;
+  // Share of the period's working days elapsed up to `date`: the progress expected at an even pace.
+  // null without a calendar or when the period has no working day for the broker.
+  expectedPercentage: number | null;
+}
+
+// Percentage of the working days of a period that have passed by `date` (inclusive)
+export const getElapsedWorkingShare = (isWorkingDay: WorkingDayCheck, range: DateRange, date: string): number | null => {
+  const total = countWorkingDays(isWorkingDay, range.start, range.end);
+  if (total === 0) return null;
+  return (countWorkingDays(isWorkingDay, range.start, date < range.end ? date : range.end) / total) * 100;
+};
+
+export const getMetricGoalProgress = (broker: BrokerProfile, goal: MetricGoal, date: string, isWorkingDay?: WorkingDayCheck): MetricGoalProgress => {
+  const range = getPeriodRange(goal.period, date);
+  const current = sumMetric(filterEntriesByRange(broker.dailyEntries, range), goal.metricKey);
+  return {
+    goal,
+    range,
+    current,
+    percentage: goal.target > 0 ? (current / goal.target) * 100 : 0,
+    expectedPercentage: isWorkingDay ? getElapsedWorkingShare(isWorkingDay, range, date) : null,
+  };
+};
+
+// Progress of every goal in effect for the broker in the periods containing `date`.
+export const getBrokerGoalProgress = (broker: BrokerProfile, date: string, isWorkingDay?: WorkingDayCheck): MetricGoalProgress[] =>
+  getMetricGoalsInEffect(broker.metricGoals, date).map(goal => getMetricGoalProgress(broker, goal, date, isWorkingDay));
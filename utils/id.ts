@@ -0,0 +1,8 @@
+// Generates a random unique identifier, falling back to a timestamp-based one
+// on browsers without crypto.randomUUID (e.g. non-secure contexts).
+export const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
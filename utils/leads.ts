@@ -0,0 +1,75 @@
+import type { DailyEntry, Lead, LeadStage, MetricDefinition, MetricKind } from '../types';
+import { generateId } from './id';
+import { toLocalDateString } from './date';
+import { getActiveMetrics, setMetricValue } from './metrics';
+
+// Stages are the agency's funnel metrics, so renaming a metric renames its stage and retiring it stops
+// offering it. Order: how leads enter the base, the activities as configured, then sale and discard.
+const stageKindOrder: MetricKind[] = ['inflow', 'activity', 'sale', 'outflow'];
+
+export const getLeadStages = (metrics: MetricDefinition[]): MetricDefinition[] =>
+  stageKindOrder.flatMap(kind => getActiveMetrics(metrics).filter(metric => metric.kind === kind));
+
+// Stages a new lead can start in
+export const getEntryStages = (metrics: MetricDefinition[]): MetricDefinition[] =>
+  getLeadStages(metrics).filter(metric => metric.kind === 'inflow');
+
+// Sold or discarded leads no longer sit in the broker's active base
+export const isClosedLeadStage = (metrics: MetricDefinition[], stage: LeadStage): boolean => {
+  const kind = metrics.find(metric => metric.key === stage)?.kind;
+  return kind === 'sale' || kind === 'outflow';
+};
+
+export const createLead = (
+  data: { name: string; phone: string; source: string },
+  entryStage: LeadStage = 'newLeads',
+  at: Date = new Date()
+): Lead => {
+  const timestamp = at.toISOString();
+  return {
+    id: generateId(),
+    name: data.name,
+    phone: data.phone,
+    source: data.source,
+    stage: entryStage,
+    history: [{ stage: entryStage, at: timestamp }],
+    createdAt: timestamp,
+  };
+};
+
+export const moveLeadToStage = (lead: Lead, stage: LeadStage, at: Date = new Date()): Lead => {
+  if (lead.stage === stage) return lead;
+  return {
+    ...lead,
+    stage,
+    history: [...lead.history, { stage, at: at.toISOString() }],
+  };
+};
+
+// Counts, per stage, how many leads entered that stage on the given local date (YYYY-MM-DD).
+// These are the same counters a broker would type manually in the daily entry form, so stages whose
+// metric was retired are left out: the form no longer shows them.
+export const deriveDailyCountsFromLeads = (leads: Lead[], date: string, metrics: MetricDefinition[]): Record<string, number> => {
+  const stageKeys = new Set(getLeadStages(metrics).map(metric => metric.key));
+  const counts: Record<string, number> = {};
+  for (const lead of leads) {
+    for (const change of lead.history) {
+      if (stageKeys.has(change.stage) && toLocalDateString(new Date(change.at)) === date) {
+        counts[change.stage] = (counts[change.stage] || 0) + 1;
+      }
+    }
+  }
+  return counts;
+};
+
+// Writes derived counts into the entry form; custom metrics live in customMetrics
+export const applyDerivedCounts = <T extends Partial<DailyEntry>>(entry: T, counts: Record<string, number>): T =>
+  Object.entries(counts).reduce((result, [key, count]) => setMetricValue(result, key, count), entry);
+
+// Days since the lead last changed stage, used to spot clients stuck in the funnel
+export const daysInCurrentStage = (lead: Lead, now: Date = new Date()): number => {
+  const lastChange = lead.history[lead.history.length - 1];
+  if (!lastChange) return 0;
+  const diff = now.getTime() - new Date(lastChange.at).getTime();
+  return Math.max(0, Math.floor(diff / (1000 * 60 * 60 * 24)));
+};
@@ -0,0 +1,128 @@
+import type { BalanceAdjustment, DailyEntry, MetricDefinition, MetricKind } from '../types';
+
+// Numeric DailyEntry fields that exist since the first version. They stay on the entry even when the
+// agency retires or renames the matching metric, so older data is never lost.
+export type BuiltInMetricKey =
+  | 'newLeads' | 'repiqueLeads' | 'discardedLeads' | 'contactingLeads' | 'inProgressLeads' | 'scheduledLeads'
+  | 'localVisits' | 'negotiationLeads' | 'creditAnalysisLeads' | 'approvedLeads' | 'signedLeads';
+
+export const builtInMetricKeys: BuiltInMetricKey[] = [
+  'newLeads', 'repiqueLeads', 'discardedLeads', 'contactingLeads', 'inProgressLeads', 'scheduledLeads',
+  'localVisits', 'negotiationLeads', 'creditAnalysisLeads', 'approvedLeads', 'signedLeads',
+];
+
+export const defaultMetrics: MetricDefinition[] = [
+  { key: 'newLeads', label: 'Novos Leads', kind: 'inflow', active: true, builtIn: true },
+  { key: 'repiqueLeads', label: 'Repique', kind: 'inflow', active: true, builtIn: true },
+  { key: 'discardedLeads', label: 'Descartados', kind: 'outflow', active: true, builtIn: true },
+  { key: 'contactingLeads', label: 'Tentando Contato', kind: 'activity', active: true, builtIn: true },
+  { key: 'inProgressLeads', label: 'Em Andamento', kind: 'activity', active: true, builtIn: true },
+  { key: 'scheduledLeads', label: 'Agendados', kind: 'activity', active: true, builtIn: true },
+  { key: 'localVisits', label: 'Visitas Locais', kind: 'activity', active: true, builtIn: true },
+  { key: 'negotiationLeads', label: 'Leads em Negociação', kind: 'activity', active: true, builtIn: true },
+  { key: 'creditAnalysisLeads', label: 'Análise de Crédito', kind: 'activity', active: true, builtIn: true },
+  { key: 'approvedLeads', label: 'Aprovados', kind: 'activity', active: true, builtIn: true },
+  { key: 'signedLeads', label: 'Contrato Assinado', kind: 'sale', active: true, builtIn: true },
+  // Not a DailyEntry field: stored in customMetrics like any agency-defined metric
+  { key: 'salesValue', label: 'Valor de Vendas (R$)', kind: 'value', active: true },
+];
+
+export const metricKindLabels: Record<MetricKind, string> = {
+  inflow: 'Entrada na base',
+  outflow: 'Saída da base',
+  sale: 'Venda',
+  activity: 'Atividade / etapa do funil',
+  value: 'Valor (não altera a base)',
+};
+
+export const isBuiltInMetric = (key: string): key is BuiltInMetricKey =>
+  (builtInMetricKeys as string[]).includes(key);
+
+export const getMetricValue = (entry: Partial<DailyEntry>, key: string): number => {
+  const value = isBuiltInMetric(key) ? entry[key] : entry.customMetrics?.[key];
+  return typeof value === 'number' ? value : 0;
+};
+
+export const setMetricValue = <T extends Partial<DailyEntry>>(entry: T, key: string, value: number): T => {
+  if (isBuiltInMetric(key)) {
+    return { ...entry, [key]: value };
+  }
+  return { ...entry, customMetrics: { ...(entry.customMetrics || {}), [key]: value } };
+};
+
+export const createEmptyEntryData = (): Omit<DailyEntry, 'date'> => ({
+  newLeads: 0, discardedLeads: 0, repiqueLeads: 0, localVisits: 0, contactingLeads: 0, inProgressLeads: 0,
+  scheduledLeads: 0, negotiationLeads: 0, creditAnalysisLeads: 0, approvedLeads: 0, signedLeads: 0,
+  discardReason: '',
+  discardReasonCounts: {},
+  customMetrics: {},
+});
+
+export const getActiveMetrics = (metrics: MetricDefinition[]) => metrics.filter(m => m.active);
+
+export const getMetricLabel = (metrics: MetricDefinition[], key: string): string =>
+  metrics.find(m => m.key === key)?.label ?? key;
+
+export const sumMetric = (entries: Partial<DailyEntry>[], key: string): number =>
+  entries.reduce((sum, entry) => sum + getMetricValue(entry, key), 0);
+
+// Retired metrics are included on purpose: their historical values still moved the lead base.
+export const sumMetricsOfKind = (entries: Partial<DailyEntry>[], metrics: MetricDefinition[], kind: MetricKind): number =>
+  metrics.filter(m => m.kind === kind).reduce((sum, metric) => sum + sumMetric(entries, metric.key), 0);
+
+// Net change of the lead base caused by one day: inflows minus outflows and sales.
+export const getBalanceDelta = (entry: Partial<DailyEntry>, metrics: MetricDefinition[]): number =>
+  sumMetricsOfKind([entry], metrics, 'inflow') - sumMetricsOfKind([entry], metrics, 'outflow') - sumMetricsOfKind([entry], metrics, 'sale');
+
+// `balanceAdjustment` is the sum of the adjustments dated that day, already included in endOfDayBalance
+export type EntryWithBalance = DailyEntry & { startOfDayBalance: number; endOfDayBalance: number; balanceAdjustment: number };
+
+// Entries in chronological order with the lead base at the start and at the end of each day. Adjustments
+// apply at the end of their day; those of days without entries show up in the next entry's start.
+export const calculateBalances = (
+  initialLeads: number,
+  entries: DailyEntry[],
+  metrics: MetricDefinition[],
+  adjustments: BalanceAdjustment[] = []
+): EntryWithBalance[] => {
+  const sortedAdjustments = [...adjustments].sort((a, b) => a.date.localeCompare(b.date));
+  let nextAdjustment = 0;
+  let currentLeadBase = initialLeads;
+  return [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(entry => {
+      while (nextAdjustment < sortedAdjustments.length && sortedAdjustments[nextAdjustment].date < entry.date) {
+        currentLeadBase += sortedAdjustments[nextAdjustment++].amount;
+      }
+      const startOfDayBalance = currentLeadBase;
+      let balanceAdjustment = 0;
+      while (nextAdjustment < sortedAdjustments.length && sortedAdjustments[nextAdjustment].date === entry.date) {
+        balanceAdjustment += sortedAdjustments[nextAdjustment++].amount;
+      }
+      currentLeadBase += getBalanceDelta(entry, metrics) + balanceAdjustment;
+      return { ...entry, startOfDayBalance, endOfDayBalance: currentLeadBase, balanceAdjustment };
+    });
+};
+
+// Lead base at the end of the given day (YYYY-MM-DD), counting entries and adjustments up to it.
+export const getBalanceAtEndOf = (
+  date: string,
+  initialLeads: number,
+  entries: DailyEntry[],
+  metrics: MetricDefinition[],
+  adjustments: BalanceAdjustment[] = []
+): number =>
+  initialLeads +
+  entries.filter(entry => entry.date <= date).reduce((sum, entry) => sum + getBalanceDelta(entry, metrics), 0) +
+  adjustments.filter(adjustment => adjustment.date <= date).reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+// Metrics to show in exports: the active ones plus retired ones that still hold data in the given entries.
+export const getReportMetrics = (metrics: MetricDefinition[], entries: Partial<DailyEntry>[]) =>
+  metrics.filter(m => m.active || entries.some(entry => getMetricValue(entry, m.key) !== 0));
+
+// Adds metrics introduced in newer versions to a saved configuration without touching the agency's changes.
+export const mergeWithDefaultMetrics = (saved: MetricDefinition[] | undefined): MetricDefinition[] => {
+  if (!Array.isArray(saved) || saved.length === 0) return defaultMetrics;
+  const missing = defaultMetrics.filter(def => !saved.some(m => m.key === def.key));
+  return [...saved, ...missing.map(m => ({ ...m, active: false }))];
+};
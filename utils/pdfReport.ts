@@ -0,0 +1,303 @@
+// Vector PDF layout on top of jsPDF (loaded from the CDN and cached by the service worker, so it
+// works offline). Text stays selectable, tables break between rows and repeat their header.
+
+// TypeScript declaration for the global library loaded via CDN
+declare const jspdf: any;
+
+export type RGB = [number, number, number];
+
+export interface ReportBranding {
+  agencyName?: string;
+  agencyLogo?: string; // PNG or JPEG data URL
+}
+
+export interface PdfReportOptions extends ReportBranding {
+  title: string;
+  subtitle?: string;
+  orientation?: 'portrait' | 'landscape';
+}
+
+export type PdfCell = string | number | { text: string | number; color?: RGB; bold?: boolean };
+
+export interface PdfTableColumn {
+  header: string;
+  width?: number; // Relative weight, defaults to 1
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfMetric {
+  label: string;
+  value: string | number;
+  detail?: string;
+  color?: RGB;
+}
+
+export interface PdfChartSeries {
+  label: string;
+  values: number[];
+  color: RGB;
+}
+
+const MARGIN = 15;
+const HEADER_HEIGHT = 22;
+const FOOTER_HEIGHT = 12;
+const TEXT_COLOR: RGB = [31, 41, 55];
+const MUTED_COLOR: RGB = [107, 114, 128];
+const BORDER_COLOR: RGB = [209, 213, 219];
+const HEADER_FILL: RGB = [243, 244, 246];
+
+export const rgbFromTriplet = (triplet: string): RGB => triplet.split(',').map(part => Number(part.trim())) as RGB;
+
+const niceCeiling = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(factor => factor * magnitude >= value) as number;
+  return step * magnitude;
+};
+
+export const createPdfReport = (options: PdfReportOptions) => {
+  const doc = new jspdf.jsPDF({ unit: 'mm', format: 'a4', orientation: options.orientation || 'portrait' });
+  const pageWidth: number = doc.internal.pageSize.getWidth();
+  const pageHeight: number = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const bottomLimit = pageHeight - MARGIN - FOOTER_HEIGHT;
+  let y = 0;
+
+  const setText = (size: number, style: 'normal' | 'bold' = 'normal', color: RGB = TEXT_COLOR) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const drawPageHeader = () => {
+    let textX = MARGIN;
+    if (options.agencyLogo) {
+      try {
+        const { width, height } = doc.getImageProperties(options.agencyLogo);
+        const logoHeight = 14;
+        const logoWidth = Math.min(40, (width / height) * logoHeight);
+        const format = options.agencyLogo.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+        doc.addImage(options.agencyLogo, format, MARGIN, MARGIN - 2, logoWidth, logoHeight);
+        textX = MARGIN + logoWidth + 4;
+      } catch (error) {
+        console.error("Could not draw agency logo", error);
+      }
+    }
+    if (options.agencyName) {
+      setText(11, 'bold');
+      doc.text(options.agencyName, textX, MARGIN + 4);
+    }
+    setText(14, 'bold');
+    doc.text(options.title, pageWidth - MARGIN, MARGIN + 3, { align: 'right' });
+    if (options.subtitle) {
+      setText(9, 'normal', MUTED_COLOR);
+      doc.text(options.subtitle, pageWidth - MARGIN, MARGIN + 9, { align: 'right' });
+    }
+    doc.setDrawColor(...BORDER_COLOR);
+    doc.setLineWidth(0.4);
+    doc.line(MARGIN, MARGIN + HEADER_HEIGHT - 7, pageWidth - MARGIN, MARGIN + HEADER_HEIGHT - 7);
+    y = MARGIN + HEADER_HEIGHT;
+  };
+
+  const addPage = () => {
+    doc.addPage();
+    drawPageHeader();
+  };
+
+  // Starts a new page when the next block would not fit on the current one
+  const ensureSpace = (height: number) => {
+    if (y + height > bottomLimit) addPage();
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(14);
+    y += 2;
+    setText(13, 'bold');
+    doc.text(text, MARGIN, y + 4);
+    y += 9;
+  };
+
+  const paragraph = (text: string, color: RGB = MUTED_COLOR) => {
+    setText(9, 'normal', color);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    for (const line of lines) {
+      ensureSpace(5);
+      doc.text(line, MARGIN, y + 3.5);
+      y += 4.5;
+    }
+    y += 2;
+  };
+
+  const metricGrid = (metrics: PdfMetric[], columns = 3) => {
+    const gap = 4;
+    const boxWidth = (contentWidth - gap * (columns - 1)) / columns;
+    const boxHeight = metrics.some(m => m.detail) ? 22 : 18;
+    for (let i = 0; i < metrics.length; i += columns) {
+      ensureSpace(boxHeight + gap);
+      metrics.slice(i, i + columns).forEach((metric, index) => {
+        const x = MARGIN + index * (boxWidth + gap);
+        doc.setDrawColor(...BORDER_COLOR);
+        doc.setLineWidth(0.3);
+        doc.roundedRect(x, y, boxWidth, boxHeight, 2, 2, 'S');
+        setText(8, 'normal', MUTED_COLOR);
+        doc.text(metric.label, x + boxWidth / 2, y + 5, { align: 'center', maxWidth: boxWidth - 4 });
+        setText(14, 'bold', metric.color || TEXT_COLOR);
+        doc.text(String(metric.value), x + boxWidth / 2, y + 12.5, { align: 'center' });
+        if (metric.detail) {
+          setText(7, 'normal', MUTED_COLOR);
+          doc.text(metric.detail, x + boxWidth / 2, y + 18, { align: 'center', maxWidth: boxWidth - 4 });
+        }
+      });
+      y += boxHeight + gap;
+    }
+    y += 2;
+  };
+
+  // Goal progress bar with "current de target" text
+  const progressBar = (label: string, current: number, target: number, unit = '') => {
+    ensureSpace(14);
+    const percentage = target > 0 ? (current / target) * 100 : 0;
+    setText(9, 'bold');
+    doc.text(label, MARGIN, y + 3.5);
+    doc.text(`${Math.round(percentage)}%`, pageWidth - MARGIN, y + 3.5, { align: 'right' });
+    doc.setFillColor(...HEADER_FILL);
+    doc.roundedRect(MARGIN, y + 5, contentWidth, 3.5, 1.5, 1.5, 'F');
+    if (percentage > 0) {
+      doc.setFillColor(37, 99, 235);
+      doc.roundedRect(MARGIN, y + 5, contentWidth * Math.min(percentage, 100) / 100, 3.5, 1.5, 1.5, 'F');
+    }
+    setText(7, 'normal', MUTED_COLOR);
+    doc.text(`${current.toLocaleString('pt-BR')} de ${target.toLocaleString('pt-BR')} ${unit}`.trim(), pageWidth - MARGIN, y + 12, { align: 'right' });
+    y += 15;
+  };
+
+  const table = (columns: PdfTableColumn[], rows: PdfCell[][], emptyMessage = 'Nenhum registro.') => {
+    const fontSize = 8;
+    const lineHeight = 3.6;
+    const padding = 1.6;
+    const totalWeight = columns.reduce((sum, column) => sum + (column.width || 1), 0);
+    const widths = columns.map(column => (contentWidth * (column.width || 1)) / totalWeight);
+
+    const cellText = (cell: PdfCell) => String(typeof cell === 'object' ? cell.text : cell);
+    const measureRow = (cells: string[], style: 'normal' | 'bold' = 'normal') => {
+      setText(fontSize, style); // Line wrapping depends on the current font
+      return cells.map((text, index) => doc.splitTextToSize(text, widths[index] - padding * 2) as string[]);
+    };
+
+    const drawRow = (lines: string[][], cells: PdfCell[] | null, height: number) => {
+      let x = MARGIN;
+      lines.forEach((cellLines, index) => {
+        const column = columns[index];
+        const cell = cells ? cells[index] : null;
+        const style = cell && typeof cell === 'object' ? cell : null;
+        setText(fontSize, !cells || style?.bold ? 'bold' : 'normal', style?.color || TEXT_COLOR);
+        const align = column.align || 'left';
+        const textX = align === 'left' ? x + padding : align === 'right' ? x + widths[index] - padding : x + widths[index] / 2;
+        cellLines.forEach((line, lineIndex) => {
+          doc.text(line, textX, y + padding + lineHeight * (lineIndex + 0.8), { align });
+        });
+        x += widths[index];
+      });
+      doc.setDrawColor(...BORDER_COLOR);
+      doc.setLineWidth(0.2);
+      doc.line(MARGIN, y + height, MARGIN + contentWidth, y + height);
+      y += height;
+    };
+
+    const headerLines = measureRow(columns.map(column => column.header), 'bold');
+    const headerHeight = Math.max(...headerLines.map(lines => lines.length)) * lineHeight + padding * 2;
+    const drawHeader = () => {
+      doc.setFillColor(...HEADER_FILL);
+      doc.rect(MARGIN, y, contentWidth, headerHeight, 'F');
+      drawRow(headerLines, null, headerHeight);
+    };
+
+    ensureSpace(headerHeight + lineHeight + padding * 2);
+    drawHeader();
+    if (rows.length === 0) {
+      paragraph(emptyMessage);
+      return;
+    }
+    for (const row of rows) {
+      const lines = measureRow(row.map(cellText));
+      const height = Math.max(...lines.map(cellLines => cellLines.length)) * lineHeight + padding * 2;
+      if (y + height > bottomLimit) {
+        addPage();
+        drawHeader(); // Repeat the header on every page the table spans
+      }
+      drawRow(lines, row, height);
+    }
+    y += 4;
+  };
+
+  const lineChart = (labels: string[], series: PdfChartSeries[], height = 70) => {
+    if (labels.length === 0 || series.length === 0) return;
+    const legendHeight = 8;
+    ensureSpace(height + legendHeight + 4);
+    const axisWidth = 10;
+    const plotX = MARGIN + axisWidth;
+    const plotWidth = contentWidth - axisWidth;
+    const plotHeight = height - 8;
+    const maxValue = niceCeiling(Math.max(...series.flatMap(s => s.values), 0));
+    const minValue = Math.min(0, ...series.flatMap(s => s.values));
+    const range = maxValue - minValue || 1;
+    const toY = (value: number) => y + plotHeight - ((value - minValue) / range) * plotHeight;
+    const toX = (index: number) => plotX + (labels.length === 1 ? plotWidth / 2 : (index / (labels.length - 1)) * plotWidth);
+
+    // Grid and y axis
+    doc.setLineWidth(0.1);
+    for (let tick = 0; tick <= 4; tick++) {
+      const value = minValue + (range * tick) / 4;
+      doc.setDrawColor(...BORDER_COLOR);
+      doc.line(plotX, toY(value), plotX + plotWidth, toY(value));
+      setText(6, 'normal', MUTED_COLOR);
+      doc.text(String(Math.round(value)), plotX - 1.5, toY(value) + 1, { align: 'right' });
+    }
+
+    // x labels, skipped when they would overlap
+    const labelStep = Math.max(1, Math.ceil(labels.length / (plotWidth / 12)));
+    labels.forEach((label, index) => {
+      if (index % labelStep === 0) doc.text(label, toX(index), y + plotHeight + 4, { align: 'center' });
+    });
+
+    for (const s of series) {
+      doc.setDrawColor(...s.color);
+      doc.setFillColor(...s.color);
+      doc.setLineWidth(0.5);
+      s.values.forEach((value, index) => {
+        if (index > 0) doc.line(toX(index - 1), toY(s.values[index - 1]), toX(index), toY(value));
+        if (labels.length <= 31) doc.circle(toX(index), toY(value), 0.5, 'F');
+      });
+    }
+
+    // Legend
+    let legendX = plotX;
+    const legendY = y + height;
+    series.forEach(s => {
+      doc.setFillColor(...s.color);
+      doc.rect(legendX, legendY - 2, 3, 3, 'F');
+      setText(7, 'normal', TEXT_COLOR);
+      doc.text(s.label, legendX + 4.5, legendY + 0.5);
+      legendX += 4.5 + doc.getTextWidth(s.label) + 6;
+    });
+    y += height + legendHeight;
+  };
+
+  // Page numbers go in at the end, when the total is known
+  const save = (fileName: string) => {
+    const pageCount: number = doc.getNumberOfPages();
+    const generatedAt = `Gerado em ${new Date().toLocaleString('pt-BR')}`;
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      setText(7, 'normal', MUTED_COLOR);
+      doc.text(generatedAt, MARGIN, pageHeight - MARGIN);
+      doc.text(`Página ${page} de ${pageCount}`, pageWidth - MARGIN, pageHeight - MARGIN, { align: 'right' });
+    }
+    doc.save(fileName);
+  };
+
+  drawPageHeader();
+  return { heading, paragraph, metricGrid, progressBar, table, lineChart, addPage, save };
+};
+
+export type PdfReport = ReturnType<typeof createPdfReport>;
@@ -0,0 +1,46 @@
+import type { DailyEntry } from '../types';
+import { addDays, parseDate } from './date';
+import { filterEntriesByRange, type DateRange } from './funnel';
+import { getPeriodRange } from './goals';
+
+export type PeriodPreset = 'week' | 'month' | 'lastMonth' | 'quarter' | 'year' | 'all' | 'custom';
+
+export const periodPresetLabels: Record<PeriodPreset, string> = {
+  week: 'Esta semana',
+  month: 'Este mês',
+  lastMonth: 'Mês passado',
+  quarter: 'Este trimestre',
+  year: 'Este ano',
+  all: 'Todo o período',
+  custom: 'Personalizado',
+};
+
+// Range covered by a preset on the given day; null means all time. Current periods end today.
+export const getPresetRange = (preset: PeriodPreset, today: string, custom: DateRange): DateRange | null => {
+  switch (preset) {
+    case 'week':
+    case 'month':
+    case 'quarter':
+      return { start: getPeriodRange(preset, today).start, end: today };
+    case 'lastMonth': {
+      const firstOfMonth = getPeriodRange('month', today).start;
+      return getPeriodRange('month', addDays(firstOfMonth, -1));
+    }
+    case 'year':
+      return { start: `${today.slice(0, 4)}-01-01`, end: today };
+    case 'custom':
+      return custom;
+    default:
+      return null;
+  }
+};
+
+// The period of the same length that ends the day before the given one starts.
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const lengthInDays = Math.round((parseDate(range.end).getTime() - parseDate(range.start).getTime()) / 86400000);
+  const end = addDays(range.start, -1);
+  return { start: addDays(end, -lengthInDays), end };
+};
+
+export const filterEntriesByPeriod = (entries: DailyEntry[], range: DateRange | null): DailyEntry[] =>
+  range ? filterEntriesByRange(entries, range) : entries;
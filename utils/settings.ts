@@ -0,0 +1,28 @@
+import type { AgencySettings } from '../types';
+import { defaultDiscardReasons, mergeWithDefaultDiscardReasons } from './discardReasons';
+import { defaultMetrics, mergeWithDefaultMetrics } from './metrics';
+import { createDefaultRuleSeverities, mergeWithDefaultRuleSeverities } from './consistency';
+import { defaultDistributionSettings } from './distribution';
+import { createDefaultCalendar, normalizeCalendar } from './calendar';
+import { defaultEntryReminder } from './compliance';
+
+export const createDefaultSettings = (): AgencySettings => ({
+  metrics: defaultMetrics,
+  discardReasons: defaultDiscardReasons,
+  consistencyRules: createDefaultRuleSeverities(),
+  leadDistribution: defaultDistributionSettings,
+  calendar: createDefaultCalendar(),
+  entryReminder: defaultEntryReminder,
+});
+
+// Fills in whatever a stored (possibly older or partial) configuration is missing.
+export const normalizeSettings = (saved: Partial<AgencySettings> | undefined | null): AgencySettings => ({
+  ...createDefaultSettings(),
+  ...(saved || {}),
+  metrics: mergeWithDefaultMetrics(saved?.metrics),
+  discardReasons: mergeWithDefaultDiscardReasons(saved?.discardReasons),
+  consistencyRules: mergeWithDefaultRuleSeverities(saved?.consistencyRules),
+  leadDistribution: { ...defaultDistributionSettings, ...(saved?.leadDistribution || {}) },
+  calendar: normalizeCalendar(saved?.calendar),
+  entryReminder: { ...defaultEntryReminder, ...(saved?.entryReminder || {}) },
+});
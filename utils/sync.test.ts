@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { applySyncedRecords } from './sync';
+import { broker, entry } from './testFixtures';
+
+describe('applySyncedRecords', () => {
+  it('takes only the synced days from storage and keeps the rest as shown', () => {
+    const onScreen = [broker('a', [entry('2026-03-02', { newLeads: 9 }), entry('2026-03-03', { newLeads: 1 })])];
+    const stored = [broker('a', [entry('2026-03-02', { newLeads: 2 }), entry('2026-03-04', { newLeads: 5 })])];
+
+    const [synced] = applySyncedRecords(onScreen, stored, ['entry:a|2026-03-03', 'entry:a|2026-03-04']);
+
+    expect(synced.dailyEntries.map(e => [e.date, e.newLeads])).toEqual([['2026-03-02', 9], ['2026-03-04', 5]]);
+  });
+
+  it('updates, adds and removes broker profiles without touching their days', () => {
+    const onScreen = [broker('a', [entry('2026-03-02')]), broker('b')];
+    const stored = [broker('a', [], { brokerName: 'Ana' }), broker('c', [entry('2026-03-05')])];
+
+    const synced = applySyncedRecords(onScreen, stored, ['broker:a', 'broker:b', 'broker:c']);
+
+    expect(synced.map(b => [b.id, b.brokerName, b.dailyEntries.length])).toEqual([['a', 'Ana', 1], ['c', 'c', 1]]);
+  });
+});
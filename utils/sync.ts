@@ -0,0 +1,122 @@
+import type { BrokerProfile, DailyEntry, MetricDefinition } from '../types';
+import { builtInMetricKeys, getMetricLabel, getMetricValue } from './metrics';
+import { formatDate } from './date';
+import { applyEntryChanges } from './audit';
+
+// Records exchanged with the sync server (see server/sync-server.js). Each broker profile and each day
+// of each broker is one record, so two devices only conflict when they change the same day. The month
+// close log is one more record, of kind 'meta'.
+export type SyncRecordKind = 'broker' | 'entry' | 'meta';
+
+export interface SyncRecord {
+  key: string;
+  kind: SyncRecordKind;
+  data: Record<string, unknown> | null; // Stored broker or entry record; null when it was deleted
+  version: number;
+  seq: number;
+  author?: string;
+  updatedAt: string; // ISO timestamp
+}
+
+// A local change waiting to be pushed. `revision` tells whether it changed again while being pushed.
+export interface PendingSyncChange {
+  key: string;
+  kind: SyncRecordKind;
+  data: Record<string, unknown> | null;
+  baseVersion: number;
+  revision: number;
+}
+
+// A record changed here and on another device. The other device's version is applied; the local one is
+// kept until the user picks which one stays.
+export interface SyncConflict {
+  key: string;
+  local: Record<string, unknown> | null;
+  remote: SyncRecord;
+  closedMonth?: boolean; // A day of a month closed here: the local version was kept instead
+}
+
+// Per device; not part of the agency settings nor of backups.
+export interface SyncConfig {
+  serverUrl: string; // Empty when sync is off
+  token: string;
+  lastSeq: number; // Last server sequence pulled
+  lastSyncAt?: string; // ISO timestamp
+}
+
+// What the settings screen shows about sync on this device
+export interface SyncStatus {
+  config: SyncConfig;
+  pending: number; // Local changes waiting to be pushed
+  conflicts: SyncConflict[];
+  isSyncing: boolean;
+  error: string | null; // Why the last sync failed
+}
+
+export const createDefaultSyncConfig = (): SyncConfig => ({ serverUrl: '', token: '', lastSeq: 0 });
+
+export const getBrokerSyncKey = (brokerId: string) => `broker:${brokerId}`;
+
+export const getEntrySyncKey = (brokerId: string, date: string) => `entry:${brokerId}|${date}`;
+
+export const MONTH_CLOSE_LOG_SYNC_KEY = 'meta:monthCloseLog';
+
+// Records of kind 'meta' belong to no broker, so their broker ID is empty
+export const parseSyncKey = (key: string): { kind: SyncRecordKind; brokerId: string; date?: string } => {
+  if (key.startsWith('meta:')) return { kind: 'meta', brokerId: '' };
+  if (key.startsWith('broker:')) return { kind: 'broker', brokerId: key.slice('broker:'.length) };
+  const [brokerId, date] = key.slice('entry:'.length).split('|');
+  return { kind: 'entry', brokerId, date };
+};
+
+// Brings the records sync wrote, as read back from storage, into the brokers on screen. Everything else stays
+// as it is on screen, so a change saved while sync ran is not replaced by an older copy.
+export const applySyncedRecords = (brokers: BrokerProfile[], stored: BrokerProfile[], keys: string[]): BrokerProfile[] =>
+  keys.reduce((result, key) => {
+    const { kind, brokerId, date } = parseSyncKey(key);
+    if (kind === 'meta') return result;
+    const storedBroker = stored.find(b => b.id === brokerId);
+    if (kind === 'entry') {
+      return applyEntryChanges(result, [{ brokerId, date: date!, entry: storedBroker?.dailyEntries.find(e => e.date === date) ?? null }]);
+    }
+    if (!storedBroker) return result.filter(b => b.id !== brokerId);
+    if (!result.some(b => b.id === brokerId)) return [...result, storedBroker];
+    return result.map(b => (b.id === brokerId ? { ...storedBroker, dailyEntries: b.dailyEntries } : b));
+  }, brokers);
+
+// "Cadastro de Ana" or "Ana · 12/10/2026", for conflict lists
+export const describeSyncKey = (key: string, brokers: BrokerProfile[]): string => {
+  const { kind, brokerId, date } = parseSyncKey(key);
+  if (kind === 'meta') return 'Fechamento de meses';
+  const name = brokers.find(b => b.id === brokerId)?.brokerName ?? 'Corretor removido';
+  return kind === 'broker' ? `Cadastro de ${name}` : `${name} · ${formatDate(date)}`;
+};
+
+const brokerFieldLabels: Record<string, string> = {
+  initialLeads: 'Base inicial',
+  monthlySalesGoal: 'Meta de vendas',
+  goalHistory: 'Metas de vendas',
+  metricGoals: 'Outras metas',
+  leads: 'Leads individuais',
+  balanceAdjustments: 'Ajustes de saldo',
+  absences: 'Ausências',
+  archivedAt: 'Arquivamento',
+  deletedAt: 'Lixeira',
+};
+
+// Values that differ between the two sides of a conflict, e.g. "Leads Novos: 5 aqui, 7 no outro aparelho"
+export const describeConflictDifferences = (conflict: SyncConflict, metrics: MetricDefinition[]): string[] => {
+  const { local, remote } = conflict;
+  if (!local || !remote.data) return [!local ? 'Excluído neste aparelho.' : 'Excluído no outro aparelho.'];
+  if (remote.kind === 'broker') {
+    return Object.keys({ ...local, ...remote.data })
+      .filter(key => key !== 'schemaVersion' && JSON.stringify(local[key]) !== JSON.stringify(remote.data![key]))
+      .map(key => (key === 'brokerName' ? `Nome: ${local[key]} aqui, ${remote.data![key]} no outro aparelho` : `${brokerFieldLabels[key] ?? key}: alterado nos dois aparelhos`));
+  }
+  const here = local as unknown as DailyEntry;
+  const there = remote.data as unknown as DailyEntry;
+  const keys = new Set([...builtInMetricKeys, ...Object.keys(here.customMetrics || {}), ...Object.keys(there.customMetrics || {})]);
+  return [...keys]
+    .filter(key => getMetricValue(here, key) !== getMetricValue(there, key))
+    .map(key => `${getMetricLabel(metrics, key)}: ${getMetricValue(here, key)} aqui, ${getMetricValue(there, key)} no outro aparelho`);
+};
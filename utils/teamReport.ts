@@ -0,0 +1,276 @@
+import type { BrokerProfile, DiscardReasonDefinition, MetricDefinition } from '../types';
+import { computeFunnel, filterEntriesByRange, formatRate, getFunnelStages, type DateRange, type FunnelResult } from './funnel';
+import { getDiscardBreakdown, summarizeDiscardBreakdown, type DiscardReasonTotal } from './discardReasons';
+import { getBrokerGoalProgress, getSalesGoalForMonth, goalPeriodLabels } from './goals';
+import { getMetricLabel, getReportMetrics, sumMetric, sumMetricsOfKind } from './metrics';
+import { getLeadTransfers, sumTransfers, type LeadTransfer } from './transfers';
+import { createPdfReport, type PdfCell, type RGB, type ReportBranding } from './pdfReport';
+import { withApprovedEntriesOnly } from './approval';
+import { escapeCsv } from './csv';
+import { formatDate } from './date';
+
+export interface TeamReportRow {
+  broker: BrokerProfile;
+  totals: Record<string, number>; // Per metric key
+  leadsIn: number;
+  sales: number;
+  discarded: number;
+  conversionRate: number | null;
+  salesGoal: number;
+  goalAttainment: number | null; // Percentage, null without a goal
+  funnel: FunnelResult;
+  discardReasons: DiscardReasonTotal[]; // Most frequent first
+  transfersReceived: number; // Leads handed over by colleagues; not part of leadsIn
+  transfersHandedOver: number;
+}
+
+export interface TeamReportData {
+  range: DateRange;
+  metrics: MetricDefinition[]; // Columns: active metrics plus retired ones with data in the period
+  funnelStages: string[];
+  rows: TeamReportRow[]; // Ranked by sales
+  totals: Omit<TeamReportRow, 'broker' | 'funnel' | 'transfersReceived' | 'transfersHandedOver'>; // Its discardReasons also give the order of the reason columns
+  transfers: LeadTransfer[]; // Redistributions of the base between the brokers in the period
+}
+
+const GREEN: RGB = [22, 163, 74];
+const RED: RGB = [220, 38, 38];
+
+// Months (YYYY-MM) touched by the range, used to add up the monthly sales goals
+const getMonthsInRange = (range: DateRange): string[] => {
+  const months: string[] = [];
+  for (let month = range.start.slice(0, 7); month <= range.end.slice(0, 7);) {
+    months.push(month);
+    const [year, monthIndex] = month.split('-').map(Number);
+    month = monthIndex === 12 ? `${year + 1}-01` : `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+  }
+  return months;
+};
+
+const toRate = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : null);
+
+// Only approved entries count, as in the ranking and the comparison of the management screen.
+export const buildTeamReportData = (
+  reportBrokers: BrokerProfile[],
+  metrics: MetricDefinition[],
+  discardReasons: DiscardReasonDefinition[],
+  range: DateRange
+): TeamReportData => {
+  const brokers = reportBrokers.map(withApprovedEntriesOnly);
+  const funnelStages = getFunnelStages(metrics);
+  const months = getMonthsInRange(range);
+  const allEntries = brokers.flatMap(broker => filterEntriesByRange(broker.dailyEntries, range));
+  const reportMetrics = getReportMetrics(metrics, allEntries);
+
+  const rows: TeamReportRow[] = brokers.map(broker => {
+    const entries = filterEntriesByRange(broker.dailyEntries, range);
+    const leadsIn = sumMetricsOfKind(entries, metrics, 'inflow');
+    const sales = sumMetricsOfKind(entries, metrics, 'sale');
+    const salesGoal = months.reduce((sum, month) => sum + getSalesGoalForMonth(broker, month), 0);
+    const { received, handedOver } = sumTransfers(broker, range.start, range.end);
+    return {
+      broker,
+      totals: Object.fromEntries(reportMetrics.map(metric => [metric.key, sumMetric(entries, metric.key)])),
+      leadsIn,
+      sales,
+      discarded: sumMetricsOfKind(entries, metrics, 'outflow'),
+      conversionRate: toRate(sales, leadsIn),
+      salesGoal,
+      goalAttainment: salesGoal > 0 ? (sales / salesGoal) * 100 : null,
+      funnel: computeFunnel(entries, funnelStages),
+      discardReasons: summarizeDiscardBreakdown(getDiscardBreakdown(entries, metrics), discardReasons),
+      transfersReceived: received,
+      transfersHandedOver: handedOver,
+    };
+  }).sort((a, b) => b.sales - a.sales || b.leadsIn - a.leadsIn);
+
+  const leadsIn = rows.reduce((sum, row) => sum + row.leadsIn, 0);
+  const sales = rows.reduce((sum, row) => sum + row.sales, 0);
+  const salesGoal = rows.reduce((sum, row) => sum + row.salesGoal, 0);
+
+  return {
+    range,
+    metrics: reportMetrics,
+    funnelStages,
+    rows,
+    totals: {
+      totals: Object.fromEntries(reportMetrics.map(metric => [metric.key, sumMetric(allEntries, metric.key)])),
+      leadsIn,
+      sales,
+      discarded: rows.reduce((sum, row) => sum + row.discarded, 0),
+      conversionRate: toRate(sales, leadsIn),
+      salesGoal,
+      goalAttainment: salesGoal > 0 ? (sales / salesGoal) * 100 : null,
+      discardReasons: summarizeDiscardBreakdown(getDiscardBreakdown(allEntries, metrics), discardReasons),
+    },
+    transfers: getLeadTransfers(brokers).filter(transfer => transfer.date >= range.start && transfer.date <= range.end),
+  };
+};
+
+const formatPercentage = (value: number | null) => (value === null ? 'N/A' : `${Math.round(value)}%`);
+
+const getDiscardedFor = (row: Pick<TeamReportRow, 'discardReasons'>, key: string) =>
+  row.discardReasons.find(reason => reason.key === key)?.discarded || 0;
+
+export const formatRangeLabel = (range: DateRange) => `${formatDate(range.start)} a ${formatDate(range.end)}`;
+
+export const generateTeamReportPdf = (data: TeamReportData, branding: ReportBranding) => {
+  const periodLabel = formatRangeLabel(data.range);
+  const report = createPdfReport({ ...branding, title: 'Relatório da Equipe', subtitle: periodLabel, orientation: 'landscape' });
+  const stageLabel = (key: string) => getMetricLabel(data.metrics, key);
+
+  report.heading('Totais da Equipe');
+  report.metricGrid([
+    { label: 'Corretores', value: data.rows.length },
+    { label: 'Leads Recebidos', value: data.totals.leadsIn },
+    { label: 'Leads Descartados', value: data.totals.discarded, color: RED },
+    { label: 'Vendas', value: data.totals.sales, color: GREEN },
+    { label: 'Taxa de Conversão', value: formatRate(data.totals.conversionRate) },
+    { label: 'Meta de Vendas', value: data.totals.salesGoal || 'N/A', detail: data.totals.salesGoal ? `${formatPercentage(data.totals.goalAttainment)} atingido` : undefined },
+  ], 3);
+
+  report.heading('Ranking de Vendas');
+  report.table(
+    [{ header: '#', width: 0.4, align: 'center' }, { header: 'Corretor', width: 3 }, { header: 'Vendas', align: 'center' }, { header: 'Meta', align: 'center' }, { header: '% da Meta', align: 'center' }],
+    data.rows.map((row, index) => [
+      index + 1, row.broker.brokerName, { text: row.sales, bold: true, color: GREEN }, row.salesGoal || '-',
+      { text: formatPercentage(row.goalAttainment), color: row.goalAttainment !== null && row.goalAttainment >= 100 ? GREEN : undefined },
+    ])
+  );
+
+  report.heading('Comparativo de Performance');
+  const totalRow: PdfCell[] = [
+    { text: 'Equipe', bold: true },
+    ...data.metrics.map(metric => ({ text: data.totals.totals[metric.key], bold: true })),
+    { text: formatRate(data.totals.conversionRate), bold: true },
+  ];
+  report.table(
+    [{ header: 'Corretor', width: 2 }, ...data.metrics.map(metric => ({ header: metric.label, align: 'center' as const })), { header: 'Conversão', align: 'center' }],
+    [
+      ...data.rows.map(row => [row.broker.brokerName, ...data.metrics.map(metric => row.totals[metric.key]), formatRate(row.conversionRate)]),
+      totalRow,
+    ]
+  );
+
+  if (data.funnelStages.length > 1) {
+    report.heading('Funil por Corretor');
+    report.table(
+      [
+        { header: 'Corretor', width: 2 },
+        ...data.funnelStages.slice(1).map((stage, index) => ({ header: `${stageLabel(data.funnelStages[index])} -> ${stageLabel(stage)}`, align: 'center' as const })),
+        { header: 'Geral', align: 'center' },
+      ],
+      data.rows.map(row => [
+        row.broker.brokerName,
+        ...row.funnel.steps.map(step => formatRate(step.conversionRate)),
+        { text: formatRate(row.funnel.overallConversionRate), bold: true },
+      ])
+    );
+  }
+
+  const teamDiscards = data.totals.discardReasons;
+  report.heading('Motivos de Descarte');
+  report.table(
+    [{ header: 'Motivo', width: 4 }, { header: 'Leads Descartados', align: 'center' }, { header: '% dos Descartes', align: 'center' }],
+    teamDiscards.map(reason => [reason.label, reason.discarded, formatPercentage(reason.share)]),
+    'Nenhum lead descartado no período.'
+  );
+  if (teamDiscards.length > 0) {
+    report.table(
+      [{ header: 'Corretor', width: 2 }, ...teamDiscards.map(reason => ({ header: reason.label, align: 'center' as const })), { header: 'Total', align: 'center' }],
+      [
+        ...data.rows.map(row => [row.broker.brokerName, ...teamDiscards.map(reason => getDiscardedFor(row, reason.key)), { text: row.discarded, bold: true, color: RED }]),
+        [{ text: 'Equipe', bold: true }, ...teamDiscards.map(reason => ({ text: reason.discarded, bold: true })), { text: data.totals.discarded, bold: true, color: RED }],
+      ]
+    );
+  }
+
+  if (data.transfers.length > 0) {
+    report.heading('Redistribuição de Leads');
+    report.paragraph('Leads repassados entre corretores. Não entram nos leads recebidos nem na conversão.');
+    report.table(
+      [{ header: 'Data', width: 1.2 }, { header: 'De', width: 2 }, { header: 'Para', width: 4 }, { header: 'Leads', align: 'center' }, { header: 'Observação', width: 3 }],
+      data.transfers.map(transfer => [
+        formatDate(transfer.date),
+        transfer.fromBrokerName,
+        transfer.destinations.map(destination => `${destination.brokerName} (${destination.quantity})`).join(', '),
+        { text: transfer.total, bold: true },
+        transfer.note || '-',
+      ])
+    );
+  }
+
+  // Appendix: one page per broker
+  for (const row of data.rows) {
+    report.addPage();
+    report.heading(`Anexo: ${row.broker.brokerName}`);
+    report.metricGrid([
+      { label: 'Leads Recebidos', value: row.leadsIn },
+      { label: 'Leads Descartados', value: row.discarded, color: RED },
+      { label: 'Vendas', value: row.sales, color: GREEN },
+      { label: 'Taxa de Conversão', value: formatRate(row.conversionRate) },
+      { label: 'Base Inicial (cadastro)', value: row.broker.initialLeads },
+      { label: 'Meta de Vendas', value: row.salesGoal || 'N/A' },
+      ...(row.transfersReceived > 0 || row.transfersHandedOver > 0
+        ? [{ label: 'Recebidos por Transferência', value: row.transfersReceived }, { label: 'Repassados por Transferência', value: row.transfersHandedOver }]
+        : []),
+    ], 6);
+    if (row.salesGoal > 0) report.progressBar('Meta de Vendas do Período', row.sales, row.salesGoal, 'vendas');
+    getBrokerGoalProgress(row.broker, data.range.end).forEach(({ goal, current }) => {
+      report.progressBar(`Meta ${goalPeriodLabels[goal.period]}: ${stageLabel(goal.metricKey)}`, current, goal.target);
+    });
+    report.table(
+      [{ header: 'Etapa', width: 2 }, { header: 'Quantidade', align: 'center' }, { header: 'Conversão da etapa anterior', align: 'center' }],
+      data.funnelStages.map((stage, index) => [
+        stageLabel(stage), row.funnel.totals[stage],
+        index === 0 ? '-' : formatRate(row.funnel.steps[index - 1].conversionRate),
+      ]),
+      'Nenhuma etapa de funil configurada.'
+    );
+    if (row.discardReasons.length > 0) {
+      report.table(
+        [{ header: 'Motivo de Descarte', width: 2 }, { header: 'Leads Descartados', align: 'center' }, { header: '% dos Descartes', align: 'center' }],
+        row.discardReasons.map(reason => [reason.label, reason.discarded, formatPercentage(reason.share)])
+      );
+    }
+  }
+
+  report.save(`Relatorio-Equipe-${data.range.start}_a_${data.range.end}.pdf`);
+};
+
+// One row per broker plus the team total, followed by the discard reasons per broker
+export const teamReportToCsv = (data: TeamReportData): string => {
+  const headers = ['Posição', 'Corretor', ...data.metrics.map(metric => metric.label), 'Leads Recebidos', 'Vendas', 'Conversão (%)', 'Meta de Vendas', 'Meta Atingida (%)', 'Conversão do Funil (%)', 'Recebidos por Transferência', 'Repassados por Transferência'];
+  const formatNumber = (value: number | null) => (value === null ? '' : value.toFixed(1));
+  const rows = data.rows.map((row, index) => [
+    index + 1, row.broker.brokerName, ...data.metrics.map(metric => row.totals[metric.key]), row.leadsIn, row.sales,
+    formatNumber(row.conversionRate), row.salesGoal, formatNumber(row.goalAttainment), formatNumber(row.funnel.overallConversionRate),
+    row.transfersReceived, row.transfersHandedOver,
+  ]);
+  rows.push([
+    '', 'Equipe', ...data.metrics.map(metric => data.totals.totals[metric.key]), data.totals.leadsIn, data.totals.sales,
+    formatNumber(data.totals.conversionRate), data.totals.salesGoal, formatNumber(data.totals.goalAttainment), '', '', '',
+  ]);
+  const teamDiscards = data.totals.discardReasons;
+  const reasonRows = data.rows.map(row => [row.broker.brokerName, ...teamDiscards.map(reason => getDiscardedFor(row, reason.key)), row.discarded]);
+  reasonRows.push(['Equipe', ...teamDiscards.map(reason => reason.discarded), data.totals.discarded]);
+
+  return [
+    `Período,${escapeCsv(formatRangeLabel(data.range))}`,
+    '',
+    headers.map(escapeCsv).join(','),
+    ...rows.map(row => row.map(escapeCsv).join(',')),
+    '',
+    ['Motivos de Descarte', ...teamDiscards.map(reason => reason.label), 'Total de Descartados'].map(escapeCsv).join(','),
+    ...reasonRows.map(row => row.map(escapeCsv).join(',')),
+    ...(data.transfers.length > 0 ? [
+      '',
+      ['Redistribuição de Leads', 'De', 'Para', 'Leads', 'Observação'].map(escapeCsv).join(','),
+      ...data.transfers.map(transfer => [
+        transfer.date, transfer.fromBrokerName,
+        transfer.destinations.map(destination => `${destination.brokerName} (${destination.quantity})`).join('; '),
+        transfer.total, transfer.note || '',
+      ].map(escapeCsv).join(',')),
+    ] : []),
+  ].join('\n');
+};
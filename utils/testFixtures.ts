@@ -0,0 +1,11 @@
+import type { BrokerProfile, DailyEntry } from '../types';
+import { createEmptyEntryData } from './metrics';
+
+// Records for the unit tests, filled with the defaults of a new entry or broker
+
+export const entry = (date: string, values: Partial<DailyEntry> = {}): DailyEntry => ({ ...createEmptyEntryData(), date, ...values });
+
+// Named after its ID unless a name is given
+export const broker = (id: string, dailyEntries: DailyEntry[] = [], values: Partial<BrokerProfile> = {}): BrokerProfile => ({
+  id, brokerName: id, initialLeads: 0, dailyEntries, ...values,
+});
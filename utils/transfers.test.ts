@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { BrokerProfile } from '../types';
+import { createTransferAdjustments, getLeadTransfers, removeTransferAdjustments, sumTransfers } from './transfers';
+import { broker } from './testFixtures';
+
+const team = [broker('a', [], { brokerName: 'Ana' }), broker('b', [], { brokerName: 'Bruno' }), broker('c', [], { brokerName: 'Carla' })];
+
+// The team with the adjustments of a transfer added to each broker
+const withTransfer = (brokers: BrokerProfile[], adjustments: ReturnType<typeof createTransferAdjustments>) =>
+  brokers.map(b => ({ ...b, balanceAdjustments: [...(b.balanceAdjustments || []), ...(adjustments.get(b.id) || [])] }));
+
+describe('createTransferAdjustments', () => {
+  it('takes the leads from the source and gives them to each destination under one transfer ID', () => {
+    const adjustments = createTransferAdjustments(team, {
+      fromBrokerId: 'a', date: '2026-03-02', destinations: [{ brokerId: 'b', quantity: 3 }, { brokerId: 'c', quantity: 2 }],
+    }, 'Gerente');
+
+    expect(adjustments.get('a')!.map(a => [a.amount, a.counterpartBrokerName])).toEqual([[-3, 'Bruno'], [-2, 'Carla']]);
+    expect(adjustments.get('b')!.map(a => [a.amount, a.counterpartBrokerName])).toEqual([[3, 'Ana']]);
+    expect(adjustments.get('c')!.map(a => [a.amount, a.counterpartBrokerName])).toEqual([[2, 'Ana']]);
+    expect(new Set([...adjustments.values()].flat().map(a => a.transferId)).size).toBe(1);
+  });
+});
+
+describe('getLeadTransfers', () => {
+  it('lists each transfer once with all of its destinations, most recent first', () => {
+    const first = createTransferAdjustments(team, { fromBrokerId: 'a', date: '2026-03-02', destinations: [{ brokerId: 'b', quantity: 3 }, { brokerId: 'c', quantity: 2 }] }, 'Gerente');
+    const second = createTransferAdjustments(team, { fromBrokerId: 'b', date: '2026-03-05', destinations: [{ brokerId: 'c', quantity: 1 }], note: 'Férias' }, 'Gerente');
+
+    const transfers = getLeadTransfers(withTransfer(withTransfer(team, first), second));
+
+    expect(transfers.map(t => [t.date, t.fromBrokerName, t.total, t.note])).toEqual([['2026-03-05', 'Bruno', 1, 'Férias'], ['2026-03-02', 'Ana', 5, undefined]]);
+    expect(transfers[1].destinations).toEqual([{ brokerId: 'b', brokerName: 'Bruno', quantity: 3 }, { brokerId: 'c', brokerName: 'Carla', quantity: 2 }]);
+  });
+
+  it('keeps the name recorded at the time for a destination that no longer exists', () => {
+    const adjustments = createTransferAdjustments(team, { fromBrokerId: 'a', date: '2026-03-02', destinations: [{ brokerId: 'c', quantity: 2 }] }, 'Gerente');
+
+    const [transfer] = getLeadTransfers(withTransfer(team, adjustments).filter(b => b.id !== 'c'));
+
+    expect(transfer.destinations).toEqual([{ brokerId: 'c', brokerName: 'Carla', quantity: 2 }]);
+  });
+
+  it('forgets a transfer once its adjustments are removed from both sides', () => {
+    const adjustments = createTransferAdjustments(team, { fromBrokerId: 'a', date: '2026-03-02', destinations: [{ brokerId: 'b', quantity: 3 }] }, 'Gerente');
+    const brokers = withTransfer(team, adjustments);
+    const [{ transferId }] = getLeadTransfers(brokers);
+
+    const updated = removeTransferAdjustments(brokers, transferId);
+
+    expect(updated.map(b => b.id)).toEqual(['a', 'b']);
+    expect(getLeadTransfers(updated)).toEqual([]);
+    expect(sumTransfers(brokers[1], '2026-03-01', '2026-03-31')).toEqual({ received: 3, handedOver: 0 });
+  });
+});
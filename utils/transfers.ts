@@ -0,0 +1,99 @@
+import type { BalanceAdjustment, BrokerProfile } from '../types';
+import { generateId } from './id';
+
+export interface TransferDestination {
+  brokerId: string;
+  quantity: number;
+}
+
+export interface LeadTransferRequest {
+  fromBrokerId: string;
+  date: string; // YYYY-MM-DD
+  destinations: TransferDestination[];
+  note?: string;
+}
+
+// A transfer as shown in the team view, rebuilt from the adjustments on the source broker.
+export interface LeadTransfer {
+  transferId: string;
+  date: string;
+  fromBrokerId: string;
+  fromBrokerName: string;
+  destinations: { brokerId: string; brokerName: string; quantity: number }[];
+  total: number;
+  note?: string;
+  author: string;
+  createdAt: string;
+}
+
+// Adjustments that record a transfer: one negative adjustment on the source per destination, so that
+// each side names its counterpart, and one positive adjustment on each destination.
+export const createTransferAdjustments = (
+  brokers: BrokerProfile[],
+  request: LeadTransferRequest,
+  author: string
+): Map<string, BalanceAdjustment[]> => {
+  const transferId = generateId();
+  const createdAt = new Date().toISOString();
+  const getName = (brokerId: string) => brokers.find(b => b.id === brokerId)?.brokerName ?? '';
+  const base = { date: request.date, reason: 'transfer' as const, note: request.note, author, createdAt, transferId };
+  const byBroker = new Map<string, BalanceAdjustment[]>();
+  const add = (brokerId: string, adjustment: BalanceAdjustment) => byBroker.set(brokerId, [...(byBroker.get(brokerId) || []), adjustment]);
+  for (const destination of request.destinations) {
+    add(request.fromBrokerId, {
+      ...base, id: generateId(), amount: -destination.quantity,
+      counterpartBrokerId: destination.brokerId, counterpartBrokerName: getName(destination.brokerId),
+    });
+    add(destination.brokerId, {
+      ...base, id: generateId(), amount: destination.quantity,
+      counterpartBrokerId: request.fromBrokerId, counterpartBrokerName: getName(request.fromBrokerId),
+    });
+  }
+  return byBroker;
+};
+
+// Every broker that holds part of the transfer, with its adjustments removed.
+export const removeTransferAdjustments = (brokers: BrokerProfile[], transferId: string): BrokerProfile[] =>
+  brokers
+    .filter(broker => (broker.balanceAdjustments || []).some(a => a.transferId === transferId))
+    .map(broker => ({ ...broker, balanceAdjustments: broker.balanceAdjustments!.filter(a => a.transferId !== transferId) }));
+
+// Transfers of the given brokers, most recent first. Only the source side is read, so each transfer
+// appears once even when several destinations are listed.
+export const getLeadTransfers = (brokers: BrokerProfile[]): LeadTransfer[] => {
+  const transfers = new Map<string, LeadTransfer>();
+  for (const broker of brokers) {
+    for (const adjustment of broker.balanceAdjustments || []) {
+      if (!adjustment.transferId || adjustment.amount >= 0) continue;
+      const transfer = transfers.get(adjustment.transferId) || {
+        transferId: adjustment.transferId,
+        date: adjustment.date,
+        fromBrokerId: broker.id,
+        fromBrokerName: broker.brokerName,
+        destinations: [],
+        total: 0,
+        note: adjustment.note,
+        author: adjustment.author,
+        createdAt: adjustment.createdAt,
+      };
+      const counterpart = brokers.find(b => b.id === adjustment.counterpartBrokerId);
+      transfer.destinations.push({
+        brokerId: adjustment.counterpartBrokerId ?? '',
+        brokerName: counterpart?.brokerName ?? adjustment.counterpartBrokerName ?? '',
+        quantity: -adjustment.amount,
+      });
+      transfer.total -= adjustment.amount;
+      transfers.set(adjustment.transferId, transfer);
+    }
+  }
+  return [...transfers.values()].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+};
+
+// Leads a broker received and handed over through transfers between two dates (inclusive)
+export const sumTransfers = (broker: BrokerProfile, start: string, end: string): { received: number; handedOver: number } => {
+  const transfers = (broker.balanceAdjustments || []).filter(a => a.transferId && a.date >= start && a.date <= end);
+  return {
+    received: transfers.filter(a => a.amount > 0).reduce((sum, a) => sum + a.amount, 0),
+    handedOver: transfers.filter(a => a.amount < 0).reduce((sum, a) => sum - a.amount, 0),
+  };
+};
@@ -0,0 +1,88 @@
+import type { BrokerProfile, UserAccount, UserRole } from '../types';
+
+// Local accounts: who may see and change what on this device. Accounts and their PIN hashes stay in this
+// browser's storage; they are not part of backups nor of sync.
+
+export type Permission =
+  | 'viewTeam' // Management screen, rankings and every broker's dashboard
+  | 'manageBrokers' // Add, edit, archive and set goals
+  | 'deleteBrokers' // Trash and permanent deletion
+  | 'adjustBalances' // Balance adjustments, transfers and lead distribution
+  | 'revertChanges'
+  | 'approveEntries' // Entries saved by users without it wait for approval
+  | 'closeMonths' // Close and reopen months
+  | 'exportTeam' // Team reports
+  | 'manageBackups'
+  | 'manageSettings' // Agency settings and sync
+  | 'manageUsers';
+
+// What the users panel edits; the PIN is handled separately
+export interface UserAccountInput {
+  id?: string; // Missing for a new account
+  name: string;
+  role: UserRole;
+  brokerId?: string;
+}
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: 'Administrador',
+  manager: 'Gerente',
+  broker: 'Corretor',
+};
+
+export const roleDescriptions: Record<UserRole, string> = {
+  admin: 'Tudo, inclusive backups, configurações e usuários.',
+  manager: 'Vê a equipe, cadastra corretores, define metas, ajusta saldos, aprova lançamentos e fecha meses.',
+  broker: 'Vê e lança apenas os próprios dados.',
+};
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  admin: ['viewTeam', 'manageBrokers', 'deleteBrokers', 'adjustBalances', 'revertChanges', 'approveEntries', 'closeMonths', 'exportTeam', 'manageBackups', 'manageSettings', 'manageUsers'],
+  manager: ['viewTeam', 'manageBrokers', 'adjustBalances', 'revertChanges', 'approveEntries', 'closeMonths', 'exportTeam'],
+  broker: [],
+};
+
+export const hasPermission = (user: UserAccount, permission: Permission): boolean =>
+  rolePermissions[user.role].includes(permission);
+
+// Brokers only reach their own record; everyone who sees the team reaches every broker
+export const canAccessBroker = (user: UserAccount, brokerId: string): boolean =>
+  hasPermission(user, 'viewTeam') || user.brokerId === brokerId;
+
+export const MIN_PIN_LENGTH = 4;
+
+export const isValidPin = (pin: string): boolean => pin.length >= MIN_PIN_LENGTH;
+
+const PIN_HASH_ITERATIONS = 100000;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(pair => parseInt(pair, 16)));
+
+// PBKDF2 with a per-account salt, so equal PINs of different accounts do not look alike. Browsers only
+// offer it in secure contexts (HTTPS or localhost).
+export const hashPin = async (pin: string, salt: string): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Este navegador não permite proteger o PIN nesta conexão. Abra o aplicativo por HTTPS ou pelo próprio computador (localhost).');
+  }
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations: PIN_HASH_ITERATIONS }, key, 256);
+  return toHex(bits);
+};
+
+export const createPinCredentials = async (pin: string): Promise<Pick<UserAccount, 'pinHash' | 'pinSalt'>> => {
+  const pinSalt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { pinSalt, pinHash: await hashPin(pin, pinSalt) };
+};
+
+export const verifyPin = async (user: UserAccount, pin: string): Promise<boolean> =>
+  (await hashPin(pin, user.pinSalt)) === user.pinHash;
+
+// "Gerente" or "Corretor (Ana Souza)", for lists of accounts
+export const describeUser = (user: UserAccount, brokers: BrokerProfile[]): string => {
+  const broker = user.brokerId ? brokers.find(b => b.id === user.brokerId) : undefined;
+  return `${roleLabels[user.role]}${user.role === 'broker' ? ` (${broker?.brokerName ?? 'corretor removido'})` : ''}`;
+};
+
+export const countAdmins = (users: UserAccount[]): number => users.filter(user => user.role === 'admin').length;